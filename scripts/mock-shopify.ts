@@ -0,0 +1,33 @@
+// Offline Shopify Admin API for development. Run it, then start the app with
+// SHOPIFY_MOCK_URL pointing here:
+//
+//   npm run mock:shopify                       # http://localhost:4010
+//   SHOPIFY_MOCK_URL=http://localhost:4010 npm run dev
+//
+// Connect any *.myshopify.com domain on the home page; OAuth approves instantly
+// and all data comes from fixtures/shopify (or SHOPIFY_FIXTURES_DIR). Set
+// SHOPIFY_MOCK_THROTTLE_EVERY=N to answer every Nth API call with a 429.
+import 'dotenv/config';
+import { AddressInfo } from 'net';
+import { DEFAULT_FIXTURES_DIR, loadFixtures, startMockShopifyServer } from '@/lib/shopify-mock';
+
+const port = Number(process.env.SHOPIFY_MOCK_PORT || 4010);
+const fixturesDir = process.env.SHOPIFY_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+const throttleEvery = Number(process.env.SHOPIFY_MOCK_THROTTLE_EVERY) || 0;
+
+startMockShopifyServer(port, loadFixtures(fixturesDir), { throttleEvery })
+  .then(server => {
+    const { port: listening } = server.address() as AddressInfo;
+    console.log(`[MockShopify] Serving ${fixturesDir} on http://localhost:${listening}`);
+    if (!process.env.SHOPIFY_API_SECRET) {
+      console.warn('[MockShopify] SHOPIFY_API_SECRET is not set — OAuth callbacks will fail HMAC verification');
+    }
+
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+      process.on(signal, () => server.close(() => process.exit(0)));
+    }
+  })
+  .catch(err => {
+    console.error('[MockShopify] Failed to start:', err);
+    process.exit(1);
+  });
@@ -0,0 +1,79 @@
+// Encrypt stored Shopify access tokens (offline tokens on shops and online
+// tokens on staff sessions) under the current key. Safe to re-run:
+//
+//   npm run db:reencrypt-tokens
+//
+// Run once after upgrading, to encrypt tokens stored before encryption existed,
+// and after every key rotation (a new key first in TOKEN_ENCRYPTION_KEYS).
+// Once it reports nothing left on old keys, the old key can be removed.
+import 'dotenv/config';
+import { prisma } from '@/lib/prisma';
+import { decryptToken, encryptToken, isEncrypted, needsReencryption } from '@/lib/encryption';
+
+interface Counts {
+  encrypted: number;
+  rotated: number;
+}
+
+// Re-encrypt one stored token; `update` writes it back only if the row still
+// holds `stored`, so a token replaced in the meantime is left alone
+async function reencrypt(
+  stored: string,
+  label: string,
+  update: (accessToken: string) => Promise<{ count: number }>,
+  counts: Counts
+) {
+  if (!needsReencryption(stored)) return;
+
+  const wasEncrypted = isEncrypted(stored);
+  const { count } = await update(encryptToken(decryptToken(stored)));
+
+  if (count === 0) return;
+  if (wasEncrypted) counts.rotated++;
+  else counts.encrypted++;
+  console.log(`[Encryption] ${wasEncrypted ? 'Rotated' : 'Encrypted'} token for ${label}`);
+}
+
+function summary(noun: string, total: number, { encrypted, rotated }: Counts): string {
+  return `${total} ${noun}(s): ${encrypted} encrypted, ${rotated} moved to the current key, ` +
+    `${total - encrypted - rotated} already current`;
+}
+
+async function main() {
+  // Offline tokens, one per shop
+  const shops = await prisma.shop.findMany({ select: { id: true, domain: true, accessToken: true } });
+  const shopCounts: Counts = { encrypted: 0, rotated: 0 };
+
+  for (const shop of shops) {
+    await reencrypt(shop.accessToken, shop.domain, accessToken => prisma.shop.updateMany({
+      where: { id: shop.id, accessToken: shop.accessToken },
+      data: { accessToken },
+    }), shopCounts);
+  }
+
+  // Online tokens, one per signed-in staff member. getShopSession can't
+  // decrypt these once their key is removed either.
+  const sessions = await prisma.shopSession.findMany({
+    where: { accessToken: { not: null } },
+    select: { id: true, accessToken: true, userEmail: true, shop: { select: { domain: true } } },
+  });
+  const sessionCounts: Counts = { encrypted: 0, rotated: 0 };
+
+  for (const session of sessions) {
+    const label = `${session.userEmail ?? 'staff session'} on ${session.shop.domain}`;
+    await reencrypt(session.accessToken!, label, accessToken => prisma.shopSession.updateMany({
+      where: { id: session.id, accessToken: session.accessToken },
+      data: { accessToken },
+    }), sessionCounts);
+  }
+
+  console.log(`[Encryption] ${summary('shop', shops.length, shopCounts)}`);
+  console.log(`[Encryption] ${summary('online session', sessions.length, sessionCounts)}`);
+}
+
+main()
+  .catch(err => {
+    console.error('[Encryption] Re-encryption failed:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
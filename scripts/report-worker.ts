@@ -0,0 +1,53 @@
+// Scheduled report worker. Runs next to the web process (see Procfile):
+//
+//   npm run worker           poll for due reports every minute
+//   npm run worker -- --once send whatever is due and exit (for cron)
+import 'dotenv/config';
+import { prisma } from '@/lib/prisma';
+import { runDueReports } from '@/lib/scheduled-reports';
+import { isEmailConfigured } from '@/lib/email';
+
+const POLL_INTERVAL = 60000;
+
+let stopping = false;
+
+async function tick() {
+  try {
+    const sent = await runDueReports();
+    if (sent > 0) console.log(`[Worker] Sent ${sent} scheduled report(s)`);
+  } catch (err) {
+    console.error('[Worker] Run failed:', err);
+  }
+}
+
+async function main() {
+  if (!isEmailConfigured()) {
+    console.warn('[Worker] SMTP_HOST is not set — reports will be logged as failed');
+  }
+
+  if (process.argv.includes('--once')) {
+    await tick();
+    return;
+  }
+
+  console.log(`[Worker] Polling for scheduled reports every ${POLL_INTERVAL / 1000}s`);
+  while (!stopping) {
+    await tick();
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+  }
+}
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    console.log(`[Worker] ${signal} received, shutting down`);
+    stopping = true;
+    prisma.$disconnect().finally(() => process.exit(0));
+  });
+}
+
+main()
+  .catch(err => {
+    console.error('[Worker] Fatal error:', err);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
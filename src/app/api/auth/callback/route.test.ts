@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { setShopSession } from '@/lib/session';
+import { buildAuthUrl } from '@/lib/shopify';
+import { loadFixtures, startMockShopifyServer } from '@/lib/shopify-mock';
+import { GET } from './route';
+
+const cookieJar = new Map<string, string>();
+vi.mock('next/headers', () => ({
+  cookies: async () => ({
+    get: (name: string) => (cookieJar.has(name) ? { name, value: cookieJar.get(name) } : undefined),
+    set: (name: string, value: string) => cookieJar.set(name, value),
+    delete: (cookie: string | { name: string }) => cookieJar.delete(typeof cookie === 'string' ? cookie : cookie.name),
+  }),
+}));
+vi.mock('@/lib/prisma', () => ({
+  prisma: { shop: { upsert: vi.fn(), findUnique: vi.fn() } },
+}));
+vi.mock('@/lib/session', () => ({ setShopSession: vi.fn() }));
+
+const shop = 'puplabsco.myshopify.com';
+let server: Server;
+
+beforeAll(async () => {
+  process.env.SHOPIFY_API_SECRET = 'test-secret';
+  process.env.APP_URL = 'http://app.test';
+  process.env.TOKEN_ENCRYPTION_KEYS = `test:${crypto.randomBytes(32).toString('base64')}`;
+  server = await startMockShopifyServer(0, loadFixtures());
+  process.env.SHOPIFY_MOCK_URL = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  delete process.env.SHOPIFY_MOCK_URL;
+  server.close();
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  cookieJar.clear();
+  delete process.env.SHOPIFY_ACCESS_MODE;
+  vi.mocked(prisma.shop.upsert).mockResolvedValue({ id: 'shop_1' } as never);
+  vi.mocked(prisma.shop.findUnique).mockResolvedValue({ id: 'shop_1' } as never);
+});
+
+// Send the browser to Shopify's consent screen (the mock approves at once) and
+// return the callback URL it is redirected back to
+async function authorize(state: string, mode: 'offline' | 'online' = 'offline'): Promise<URL> {
+  const response = await fetch(buildAuthUrl(shop, state, mode), { redirect: 'manual' });
+  return new URL(response.headers.get('location')!);
+}
+
+function callback(url: URL) {
+  return GET(new NextRequest(url));
+}
+
+function errorReason(response: Response) {
+  return new URL(response.headers.get('location')!).searchParams.get('reason');
+}
+
+describe('GET /api/auth/callback', () => {
+  it('installs the store and signs in when the state matches', async () => {
+    cookieJar.set('puplabs_oauth_state', 'nonce-1');
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+    const response = await callback(await authorize('nonce-1'));
+    const webhookTopics = fetchSpy.mock.calls
+      .map(([, init]) => String(init?.body || ''))
+      .filter(body => body.includes('webhookSubscriptionCreate'))
+      .map(body => JSON.parse(body).variables.topic);
+    fetchSpy.mockRestore();
+
+    expect(response.headers.get('location')).toBe('http://app.test/dashboard');
+    expect(prisma.shop.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { domain: shop },
+      create: expect.objectContaining({ accessToken: expect.stringMatching(/^enc:v1:test:/) }),
+    }));
+    expect(setShopSession).toHaveBeenCalledWith('shop_1');
+    expect(webhookTopics).toEqual(['PRODUCTS_UPDATE', 'PRODUCTS_DELETE', 'APP_UNINSTALLED']);
+    // The nonce can't be used twice
+    expect(cookieJar.has('puplabs_oauth_state')).toBe(false);
+  });
+
+  it('rejects a callback whose state does not match the cookie', async () => {
+    cookieJar.set('puplabs_oauth_state', 'nonce-1');
+
+    const response = await callback(await authorize('someone-elses-nonce'));
+
+    expect(errorReason(response)).toBe('invalid_state');
+    expect(prisma.shop.upsert).not.toHaveBeenCalled();
+  });
+
+  it('rejects a callback with no state cookie', async () => {
+    const response = await callback(await authorize('nonce-1'));
+
+    expect(errorReason(response)).toBe('invalid_state');
+  });
+
+  it('rejects a tampered signature', async () => {
+    cookieJar.set('puplabs_oauth_state', 'nonce-1');
+    const url = await authorize('nonce-1');
+    url.searchParams.set('hmac', 'forged');
+
+    const response = await callback(url);
+
+    expect(errorReason(response)).toBe('invalid_hmac');
+    expect(setShopSession).not.toHaveBeenCalled();
+  });
+
+  it('rejects a shop that is not a myshopify domain', async () => {
+    const url = new URL('http://app.test/api/auth/callback?code=abc&hmac=def&shop=evil.example.com');
+
+    const response = await callback(url);
+
+    expect(errorReason(response)).toBe('invalid_shop');
+  });
+
+  it('asks for a per-user grant after installing in online mode', async () => {
+    process.env.SHOPIFY_ACCESS_MODE = 'online';
+    cookieJar.set('puplabs_oauth_state', 'nonce-1');
+
+    const response = await callback(await authorize('nonce-1'));
+    const next = new URL(response.headers.get('location')!);
+
+    expect(next.pathname).toBe(`/${shop}/admin/oauth/authorize`);
+    expect(next.searchParams.getAll('grant_options[]')).toEqual(['per-user']);
+    expect(next.searchParams.get('state')).toBe(cookieJar.get('puplabs_oauth_state'));
+    expect(setShopSession).not.toHaveBeenCalled();
+  });
+
+  it('signs the staff member in with their own token on the online leg', async () => {
+    process.env.SHOPIFY_ACCESS_MODE = 'online';
+    cookieJar.set('puplabs_oauth_state', 'nonce-2');
+
+    const response = await callback(await authorize('nonce-2', 'online'));
+
+    expect(response.headers.get('location')).toBe('http://app.test/dashboard');
+    expect(prisma.shop.upsert).not.toHaveBeenCalled();
+    expect(setShopSession).toHaveBeenCalledWith('shop_1', expect.objectContaining({
+      accessToken: expect.stringMatching(/^enc:v1:/),
+      userEmail: 'owner@example.com',
+    }));
+    const { expiresAt } = vi.mocked(setShopSession).mock.calls[0][1]!;
+    expect(expiresAt.getTime()).toBeGreaterThan(Date.now() + 23 * 60 * 60 * 1000);
+  });
+});
@@ -1,81 +1,73 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { exchangeCodeForToken, fetchShopTimezone } from '@/lib/shopify';
+import { buildAuthUrl, exchangeCodeForToken, getAccessMode, verifyHmac } from '@/lib/shopify';
 import { prisma } from '@/lib/prisma';
 import { setShopSession } from '@/lib/session';
-import crypto from 'crypto';
+import { encryptToken } from '@/lib/encryption';
+import { installShop } from '@/lib/install';
+import { appUrl, authErrorRedirect, consumeOAuthState, createOAuthState } from '@/lib/oauth';
+import { normalizeShopDomain } from '@/lib/shop-domain';
 
 export async function GET(request: NextRequest) {
   const { searchParams } = request.nextUrl;
-  const shop = searchParams.get('shop');
+  const shop = normalizeShopDomain(searchParams.get('shop'));
   const code = searchParams.get('code');
   const hmac = searchParams.get('hmac');
 
-  if (!shop || !code || !hmac) {
-    return NextResponse.json({ error: 'Missing required parameters' }, { status: 400 });
+  if (!code || !hmac) {
+    return authErrorRedirect('missing_params', shop);
+  }
+
+  if (!shop) {
+    return authErrorRedirect('invalid_shop', searchParams.get('shop'));
   }
 
   // Verify HMAC
   if (!verifyHmac(searchParams)) {
-    return NextResponse.json({ error: 'HMAC verification failed' }, { status: 403 });
+    return authErrorRedirect('invalid_hmac', shop);
+  }
+
+  // The nonce must match the one /api/auth set in this browser
+  if (!(await consumeOAuthState(searchParams.get('state')))) {
+    return authErrorRedirect('invalid_state', shop);
+  }
+
+  let token;
+  try {
+    token = await exchangeCodeForToken(shop, code);
+  } catch (error) {
+    console.error(`[Auth] Token exchange failed for ${shop}:`, error);
+    return authErrorRedirect('token_exchange_failed', shop);
   }
 
   try {
-    // Exchange code for access token
-    const { access_token, scope } = await exchangeCodeForToken(shop, code);
+    // Second leg in online mode: a staff member's own token for this browser
+    if (token.associated_user) {
+      const shopRecord = await prisma.shop.findUnique({ where: { domain: shop }, select: { id: true } });
+      if (!shopRecord) return authErrorRedirect('not_installed', shop);
 
-    // Get the store's timezone
-    const timezone = await fetchShopTimezone(shop, access_token);
+      await setShopSession(shopRecord.id, {
+        accessToken: encryptToken(token.access_token),
+        expiresAt: new Date(Date.now() + (token.expires_in ?? 0) * 1000),
+        userId: token.associated_user.id,
+        userEmail: token.associated_user.email,
+      });
+      return NextResponse.redirect(appUrl('/dashboard'));
+    }
 
-    // Save or update shop in database
-    await prisma.shop.upsert({
-      where: { domain: shop },
-      update: {
-        accessToken: access_token,
-        scope,
-        timezone,
-      },
-      create: {
-        domain: shop,
-        accessToken: access_token,
-        scope,
-        timezone,
-      },
-    });
+    const shopRecord = await installShop(shop, token);
+
+    // Online mode: the store is installed, now sign the staff member in
+    if (getAccessMode() === 'online') {
+      return NextResponse.redirect(buildAuthUrl(shop, await createOAuthState(), 'online'));
+    }
 
     // Set session cookie
-    await setShopSession(shop);
+    await setShopSession(shopRecord.id);
 
     // Redirect to dashboard
-    const appUrl = process.env.APP_URL || 'http://localhost:3000';
-    return NextResponse.redirect(`${appUrl}/dashboard`);
+    return NextResponse.redirect(appUrl('/dashboard'));
   } catch (error) {
     console.error('OAuth callback error:', error);
-    return NextResponse.json({ error: 'Authentication failed' }, { status: 500 });
+    return authErrorRedirect('server_error', shop);
   }
 }
-
-function verifyHmac(params: URLSearchParams): boolean {
-  const secret = process.env.SHOPIFY_API_SECRET;
-  if (!secret) return false;
-
-  const hmac = params.get('hmac');
-  if (!hmac) return false;
-
-  // Build the message from all params except hmac
-  const entries: [string, string][] = [];
-  params.forEach((value, key) => {
-    if (key !== 'hmac') {
-      entries.push([key, value]);
-    }
-  });
-
-  entries.sort((a, b) => a[0].localeCompare(b[0]));
-  const message = entries.map(([key, value]) => `${key}=${value}`).join('&');
-
-  const computed = crypto
-    .createHmac('sha256', secret)
-    .update(message)
-    .digest('hex');
-
-  return crypto.timingSafeEqual(Buffer.from(computed), Buffer.from(hmac));
-}
@@ -0,0 +1,39 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from './route';
+
+const cookieJar = new Map<string, string>();
+vi.mock('next/headers', () => ({
+  cookies: async () => ({ set: (name: string, value: string) => cookieJar.set(name, value) }),
+}));
+
+beforeEach(() => {
+  cookieJar.clear();
+  process.env.SHOPIFY_API_KEY = 'test-key';
+  process.env.APP_URL = 'http://app.test';
+});
+
+function start(shop: string) {
+  return GET(new NextRequest(`http://app.test/api/auth?shop=${encodeURIComponent(shop)}`));
+}
+
+describe('GET /api/auth', () => {
+  it('sends the merchant to Shopify with a fresh nonce as state', async () => {
+    const response = await start('PupLabsCo.myshopify.com');
+    const location = new URL(response.headers.get('location')!);
+
+    expect(location.pathname).toBe('/admin/oauth/authorize');
+    expect(location.hostname).toBe('puplabsco.myshopify.com');
+    expect(location.searchParams.get('state')).toMatch(/^[0-9a-f]{32}$/);
+    expect(location.searchParams.get('state')).toBe(cookieJar.get('puplabs_oauth_state'));
+  });
+
+  it('shows the error page for a domain that is not a store', async () => {
+    const response = await start('puplabsco.myshopify.com.evil.com');
+    const location = new URL(response.headers.get('location')!);
+
+    expect(location.pathname).toBe('/auth/error');
+    expect(location.searchParams.get('reason')).toBe('invalid_shop');
+    expect(cookieJar.size).toBe(0);
+  });
+});
@@ -1,18 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { buildAuthUrl } from '@/lib/shopify';
+import { authErrorRedirect, createOAuthState } from '@/lib/oauth';
+import { normalizeShopDomain } from '@/lib/shop-domain';
 
+// Start Shopify's install flow. The store token is always installed offline
+// first; the callback asks for the per-user grant in online mode.
 export async function GET(request: NextRequest) {
-  const shop = request.nextUrl.searchParams.get('shop');
+  const input = request.nextUrl.searchParams.get('shop');
+  const shop = normalizeShopDomain(input);
 
   if (!shop) {
-    return NextResponse.json({ error: 'Missing shop parameter' }, { status: 400 });
+    return authErrorRedirect(input ? 'invalid_shop' : 'missing_params', input);
   }
 
-  // Validate shop domain format
-  if (!shop.endsWith('.myshopify.com')) {
-    return NextResponse.json({ error: 'Invalid shop domain' }, { status: 400 });
-  }
-
-  const authUrl = buildAuthUrl(shop);
-  return NextResponse.redirect(authUrl);
+  const state = await createOAuthState();
+  return NextResponse.redirect(buildAuthUrl(shop, state));
 }
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getShopSession } from '@/lib/session';
+import { prisma } from '@/lib/prisma';
+import { toSavedComparison, copyName, COPY_NAME_PREFIX } from '@/lib/saved-comparisons';
+
+// POST /api/comparisons/:id/duplicate — copy a comparison under a free name
+export async function POST(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = await getShopSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const source = await prisma.savedComparison.findFirst({
+      where: { id, shopId: session.shopId },
+    });
+    if (!source) {
+      return NextResponse.json({ error: 'Comparison not found' }, { status: 404 });
+    }
+
+    const siblings = await prisma.savedComparison.findMany({
+      where: { shopId: session.shopId, name: { startsWith: source.name.slice(0, COPY_NAME_PREFIX) } },
+      select: { name: true },
+    });
+    const name = copyName(source.name, new Set(siblings.map(s => s.name)));
+
+    const row = await prisma.savedComparison.create({
+      data: {
+        shopId: session.shopId,
+        name,
+        groups: source.groups ?? [],
+        baselineIndex: source.baselineIndex,
+        datePreset: source.datePreset,
+      },
+    });
+
+    return NextResponse.json({ comparison: toSavedComparison(row) }, { status: 201 });
+  } catch (error) {
+    console.error('[Comparisons] Failed to duplicate:', error);
+    return NextResponse.json({ error: 'Failed to duplicate comparison' }, { status: 500 });
+  }
+}
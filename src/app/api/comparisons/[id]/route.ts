@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getShopSession } from '@/lib/session';
+import { prisma } from '@/lib/prisma';
+import {
+  toSavedComparison,
+  parseSavedComparisonInput,
+  checkGroupStores,
+  isUniqueConstraintError,
+} from '@/lib/saved-comparisons';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH /api/comparisons/:id — rename or overwrite groups / date preset
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const session = await getShopSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  let name: string | undefined;
+
+  try {
+    const existing = await prisma.savedComparison.findFirst({
+      where: { id, shopId: session.shopId },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: 'Comparison not found' }, { status: 404 });
+    }
+
+    const parsed = parseSavedComparisonInput(body, toSavedComparison(existing));
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { groups, baselineIndex, datePreset } = parsed.input;
+    name = parsed.input.name;
+
+    const storeError = groups && (await checkGroupStores(groups, session));
+    if (storeError) {
+      return NextResponse.json({ error: storeError }, { status: 403 });
+    }
+
+    const row = await prisma.savedComparison.update({
+      where: { id: existing.id },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(groups !== undefined && { groups: groups as object }),
+        ...(baselineIndex !== undefined && { baselineIndex }),
+        ...(datePreset !== undefined && { datePreset }),
+      },
+    });
+
+    return NextResponse.json({ comparison: toSavedComparison(row) });
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      return NextResponse.json({ error: `A comparison named "${name}" already exists` }, { status: 409 });
+    }
+    console.error('[Comparisons] Failed to update:', error);
+    return NextResponse.json({ error: 'Failed to update comparison' }, { status: 500 });
+  }
+}
+
+// DELETE /api/comparisons/:id
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const session = await getShopSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const { count } = await prisma.savedComparison.deleteMany({
+      where: { id, shopId: session.shopId },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Comparison not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error('[Comparisons] Failed to delete:', error);
+    return NextResponse.json({ error: 'Failed to delete comparison' }, { status: 500 });
+  }
+}
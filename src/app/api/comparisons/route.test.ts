@@ -0,0 +1,265 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { SavedComparison as SavedComparisonRow } from '@prisma/client';
+import { getShopSession } from '@/lib/session';
+import { prisma } from '@/lib/prisma';
+import { unlinkedShops } from '@/lib/accounts';
+import { GET, POST } from './route';
+import { PATCH, DELETE } from './[id]/route';
+import { POST as duplicate } from './[id]/duplicate/route';
+
+vi.mock('@/lib/session', () => ({ getShopSession: vi.fn() }));
+vi.mock('@/lib/accounts', () => ({ unlinkedShops: vi.fn() }));
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    savedComparison: { findMany: vi.fn(), findFirst: vi.fn(), create: vi.fn(), update: vi.fn(), deleteMany: vi.fn() },
+  },
+}));
+
+const session = {
+  shop: 'puplabsco.myshopify.com',
+  accessToken: 'shpat_mock_test',
+  shopId: 'shop_1',
+  timezone: 'America/New_York',
+  money: { currency: 'USD', moneyFormat: '${{amount}}', locale: 'en' },
+  sessionId: 'session_1',
+  accountId: 'account_1',
+};
+const otherShop = { ...session, shop: 'someone-else.myshopify.com', shopId: 'shop_2', accountId: 'account_2' };
+const groups = [
+  { name: 'Chews', urls: ['/products/calming-chews'] },
+  { name: 'Treats', urls: ['/products/training-treats'] },
+];
+
+// An in-memory table that honours the where clauses the routes send, so a
+// shop scoping mistake shows up as another shop's rows leaking through
+let rows: SavedComparisonRow[];
+let nextId: number;
+
+type Where = { id?: string; shopId?: string; name?: { startsWith: string } };
+const matches = (row: SavedComparisonRow, where: Where) =>
+  (where.id === undefined || row.id === where.id) &&
+  (where.shopId === undefined || row.shopId === where.shopId) &&
+  (where.name === undefined || row.name.startsWith(where.name.startsWith));
+
+function insert(data: Partial<SavedComparisonRow> & { shopId: string; name: string }): SavedComparisonRow {
+  if (rows.some(r => r.shopId === data.shopId && r.name === data.name)) {
+    throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+  }
+  const row = {
+    id: `cmp_${nextId++}`,
+    groups,
+    baselineIndex: 0,
+    datePreset: null,
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    updatedAt: new Date('2026-10-01T00:00:00Z'),
+    ...data,
+  } as SavedComparisonRow;
+  rows.push(row);
+  return row;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  rows = [];
+  nextId = 1;
+  vi.mocked(getShopSession).mockResolvedValue(session);
+  vi.mocked(unlinkedShops).mockImplementation(async (_accountId, domains) => domains);
+
+  const table = vi.mocked(prisma.savedComparison);
+  table.findMany.mockImplementation((async ({ where }: { where: Where }) =>
+    rows.filter(r => matches(r, where)).sort((a, b) => a.name.localeCompare(b.name))) as never);
+  table.findFirst.mockImplementation((async ({ where }: { where: Where }) =>
+    rows.find(r => matches(r, where)) ?? null) as never);
+  table.create.mockImplementation((async ({ data }: { data: SavedComparisonRow }) => insert(data)) as never);
+  table.update.mockImplementation((async ({ where, data }: { where: { id: string }; data: Partial<SavedComparisonRow> }) => {
+    const row = rows.find(r => r.id === where.id)!;
+    if (data.name && rows.some(r => r !== row && r.shopId === row.shopId && r.name === data.name)) {
+      throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+    }
+    return Object.assign(row, data);
+  }) as never);
+  table.deleteMany.mockImplementation((async ({ where }: { where: Where }) => {
+    const before = rows.length;
+    rows = rows.filter(r => !matches(r, where));
+    return { count: before - rows.length };
+  }) as never);
+});
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+function create(body: unknown) {
+  return POST(new NextRequest('http://localhost/api/comparisons', { method: 'POST', body: JSON.stringify(body) }));
+}
+
+function patch(id: string, body: unknown) {
+  return PATCH(
+    new NextRequest(`http://localhost/api/comparisons/${id}`, { method: 'PATCH', body: JSON.stringify(body) }),
+    params(id)
+  );
+}
+
+function remove(id: string) {
+  return DELETE(new NextRequest(`http://localhost/api/comparisons/${id}`, { method: 'DELETE' }), params(id));
+}
+
+function copy(id: string) {
+  return duplicate(new NextRequest(`http://localhost/api/comparisons/${id}/duplicate`, { method: 'POST' }), params(id));
+}
+
+describe('POST /api/comparisons', () => {
+  it('saves a comparison for the current shop', async () => {
+    const response = await create({ name: ' Weekly ', groups, baselineIndex: 1, datePreset: 'last_30_days' });
+    const { comparison } = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(comparison).toMatchObject({ name: 'Weekly', groups, baselineIndex: 1, datePreset: 'last_30_days' });
+    expect(rows[0].shopId).toBe('shop_1');
+  });
+
+  it('rejects a baseline outside the groups', async () => {
+    const response = await create({ name: 'Weekly', groups, baselineIndex: 2 });
+
+    expect(response.status).toBe(400);
+    expect(rows).toHaveLength(0);
+  });
+
+  it('rejects a name that is already taken', async () => {
+    await create({ name: 'Weekly', groups });
+
+    expect((await create({ name: 'Weekly', groups })).status).toBe(409);
+  });
+
+  it('refuses groups pointing at stores not linked to the account', async () => {
+    const response = await create({ name: 'Weekly', groups: [{ ...groups[0], shop: 'someone-else' }] });
+
+    expect(response.status).toBe(403);
+    expect(rows).toHaveLength(0);
+  });
+});
+
+describe('GET /api/comparisons', () => {
+  it("lists only the current shop's comparisons, by name", async () => {
+    insert({ shopId: 'shop_1', name: 'Weekly' });
+    insert({ shopId: 'shop_2', name: 'Theirs' });
+    insert({ shopId: 'shop_1', name: 'Monthly' });
+
+    const { comparisons } = await (await GET()).json();
+
+    expect(comparisons.map((c: { name: string }) => c.name)).toEqual(['Monthly', 'Weekly']);
+  });
+});
+
+describe('PATCH /api/comparisons/:id', () => {
+  it('renames a comparison', async () => {
+    const { id } = insert({ shopId: 'shop_1', name: 'Weekly' });
+
+    const response = await patch(id, { name: 'Weekly chews' });
+
+    expect(response.status).toBe(200);
+    expect(rows[0].name).toBe('Weekly chews');
+  });
+
+  it('checks a baseline on its own against the saved groups', async () => {
+    const { id } = insert({ shopId: 'shop_1', name: 'Weekly' });
+
+    expect((await patch(id, { baselineIndex: 1 })).status).toBe(200);
+    expect((await patch(id, { baselineIndex: 2 })).status).toBe(400);
+    expect(rows[0].baselineIndex).toBe(1);
+  });
+
+  it('rejects groups that would leave the saved baseline behind', async () => {
+    const { id } = insert({ shopId: 'shop_1', name: 'Weekly', baselineIndex: 1 });
+
+    expect((await patch(id, { groups: [groups[0]] })).status).toBe(400);
+    expect((await patch(id, { groups: [groups[0]], baselineIndex: 0 })).status).toBe(200);
+  });
+
+  it('rejects a name another comparison already has', async () => {
+    insert({ shopId: 'shop_1', name: 'Monthly' });
+    const { id } = insert({ shopId: 'shop_1', name: 'Weekly' });
+
+    expect((await patch(id, { name: 'Monthly' })).status).toBe(409);
+  });
+
+  it("cannot change another shop's comparison", async () => {
+    const { id } = insert({ shopId: 'shop_2', name: 'Theirs' });
+
+    const response = await patch(id, { name: 'Mine now' });
+
+    expect(response.status).toBe(404);
+    expect(rows[0].name).toBe('Theirs');
+    expect(prisma.savedComparison.update).not.toHaveBeenCalled();
+  });
+
+  it('answers a database failure with a 500', async () => {
+    vi.mocked(prisma.savedComparison.findFirst).mockRejectedValue(new Error('connection lost'));
+
+    const response = await patch('cmp_1', { name: 'Weekly' });
+
+    expect(response.status).toBe(500);
+  });
+});
+
+describe('POST /api/comparisons/:id/duplicate', () => {
+  it('copies a comparison under the next free name', async () => {
+    const { id } = insert({ shopId: 'shop_1', name: 'Weekly', baselineIndex: 1, datePreset: 'last_7_days' });
+
+    const first = (await (await copy(id)).json()).comparison;
+    const second = (await (await copy(id)).json()).comparison;
+
+    expect(first).toMatchObject({ name: 'Weekly (copy)', groups, baselineIndex: 1, datePreset: 'last_7_days' });
+    expect(second.name).toBe('Weekly (copy 2)');
+  });
+
+  it('shortens a long name so the copy stays within the limit', async () => {
+    const { id } = insert({ shopId: 'shop_1', name: 'x'.repeat(100) });
+
+    const first = (await (await copy(id)).json()).comparison;
+    const second = (await (await copy(id)).json()).comparison;
+
+    expect(first.name).toBe(`${'x'.repeat(93)} (copy)`);
+    expect(second.name).toBe(`${'x'.repeat(91)} (copy 2)`);
+  });
+
+  it("cannot copy another shop's comparison", async () => {
+    const { id } = insert({ shopId: 'shop_2', name: 'Theirs' });
+
+    expect((await copy(id)).status).toBe(404);
+    expect(rows).toHaveLength(1);
+  });
+});
+
+describe('DELETE /api/comparisons/:id', () => {
+  it('deletes a comparison', async () => {
+    const { id } = insert({ shopId: 'shop_1', name: 'Weekly' });
+
+    expect((await remove(id)).status).toBe(200);
+    expect(rows).toHaveLength(0);
+  });
+
+  it("cannot delete another shop's comparison", async () => {
+    const { id } = insert({ shopId: 'shop_1', name: 'Weekly' });
+    vi.mocked(getShopSession).mockResolvedValue(otherShop);
+
+    expect((await remove(id)).status).toBe(404);
+    expect(rows).toHaveLength(1);
+  });
+});
+
+describe('without a session', () => {
+  it('refuses every route', async () => {
+    vi.mocked(getShopSession).mockResolvedValue(null);
+
+    const statuses = await Promise.all([
+      GET(),
+      create({ name: 'Weekly', groups }),
+      patch('cmp_1', { name: 'Weekly' }),
+      copy('cmp_1'),
+      remove('cmp_1'),
+    ].map(async response => (await response).status));
+
+    expect(statuses).toEqual([401, 401, 401, 401, 401]);
+  });
+});
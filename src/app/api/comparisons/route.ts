@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getShopSession } from '@/lib/session';
+import { prisma } from '@/lib/prisma';
+import {
+  toSavedComparison,
+  parseSavedComparisonInput,
+  checkGroupStores,
+  isUniqueConstraintError,
+} from '@/lib/saved-comparisons';
+
+// GET /api/comparisons — list saved comparisons for the current shop
+export async function GET() {
+  const session = await getShopSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const rows = await prisma.savedComparison.findMany({
+      where: { shopId: session.shopId },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ comparisons: rows.map(toSavedComparison) });
+  } catch (error) {
+    console.error('[Comparisons] Failed to list:', error);
+    return NextResponse.json({ error: 'Failed to load saved comparisons' }, { status: 500 });
+  }
+}
+
+// POST /api/comparisons — save a new comparison
+export async function POST(request: NextRequest) {
+  const session = await getShopSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const parsed = parseSavedComparisonInput(await request.json().catch(() => null), null);
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const { name, groups, baselineIndex, datePreset } = parsed.input;
+
+  const storeError = await checkGroupStores(groups!, session);
+  if (storeError) {
+    return NextResponse.json({ error: storeError }, { status: 403 });
+  }
+
+  try {
+    const row = await prisma.savedComparison.create({
+      data: {
+        shopId: session.shopId,
+        name: name!,
+        groups: groups as object,
+        baselineIndex: baselineIndex ?? 0,
+        datePreset: datePreset ?? null,
+      },
+    });
+
+    return NextResponse.json({ comparison: toSavedComparison(row) }, { status: 201 });
+  } catch (error) {
+    if (isUniqueConstraintError(error)) {
+      return NextResponse.json({ error: `A comparison named "${name}" already exists` }, { status: 409 });
+    }
+    console.error('[Comparisons] Failed to create:', error);
+    return NextResponse.json({ error: 'Failed to save comparison' }, { status: 500 });
+  }
+}
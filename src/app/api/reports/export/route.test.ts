@@ -0,0 +1,132 @@
+import ExcelJS from 'exceljs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getShopSession } from '@/lib/session';
+import { calculateCustomerTypeMetrics, calculatePageMetrics, aggregateGroupMetrics } from '@/lib/calculations';
+import { POST } from './route';
+
+vi.mock('@/lib/session', () => ({ getShopSession: vi.fn() }));
+
+const dateRange = { start: '2026-09-01', end: '2026-09-30' };
+const pages = [
+  calculatePageMetrics('/products/a', 'Product A', 1000, 2000, 40),
+  calculatePageMetrics('/products/b', 'Product B', 800, 2400, 48),
+];
+const groups = [
+  aggregateGroupMetrics('Group A', ['/products/a'], pages),
+  aggregateGroupMetrics('Group B', ['/products/b'], pages),
+];
+
+beforeEach(() => {
+  vi.mocked(getShopSession).mockResolvedValue({
+    shop: 'puplabsco.myshopify.com',
+    accessToken: 'shpat_mock_test',
+    shopId: 'shop_1',
+    timezone: 'America/New_York',
+    money: { currency: 'USD', moneyFormat: '${{amount}}', locale: 'en' },
+    sessionId: 'session_1',
+    accountId: 'account_1',
+  });
+});
+
+function post(body: unknown) {
+  return POST(new NextRequest('http://localhost/api/reports/export', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  }));
+}
+
+describe('POST /api/reports/export', () => {
+  it('rejects requests without a shop session', async () => {
+    vi.mocked(getShopSession).mockResolvedValue(null);
+
+    expect((await post({ groups, dateRange })).status).toBe(401);
+  });
+
+  it('requires at least one group', async () => {
+    expect((await post({ groups: [], dateRange })).status).toBe(400);
+  });
+
+  it('rejects unknown formats', async () => {
+    const response = await post({ groups, dateRange, format: 'docx' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/docx/);
+  });
+
+  it('defaults to a PDF attachment', async () => {
+    const response = await post({ groups, dateRange });
+    const body = Buffer.from(await response.arrayBuffer());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/pdf');
+    expect(response.headers.get('Content-Disposition')).toBe(
+      'attachment; filename="puplabs-analytics-2026-09-01-to-2026-09-30.pdf"'
+    );
+    expect(body.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('exports the group summary as CSV', async () => {
+    const response = await post({ groups, dateRange, format: 'csv' });
+    const lines = (await response.text()).trim().split('\r\n');
+
+    expect(response.headers.get('Content-Type')).toMatch(/^text\/csv/);
+    expect(lines).toHaveLength(3);
+    expect(lines[0].split(',').slice(0, 6)).toEqual(['Group', 'Baseline', 'Start Date', 'End Date', 'Sessions', 'Orders']);
+    // Conversion rate is a fraction so spreadsheets can format it as a percentage
+    expect(lines[2]).toContain('Group B,FALSE,2026-09-01,2026-09-30,800,48,2400,3,0.06,50');
+  });
+
+  it('labels the revenue basis in CSV exports', async () => {
+    const response = await post({ groups, dateRange, revenueBasis: 'product', format: 'csv' });
+    const [header, row] = (await response.text()).trim().split('\r\n');
+
+    expect(header.split(',').slice(-2)).toEqual(['Revenue Basis', 'Segment']);
+    expect(row.split(',').slice(-2)).toEqual(['Product line items', 'All traffic']);
+  });
+
+  it('labels the segment in CSV exports', async () => {
+    const response = await post({ groups, dateRange, segment: { deviceType: 'mobile', country: 'CA' }, format: 'csv' });
+    const [, row] = (await response.text()).trim().split('\r\n');
+
+    expect(row.split(',').at(-1)).toBe('Mobile · CA');
+  });
+
+  it('says which segment filters line-item revenue misses', async () => {
+    const segment = { deviceType: 'mobile', country: 'CA', utmCampaign: 'spring_sale' };
+    const response = await post({ groups, dateRange, revenueBasis: 'product', segment, format: 'csv' });
+    const [, row] = (await response.text()).trim().split('\r\n');
+
+    expect(row).toContain('Mobile · CA · campaign=spring_sale (order revenue: all devices and countries)');
+  });
+
+  it('adds new and returning columns when the comparison was split', async () => {
+    const split = groups.map(group => ({
+      ...group,
+      customers: {
+        new: calculateCustomerTypeMetrics(600, 600, 12),
+        returning: calculateCustomerTypeMetrics(200, 1000, 20),
+      },
+    }));
+    const response = await post({ groups: split, dateRange, format: 'csv' });
+    const [header, row] = (await response.text()).trim().split('\r\n');
+    const columns = header.split(',');
+    const at = columns.indexOf('New Sessions');
+
+    expect(columns.slice(at, at + 12)).toEqual([
+      'New Sessions', 'New Orders', 'New Revenue', 'New Revenue per Visitor', 'New Conversion Rate', 'New AOV',
+      'Returning Sessions', 'Returning Orders', 'Returning Revenue', 'Returning Revenue per Visitor', 'Returning Conversion Rate', 'Returning AOV',
+    ]);
+    expect(row.split(',').slice(at, at + 12)).toEqual(['600', '12', '600', '1', '0.02', '50', '200', '20', '1000', '5', '0.1', '50']);
+  });
+
+  it('exports summary and per-page sheets as XLSX', async () => {
+    const response = await post({ groups, pages, dateRange, format: 'xlsx' });
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await response.arrayBuffer());
+
+    expect(workbook.worksheets.map(s => s.name)).toEqual(['Summary', 'Pages']);
+    expect(workbook.getWorksheet('Pages')!.rowCount).toBe(3);
+    expect(workbook.getWorksheet('Summary')!.getCell('E2').value).toBe(1000);
+  });
+});
@@ -1,7 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getShopSession } from '@/lib/session';
 import { generatePdfReport } from '@/lib/pdf-generator';
-import { GroupMetrics, DateRange } from '@/types';
+import { generateCsvReport, generateXlsxReport } from '@/lib/spreadsheet-export';
+import { GroupMetrics, PageMetrics, DateRange, ExportFormat, RevenueBasis, SegmentFilters } from '@/types';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  pdf: 'application/pdf',
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
 
 export async function POST(request: NextRequest) {
   const session = await getShopSession();
@@ -9,32 +16,54 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
   }
 
+  let format: ExportFormat = 'pdf';
+
   try {
     const body: {
       groups: GroupMetrics[];
+      pages?: PageMetrics[];
+      baselineIndex?: number;
       dateRange: DateRange;
+      compareDateRange?: DateRange | null;
+      revenueBasis?: RevenueBasis;
+      segment?: SegmentFilters | null;
+      format?: ExportFormat;
     } = await request.json();
 
-    const { groups, dateRange } = body;
+    const { groups, pages = [], baselineIndex = 0, dateRange, compareDateRange, revenueBasis, segment } = body;
+    format = body.format || 'pdf';
+
+    if (!Object.keys(CONTENT_TYPES).includes(format)) {
+      return NextResponse.json({ error: `Unsupported export format: ${format}` }, { status: 400 });
+    }
 
     if (!groups || groups.length === 0) {
       return NextResponse.json({ error: 'No data to export' }, { status: 400 });
     }
 
-    const pdfBuffer = generatePdfReport(groups, dateRange);
+    const options = { baselineIndex, compareDateRange, revenueBasis, segment };
+    let content: ArrayBuffer | string;
+
+    if (format === 'csv') {
+      content = generateCsvReport(groups, dateRange, options);
+    } else if (format === 'xlsx') {
+      content = await generateXlsxReport(groups, pages, dateRange, options);
+    } else {
+      content = generatePdfReport(groups, dateRange, { ...options, pages });
+    }
 
-    const fileName = `puplabs-analytics-${dateRange.start}-to-${dateRange.end}.pdf`;
+    const fileName = `puplabs-analytics-${dateRange.start}-to-${dateRange.end}.${format}`;
 
-    return new NextResponse(pdfBuffer, {
+    return new NextResponse(content, {
       headers: {
-        'Content-Type': 'application/pdf',
+        'Content-Type': CONTENT_TYPES[format],
         'Content-Disposition': `attachment; filename="${fileName}"`,
       },
     });
   } catch (error) {
-    console.error('PDF export error:', error);
+    console.error(`${format.toUpperCase()} export error:`, error);
     return NextResponse.json(
-      { error: 'Failed to generate PDF' },
+      { error: `Failed to generate ${format.toUpperCase()}` },
       { status: 500 }
     );
   }
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getShopSession } from '@/lib/session';
+import { prisma } from '@/lib/prisma';
+import {
+  SCHEDULE_INCLUDE,
+  computeNextRun,
+  parseReportScheduleInput,
+  toReportSchedule,
+} from '@/lib/report-schedules';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH /api/schedules/:id — change timing, recipients, or pause/resume
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const session = await getShopSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const existing = await prisma.reportSchedule.findFirst({
+    where: { id, shopId: session.shopId },
+  });
+  if (!existing) {
+    return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+  }
+
+  // The comparison a schedule sends is fixed; create a new schedule to send another
+  const parsed = parseReportScheduleInput({ ...existing, ...body, comparisonId: existing.comparisonId });
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const row = await prisma.reportSchedule.update({
+      where: { id: existing.id },
+      data: {
+        ...parsed.input,
+        nextRunAt: computeNextRun(parsed.input, session.timezone),
+      },
+      include: SCHEDULE_INCLUDE,
+    });
+
+    return NextResponse.json({ schedule: toReportSchedule(row) });
+  } catch (error) {
+    console.error('[Schedules] Failed to update:', error);
+    return NextResponse.json({ error: 'Failed to update schedule' }, { status: 500 });
+  }
+}
+
+// DELETE /api/schedules/:id — also removes its delivery log
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const session = await getShopSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const { count } = await prisma.reportSchedule.deleteMany({
+      where: { id, shopId: session.shopId },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error('[Schedules] Failed to delete:', error);
+    return NextResponse.json({ error: 'Failed to delete schedule' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getShopSession } from '@/lib/session';
+import { prisma } from '@/lib/prisma';
+import { deliverScheduledReport } from '@/lib/scheduled-reports';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/schedules/:id/send — send the report now without moving the schedule
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  const session = await getShopSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const { id } = await params;
+
+  const existing = await prisma.reportSchedule.findFirst({
+    where: { id, shopId: session.shopId },
+  });
+  if (!existing) {
+    return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+  }
+
+  try {
+    // Failures are recorded in the delivery log and returned, not thrown
+    const delivery = await deliverScheduledReport(existing.id, { manual: true });
+    return NextResponse.json({ delivery });
+  } catch (error) {
+    console.error('[Schedules] Failed to send:', error);
+    return NextResponse.json({ error: 'Failed to send report' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getShopSession } from '@/lib/session';
+import { prisma } from '@/lib/prisma';
+import {
+  SCHEDULE_INCLUDE,
+  computeNextRun,
+  parseReportScheduleInput,
+  toReportSchedule,
+} from '@/lib/report-schedules';
+
+// GET /api/schedules — list report schedules and their recent deliveries
+export async function GET() {
+  const session = await getShopSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const rows = await prisma.reportSchedule.findMany({
+      where: { shopId: session.shopId },
+      include: SCHEDULE_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ schedules: rows.map(toReportSchedule), timezone: session.timezone });
+  } catch (error) {
+    console.error('[Schedules] Failed to list:', error);
+    return NextResponse.json({ error: 'Failed to load report schedules' }, { status: 500 });
+  }
+}
+
+// POST /api/schedules — schedule a saved comparison to be emailed
+export async function POST(request: NextRequest) {
+  const session = await getShopSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const parsed = parseReportScheduleInput(await request.json().catch(() => null));
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const { input } = parsed;
+
+  const comparison = await prisma.savedComparison.findFirst({
+    where: { id: input.comparisonId, shopId: session.shopId },
+  });
+  if (!comparison) {
+    return NextResponse.json({ error: 'Comparison not found' }, { status: 404 });
+  }
+
+  try {
+    const row = await prisma.reportSchedule.create({
+      data: {
+        ...input,
+        shopId: session.shopId,
+        nextRunAt: computeNextRun(input, session.timezone),
+      },
+      include: SCHEDULE_INCLUDE,
+    });
+
+    return NextResponse.json({ schedule: toReportSchedule(row) }, { status: 201 });
+  } catch (error) {
+    console.error('[Schedules] Failed to create:', error);
+    return NextResponse.json({ error: 'Failed to save schedule' }, { status: 500 });
+  }
+}
@@ -0,0 +1,876 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getShopSession } from '@/lib/session';
+import { findAccountShop } from '@/lib/accounts';
+import { clearCache, getCachedData, setCachedData } from '@/lib/cache';
+import { getStoredProducts, invalidateProductHandles, storeProducts } from '@/lib/product-handles';
+import { MAX_QUERY_COST, loadFixtures, queryCost, runMockShopifyQL, startMockShopifyServer } from '@/lib/shopify-mock';
+import { ComparisonResponse } from '@/types';
+import { POST } from './route';
+
+vi.mock('@/lib/session', () => ({ getShopSession: vi.fn() }));
+vi.mock('@/lib/cache', async (importOriginal) => ({
+  generateCacheKey: (await importOriginal<typeof import('@/lib/cache')>()).generateCacheKey,
+  getCachedData: vi.fn(),
+  setCachedData: vi.fn(),
+  clearCache: vi.fn(),
+}));
+vi.mock('@/lib/accounts', () => ({ findAccountShop: vi.fn() }));
+vi.mock('@/lib/product-handles', () => ({
+  getStoredProducts: vi.fn(),
+  storeProducts: vi.fn(),
+  invalidateProductHandles: vi.fn(),
+}));
+
+// Shopify is the local fixture server from `npm run mock:shopify`
+const fixtures = loadFixtures();
+const session = {
+  shop: 'puplabsco.myshopify.com',
+  accessToken: 'shpat_mock_test',
+  shopId: 'shop_1',
+  timezone: 'America/New_York',
+  money: { currency: 'USD', moneyFormat: '${{amount}}', locale: 'en' },
+  sessionId: 'session_1',
+  accountId: 'account_1',
+};
+const september = { start: '2026-09-01', end: '2026-09-30' };
+
+let server: Server;
+
+beforeAll(async () => {
+  server = await startMockShopifyServer(0, fixtures);
+  process.env.SHOPIFY_MOCK_URL = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  delete process.env.SHOPIFY_MOCK_URL;
+  server.close();
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getShopSession).mockResolvedValue(session);
+  vi.mocked(getCachedData).mockResolvedValue(null);
+  vi.mocked(setCachedData).mockResolvedValue(undefined);
+  vi.mocked(clearCache).mockResolvedValue(undefined);
+  vi.mocked(getStoredProducts).mockResolvedValue(new Map());
+  vi.mocked(storeProducts).mockResolvedValue(undefined);
+  vi.mocked(invalidateProductHandles).mockResolvedValue(0);
+});
+
+function post(body: unknown) {
+  return POST(new NextRequest('http://localhost/api/shopify/analytics', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  }));
+}
+
+// GraphQL requests to the mock that look products up by handle
+function productLookups(calls: Parameters<typeof fetch>[]) {
+  return calls.filter(([, init]) => String(init?.body || '').includes('ProductsByHandle'));
+}
+
+// What the fixture server reports for a landing page, straight from ShopifyQL
+function fixtureSessions(path: string, range = september) {
+  const result = runMockShopifyQL(
+    fixtures,
+    `FROM sessions SHOW sessions, conversion_rate GROUP BY landing_page_path SINCE ${range.start} UNTIL ${range.end}`
+  );
+  if ('parseErrors' in result) throw new Error(result.parseErrors.join(', '));
+  return result.rows.find(r => r.landing_page_path === path)!;
+}
+
+// ShopifyQL sent to the mock, in order
+function shopifyQLQueries(calls: Parameters<typeof fetch>[]) {
+  return calls
+    .map(([, init]) => String(init?.body || ''))
+    .filter(body => body.includes('shopifyqlQuery'))
+    .map(body => JSON.parse(body).variables.query as string);
+}
+
+// Run against a fixture server whose store also has `count` tracking-link
+// variants of the Calming Chews landing page
+async function withLandingPageVariants(count: number, run: () => Promise<Response>) {
+  const variants = Array.from({ length: count }, (_, i) => ({
+    path: `/products/calming-chews?ref=${i}`,
+    productId: 7100000000005,
+    sessions: 10,
+    conversionRate: 0.02,
+    aov: 32,
+  }));
+  const large = await startMockShopifyServer(0, {
+    ...fixtures,
+    analytics: { ...fixtures.analytics, landingPages: [...fixtures.analytics.landingPages, ...variants] },
+  });
+  process.env.SHOPIFY_MOCK_URL = `http://localhost:${(large.address() as AddressInfo).port}`;
+
+  try {
+    return await run();
+  } finally {
+    process.env.SHOPIFY_MOCK_URL = `http://localhost:${(server.address() as AddressInfo).port}`;
+    large.close();
+  }
+}
+
+describe('POST /api/shopify/analytics', () => {
+  it('rejects requests without a shop session', async () => {
+    vi.mocked(getShopSession).mockResolvedValue(null);
+
+    const response = await post({ urls: ['/products/calming-chews'], dateRange: september });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('requires at least one URL and a date range', async () => {
+    expect((await post({ urls: [], dateRange: september })).status).toBe(400);
+    expect((await post({ urls: ['/products/calming-chews'], dateRange: {} })).status).toBe(400);
+  });
+
+  it('rejects an incomplete comparison range', async () => {
+    const response = await post({
+      urls: ['/products/calming-chews'],
+      dateRange: september,
+      compareTo: { start: '2026-08-01' },
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('returns page metrics built from ShopifyQL sessions and sales', async () => {
+    const response = await post({ urls: ['/products/calming-chews'], dateRange: september });
+    const data: ComparisonResponse = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.dateRange).toEqual(september);
+    expect(data.previous).toBeUndefined();
+
+    const [page] = data.pages;
+    const expected = fixtureSessions('/products/calming-chews');
+    expect(page.productTitle).toBe('Calming Chews');
+    expect(page.sessions).toBe(expected.sessions);
+    expect(page.orderCount).toBe(Math.round(Number(expected.sessions) * Number(expected.conversion_rate)));
+    // Revenue = orders × product AOV, so AOV comes back unchanged
+    expect(page.totalRevenue).toBeCloseTo(page.orderCount * page.aov, 0);
+    expect(page.aov).toBeGreaterThan(0);
+  });
+
+  it('folds landing path variants into the canonical page by default', async () => {
+    const response = await post({ urls: ['/products/freedom-joint-drops'], dateRange: september });
+    const [page] = (await response.json()).pages;
+
+    const variants = [
+      '/products/freedom-joint-drops',
+      '/products/freedom-joint-drops/',
+      '/products/freedom-joint-drops?utm_source=facebook',
+      '/collections/joint-health/products/freedom-joint-drops',
+    ];
+    const rows = variants.map(path => fixtureSessions(path));
+    const expectedOrders = rows.reduce((sum, r) => sum + Number(r.sessions) * Number(r.conversion_rate), 0);
+
+    expect(page.matchMode).toBe('canonical');
+    expect(page.sessions).toBe(rows.reduce((sum, r) => sum + Number(r.sessions), 0));
+    expect(page.orderCount).toBe(Math.round(expectedOrders));
+    expect(page.matchedPaths.map((m: { path: string }) => m.path).sort()).toEqual([...variants].sort());
+    // Biggest contributor first
+    expect(page.matchedPaths[0].path).toBe('/products/freedom-joint-drops');
+  });
+
+  it('folds locale-prefixed paths into the canonical page', async () => {
+    const response = await post({ urls: ['/products/essential-dog-multivitamin'], dateRange: september });
+    const [page] = (await response.json()).pages;
+
+    expect(page.sessions).toBe(
+      Number(fixtureSessions('/products/essential-dog-multivitamin').sessions) +
+      Number(fixtureSessions('/en-ca/products/essential-dog-multivitamin').sessions)
+    );
+  });
+
+  it('matches only the exact landing path when the page asks for it', async () => {
+    const url = '/products/freedom-joint-drops';
+    const response = await post({ urls: [url], exactUrls: [url], dateRange: september });
+    const [page] = (await response.json()).pages;
+
+    expect(page.matchMode).toBe('exact');
+    expect(page.sessions).toBe(fixtureSessions(url).sessions);
+    expect(page.matchedPaths).toEqual([expect.objectContaining({ path: url })]);
+  });
+
+  it('keys the cache on the exact-match settings', async () => {
+    const url = '/products/freedom-joint-drops';
+    await post({ urls: [url], dateRange: september });
+    await post({ urls: [url], exactUrls: [url], dateRange: september });
+
+    const [[, canonicalKey], [, exactKey]] = vi.mocked(getCachedData).mock.calls;
+    expect(canonicalKey).not.toBe(exactKey);
+  });
+
+  it('returns zeros for URLs that are not known products', async () => {
+    const response = await post({ urls: ['/products/does-not-exist'], dateRange: september });
+    const [page] = (await response.json()).pages;
+
+    expect(page).toMatchObject({ productTitle: 'Unknown Product', sessions: 0, orderCount: 0, totalRevenue: 0 });
+  });
+
+  it('resolves every product in one batched lookup and stores the results', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const urls = fixtures.products.map(p => `/products/${p.handle}`);
+
+    try {
+      const response = await post({ urls, dateRange: september });
+      const data: ComparisonResponse = await response.json();
+
+      expect(data.pages.map(p => p.productTitle)).toEqual(fixtures.products.map(p => p.title));
+      expect(productLookups(fetchSpy.mock.calls)).toHaveLength(1);
+      expect(storeProducts).toHaveBeenCalledWith(session.shop, expect.arrayContaining([
+        { id: 7100000000005, title: 'Calming Chews', handle: 'calming-chews' },
+      ]));
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it('uses stored products without asking Shopify', async () => {
+    vi.mocked(getStoredProducts).mockResolvedValue(new Map([
+      ['calming-chews', { id: 7100000000005, title: 'Calming Chews (stored)', handle: 'calming-chews' }],
+    ]));
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+    try {
+      const response = await post({ urls: ['/products/calming-chews'], dateRange: september });
+      const [page] = (await response.json()).pages;
+
+      expect(page.productTitle).toBe('Calming Chews (stored)');
+      expect(productLookups(fetchSpy.mock.calls)).toHaveLength(0);
+      expect(storeProducts).not.toHaveBeenCalled();
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it('reports a revoked token instead of returning zero sessions', async () => {
+    const realFetch = globalThis.fetch;
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation((input, init) =>
+      String(init?.body || '').includes('shopifyqlQuery')
+        ? Promise.resolve(new Response('[API] Invalid API key or access token', { status: 401 }))
+        : realFetch(input, init)
+    );
+
+    try {
+      const response = await post({ urls: ['/products/calming-chews'], dateRange: september });
+
+      expect(response.status).toBe(502);
+      expect(await response.json()).toMatchObject({
+        code: 'unauthorized',
+        reconnectUrl: `/api/auth?shop=${session.shop}`,
+      });
+      expect(setCachedData).not.toHaveBeenCalled();
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it('tells the merchant to re-authorise when read_reports is missing', async () => {
+    const restricted = await startMockShopifyServer(0, {
+      ...fixtures,
+      scopes: fixtures.scopes.filter(scope => scope !== 'read_reports'),
+    });
+    process.env.SHOPIFY_MOCK_URL = `http://localhost:${(restricted.address() as AddressInfo).port}`;
+
+    try {
+      const response = await post({ urls: ['/products/calming-chews'], dateRange: september });
+
+      expect(response.status).toBe(502);
+      expect(await response.json()).toMatchObject({
+        code: 'missing_scope',
+        requiredScope: 'read_reports',
+        action: expect.stringContaining('read_reports'),
+      });
+    } finally {
+      process.env.SHOPIFY_MOCK_URL = `http://localhost:${(server.address() as AddressInfo).port}`;
+      restricted.close();
+    }
+  });
+
+  it('returns ShopifyQL parse errors as details', async () => {
+    const realFetch = globalThis.fetch;
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation((input, init) =>
+      String(init?.body || '').includes('shopifyqlQuery')
+        ? Promise.resolve(Response.json({
+          data: { shopifyqlQuery: { tableData: null, parseErrors: ['Invalid dimension: landing_page_path'] } },
+        }))
+        : realFetch(input, init)
+    );
+
+    try {
+      const response = await post({ urls: ['/products/calming-chews'], dateRange: september });
+
+      expect(response.status).toBe(502);
+      expect(await response.json()).toMatchObject({
+        code: 'parse_error',
+        details: ['Invalid dimension: landing_page_path'],
+      });
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it('asks ShopifyQL only for the requested pages and products', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+    try {
+      const response = await post({ urls: ['/products/calming-chews'], dateRange: september });
+      const data: ComparisonResponse = await response.json();
+      const queries = shopifyQLQueries(fetchSpy.mock.calls);
+
+      expect(data.truncated).toBe(false);
+      expect(queries).toEqual([
+        expect.stringContaining("WHERE landing_page_path CONTAINS '/products/calming-chews' GROUP BY"),
+        expect.stringContaining('WHERE product_id IN (7100000000005) GROUP BY'),
+      ]);
+      expect(queries.every(q => q.endsWith('LIMIT 1000 OFFSET 0'))).toBe(true);
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it('sends landing paths as data, never as part of the GraphQL document', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const path = `/products/calming-chews""") { id } } mutation { shopUpdate(input: {}) { userErrors { message } } } #`;
+
+    try {
+      const response = await post({ urls: [path, '/pages/it\'s-here'], exactUrls: [path], dateRange: september });
+      const bodies = fetchSpy.mock.calls
+        .map(([, init]) => JSON.parse(String(init?.body || '{}')))
+        .filter(body => String(body.query).includes('shopifyqlQuery'));
+
+      expect(response.status).toBe(200);
+      expect(bodies.length).toBeGreaterThan(0);
+      expect(bodies.every(({ query }) => !query.includes('shopUpdate'))).toBe(true);
+      expect(bodies.some(({ variables }) => variables.query.includes(`'${path}'`))).toBe(true);
+      expect(bodies.some(({ variables }) => variables.query.includes("CONTAINS '/pages/it\\'s-here'"))).toBe(true);
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it('pages through landing paths past the first thousand rows', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+    try {
+      const response = await withLandingPageVariants(1500, () =>
+        post({ urls: ['/products/calming-chews'], dateRange: { start: '2026-09-01', end: '2026-09-01' } })
+      );
+      const data: ComparisonResponse = await response.json();
+      const sessionQueries = shopifyQLQueries(fetchSpy.mock.calls).filter(q => q.startsWith('FROM sessions'));
+
+      expect(data.truncated).toBe(false);
+      expect(data.pages[0].matchedPaths).toHaveLength(1501);
+      expect(sessionQueries.map(q => q.match(/LIMIT \d+ OFFSET \d+$/)![0])).toEqual([
+        'LIMIT 1000 OFFSET 0',
+        'LIMIT 1000 OFFSET 1000',
+      ]);
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it('reports truncation when there are more rows than it pages through', async () => {
+    const response = await withLandingPageVariants(10000, () =>
+      post({ urls: ['/products/calming-chews'], dateRange: { start: '2026-09-01', end: '2026-09-01' } })
+    );
+    const data: ComparisonResponse = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.truncated).toBe(true);
+    expect(data.pages[0].matchedPaths).toHaveLength(10000);
+  });
+
+  it('includes the comparison period when compareTo is given', async () => {
+    const august = { start: '2026-08-02', end: '2026-08-31' };
+    const response = await post({ urls: ['/products/calming-chews'], dateRange: september, compareTo: august });
+    const data: ComparisonResponse = await response.json();
+
+    expect(data.previous?.dateRange).toEqual(august);
+    expect(data.previous?.pages[0].sessions).toBe(fixtureSessions('/products/calming-chews', august).sessions);
+  });
+
+  it('serves cached results without calling Shopify', async () => {
+    const cached = { pages: [], dateRange: september, lastUpdated: '2026-10-01T00:00:00.000Z' };
+    vi.mocked(getCachedData).mockResolvedValue(cached);
+    process.env.SHOPIFY_MOCK_URL = 'http://127.0.0.1:9'; // would fail if used
+
+    try {
+      const response = await post({ urls: ['/products/calming-chews'], dateRange: september });
+      expect(await response.json()).toEqual(cached);
+    } finally {
+      process.env.SHOPIFY_MOCK_URL = `http://localhost:${(server.address() as AddressInfo).port}`;
+    }
+  });
+
+  it('clears the cache and stores fresh results on refresh', async () => {
+    const response = await post({ urls: ['/products/calming-chews'], dateRange: september, refresh: true });
+
+    expect(response.status).toBe(200);
+    expect(getCachedData).not.toHaveBeenCalled();
+    expect(clearCache).toHaveBeenCalledWith('shop_1');
+    expect(invalidateProductHandles).toHaveBeenCalledWith(session.shop);
+    expect(setCachedData).toHaveBeenCalledWith('shop_1', expect.any(String), expect.objectContaining({ dateRange: september }));
+  });
+
+  describe('attributed revenue', () => {
+    // GraphQL orders queries sent to the mock
+    const orderQueries = (calls: Parameters<typeof fetch>[]) =>
+      calls.filter(([, init]) => String(init?.body || '').includes('OrdersInRange'));
+
+    it('only estimates revenue by default', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+      try {
+        const response = await post({ urls: ['/products/calming-chews'], dateRange: september });
+        const data: ComparisonResponse = await response.json();
+
+        expect(data.revenueMode).toBe('estimated');
+        expect(data.pages[0].attributed).toBeUndefined();
+        expect(orderQueries(fetchSpy.mock.calls)).toHaveLength(0);
+      } finally {
+        fetchSpy.mockRestore();
+      }
+    });
+
+    it('totals the orders that landed on each page beside the estimate', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+      try {
+        const response = await post({ urls: ['/products/calming-chews'], dateRange: september, revenueMode: 'attributed' });
+        const data: ComparisonResponse = await response.json();
+        const [page] = data.pages;
+
+        expect(response.status).toBe(200);
+        expect(data.revenueMode).toBe('attributed');
+        // The mock drops journeys for some orders and cancels a few
+        expect(page.attributed!.orderCount).toBeGreaterThan(page.orderCount * 0.8);
+        expect(page.attributed!.orderCount).toBeLessThan(page.orderCount);
+        expect(page.attributed!.aov).toBeCloseTo(page.attributed!.totalRevenue / page.attributed!.orderCount, 1);
+        expect(page.attributed!.conversionRate).toBeCloseTo((page.attributed!.orderCount / page.sessions) * 100, 1);
+        expect(JSON.parse(String(orderQueries(fetchSpy.mock.calls)[0][1]!.body)).variables.query)
+          .toBe('created_at:>=2026-09-01 created_at:<2026-10-01');
+      } finally {
+        fetchSpy.mockRestore();
+      }
+    });
+
+    it('attributes orders with the same landing path matching as sessions', async () => {
+      const url = '/products/freedom-joint-drops';
+      const tracked = `${url}?utm_source=facebook`;
+      const attributedOrders = async (body: object) => {
+        const response = await post({ dateRange: september, revenueMode: 'attributed', ...body });
+        const data: ComparisonResponse = await response.json();
+        return data.pages.map(p => p.attributed!.orderCount);
+      };
+
+      const [canonical] = await attributedOrders({ urls: [url] });
+      const [exact, trackedOnly] = await attributedOrders({ urls: [url, tracked], exactUrls: [url, tracked] });
+
+      expect(exact).toBeGreaterThan(0);
+      expect(trackedOnly).toBeGreaterThan(0);
+      expect(canonical).toBeGreaterThan(exact + trackedOnly);
+    });
+
+    it('keeps every GraphQL request under the query cost limit', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+      try {
+        const response = await post({
+          urls: ['/products/calming-chews'],
+          dateRange: september,
+          revenueMode: 'attributed',
+          revenueBasis: 'product_with_accessories',
+        });
+        const requests = fetchSpy.mock.calls
+          .map(([, init]) => String(init?.body || ''))
+          .filter(body => body.includes('query'))
+          .map(body => JSON.parse(body));
+
+        expect(response.status).toBe(200);
+        expect(orderQueries(fetchSpy.mock.calls).length).toBeGreaterThan(1);
+        for (const { query, variables } of requests) {
+          expect(queryCost(query, variables)).toBeLessThanOrEqual(MAX_QUERY_COST);
+        }
+      } finally {
+        fetchSpy.mockRestore();
+      }
+    });
+
+    it('is refused by the mock when a query costs too much', async () => {
+      const response = await fetch(`${process.env.SHOPIFY_MOCK_URL}/${session.shop}/admin/api/2025-10/graphql.json`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Shopify-Access-Token': session.accessToken },
+        body: JSON.stringify({ query: '{ orders(first: 250) { nodes { lineItems(first: 50) { nodes { title } } } } }' }),
+      });
+      const { errors } = await response.json();
+
+      expect(errors[0].extensions.code).toBe('MAX_COST_EXCEEDED');
+    });
+
+    it('reads each range\'s orders once, however many figures need them', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+      try {
+        const response = await post({
+          urls: ['/products/calming-chews'],
+          dateRange: september,
+          compareTo: { start: '2026-08-02', end: '2026-08-31' },
+          revenueMode: 'attributed',
+          revenueBasis: 'product',
+          customerSplit: true,
+        });
+        const data: ComparisonResponse = await response.json();
+        // A scan starts with a request for the first page
+        const scans = orderQueries(fetchSpy.mock.calls)
+          .map(([, init]) => JSON.parse(String(init!.body)).variables)
+          .filter(variables => !variables.after);
+
+        expect(response.status).toBe(200);
+        expect(data.pages[0].customers!.new.orderCount).toBeGreaterThan(0);
+        expect(scans.map(variables => variables.query)).toEqual(expect.arrayContaining([
+          'created_at:>=2026-09-01 created_at:<2026-10-01',
+          'created_at:>=2026-08-02 created_at:<2026-09-01',
+        ]));
+        expect(scans).toHaveLength(2);
+      } finally {
+        fetchSpy.mockRestore();
+      }
+    }, 15000);
+
+    it('stops paging orders when they take too long and reports truncation', async () => {
+      // Each orders page takes ten seconds, as it would waiting on Shopify's rate limit
+      const realNow = Date.now.bind(Date);
+      let elapsed = 0;
+      const nowSpy = vi.spyOn(Date, 'now').mockImplementation(() => realNow() + elapsed);
+      const realFetch = globalThis.fetch;
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+        const response = await realFetch(input, init);
+        if (String(init?.body || '').includes('OrdersInRange')) elapsed += 10000;
+        return response;
+      });
+
+      try {
+        const response = await post({ urls: ['/products/calming-chews'], dateRange: september, revenueMode: 'attributed' });
+        const data: ComparisonResponse = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(data.truncated).toBe(true);
+        expect(orderQueries(fetchSpy.mock.calls)).toHaveLength(3);
+      } finally {
+        fetchSpy.mockRestore();
+        nowSpy.mockRestore();
+      }
+    });
+
+    it('keys the cache on the revenue mode', async () => {
+      await post({ urls: ['/products/calming-chews'], dateRange: september });
+      await post({ urls: ['/products/calming-chews'], dateRange: september, revenueMode: 'attributed' });
+
+      const [[, estimatedKey], [, attributedKey]] = vi.mocked(getCachedData).mock.calls;
+      expect(estimatedKey).not.toBe(attributedKey);
+    });
+  });
+
+  describe('revenue basis', () => {
+    const url = '/products/calming-chews';
+    const pageFor = async (body: object) => {
+      const response = await post({ urls: [url], dateRange: september, ...body });
+      const data: ComparisonResponse = await response.json();
+      return { status: response.status, data, page: data.pages[0] };
+    };
+
+    it('counts full carts by default', async () => {
+      const { data, page } = await pageFor({});
+
+      expect(data.revenueBasis).toBe('cart');
+      expect(page.revenueBasis).toBe('cart');
+    });
+
+    it("counts only the product's line items, plus accessories when asked", async () => {
+      const cart = await pageFor({});
+      const product = await pageFor({ revenueBasis: 'product' });
+      const accessories = await pageFor({ revenueBasis: 'product_with_accessories' });
+
+      expect(product.status).toBe(200);
+      expect(product.data.revenueBasis).toBe('product');
+      expect(product.page.revenueBasis).toBe('product');
+      expect(product.page.aov).toBeLessThan(cart.page.aov);
+      expect(accessories.page.aov).toBeGreaterThan(product.page.aov);
+      expect(accessories.page.aov).toBeLessThan(cart.page.aov);
+    });
+
+    it('narrows product revenue to the variant a URL names', async () => {
+      const product = await pageFor({ revenueBasis: 'product' });
+      const variant = await pageFor({
+        urls: [`${url}?variant=4200000000051`],
+        revenueBasis: 'product',
+      });
+
+      expect(variant.status).toBe(200);
+      expect(variant.page.aov).toBeGreaterThan(0);
+      expect(variant.page.aov).not.toBe(product.page.aov);
+    });
+
+    it('falls back to full carts for unknown bases', async () => {
+      const { status, data } = await pageFor({ revenueBasis: 'margin' });
+
+      expect(status).toBe(200);
+      expect(data.revenueBasis).toBe('cart');
+    });
+
+    it('keys the cache on the revenue basis', async () => {
+      await post({ urls: [url], dateRange: september });
+      await post({ urls: [url], dateRange: september, revenueBasis: 'product' });
+
+      const [[, cartKey], [, productKey]] = vi.mocked(getCachedData).mock.calls;
+      expect(cartKey).not.toBe(productKey);
+    });
+  });
+
+  describe('segment filters', () => {
+    const url = '/products/calming-chews';
+    const sessionsIn = async (segment: object | undefined) => {
+      const response = await post({ urls: [url], dateRange: september, segment });
+      const data: ComparisonResponse = await response.json();
+      return data.pages[0].sessions;
+    };
+
+    it('narrows the sessions and sales queries to the segment', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+      try {
+        const response = await post({ urls: [url], dateRange: september, segment: { deviceType: 'mobile', country: 'us' } });
+        const data: ComparisonResponse = await response.json();
+        const expected = runMockShopifyQL(
+          fixtures,
+          `FROM sessions SHOW sessions WHERE landing_page_path = '${url}' AND session_device_type = 'Mobile' AND session_country_code = 'US' GROUP BY landing_page_path SINCE ${september.start} UNTIL ${september.end}`
+        );
+
+        if ('parseErrors' in expected) throw new Error(expected.parseErrors.join(', '));
+
+        expect(data.segment).toEqual({ deviceType: 'mobile', country: 'US' });
+        expect(data.pages[0].sessions).toBe(expected.rows[0].sessions);
+        expect(data.pages[0].aov).toBeGreaterThan(0);
+
+        const queries = shopifyQLQueries(fetchSpy.mock.calls);
+        expect(queries.filter(q => q.includes(") AND session_device_type = 'Mobile' AND session_country_code = 'US'")))
+          .toHaveLength(2);
+      } finally {
+        fetchSpy.mockRestore();
+      }
+    });
+
+    it('splits a page between its device segments', async () => {
+      const all = await sessionsIn(undefined);
+      const byDevice = await Promise.all(['desktop', 'mobile', 'tablet'].map(deviceType => sessionsIn({ deviceType })));
+
+      expect(byDevice.every(sessions => sessions > 0 && sessions < all)).toBe(true);
+      expect(byDevice.reduce((a, b) => a + b, 0)).toBe(all);
+    });
+
+    it('spells devices and traffic sources the way ShopifyQL does', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+      try {
+        const tablet = await sessionsIn({ deviceType: 'tablet', referrerSource: 'email' });
+        await sessionsIn({ referrerSource: 'unknown' });
+        const queries = shopifyQLQueries(fetchSpy.mock.calls);
+
+        expect(tablet).toBeGreaterThan(0);
+        expect(queries.some(q => q.includes(") AND session_device_type = 'Tablet' AND referrer_source = 'Email'"))).toBe(true);
+        expect(queries.some(q => q.includes(") AND referrer_source = 'Unknown'"))).toBe(true);
+      } finally {
+        fetchSpy.mockRestore();
+      }
+    });
+
+    it('narrows attributed orders by UTM', async () => {
+      const attributedOrders = async (segment?: object) => {
+        const response = await post({ urls: [url], dateRange: september, revenueMode: 'attributed', segment });
+        const data: ComparisonResponse = await response.json();
+        return data.pages[0].attributed!.orderCount;
+      };
+
+      const all = await attributedOrders();
+      const campaign = await attributedOrders({ utmCampaign: 'spring_sale' });
+
+      expect(campaign).toBeGreaterThan(0);
+      expect(campaign).toBeLessThan(all);
+    });
+
+    it('flags the filters order-based figures cannot apply', async () => {
+      const ordersUnsegmented = async (body: object) => {
+        const response = await post({ urls: [url], dateRange: september, ...body });
+        const data: ComparisonResponse = await response.json();
+        return data.ordersUnsegmented;
+      };
+      const segment = { deviceType: 'mobile', country: 'CA', utmCampaign: 'spring_sale' };
+
+      expect(await ordersUnsegmented({ segment, revenueMode: 'attributed' })).toEqual(['deviceType', 'country']);
+      expect(await ordersUnsegmented({ segment, revenueBasis: 'product' })).toEqual(['deviceType', 'country']);
+      // Sessions and ShopifyQL sales apply every filter
+      expect(await ordersUnsegmented({ segment })).toBeUndefined();
+      expect(await ordersUnsegmented({ segment: { utmCampaign: 'spring_sale' }, revenueMode: 'attributed' })).toBeUndefined();
+    }, 15000); // three reads of September's orders
+
+    it('sends UTM values as data, never as part of the GraphQL document', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+      const utmCampaign = `x""") { id } } mutation { shopUpdate(input: {}) { userErrors { message } } } #'`;
+
+      try {
+        const response = await post({ urls: [url], dateRange: september, segment: { utmCampaign } });
+        const bodies = fetchSpy.mock.calls
+          .map(([, init]) => JSON.parse(String(init?.body || '{}')))
+          .filter(body => String(body.query).includes('shopifyqlQuery'));
+
+        expect(response.status).toBe(200);
+        expect(bodies.length).toBeGreaterThan(0);
+        for (const { query, variables } of bodies) {
+          expect(query).not.toContain('shopUpdate');
+          expect(variables.query).toContain(`utm_campaign_name = 'x""") { id } } mutation { shopUpdate(input: {}) { userErrors { message } } } #\\''`);
+        }
+      } finally {
+        fetchSpy.mockRestore();
+      }
+    });
+
+    it('rejects segments the dimensions cannot match', async () => {
+      const response = await post({ urls: [url], dateRange: september, segment: { country: 'Canada' } });
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toMatch(/two-letter code/);
+    });
+
+    it('keys the cache on the segment', async () => {
+      await post({ urls: [url], dateRange: september });
+      await post({ urls: [url], dateRange: september, segment: { deviceType: 'mobile' } });
+
+      const [[, allKey], [, mobileKey]] = vi.mocked(getCachedData).mock.calls;
+      expect(allKey).not.toBe(mobileKey);
+    });
+  });
+
+  describe('new vs. returning split', () => {
+    const url = '/products/calming-chews';
+
+    it('splits each page into new and returning customers', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+      try {
+        const response = await post({ urls: [url], dateRange: september, customerSplit: true });
+        const data: ComparisonResponse = await response.json();
+        const [page] = data.pages;
+
+        expect(data.customerSplit).toBe(true);
+        expect(page.customers!.new.sessions).toBeGreaterThan(0);
+        expect(page.customers!.returning.sessions).toBeGreaterThan(0);
+        expect(page.customers!.new.sessions + page.customers!.returning.sessions).toBe(page.sessions);
+        expect(page.customers!.returning.conversionRate).toBeGreaterThan(page.customers!.new.conversionRate);
+
+        const queries = shopifyQLQueries(fetchSpy.mock.calls);
+        expect(queries.filter(q => q.includes(") AND customer_type = 'First-time'"))).toHaveLength(2);
+        expect(queries.filter(q => q.includes(") AND customer_type = 'Returning'"))).toHaveLength(2);
+      } finally {
+        fetchSpy.mockRestore();
+      }
+    });
+
+    it('leaves the split off by default', async () => {
+      const response = await post({ urls: [url], dateRange: september });
+      const data: ComparisonResponse = await response.json();
+
+      expect(data.customerSplit).toBe(false);
+      expect(data.pages[0]).not.toHaveProperty('customers');
+    });
+
+    it('keys the cache on the split', async () => {
+      await post({ urls: [url], dateRange: september });
+      await post({ urls: [url], dateRange: september, customerSplit: true });
+
+      const [[, plainKey], [, splitKey]] = vi.mocked(getCachedData).mock.calls;
+      expect(plainKey).not.toBe(splitKey);
+    });
+  });
+
+  describe('across linked stores', () => {
+    const caStore = {
+      id: 'shop_ca',
+      domain: 'puplabs-ca.myshopify.com',
+      accessToken: 'shpat_mock_ca',
+      currency: 'CAD',
+      moneyFormat: '${{amount}} CAD',
+      locale: 'en-CA',
+    };
+
+    it('fetches pages on a linked store with its own token and tags them by store', async () => {
+      vi.mocked(findAccountShop).mockResolvedValue(caStore as never);
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+      try {
+        const response = await post({
+          urls: ['/products/calming-chews'],
+          stores: [{ shop: caStore.domain, urls: ['/products/calming-chews'] }],
+          dateRange: september,
+        });
+        const data: ComparisonResponse = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(findAccountShop).toHaveBeenCalledWith('account_1', caStore.domain);
+        expect(data.shop).toBe(session.shop);
+        expect(data.money).toEqual({
+          [session.shop]: session.money,
+          [caStore.domain]: { currency: 'CAD', moneyFormat: '${{amount}} CAD', locale: 'en-CA' },
+        });
+        expect(data.pages.map(p => [p.shop, p.url])).toEqual([
+          [session.shop, '/products/calming-chews'],
+          [caStore.domain, '/products/calming-chews'],
+        ]);
+
+        const tokens = fetchSpy.mock.calls.map(([, init]) => new Headers(init?.headers).get('X-Shopify-Access-Token'));
+        expect(tokens).toContain('shpat_mock_test');
+        expect(tokens).toContain('shpat_mock_ca');
+      } finally {
+        fetchSpy.mockRestore();
+      }
+    });
+
+    it('rejects stores that are not linked to the account', async () => {
+      vi.mocked(findAccountShop).mockResolvedValue(null);
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+      try {
+        const response = await post({
+          urls: ['/products/calming-chews'],
+          stores: [{ shop: 'someone-else.myshopify.com', urls: ['/products/calming-chews'] }],
+          dateRange: september,
+        });
+
+        expect(response.status).toBe(403);
+        expect((await response.json()).error).toContain('someone-else.myshopify.com');
+        expect(fetchSpy).not.toHaveBeenCalled();
+      } finally {
+        fetchSpy.mockRestore();
+      }
+    });
+
+    it('never treats an embedded session as linked to other stores', async () => {
+      vi.mocked(getShopSession).mockResolvedValue({ ...session, sessionId: null, accountId: null });
+
+      const response = await post({
+        urls: [],
+        stores: [{ shop: caStore.domain, urls: ['/products/calming-chews'] }],
+        dateRange: september,
+      });
+
+      expect(response.status).toBe(403);
+      expect(findAccountShop).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,26 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getShopSession } from '@/lib/session';
-import {
-  resolveProductsFromUrls,
-  fetchLandingPageData,
-  fetchProductAOV,
-  normalizeUrlPath,
-} from '@/lib/shopify';
-import { calculatePageMetrics } from '@/lib/calculations';
+import { resolveProductsFromUrls, normalizeUrlPath } from '@/lib/shopify';
+import { exactUrlPaths, fetchComparison, fetchPageMetrics, mergeStoreComparisons, unsegmentedOrderFilters } from '@/lib/analytics';
+import { REVENUE_BASES } from '@/lib/calculations';
+import { findAccountShop } from '@/lib/accounts';
+import { decryptToken } from '@/lib/encryption';
+import { shopMoney } from '@/lib/money';
+import { parseSegment } from '@/lib/segments';
+import { normalizeShopDomain } from '@/lib/shop-domain';
 import { getCachedData, setCachedData, generateCacheKey, clearCache } from '@/lib/cache';
-import { ComparisonRequest, ComparisonResponse, PageMetrics } from '@/types';
-
-function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
-  return new Promise((resolve, reject) => {
-    const timer = setTimeout(() => {
-      reject(new Error(`${label} timed out after ${ms}ms`));
-    }, ms);
-    promise.then(
-      (val) => { clearTimeout(timer); resolve(val); },
-      (err) => { clearTimeout(timer); reject(err); }
-    );
-  });
-}
+import { invalidateProductHandles } from '@/lib/product-handles';
+import { describeShopifyFailure } from '@/lib/shopify-client';
+import { withTimeout } from '@/lib/timeout';
+import { ComparisonRequest, ComparisonResponse, RevenueBasis, RevenueMode, StoreUrls } from '@/types';
 
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
@@ -43,11 +35,21 @@ export async function POST(request: NextRequest) {
 
   try {
     const body: ComparisonRequest & { refresh?: boolean } = await request.json();
-    const { urls, dateRange, refresh } = body;
-
-    console.log(`[Analytics] Request: ${urls.length} URLs, ${dateRange.start} to ${dateRange.end}`);
-
-    if (!urls || urls.length === 0) {
+    const { dateRange, compareTo, refresh } = body;
+    const urls = Array.isArray(body.urls) ? body.urls : [];
+    const exactUrls = Array.isArray(body.exactUrls) ? body.exactUrls : [];
+    const revenueMode: RevenueMode = body.revenueMode === 'attributed' ? 'attributed' : 'estimated';
+    const revenueBasis: RevenueBasis = REVENUE_BASES.includes(body.revenueBasis!) ? body.revenueBasis! : 'cart';
+    const customerSplit = body.customerSplit === true;
+    const stores: StoreUrls[] = (Array.isArray(body.stores) ? body.stores : [])
+      .map(store => ({
+        shop: normalizeShopDomain(store?.shop) || String(store?.shop),
+        urls: Array.isArray(store?.urls) ? store.urls : [],
+        exactUrls: Array.isArray(store?.exactUrls) ? store.exactUrls : [],
+      }))
+      .filter(store => store.shop !== session.shop && store.urls.length > 0);
+
+    if (urls.length === 0 && stores.length === 0) {
       return NextResponse.json({ error: 'At least one URL is required' }, { status: 400 });
     }
 
@@ -55,8 +57,51 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Date range is required' }, { status: 400 });
     }
 
+    if (compareTo && (!compareTo.start || !compareTo.end)) {
+      return NextResponse.json({ error: 'Comparison range needs a start and end date' }, { status: 400 });
+    }
+
+    const parsedSegment = parseSegment(body.segment);
+    if ('error' in parsedSegment) {
+      return NextResponse.json({ error: parsedSegment.error }, { status: 400 });
+    }
+    const { segment } = parsedSegment;
+    const ordersUnsegmented = unsegmentedOrderFilters(segment, revenueMode, revenueBasis);
+
+    console.log(
+      `[Analytics] Request: ${urls.length} URLs` +
+      (stores.length > 0 ? ` + ${stores.map(s => `${s.urls.length} on ${s.shop}`).join(', ')}` : '') +
+      `, ${dateRange.start} to ${dateRange.end}, ${revenueMode} ${revenueBasis} revenue` +
+      (segment ? `, segment ${JSON.stringify(segment)}` : '') +
+      (customerSplit ? ', split by customer type' : '')
+    );
+
+    // Pages on other stores are fetched with that store's own token, so the
+    // store has to be linked to the signed-in account
+    const linkedShops = await Promise.all(
+      stores.map(store => (session.accountId ? findAccountShop(session.accountId, store.shop) : null))
+    );
+    const unlinked = stores.filter((_, i) => !linkedShops[i]).map(store => store.shop);
+    if (unlinked.length > 0) {
+      return NextResponse.json(
+        { error: `Not linked to your account: ${unlinked.join(', ')}. Connect the store first.` },
+        { status: 403 }
+      );
+    }
+
     // Check cache unless refresh is requested
-    const cacheKey = generateCacheKey({ urls, dateRange });
+    // The default estimated, full-cart, all-traffic, unsplit request leaves those options out of the key
+    const cacheKey = generateCacheKey({
+      urls,
+      dateRange,
+      compareTo: compareTo || null,
+      exactUrls,
+      stores,
+      ...(revenueMode === 'attributed' && { revenueMode }),
+      ...(revenueBasis !== 'cart' && { revenueBasis }),
+      ...(segment && { segment }),
+      ...(customerSplit && { customerSplit }),
+    });
 
     if (!refresh) {
       try {
@@ -75,6 +120,8 @@ export async function POST(request: NextRequest) {
     } else {
       try {
         await clearCache(session.shopId);
+        await invalidateProductHandles(session.shop);
+        for (const store of stores) await invalidateProductHandles(store.shop);
       } catch (err) {
         console.warn('[Analytics] Cache clear failed:', err);
       }
@@ -91,6 +138,8 @@ export async function POST(request: NextRequest) {
       );
     } catch (err) {
       console.error(`[Analytics] Product resolution failed (${Date.now() - startTime}ms):`, err);
+      const failure = describeShopifyFailure(err, session.shop);
+      if (failure) return NextResponse.json(failure.body, { status: failure.status });
       return NextResponse.json(
         { error: 'Failed to look up products. Check your URLs are valid product pages.' },
         { status: 504 }
@@ -100,7 +149,8 @@ export async function POST(request: NextRequest) {
 
     // Get URL paths for ShopifyQL lookup
     const urlPaths = urls.map(url => normalizeUrlPath(url));
-    console.log(`[Analytics] URL paths: ${JSON.stringify(urlPaths)}`);
+    const exactPaths = exactUrlPaths(urls, exactUrls);
+    console.log(`[Analytics] URL paths: ${JSON.stringify(urlPaths)} (exact: ${JSON.stringify(exactPaths)})`);
 
     // Get product IDs for sales AOV lookup (using ID, not title, since titles can be shared)
     const productIds = urls
@@ -108,59 +158,67 @@ export async function POST(request: NextRequest) {
       .filter((id): id is number => !!id);
     console.log(`[Analytics] Product IDs for AOV lookup: ${JSON.stringify(productIds)}`);
 
-    try {
-      // Step 2: Fetch all ShopifyQL data in parallel (no GraphQL needed!)
-      // - Sessions + conversion_rate per landing page (sessions dataset)
-      // - Total sales + orders per product_id (sales dataset) → gives us AOV
-      console.log('[Analytics] Fetching ShopifyQL data (sessions + sales AOV by product_id)...');
+    const pageOptions = { exactPaths, money: session.money, revenueMode, revenueBasis, segment, customerSplit };
 
-      const [landingPageMap, productAOVMap] = await withTimeout(
+    // Set when a linked store's fetch fails, so the error names that store
+    let failedShop: string | null = null;
+
+    try {
+      const [current, previous, ...linked] = await withTimeout(
         Promise.all([
-          fetchLandingPageData(session.shop, session.accessToken, urlPaths, dateRange),
-          fetchProductAOV(session.shop, session.accessToken, productIds, dateRange),
+          fetchPageMetrics(session.shop, session.accessToken, urls, urlPaths, productMap, productIds, dateRange, pageOptions),
+          compareTo
+            ? fetchPageMetrics(session.shop, session.accessToken, urls, urlPaths, productMap, productIds, compareTo, pageOptions)
+            : Promise.resolve(null),
+          ...stores.map((store, i) =>
+            fetchComparison(store.shop, decryptToken(linkedShops[i]!.accessToken), store.urls, dateRange, {
+              compareTo: compareTo || null,
+              exactUrls: store.exactUrls,
+              money: shopMoney(linkedShops[i]!),
+              revenueMode,
+              revenueBasis,
+              segment,
+              customerSplit,
+            }).catch(err => {
+              failedShop = store.shop;
+              throw err;
+            })
+          ),
         ]),
         60000,
         'ShopifyQL queries'
       );
 
-      console.log(`[Analytics] ShopifyQL data fetched (${Date.now() - startTime}ms)`);
-
-      // Step 3: Build page metrics
-      // Orders = sessions × conversion_rate (from sessions dataset — matches Shopify's report)
-      // Revenue = orders × AOV (AOV = total_sales ÷ total_orders from sales dataset, per product_id)
-      // This keeps everything in ShopifyQL — no GraphQL order guessing needed.
-      const pages: PageMetrics[] = urls.map((url, idx) => {
-        const product = productMap.get(url);
-        const urlPath = urlPaths[idx];
-        const lpData = landingPageMap.get(urlPath);
-
-        if (!product || !lpData) {
-          console.log(`[Analytics] No data for "${urlPath}" — product: ${product?.title || 'unknown'}`);
-          return calculatePageMetrics(url, product?.title || 'Unknown Product', 0, 0, 0);
-        }
-
-        const { sessions, conversionRate, orders } = lpData;
-        const salesData = productAOVMap.get(product.id);
-        const aov = salesData?.aov || 0;
-        const revenue = orders * aov;
-
-        console.log(
-          `[Analytics] ${urlPath} → "${product.title}" (ID: ${product.id}): ` +
-          `${sessions} sessions, ${(conversionRate * 100).toFixed(2)}% CVR, ` +
-          `${orders} orders (sessions×CVR), $${aov.toFixed(2)} AOV (product_id sales), ` +
-          `$${revenue.toFixed(2)} revenue (orders×AOV)`
-        );
-
-        return calculatePageMetrics(url, product.title, sessions, revenue, orders);
-      });
-
       console.log(`[Analytics] All pages processed (${Date.now() - startTime}ms)`);
 
-      const response: ComparisonResponse = {
-        pages,
-        dateRange,
-        lastUpdated: new Date().toISOString(),
-      };
+      const response: ComparisonResponse = mergeStoreComparisons([
+        {
+          shop: session.shop,
+          money: session.money,
+          data: {
+            pages: current.pages,
+            dateRange,
+            revenueMode,
+            revenueBasis,
+            segment,
+            customerSplit,
+            ...(ordersUnsegmented.length > 0 && { ordersUnsegmented }),
+            ...(compareTo && previous && {
+              previous: { pages: previous.pages, dateRange: compareTo },
+            }),
+            truncated: current.truncated || !!previous?.truncated,
+            lastUpdated: new Date().toISOString(),
+          },
+        },
+        ...stores.map((store, i) => ({
+          shop: store.shop,
+          money: shopMoney(linkedShops[i]!),
+          data: linked[i] as ComparisonResponse,
+        })),
+      ]);
+      if (response.truncated) {
+        console.warn('[Analytics] ShopifyQL results were truncated; totals may be low');
+      }
 
       // Cache the results (don't block response on caching)
       setCachedData(session.shopId, cacheKey, response).catch(err => {
@@ -172,10 +230,9 @@ export async function POST(request: NextRequest) {
 
     } catch (err) {
       console.error(`[Analytics] ShopifyQL queries failed (${Date.now() - startTime}ms):`, err);
-      return NextResponse.json(
-        { error: 'Shopify API request timed out. Try a shorter date range or fewer URLs.' },
-        { status: 504 }
-      );
+      const failure = describeShopifyFailure(err, failedShop ?? session.shop);
+      if (failure) return NextResponse.json(failure.body, { status: failure.status });
+      throw err;
     }
   } catch (error) {
     console.error(`[Analytics] Unexpected error (${Date.now() - startTime}ms):`, error);
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getShopSession } from '@/lib/session';
+import { shopifyBaseUrl } from '@/lib/shopify-transport';
 
 const API_VERSION = '2025-01';
 
@@ -58,7 +59,7 @@ export async function GET(request: NextRequest) {
 
   try {
     const response = await fetch(
-      `https://${session.shop}/admin/api/${API_VERSION}/graphql.json`,
+      `${shopifyBaseUrl(session.shop)}/admin/api/${API_VERSION}/graphql.json`,
       {
         method: 'POST',
         headers: {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getShopSession } from '@/lib/session';
 import { prisma } from '@/lib/prisma';
+import { shopifyBaseUrl } from '@/lib/shopify-transport';
 
 const API_VERSION = '2026-01'; // ShopifyQL requires 2025-04+
 
@@ -22,7 +23,7 @@ async function runShopifyQL(shop: string, accessToken: string, qlQuery: string)
   `;
 
   const res = await fetch(
-    `https://${shop}/admin/api/${API_VERSION}/graphql.json`,
+    `${shopifyBaseUrl(shop)}/admin/api/${API_VERSION}/graphql.json`,
     {
       method: 'POST',
       headers: {
@@ -75,7 +76,7 @@ export async function GET(request: NextRequest) {
   // Check actual granted scopes from Shopify
   try {
     const scopeRes = await fetch(
-      `https://${session.shop}/admin/oauth/access_scopes.json`,
+      `${shopifyBaseUrl(session.shop)}/admin/oauth/access_scopes.json`,
       {
         headers: {
           'X-Shopify-Access-Token': session.accessToken,
@@ -97,7 +98,7 @@ export async function GET(request: NextRequest) {
   // Shop info
   try {
     const shopRes = await fetch(
-      `https://${session.shop}/admin/api/${API_VERSION}/shop.json?fields=name,plan_name,myshopify_domain`,
+      `${shopifyBaseUrl(session.shop)}/admin/api/${API_VERSION}/shop.json?fields=name,plan_name,myshopify_domain`,
       {
         headers: {
           'X-Shopify-Access-Token': session.accessToken,
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { getShopSession } from '@/lib/session';
+import { shopifyFetch } from '@/lib/shopify-client';
+import { shopifyBaseUrl } from '@/lib/shopify-transport';
 
 const API_VERSION = '2025-01';
 
@@ -27,8 +29,9 @@ export async function GET() {
         params.set('page_info', pageInfo);
       }
 
-      const response = await fetch(
-        `https://${session.shop}/admin/api/${API_VERSION}/products.json?${params}`,
+      const response = await shopifyFetch(
+        session.shop,
+        `${shopifyBaseUrl(session.shop)}/admin/api/${API_VERSION}/products.json?${params}`,
         {
           headers: {
             'X-Shopify-Access-Token': session.accessToken,
@@ -37,10 +40,6 @@ export async function GET() {
         }
       );
 
-      if (!response.ok) {
-        throw new Error(`Shopify API error: ${response.status}`);
-      }
-
       const data = await response.json();
 
       for (const product of data.products || []) {
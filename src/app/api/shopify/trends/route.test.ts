@@ -0,0 +1,107 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getShopSession } from '@/lib/session';
+import { getCachedData, setCachedData } from '@/lib/cache';
+import { getStoredProducts, storeProducts } from '@/lib/product-handles';
+import { loadFixtures, startMockShopifyServer } from '@/lib/shopify-mock';
+import { ComparisonResponse, TrendResponse } from '@/types';
+import { POST as analytics } from '../analytics/route';
+import { POST } from './route';
+
+vi.mock('@/lib/session', () => ({ getShopSession: vi.fn() }));
+vi.mock('@/lib/cache', async (importOriginal) => ({
+  generateCacheKey: (await importOriginal<typeof import('@/lib/cache')>()).generateCacheKey,
+  getCachedData: vi.fn(),
+  setCachedData: vi.fn(),
+  clearCache: vi.fn(),
+}));
+vi.mock('@/lib/accounts', () => ({ findAccountShop: vi.fn() }));
+vi.mock('@/lib/product-handles', () => ({
+  getStoredProducts: vi.fn(),
+  storeProducts: vi.fn(),
+  invalidateProductHandles: vi.fn(),
+}));
+
+// Shopify is the local fixture server from `npm run mock:shopify`
+const session = {
+  shop: 'puplabsco.myshopify.com',
+  accessToken: 'shpat_mock_test',
+  shopId: 'shop_1',
+  timezone: 'America/New_York',
+  money: { currency: 'USD', moneyFormat: '${{amount}}', locale: 'en' },
+  sessionId: 'session_1',
+  accountId: 'account_1',
+};
+const september = { start: '2026-09-01', end: '2026-09-30' };
+const url = '/products/calming-chews';
+
+let server: Server;
+
+beforeAll(async () => {
+  server = await startMockShopifyServer(0, loadFixtures());
+  process.env.SHOPIFY_MOCK_URL = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  delete process.env.SHOPIFY_MOCK_URL;
+  server.close();
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getShopSession).mockResolvedValue(session);
+  vi.mocked(getCachedData).mockResolvedValue(null);
+  vi.mocked(setCachedData).mockResolvedValue(undefined);
+  vi.mocked(getStoredProducts).mockResolvedValue(new Map());
+  vi.mocked(storeProducts).mockResolvedValue(undefined);
+});
+
+async function trendTotals(body: object) {
+  const response = await POST(new NextRequest('http://localhost/api/shopify/trends', {
+    method: 'POST',
+    body: JSON.stringify({ urls: [url], dateRange: september, granularity: 'week', ...body }),
+  }));
+  const data: TrendResponse = await response.json();
+  const sum = (field: 'sessions' | 'orderCount' | 'totalRevenue') =>
+    data.pages[0].points.reduce((total, point) => total + point[field], 0);
+  return { data, sessions: sum('sessions'), orders: sum('orderCount'), revenue: sum('totalRevenue') };
+}
+
+async function tableRow(body: object) {
+  const response = await analytics(new NextRequest('http://localhost/api/shopify/analytics', {
+    method: 'POST',
+    body: JSON.stringify({ urls: [url], dateRange: september, ...body }),
+  }));
+  const data: ComparisonResponse = await response.json();
+  return data.pages[0];
+}
+
+describe('POST /api/shopify/trends', () => {
+  it.each(['cart', 'product', 'product_with_accessories'])('adds up to the table row with %s revenue', async (revenueBasis) => {
+    const { data, sessions, orders, revenue } = await trendTotals({ revenueBasis });
+    const row = await tableRow({ revenueBasis });
+
+    expect(data.revenueBasis).toBe(revenueBasis);
+    expect(sessions).toBe(row.sessions);
+    expect(Math.round(orders)).toBe(row.orderCount);
+    // The row rounds its orders to a whole number; the points don't
+    expect(Math.abs(revenue - row.totalRevenue)).toBeLessThanOrEqual(row.aov / 2 + 0.01 * data.pages[0].points.length);
+  });
+
+  it('counts less than the full cart under the product bases', async () => {
+    const cart = await trendTotals({});
+    const product = await trendTotals({ revenueBasis: 'product' });
+
+    expect(product.revenue).toBeLessThan(cart.revenue);
+  });
+
+  it('keys the cache on the revenue basis', async () => {
+    await trendTotals({});
+    await trendTotals({ revenueBasis: 'product' });
+
+    const [[, cartKey], [, productKey]] = vi.mocked(getCachedData).mock.calls;
+    expect(cartKey).not.toBe(productKey);
+  });
+});
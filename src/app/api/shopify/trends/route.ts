@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getShopSession } from '@/lib/session';
+import {
+  resolveProductsFromUrls,
+  fetchLandingPageTrend,
+  fetchProductAOV,
+  normalizeUrlPath,
+} from '@/lib/shopify';
+import { exactUrlPaths, fetchBasisProducts } from '@/lib/analytics';
+import { REVENUE_BASES } from '@/lib/calculations';
+import { parseSegment } from '@/lib/segments';
+import { getCachedData, setCachedData, generateCacheKey } from '@/lib/cache';
+import { describeShopifyFailure } from '@/lib/shopify-client';
+import { withTimeout } from '@/lib/timeout';
+import { PageTrend, RevenueBasis, TrendRequest, TrendResponse } from '@/types';
+
+// POST /api/shopify/trends — sessions, orders and revenue per page per day/week.
+// Uses the same model as /api/shopify/analytics (orders = sessions × CVR,
+// revenue = orders × the revenue basis's AOV for the whole range). Points keep
+// their orders unrounded, so a page's sessions and orders add up to its row in
+// the comparison table, and its revenue does too up to the row rounding its
+// orders to a whole number.
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  const session = await getShopSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated. Please reconnect your store.' }, { status: 401 });
+  }
+
+  try {
+    const body: TrendRequest & { refresh?: boolean } = await request.json();
+    const { urls, dateRange, refresh } = body;
+    const exactUrls = Array.isArray(body.exactUrls) ? body.exactUrls : [];
+    const granularity = body.granularity === 'week' ? 'week' : 'day';
+    const revenueBasis: RevenueBasis = REVENUE_BASES.includes(body.revenueBasis!) ? body.revenueBasis! : 'cart';
+
+    if (!urls || urls.length === 0) {
+      return NextResponse.json({ error: 'At least one URL is required' }, { status: 400 });
+    }
+
+    if (!dateRange?.start || !dateRange?.end) {
+      return NextResponse.json({ error: 'Date range is required' }, { status: 400 });
+    }
+
+    const parsedSegment = parseSegment(body.segment);
+    if ('error' in parsedSegment) {
+      return NextResponse.json({ error: parsedSegment.error }, { status: 400 });
+    }
+    const { segment } = parsedSegment;
+
+    const cacheKey = generateCacheKey({
+      type: 'trend',
+      urls,
+      dateRange,
+      granularity,
+      exactUrls,
+      ...(revenueBasis !== 'cart' && { revenueBasis }),
+      ...(segment && { segment }),
+    });
+
+    if (!refresh) {
+      const cached = await getCachedData<TrendResponse>(session.shopId, cacheKey);
+      if (cached) {
+        console.log(`[Trends] Cache hit (${Date.now() - startTime}ms)`);
+        return NextResponse.json(cached);
+      }
+    }
+
+    const productMap = await withTimeout(
+      resolveProductsFromUrls(session.shop, session.accessToken, urls),
+      30000,
+      'Product resolution'
+    );
+
+    const urlPaths = urls.map(url => normalizeUrlPath(url));
+    const productIds = urls
+      .map(url => productMap.get(url)?.id)
+      .filter((id): id is number => !!id);
+    const { variantIds, variants, accessories } =
+      await fetchBasisProducts(session.shop, session.accessToken, urls, productMap, productIds, revenueBasis);
+
+    const [trend, productSales] = await withTimeout(
+      Promise.all([
+        fetchLandingPageTrend(
+          session.shop,
+          session.accessToken,
+          urlPaths,
+          dateRange,
+          granularity,
+          exactUrlPaths(urls, exactUrls),
+          segment
+        ),
+        fetchProductAOV(session.shop, session.accessToken, productIds, dateRange, session.money, {
+          basis: revenueBasis,
+          variants,
+          accessories,
+          segment,
+        }),
+      ]),
+      60000,
+      'ShopifyQL trend queries'
+    );
+
+    const pages: PageTrend[] = urls.map((url, idx) => {
+      const product = productMap.get(url);
+      const variantId = variantIds[idx];
+      const salesData = variantId ? productSales.variants.get(variantId) : product ? productSales.products.get(product.id) : undefined;
+      const aov = salesData?.aov || 0;
+      const points = trend.pages.get(urlPaths[idx]) || [];
+
+      return {
+        url,
+        productTitle: product?.title || 'Unknown Product',
+        points: points.map(point => ({
+          date: point.date,
+          sessions: product ? point.sessions : 0,
+          orderCount: product ? point.expectedOrders : 0,
+          totalRevenue: Math.round(point.expectedOrders * aov * 100) / 100,
+        })),
+      };
+    });
+
+    const response: TrendResponse = {
+      pages,
+      granularity,
+      dateRange,
+      revenueBasis,
+      money: session.money,
+      truncated: trend.truncated || productSales.truncated,
+      lastUpdated: new Date().toISOString(),
+    };
+
+    setCachedData(session.shopId, cacheKey, response).catch(err => {
+      console.warn('[Trends] Failed to cache results:', err);
+    });
+
+    console.log(`[Trends] Response complete (${Date.now() - startTime}ms)`);
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error(`[Trends] Failed (${Date.now() - startTime}ms):`, error);
+    const failure = describeShopifyFailure(error, session.shop);
+    if (failure) return NextResponse.json(failure.body, { status: failure.status });
+    const message = error instanceof Error ? error.message : 'Failed to fetch trend data';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getShopSession, switchSessionShop } from '@/lib/session';
+import { findAccountShop } from '@/lib/accounts';
+import { POST } from './route';
+
+vi.mock('@/lib/session', () => ({ getShopSession: vi.fn(), switchSessionShop: vi.fn() }));
+vi.mock('@/lib/accounts', () => ({ findAccountShop: vi.fn() }));
+
+const session = {
+  shop: 'puplabsco.myshopify.com',
+  accessToken: 'shpat_mock_test',
+  shopId: 'shop_1',
+  timezone: 'America/New_York',
+  money: { currency: 'USD', moneyFormat: '${{amount}}', locale: 'en' },
+  sessionId: 'session_1',
+  accountId: 'account_1',
+};
+const caStore = { id: 'shop_ca', domain: 'puplabs-ca.myshopify.com' };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getShopSession).mockResolvedValue(session);
+  delete process.env.SHOPIFY_ACCESS_MODE;
+});
+
+function post(body: unknown) {
+  return POST(new NextRequest('http://localhost/api/stores/current', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  }));
+}
+
+describe('POST /api/stores/current', () => {
+  it('moves the session to a linked store', async () => {
+    vi.mocked(findAccountShop).mockResolvedValue(caStore as never);
+
+    const response = await post({ shop: 'puplabs-ca' });
+
+    expect(response.status).toBe(200);
+    expect(findAccountShop).toHaveBeenCalledWith('account_1', caStore.domain);
+    expect(switchSessionShop).toHaveBeenCalledWith('session_1', 'shop_ca');
+  });
+
+  it('refuses a store the account has not linked', async () => {
+    vi.mocked(findAccountShop).mockResolvedValue(null);
+
+    const response = await post({ shop: 'someone-else.myshopify.com' });
+
+    expect(response.status).toBe(404);
+    expect(switchSessionShop).not.toHaveBeenCalled();
+  });
+
+  it('sends online-mode users through sign-in for the other store', async () => {
+    process.env.SHOPIFY_ACCESS_MODE = 'online';
+    vi.mocked(findAccountShop).mockResolvedValue(caStore as never);
+
+    const data = await (await post({ shop: caStore.domain })).json();
+
+    expect(data.redirect).toBe(`/api/auth?shop=${encodeURIComponent(caStore.domain)}`);
+    expect(switchSessionShop).not.toHaveBeenCalled();
+  });
+
+  it('is not available to embedded sessions', async () => {
+    vi.mocked(getShopSession).mockResolvedValue({ ...session, sessionId: null, accountId: null });
+
+    expect((await post({ shop: caStore.domain })).status).toBe(400);
+  });
+});
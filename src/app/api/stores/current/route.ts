@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getShopSession, switchSessionShop } from '@/lib/session';
+import { findAccountShop } from '@/lib/accounts';
+import { getAccessMode } from '@/lib/shopify';
+import { normalizeShopDomain } from '@/lib/shop-domain';
+
+// POST /api/stores/current — switch the session to another linked store
+export async function POST(request: NextRequest) {
+  const session = await getShopSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  if (!session.sessionId || !session.accountId) {
+    return NextResponse.json({ error: 'Switch stores from the Shopify admin' }, { status: 400 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const shop = normalizeShopDomain(body?.shop);
+  if (!shop) {
+    return NextResponse.json({ error: 'A valid store domain is required' }, { status: 400 });
+  }
+
+  try {
+    const target = await findAccountShop(session.accountId, shop);
+    if (!target) {
+      return NextResponse.json({ error: `${shop} isn't linked to your account` }, { status: 404 });
+    }
+
+    // Online tokens are per store, so the staff member signs in to the other
+    // store; the callback keeps the same account
+    if (getAccessMode() === 'online') {
+      return NextResponse.json({ shop, redirect: `/api/auth?shop=${encodeURIComponent(shop)}` });
+    }
+
+    await switchSessionShop(session.sessionId, target.id);
+    console.log(`[Stores] Session switched from ${session.shop} to ${shop}`);
+    return NextResponse.json({ shop });
+  } catch (error) {
+    console.error('[Stores] Failed to switch:', error);
+    return NextResponse.json({ error: 'Failed to switch store' }, { status: 500 });
+  }
+}
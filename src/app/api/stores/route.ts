@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getShopSession } from '@/lib/session';
+import { listAccountShops } from '@/lib/accounts';
+import { LinkedStore } from '@/types';
+
+// GET /api/stores — stores linked to the signed-in account, and whether
+// another can be connected from this browser
+export async function GET() {
+  const session = await getShopSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  // Embedded sessions have no account; the store is the admin they're opened in
+  if (!session.accountId) {
+    const stores: LinkedStore[] = [{ shop: session.shop, currency: session.money.currency, current: true }];
+    return NextResponse.json({ stores, canConnect: false });
+  }
+
+  try {
+    const shops = await listAccountShops(session.accountId);
+    const stores: LinkedStore[] = shops.map(shop => ({
+      shop: shop.domain,
+      currency: shop.currency,
+      current: shop.id === session.shopId,
+    }));
+    return NextResponse.json({ stores, canConnect: true });
+  } catch (error) {
+    console.error('[Stores] Failed to list:', error);
+    return NextResponse.json({ error: 'Failed to load stores' }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { invalidateProductHandles } from '@/lib/product-handles';
+import { POST } from './route';
+
+vi.mock('@/lib/product-handles', () => ({ invalidateProductHandles: vi.fn() }));
+
+const secret = 'test-secret';
+const shop = 'puplabsco.myshopify.com';
+let originalSecret: string | undefined;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(invalidateProductHandles).mockResolvedValue(1);
+  originalSecret = process.env.SHOPIFY_API_SECRET;
+  process.env.SHOPIFY_API_SECRET = secret;
+});
+
+afterEach(() => {
+  process.env.SHOPIFY_API_SECRET = originalSecret;
+});
+
+// Deliver a webhook the way Shopify does, signed over the raw body
+function deliver(payload: unknown, { key = secret, topic = 'products/update' } = {}) {
+  const body = JSON.stringify(payload);
+  return POST(new NextRequest('http://localhost/api/webhooks/products', {
+    method: 'POST',
+    body,
+    headers: {
+      'X-Shopify-Hmac-Sha256': crypto.createHmac('sha256', key).update(body).digest('base64'),
+      'X-Shopify-Shop-Domain': shop,
+      'X-Shopify-Topic': topic,
+    },
+  }));
+}
+
+describe('POST /api/webhooks/products', () => {
+  it('drops the stored handle for an updated product', async () => {
+    const response = await deliver({ id: 7100000000005, handle: 'calming-chews-v2' });
+
+    expect(response.status).toBe(200);
+    expect(invalidateProductHandles).toHaveBeenCalledWith(shop, 7100000000005);
+  });
+
+  it('drops the stored handle for a deleted product', async () => {
+    const response = await deliver({ id: 7100000000005 }, { topic: 'products/delete' });
+
+    expect(response.status).toBe(200);
+    expect(invalidateProductHandles).toHaveBeenCalledWith(shop, 7100000000005);
+  });
+
+  it('rejects deliveries signed with another secret', async () => {
+    const response = await deliver({ id: 7100000000005 }, { key: 'other-secret' });
+
+    expect(response.status).toBe(401);
+    expect(invalidateProductHandles).not.toHaveBeenCalled();
+  });
+});
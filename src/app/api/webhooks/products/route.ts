@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyWebhookHmac } from '@/lib/shopify';
+import { invalidateProductHandles } from '@/lib/product-handles';
+
+// products/update and products/delete (registered in the OAuth callback)
+// POST /api/webhooks/products
+export async function POST(request: NextRequest) {
+  const rawBody = await request.text();
+
+  if (!verifyWebhookHmac(rawBody, request.headers.get('x-shopify-hmac-sha256'))) {
+    return NextResponse.json({ error: 'HMAC verification failed' }, { status: 401 });
+  }
+
+  const shop = request.headers.get('x-shopify-shop-domain');
+  const topic = request.headers.get('x-shopify-topic');
+  if (!shop) {
+    return NextResponse.json({ error: 'Missing shop domain' }, { status: 400 });
+  }
+
+  let productId: number | undefined;
+  try {
+    productId = Number(JSON.parse(rawBody).id) || undefined;
+  } catch {
+    // Unreadable payload: fall through and drop the whole shop's map
+  }
+
+  const count = await invalidateProductHandles(shop, productId);
+  console.log(`[Webhooks] ${topic} for ${shop}: dropped ${count} stored handle(s)${productId ? ` for product #${productId}` : ''}`);
+
+  return NextResponse.json({ ok: true });
+}
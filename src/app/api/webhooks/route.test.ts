@@ -0,0 +1,122 @@
+import crypto from 'crypto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { POST } from './route';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    shop: { deleteMany: vi.fn() },
+    webhookDelivery: { findUnique: vi.fn(), create: vi.fn(), update: vi.fn() },
+  },
+}));
+
+const secret = 'test-secret';
+const shop = 'puplabsco.myshopify.com';
+let webhookCounter = 0;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  process.env.SHOPIFY_API_SECRET = secret;
+  vi.mocked(prisma.shop.deleteMany).mockResolvedValue({ count: 1 });
+  vi.mocked(prisma.webhookDelivery.findUnique).mockResolvedValue(null);
+});
+
+// Deliver a webhook the way Shopify does, signed over the raw body
+function deliver(topic: string, payload: unknown, { key = secret, webhookId = `wh-${++webhookCounter}` } = {}) {
+  const body = JSON.stringify(payload);
+  return POST(new NextRequest('http://localhost/api/webhooks', {
+    method: 'POST',
+    body,
+    headers: {
+      'X-Shopify-Hmac-Sha256': crypto.createHmac('sha256', key).update(body).digest('base64'),
+      'X-Shopify-Shop-Domain': shop,
+      'X-Shopify-Topic': topic,
+      'X-Shopify-Webhook-Id': webhookId,
+    },
+  }));
+}
+
+describe('POST /api/webhooks', () => {
+  it('deletes the shop and records the delivery on app/uninstalled', async () => {
+    const response = await deliver('app/uninstalled', { id: 690933842, domain: shop });
+
+    expect(response.status).toBe(200);
+    expect(prisma.shop.deleteMany).toHaveBeenCalledWith({ where: { domain: shop } });
+    expect(prisma.webhookDelivery.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ topic: 'app/uninstalled', shopDomain: shop, payload: { shopId: 690933842 } }),
+    });
+    expect(prisma.webhookDelivery.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ status: 'processed', result: 'Deleted shop and all of its stored data' }),
+    }));
+  });
+
+  it('deletes the shop on shop/redact', async () => {
+    const response = await deliver('shop/redact', { shop_id: 690933842, shop_domain: shop });
+
+    expect(response.status).toBe(200);
+    expect(prisma.shop.deleteMany).toHaveBeenCalledWith({ where: { domain: shop } });
+  });
+
+  it('records customer redaction without keeping the customer details', async () => {
+    const response = await deliver('customers/redact', {
+      shop_domain: shop,
+      customer: { id: 191167, email: 'john@example.com', phone: '555-625-1199' },
+      orders_to_redact: [299938, 280263],
+    });
+
+    expect(response.status).toBe(200);
+    expect(prisma.shop.deleteMany).not.toHaveBeenCalled();
+    const { data } = vi.mocked(prisma.webhookDelivery.create).mock.calls[0][0];
+    expect(data.payload).toEqual({ customerId: 191167, ordersToRedact: [299938, 280263] });
+    expect(JSON.stringify(data)).not.toContain('john@example.com');
+  });
+
+  it('answers a customer data request', async () => {
+    const response = await deliver('customers/data_request', {
+      customer: { id: 191167, email: 'john@example.com' },
+      orders_requested: [299938],
+      data_request: { id: 9999 },
+    });
+
+    expect(response.status).toBe(200);
+    expect(prisma.webhookDelivery.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ status: 'processed', result: 'No customer data stored' }),
+    }));
+  });
+
+  it('does not process a retried delivery twice', async () => {
+    vi.mocked(prisma.webhookDelivery.findUnique).mockResolvedValue({ status: 'processed' } as never);
+
+    const response = await deliver('app/uninstalled', { id: 690933842 }, { webhookId: 'wh-retried' });
+
+    expect(response.status).toBe(200);
+    expect(prisma.shop.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('marks the delivery failed and asks Shopify to retry when the handler fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(prisma.shop.deleteMany).mockRejectedValue(new Error('database unavailable'));
+
+    const response = await deliver('app/uninstalled', { id: 690933842 });
+
+    expect(response.status).toBe(500);
+    expect(prisma.webhookDelivery.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ status: 'failed', error: 'database unavailable' }),
+    }));
+  });
+
+  it('rejects deliveries signed with another secret', async () => {
+    const response = await deliver('shop/redact', { shop_id: 1 }, { key: 'other-secret' });
+
+    expect(response.status).toBe(401);
+    expect(prisma.webhookDelivery.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects topics it does not handle', async () => {
+    const response = await deliver('orders/create', { id: 1 });
+
+    expect(response.status).toBe(400);
+  });
+});
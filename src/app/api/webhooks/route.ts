@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyWebhookHmac } from '@/lib/shopify';
+import { normalizeShopDomain } from '@/lib/shop-domain';
+import { isComplianceTopic, processComplianceWebhook } from '@/lib/webhooks';
+
+// app/uninstalled (registered in the OAuth callback) and the GDPR topics
+// customers/data_request, customers/redact and shop/redact
+// POST /api/webhooks
+export async function POST(request: NextRequest) {
+  const rawBody = await request.text();
+
+  if (!verifyWebhookHmac(rawBody, request.headers.get('x-shopify-hmac-sha256'))) {
+    return NextResponse.json({ error: 'HMAC verification failed' }, { status: 401 });
+  }
+
+  const shop = normalizeShopDomain(request.headers.get('x-shopify-shop-domain'));
+  const topic = request.headers.get('x-shopify-topic');
+  const webhookId = request.headers.get('x-shopify-webhook-id');
+  if (!shop || !webhookId) {
+    return NextResponse.json({ error: 'Missing shop domain or webhook id' }, { status: 400 });
+  }
+  if (!isComplianceTopic(topic)) {
+    return NextResponse.json({ error: `Unsupported topic: ${topic}` }, { status: 400 });
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+  }
+
+  try {
+    const { duplicate } = await processComplianceWebhook({ webhookId, topic, shop, payload });
+    if (duplicate) console.log(`[Webhooks] ${topic} ${webhookId} for ${shop} already processed`);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error(`[Webhooks] ${topic} for ${shop} failed:`, error);
+    return NextResponse.json({ error: 'Webhook processing failed' }, { status: 500 });
+  }
+}
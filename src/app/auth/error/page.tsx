@@ -0,0 +1,76 @@
+import Link from 'next/link';
+import type { AuthErrorReason } from '@/lib/oauth';
+import { normalizeShopDomain } from '@/lib/shop-domain';
+
+const MESSAGES: Record<AuthErrorReason, { title: string; detail: string }> = {
+  invalid_shop: {
+    title: 'That isn’t a Shopify store domain',
+    detail: 'Enter your store’s myshopify.com address, e.g. your-store.myshopify.com. Custom domains won’t work here.',
+  },
+  missing_params: {
+    title: 'The sign-in link is incomplete',
+    detail: 'Start again from the connect page rather than opening the callback link directly.',
+  },
+  invalid_hmac: {
+    title: 'We couldn’t verify that this came from Shopify',
+    detail: 'The request signature didn’t match. Start the connection again from the connect page.',
+  },
+  invalid_state: {
+    title: 'This sign-in has expired',
+    detail: 'Connections have to finish within 10 minutes, in the same browser they started in. Please try again.',
+  },
+  not_installed: {
+    title: 'The app isn’t installed on this store yet',
+    detail: 'Connect the store first; you’ll then be asked to sign in with your own Shopify account.',
+  },
+  token_exchange_failed: {
+    title: 'Shopify didn’t accept the sign-in',
+    detail: 'The authorisation code was rejected or Shopify couldn’t be reached. Please try again.',
+  },
+  server_error: {
+    title: 'Something went wrong connecting your store',
+    detail: 'The store was authorised but we couldn’t finish setting it up. Please try again in a moment.',
+  },
+};
+
+export default async function AuthErrorPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ reason?: string; shop?: string }>;
+}) {
+  const { reason, shop } = await searchParams;
+  const message = MESSAGES[reason as AuthErrorReason] || MESSAGES.server_error;
+  const retryShop = normalizeShopDomain(shop);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50">
+      <div className="w-full max-w-md rounded-2xl border border-gray-200 bg-white p-8 shadow-sm">
+        <div className="mb-6 text-center">
+          <div className="mx-auto mb-4 flex h-14 w-14 items-center justify-center rounded-xl bg-red-100 text-xl font-bold text-red-600">
+            !
+          </div>
+          <h1 className="text-xl font-semibold text-gray-900">{message.title}</h1>
+          <p className="mt-2 text-sm text-gray-500">{message.detail}</p>
+          {shop && <p className="mt-3 font-mono text-xs text-gray-400">{shop}</p>}
+        </div>
+
+        <div className="space-y-3">
+          {retryShop && reason !== 'invalid_shop' && (
+            <a
+              href={`/api/auth?shop=${encodeURIComponent(retryShop)}`}
+              className="flex w-full items-center justify-center rounded-lg bg-indigo-600 px-4 py-3 text-sm font-medium text-white hover:bg-indigo-700 transition-colors"
+            >
+              Try again
+            </a>
+          )}
+          <Link
+            href="/"
+            className="flex w-full items-center justify-center rounded-lg border border-gray-300 px-4 py-3 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Back to connect page
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,39 +1,101 @@
 'use client';
 
-import { useState, useCallback } from 'react';
-import { format, subDays } from 'date-fns';
+import { useState, useCallback, useEffect } from 'react';
 import DateRangePicker from '@/components/DateRangePicker';
-import PageSelector from '@/components/PageSelector';
+import GroupEditor from '@/components/GroupEditor';
 import MetricsTable from '@/components/MetricsTable';
+import MatchedPathsBreakdown from '@/components/MatchedPathsBreakdown';
+import ErrorNotice from '@/components/ErrorNotice';
+import TruncationNotice from '@/components/TruncationNotice';
 import ExportButton from '@/components/ExportButton';
-import { aggregateGroupMetrics } from '@/lib/calculations';
+import SavedComparisonPicker from '@/components/SavedComparisonPicker';
+import SegmentPicker from '@/components/SegmentPicker';
+import ReportSchedules from '@/components/ReportSchedules';
+import StoreSwitcher from '@/components/StoreSwitcher';
+import TrendView from '@/components/TrendView';
+import { aggregateGroupMetrics, REVENUE_BASIS_LABELS } from '@/lib/calculations';
+import { DEFAULT_DATE_PRESET, getPresetRange, getComparisonRange } from '@/lib/date-presets';
 import {
+  MAX_GROUPS,
+  createGroup,
+  createDefaultGroups,
+  expandGroupsAcrossStores,
+  groupStore,
+  splitUrlsByStore,
+} from '@/lib/groups';
+import {
+  ApiErrorBody,
+  CompareMode,
+  ComparisonResponse,
   DateRange,
   UrlGroup,
   GroupMetrics,
+  LinkedStore,
+  PageMetrics,
+  RevenueBasis,
+  RevenueMode,
+  SavedComparison,
+  SegmentFilters,
 } from '@/types';
 
 export default function DashboardPage() {
-  const [dateRange, setDateRange] = useState<DateRange>({
-    start: format(subDays(new Date(), 30), 'yyyy-MM-dd'),
-    end: format(new Date(), 'yyyy-MM-dd'),
-  });
-  const [groupA, setGroupA] = useState<UrlGroup>({ name: 'Group A', urls: [] });
-  const [groupB, setGroupB] = useState<UrlGroup>({ name: 'Group B', urls: [] });
+  const [dateRange, setDateRange] = useState<DateRange>(() => getPresetRange(DEFAULT_DATE_PRESET)!);
+  const [datePreset, setDatePreset] = useState<string | null>(DEFAULT_DATE_PRESET);
+  const [compareMode, setCompareMode] = useState<CompareMode>('none');
+  const [customCompareRange, setCustomCompareRange] = useState<DateRange | null>(null);
+  const [revenueMode, setRevenueMode] = useState<RevenueMode>('estimated');
+  const [revenueBasis, setRevenueBasis] = useState<RevenueBasis>('cart');
+  const [segment, setSegment] = useState<SegmentFilters | null>(null);
+  const [customerSplit, setCustomerSplit] = useState(false);
+  const [savedComparisonId, setSavedComparisonId] = useState<string | null>(null);
+  const [urlGroups, setUrlGroups] = useState<UrlGroup[]>(createDefaultGroups);
+  const [baselineIndex, setBaselineIndex] = useState(0);
   const [groups, setGroups] = useState<GroupMetrics[]>([]);
+  const [pages, setPages] = useState<PageMetrics[]>([]);
+  // Baseline the current results were computed with (the editor may have moved on)
+  const [resultBaselineIndex, setResultBaselineIndex] = useState(0);
+  // Groups and range the current results were computed for, for the trend view
+  const [resultGroups, setResultGroups] = useState<UrlGroup[]>([]);
+  const [resultDateRange, setResultDateRange] = useState<DateRange | null>(null);
+  const [resultCompareRange, setResultCompareRange] = useState<DateRange | null>(null);
+  const [resultRevenueBasis, setResultRevenueBasis] = useState<RevenueBasis>('cart');
+  const [resultSegment, setResultSegment] = useState<SegmentFilters | null>(null);
+  const [resultsView, setResultsView] = useState<'table' | 'trend'>('table');
+  const [trendRefreshToken, setTrendRefreshToken] = useState(0);
   const [loading, setLoading] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [truncated, setTruncated] = useState(false);
+  const [error, setError] = useState<ApiErrorBody | null>(null);
+  const [stores, setStores] = useState<LinkedStore[]>([]);
+  const [canConnect, setCanConnect] = useState(false);
+
+  // Stores on the signed-in account, for the switcher and cross-store groups
+  useEffect(() => {
+    fetch('/api/stores')
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (!data) return;
+        setStores(data.stores);
+        setCanConnect(data.canConnect);
+      })
+      .catch(() => {});
+  }, []);
 
-  const allUrls = [...new Set([...groupA.urls, ...groupB.urls])];
+  const currentShop = stores.find(s => s.current)?.shop ?? null;
+  // Trends are fetched for the signed-in store only
+  const crossStoreResults = resultGroups.some(g => g.shop && g.shop !== currentShop);
+
+  const allUrls = [...new Set(urlGroups.flatMap(g => g.urls))];
 
   const runComparison = useCallback(async (refresh = false) => {
-    const combined = [...new Set([...groupA.urls, ...groupB.urls])];
-    if (groupA.urls.length === 0 || groupB.urls.length === 0) {
-      setError('Add at least one product URL to each group');
+    const { urls, exactUrls, stores: storeUrls } = splitUrlsByStore(urlGroups, currentShop);
+    if (urlGroups.some(g => g.urls.length === 0)) {
+      setError({ error: 'Add at least one product URL to each group' });
       return;
     }
 
+    const compareTo = getComparisonRange(dateRange, compareMode, customCompareRange);
+
     setLoading(true);
     setError(null);
 
@@ -45,8 +107,15 @@ export default function DashboardPage() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          urls: combined,
+          urls,
+          exactUrls,
+          ...(storeUrls.length > 0 && { stores: storeUrls }),
           dateRange,
+          ...(compareTo && { compareTo }),
+          revenueMode,
+          revenueBasis,
+          ...(segment && { segment }),
+          ...(customerSplit && { customerSplit }),
           refresh,
         }),
         signal: controller.signal,
@@ -59,36 +128,114 @@ export default function DashboardPage() {
           window.location.href = '/';
           return;
         }
-        const errorData = await response.json().catch(() => null);
-        throw new Error(errorData?.error || `Request failed (${response.status})`);
+        // Shopify failures come back as a structured ApiErrorBody
+        const errorData: ApiErrorBody | null = await response.json().catch(() => null);
+        setError(errorData?.error ? errorData : { error: `Request failed (${response.status})` });
+        return;
       }
 
-      const data = await response.json();
-      const aggregated = [
-        aggregateGroupMetrics(groupA.name, groupA.urls, data.pages),
-        aggregateGroupMetrics(groupB.name, groupB.urls, data.pages),
-      ];
+      const data: ComparisonResponse = await response.json();
+      const aggregated = urlGroups.map(group => {
+        const store = groupStore(group, data.shop);
+        return {
+          ...aggregateGroupMetrics(group.name, group.urls, data.pages, store),
+          color: group.color,
+          money: store ? data.money?.[store] : undefined,
+          ...(data.previous && {
+            previous: aggregateGroupMetrics(group.name, group.urls, data.previous.pages, store),
+          }),
+        };
+      });
       setGroups(aggregated);
+      setPages(data.pages);
+      setResultBaselineIndex(baselineIndex);
+      setResultGroups(urlGroups);
+      setResultDateRange(dateRange);
+      setResultCompareRange(data.previous?.dateRange || null);
+      setResultRevenueBasis(data.revenueBasis ?? 'cart');
+      setResultSegment(data.segment ?? null);
+      if (refresh) setTrendRefreshToken(prev => prev + 1);
       setLastUpdated(data.lastUpdated);
+      setTruncated(!!data.truncated);
     } catch (err) {
       clearTimeout(timeout);
       console.error('Comparison error:', err);
       if (err instanceof DOMException && err.name === 'AbortError') {
-        setError('Request timed out. Try a shorter date range or fewer URLs.');
+        setError({ error: 'Request timed out.', action: 'Try a shorter date range or fewer URLs.' });
       } else if (err instanceof Error) {
-        setError(err.message);
+        setError({ error: err.message });
       } else {
-        setError('Failed to fetch analytics data. Please try again.');
+        setError({ error: 'Failed to fetch analytics data. Please try again.' });
       }
     } finally {
       setLoading(false);
     }
-  }, [groupA, groupB, dateRange]);
+  }, [urlGroups, currentShop, baselineIndex, dateRange, compareMode, customCompareRange, revenueMode, revenueBasis, segment, customerSplit]);
 
   const clearComparison = () => {
     setGroups([]);
-    setGroupA({ name: 'Group A', urls: [] });
-    setGroupB({ name: 'Group B', urls: [] });
+    setUrlGroups(createDefaultGroups());
+    setBaselineIndex(0);
+    setSavedComparisonId(null);
+    setLastUpdated(null);
+    setError(null);
+  };
+
+  const updateGroup = (index: number, group: UrlGroup) => {
+    setUrlGroups(prev => prev.map((g, i) => (i === index ? group : g)));
+  };
+
+  // Same pages on every linked store, one group each
+  const splitAcrossStores = () => {
+    setUrlGroups(prev => expandGroupsAcrossStores(prev, stores.map(s => s.shop)));
+    setBaselineIndex(0);
+  };
+
+  const addGroup = () => {
+    setUrlGroups(prev => (prev.length >= MAX_GROUPS ? prev : [...prev, createGroup(prev)]));
+  };
+
+  // Keep the baseline pointing at the same group as indices shift
+  const removeGroup = (index: number) => {
+    setUrlGroups(prev => prev.filter((_, i) => i !== index));
+    setBaselineIndex(prev => (prev === index ? 0 : prev > index ? prev - 1 : prev));
+  };
+
+  const moveGroup = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= urlGroups.length) return;
+
+    setUrlGroups(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    setBaselineIndex(prev => (prev === index ? target : prev === target ? index : prev));
+  };
+
+  const handleDateRangeChange = (range: DateRange, presetId: string | null) => {
+    setDateRange(range);
+    setDatePreset(presetId);
+  };
+
+  // Restore groups and (if it was a preset) the date range from a saved comparison.
+  // Custom ranges are not restored — the saved dates would almost always be stale.
+  const loadSavedComparison = (saved: SavedComparison) => {
+    const loaded: UrlGroup[] = saved.groups.map((group, i) => ({
+      ...group,
+      color: group.color || createGroup(saved.groups.slice(0, i)).color,
+    }));
+    while (loaded.length < 2) loaded.push(createGroup(loaded));
+    setUrlGroups(loaded);
+    setBaselineIndex(saved.baselineIndex < loaded.length ? saved.baselineIndex : 0);
+    if (saved.datePreset) {
+      const range = getPresetRange(saved.datePreset);
+      if (range) {
+        setDateRange(range);
+        setDatePreset(saved.datePreset);
+      }
+    }
+    setGroups([]);
     setLastUpdated(null);
     setError(null);
   };
@@ -108,9 +255,15 @@ export default function DashboardPage() {
             </div>
           </div>
           <div className="flex items-center gap-3">
+            <StoreSwitcher stores={stores} canConnect={canConnect} />
             <ExportButton
               groups={groups}
-              dateRange={dateRange}
+              pages={pages}
+              baselineIndex={resultBaselineIndex}
+              dateRange={resultDateRange || dateRange}
+              compareDateRange={resultCompareRange}
+              revenueBasis={resultRevenueBasis}
+              segment={resultSegment}
               disabled={groups.length === 0}
             />
           </div>
@@ -120,49 +273,68 @@ export default function DashboardPage() {
       <main className="mx-auto max-w-7xl px-6 py-6">
         {/* Controls card */}
         <div className="rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
-          {/* Row 1: Date range */}
-          <div className="flex flex-wrap items-center gap-4">
-            <DateRangePicker dateRange={dateRange} onChange={setDateRange} />
+          {/* Row 1: Date range + saved comparisons */}
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <DateRangePicker
+              dateRange={dateRange}
+              onChange={handleDateRangeChange}
+              compareMode={compareMode}
+              customCompareRange={customCompareRange}
+              onCompareChange={(mode, range) => {
+                setCompareMode(mode);
+                setCustomCompareRange(range);
+              }}
+            />
+            <SegmentPicker segment={segment} onChange={setSegment} disabled={loading} />
+            <SavedComparisonPicker
+              groups={urlGroups}
+              baselineIndex={baselineIndex}
+              datePreset={datePreset}
+              activeId={savedComparisonId}
+              onActiveChange={setSavedComparisonId}
+              onLoad={loadSavedComparison}
+            />
           </div>
 
           {/* Row 2: URL Groups */}
           <div className="mt-4 border-t border-gray-100 pt-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              {/* Group A */}
-              <div className="rounded-lg border border-indigo-200 bg-indigo-50/30 p-4">
-                <div className="flex items-center justify-between mb-3">
-                  <input
-                    type="text"
-                    value={groupA.name}
-                    onChange={(e) => setGroupA(prev => ({ ...prev, name: e.target.value }))}
-                    className="text-sm font-semibold text-indigo-700 bg-transparent border-none focus:outline-none focus:ring-0 p-0 w-32"
-                  />
-                  <span className="text-xs text-indigo-400">{groupA.urls.length} page{groupA.urls.length !== 1 ? 's' : ''}</span>
-                </div>
-                <PageSelector
-                  urls={groupA.urls}
-                  onChange={(urls) => setGroupA(prev => ({ ...prev, urls }))}
-                  maxPages={10}
+              {urlGroups.map((group, index) => (
+                <GroupEditor
+                  key={index}
+                  group={group}
+                  index={index}
+                  groupCount={urlGroups.length}
+                  isBaseline={index === baselineIndex}
+                  stores={stores}
+                  onChange={(updated) => updateGroup(index, updated)}
+                  onRemove={() => removeGroup(index)}
+                  onMove={(direction) => moveGroup(index, direction)}
+                  onSetBaseline={() => setBaselineIndex(index)}
                 />
-              </div>
-
-              {/* Group B */}
-              <div className="rounded-lg border border-amber-200 bg-amber-50/30 p-4">
-                <div className="flex items-center justify-between mb-3">
-                  <input
-                    type="text"
-                    value={groupB.name}
-                    onChange={(e) => setGroupB(prev => ({ ...prev, name: e.target.value }))}
-                    className="text-sm font-semibold text-amber-700 bg-transparent border-none focus:outline-none focus:ring-0 p-0 w-32"
-                  />
-                  <span className="text-xs text-amber-400">{groupB.urls.length} page{groupB.urls.length !== 1 ? 's' : ''}</span>
-                </div>
-                <PageSelector
-                  urls={groupB.urls}
-                  onChange={(urls) => setGroupB(prev => ({ ...prev, urls }))}
-                  maxPages={10}
-                />
-              </div>
+              ))}
+            </div>
+            <div className="mt-4 flex flex-wrap items-center gap-3">
+              {urlGroups.length < MAX_GROUPS && (
+                <button
+                  onClick={addGroup}
+                  className="flex items-center gap-1.5 rounded-lg border border-dashed border-gray-300 px-4 py-2 text-sm font-medium text-gray-500 hover:border-indigo-300 hover:text-indigo-600 transition-colors"
+                >
+                  <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                  </svg>
+                  Add Group ({urlGroups.length}/{MAX_GROUPS})
+                </button>
+              )}
+              {stores.length > 1 && urlGroups.every(g => !g.shop) && (
+                <button
+                  onClick={splitAcrossStores}
+                  title="Make one group per store for each group, with the same pages"
+                  className="flex items-center gap-1.5 rounded-lg border border-dashed border-gray-300 px-4 py-2 text-sm font-medium text-gray-500 hover:border-indigo-300 hover:text-indigo-600 transition-colors"
+                >
+                  Compare across {stores.length} stores
+                </button>
+              )}
             </div>
           </div>
 
@@ -213,19 +385,115 @@ export default function DashboardPage() {
                 </button>
               </>
             )}
+
+            <label
+              className="ml-auto flex items-center gap-2 text-xs text-gray-500"
+              title="Also split each group into first-time and returning buyers, for judging acquisition pages on new customers"
+            >
+              <input
+                type="checkbox"
+                checked={customerSplit}
+                onChange={(e) => setCustomerSplit(e.target.checked)}
+                disabled={loading}
+                className="h-3.5 w-3.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              New vs. returning
+            </label>
+
+            <select
+              value={revenueBasis}
+              onChange={(e) => setRevenueBasis(e.target.value as RevenueBasis)}
+              disabled={loading}
+              title="Full cart counts whole orders; product line items count only the page's product (its variant when the URL names one), optionally with its complementary products"
+              className="rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-xs text-gray-700 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:text-gray-400"
+            >
+              {(Object.keys(REVENUE_BASIS_LABELS) as RevenueBasis[]).map((basis) => (
+                <option key={basis} value={basis}>
+                  {REVENUE_BASIS_LABELS[basis]}
+                </option>
+              ))}
+            </select>
+
+            <div
+              className="flex items-center gap-2"
+              title="Attributed also totals the real orders whose visit landed on each page, beside the sessions × CVR × AOV estimate"
+            >
+              <span className="text-xs text-gray-400">Revenue</span>
+              <div className="flex rounded-lg border border-gray-200 p-0.5">
+                {(['estimated', 'attributed'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setRevenueMode(mode)}
+                    disabled={loading}
+                    className={`rounded-md px-3 py-1 text-xs font-medium transition-colors ${
+                      revenueMode === mode ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    {mode === 'estimated' ? 'Estimated' : 'Estimated + attributed'}
+                  </button>
+                ))}
+              </div>
+            </div>
           </div>
         </div>
 
         {/* Error message */}
         {error && (
-          <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
-            {error}
+          <div className="mt-4">
+            <ErrorNotice error={error} />
+          </div>
+        )}
+
+        {truncated && groups.length > 0 && !loading && (
+          <div className="mt-4">
+            <TruncationNotice />
           </div>
         )}
 
         {/* Results card */}
         <div className="mt-6 rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
-          <MetricsTable groups={groups} loading={loading} />
+          {groups.length > 0 && !loading && crossStoreResults && (
+            <p className="mb-4 text-right text-xs text-gray-400">Trends are available for single-store comparisons</p>
+          )}
+          {groups.length > 0 && !loading && !crossStoreResults && (
+            <div className="mb-4 flex justify-end">
+              <div className="flex rounded-lg border border-gray-200 p-0.5">
+                {(['table', 'trend'] as const).map((view) => (
+                  <button
+                    key={view}
+                    onClick={() => setResultsView(view)}
+                    className={`rounded-md px-3 py-1 text-xs font-medium transition-colors ${
+                      resultsView === view ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    {view === 'table' ? 'Summary' : 'Trend'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          {resultsView === 'trend' && groups.length > 0 && !loading && !crossStoreResults && resultDateRange ? (
+            <TrendView
+              groups={resultGroups}
+              dateRange={resultDateRange}
+              revenueBasis={resultRevenueBasis}
+              segment={resultSegment}
+              refreshToken={trendRefreshToken}
+            />
+          ) : (
+            <>
+              <MetricsTable
+                groups={groups}
+                pages={pages}
+                baselineIndex={resultBaselineIndex}
+                onBaselineChange={setResultBaselineIndex}
+                revenueBasis={resultRevenueBasis}
+                segment={resultSegment}
+                loading={loading}
+              />
+              {groups.length > 0 && !loading && <MatchedPathsBreakdown pages={pages} />}
+            </>
+          )}
         </div>
 
         {/* Footer */}
@@ -235,6 +503,8 @@ export default function DashboardPage() {
             <span>Sessions data may be delayed 24-48 hours per Shopify Analytics</span>
           </div>
         )}
+
+        <ReportSchedules activeComparisonId={savedComparisonId} />
       </main>
     </div>
   );
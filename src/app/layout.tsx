@@ -1,5 +1,8 @@
 import type { Metadata } from 'next';
 import { Inter } from 'next/font/google';
+import { headers } from 'next/headers';
+import Script from 'next/script';
+import { APP_BRIDGE_URL, EMBEDDED_HEADER } from '@/lib/embedded';
 import './globals.css';
 
 const inter = Inter({
@@ -12,13 +15,23 @@ export const metadata: Metadata = {
   description: 'Product page performance analytics for PupLabs',
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const embedded = (await headers()).get(EMBEDDED_HEADER) === '1';
+
   return (
     <html lang="en">
+      {embedded && (
+        <head>
+          {/* App Bridge adds the session token to every fetch to our own API */}
+          <meta name="shopify-api-key" content={process.env.SHOPIFY_API_KEY} />
+          {/* App Bridge must load before any other script */}
+          <Script src={APP_BRIDGE_URL} strategy="beforeInteractive" />
+        </head>
+      )}
       <body className={`${inter.variable} font-sans antialiased`}>
         {children}
       </body>
@@ -1,18 +1,20 @@
 'use client';
 
 import { useState } from 'react';
+import { normalizeShopDomain } from '@/lib/shop-domain';
 
 export default function Home() {
   const [shop, setShop] = useState('puplabsco.myshopify.com');
   const [loading, setLoading] = useState(false);
 
   const handleInstall = () => {
-    if (!shop.endsWith('.myshopify.com')) {
+    const domain = normalizeShopDomain(shop);
+    if (!domain) {
       alert('Please enter a valid Shopify store domain (e.g., store.myshopify.com)');
       return;
     }
     setLoading(true);
-    window.location.href = `/api/auth?shop=${encodeURIComponent(shop)}`;
+    window.location.href = `/api/auth?shop=${encodeURIComponent(domain)}`;
   };
 
   return (
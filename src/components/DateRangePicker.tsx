@@ -1,50 +1,84 @@
 'use client';
 
 import { useState } from 'react';
-import { DateRange } from '@/types';
-import { format, subDays, startOfMonth, endOfMonth, subMonths } from 'date-fns';
+import { CompareMode, DateRange } from '@/types';
+import { DATE_PRESETS, DatePreset, COMPARE_MODES, getComparisonRange } from '@/lib/date-presets';
 
 interface DateRangePickerProps {
   dateRange: DateRange;
-  onChange: (range: DateRange) => void;
+  onChange: (range: DateRange, presetId: string | null) => void;
+  compareMode?: CompareMode;
+  customCompareRange?: DateRange | null;
+  onCompareChange?: (mode: CompareMode, customRange: DateRange | null) => void;
 }
 
-const PRESETS = [
-  { label: 'Last 7 days', getValue: () => ({ start: format(subDays(new Date(), 7), 'yyyy-MM-dd'), end: format(new Date(), 'yyyy-MM-dd') }) },
-  { label: 'Last 30 days', getValue: () => ({ start: format(subDays(new Date(), 30), 'yyyy-MM-dd'), end: format(new Date(), 'yyyy-MM-dd') }) },
-  { label: 'Last 90 days', getValue: () => ({ start: format(subDays(new Date(), 90), 'yyyy-MM-dd'), end: format(new Date(), 'yyyy-MM-dd') }) },
-  { label: 'This month', getValue: () => ({ start: format(startOfMonth(new Date()), 'yyyy-MM-dd'), end: format(new Date(), 'yyyy-MM-dd') }) },
-  { label: 'Last month', getValue: () => ({ start: format(startOfMonth(subMonths(new Date(), 1)), 'yyyy-MM-dd'), end: format(endOfMonth(subMonths(new Date(), 1)), 'yyyy-MM-dd') }) },
-];
-
-export default function DateRangePicker({ dateRange, onChange }: DateRangePickerProps) {
+export default function DateRangePicker({
+  dateRange,
+  onChange,
+  compareMode = 'none',
+  customCompareRange = null,
+  onCompareChange,
+}: DateRangePickerProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [tempStart, setTempStart] = useState(dateRange.start);
   const [tempEnd, setTempEnd] = useState(dateRange.end);
+  const [tempCompareStart, setTempCompareStart] = useState(customCompareRange?.start || '');
+  const [tempCompareEnd, setTempCompareEnd] = useState(customCompareRange?.end || '');
+
+  const comparisonRange = getComparisonRange(dateRange, compareMode, customCompareRange);
 
-  const handlePreset = (preset: typeof PRESETS[0]) => {
+  const handlePreset = (preset: DatePreset) => {
     const range = preset.getValue();
-    onChange(range);
+    onChange(range, preset.id);
     setTempStart(range.start);
     setTempEnd(range.end);
     setIsOpen(false);
   };
 
   const handleApply = () => {
-    onChange({ start: tempStart, end: tempEnd });
+    if (tempStart !== dateRange.start || tempEnd !== dateRange.end) {
+      onChange({ start: tempStart, end: tempEnd }, null);
+    }
+    if (compareMode === 'custom' && onCompareChange) {
+      onCompareChange('custom', { start: tempCompareStart, end: tempCompareEnd });
+    }
     setIsOpen(false);
   };
 
+  const handleCompareMode = (mode: CompareMode) => {
+    if (!onCompareChange) return;
+    if (mode === 'custom') {
+      // Seed the custom inputs with whatever we were comparing against before
+      const seed = comparisonRange || getComparisonRange(dateRange, 'previous_period')!;
+      setTempCompareStart(seed.start);
+      setTempCompareEnd(seed.end);
+      onCompareChange('custom', seed);
+    } else {
+      onCompareChange(mode, null);
+    }
+  };
+
   return (
     <div className="relative">
       <button
-        onClick={() => setIsOpen(!isOpen)}
+        onClick={() => {
+          if (!isOpen) {
+            setTempStart(dateRange.start);
+            setTempEnd(dateRange.end);
+          }
+          setIsOpen(!isOpen);
+        }}
         className="flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 transition-colors"
       >
         <svg className="h-4 w-4 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
         </svg>
         <span>{dateRange.start} &mdash; {dateRange.end}</span>
+        {comparisonRange && (
+          <span className="text-xs font-normal text-gray-400">
+            vs. {comparisonRange.start} &mdash; {comparisonRange.end}
+          </span>
+        )}
         <svg className={`h-4 w-4 text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
         </svg>
@@ -56,9 +90,9 @@ export default function DateRangePicker({ dateRange, onChange }: DateRangePicker
           <div className="mb-4">
             <p className="mb-2 text-xs font-semibold uppercase tracking-wider text-gray-400">Quick Select</p>
             <div className="flex flex-wrap gap-2">
-              {PRESETS.map((preset) => (
+              {DATE_PRESETS.map((preset) => (
                 <button
-                  key={preset.label}
+                  key={preset.id}
                   onClick={() => handlePreset(preset)}
                   className="rounded-md border border-gray-200 px-3 py-1.5 text-xs font-medium text-gray-600 hover:border-indigo-300 hover:bg-indigo-50 hover:text-indigo-700 transition-colors"
                 >
@@ -107,6 +141,50 @@ export default function DateRangePicker({ dateRange, onChange }: DateRangePicker
               </button>
             </div>
           </div>
+
+          {/* Compare to */}
+          {onCompareChange && (
+            <div className="mt-4 border-t border-gray-100 pt-4">
+              <p className="mb-2 text-xs font-semibold uppercase tracking-wider text-gray-400">Compare To</p>
+              <div className="flex flex-wrap gap-2">
+                {COMPARE_MODES.map((mode) => (
+                  <button
+                    key={mode.id}
+                    onClick={() => handleCompareMode(mode.id)}
+                    className={`rounded-md border px-3 py-1.5 text-xs font-medium transition-colors ${
+                      compareMode === mode.id
+                        ? 'border-indigo-300 bg-indigo-50 text-indigo-700'
+                        : 'border-gray-200 text-gray-600 hover:border-indigo-300 hover:bg-indigo-50 hover:text-indigo-700'
+                    }`}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+              {compareMode === 'custom' && (
+                <div className="mt-3 flex items-center gap-3">
+                  <input
+                    type="date"
+                    value={tempCompareStart}
+                    onChange={(e) => setTempCompareStart(e.target.value)}
+                    className="flex-1 rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                  />
+                  <span className="text-gray-400">to</span>
+                  <input
+                    type="date"
+                    value={tempCompareEnd}
+                    onChange={(e) => setTempCompareEnd(e.target.value)}
+                    className="flex-1 rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                  />
+                </div>
+              )}
+              {comparisonRange && compareMode !== 'custom' && (
+                <p className="mt-2 text-xs text-gray-400">
+                  {comparisonRange.start} &mdash; {comparisonRange.end}
+                </p>
+              )}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,37 @@
+'use client';
+
+import { ApiErrorBody } from '@/types';
+
+interface ErrorNoticeProps {
+  error: ApiErrorBody;
+}
+
+// Red banner for a failed request: what went wrong, what to do about it, and
+// a reconnect link when the store's authorisation is the problem
+export default function ErrorNotice({ error }: ErrorNoticeProps) {
+  return (
+    <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className={error.action ? 'font-medium' : undefined}>{error.error}</p>
+          {error.action && <p className="mt-1 text-red-600">{error.action}</p>}
+        </div>
+        {error.reconnectUrl && (
+          <a
+            href={error.reconnectUrl}
+            className="shrink-0 rounded-lg bg-red-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-red-700 transition-colors"
+          >
+            Reconnect store
+          </a>
+        )}
+      </div>
+      {error.details && error.details.length > 0 && (
+        <ul className="mt-2 list-inside list-disc font-mono text-xs text-red-500">
+          {error.details.map((detail, i) => (
+            <li key={i}>{detail}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
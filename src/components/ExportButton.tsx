@@ -1,20 +1,37 @@
 'use client';
 
 import { useState } from 'react';
-import { GroupMetrics, DateRange } from '@/types';
+import { GroupMetrics, PageMetrics, DateRange, ExportFormat, RevenueBasis, SegmentFilters } from '@/types';
 
 interface ExportButtonProps {
   groups: GroupMetrics[];
+  pages?: PageMetrics[];
+  baselineIndex?: number;
   dateRange: DateRange;
+  compareDateRange?: DateRange | null;
+  revenueBasis?: RevenueBasis;
+  segment?: SegmentFilters | null;
   disabled?: boolean;
 }
 
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  pdf: 'PDF',
+  csv: 'CSV',
+  xlsx: 'Excel',
+};
+
 export default function ExportButton({
   groups,
+  pages = [],
+  baselineIndex = 0,
   dateRange,
+  compareDateRange,
+  revenueBasis,
+  segment,
   disabled,
 }: ExportButtonProps) {
   const [exporting, setExporting] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('pdf');
 
   const handleExport = async () => {
     if (groups.length === 0) return;
@@ -24,7 +41,7 @@ export default function ExportButton({
       const response = await fetch('/api/reports/export', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ groups, dateRange }),
+        body: JSON.stringify({ groups, pages, baselineIndex, dateRange, compareDateRange, revenueBasis, segment, format }),
       });
 
       if (!response.ok) throw new Error('Export failed');
@@ -33,38 +50,50 @@ export default function ExportButton({
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `puplabs-analytics-${dateRange.start}-to-${dateRange.end}.pdf`;
+      a.download = `puplabs-analytics-${dateRange.start}-to-${dateRange.end}.${format}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
       window.URL.revokeObjectURL(url);
     } catch (error) {
       console.error('Export error:', error);
-      alert('Failed to export PDF. Please try again.');
+      alert(`Failed to export ${FORMAT_LABELS[format]}. Please try again.`);
     } finally {
       setExporting(false);
     }
   };
 
   return (
-    <button
-      onClick={handleExport}
-      disabled={disabled || exporting || groups.length === 0}
-      className="flex items-center gap-2 rounded-lg bg-gray-900 px-4 py-2 text-sm font-medium text-white hover:bg-gray-800 disabled:cursor-not-allowed disabled:bg-gray-300 transition-colors"
-    >
-      {exporting ? (
-        <>
-          <div className="h-4 w-4 animate-spin rounded-full border-2 border-gray-400 border-t-white" />
-          Exporting...
-        </>
-      ) : (
-        <>
-          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-          </svg>
-          Export PDF
-        </>
-      )}
-    </button>
+    <div className="flex items-center">
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        disabled={exporting}
+        className="rounded-l-lg border border-r-0 border-gray-300 bg-white px-2 py-2 text-sm text-gray-700 focus:outline-none focus:ring-1 focus:ring-gray-400"
+      >
+        {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((f) => (
+          <option key={f} value={f}>{FORMAT_LABELS[f]}</option>
+        ))}
+      </select>
+      <button
+        onClick={handleExport}
+        disabled={disabled || exporting || groups.length === 0}
+        className="flex items-center gap-2 rounded-r-lg bg-gray-900 px-4 py-2 text-sm font-medium text-white hover:bg-gray-800 disabled:cursor-not-allowed disabled:bg-gray-300 transition-colors"
+      >
+        {exporting ? (
+          <>
+            <div className="h-4 w-4 animate-spin rounded-full border-2 border-gray-400 border-t-white" />
+            Exporting...
+          </>
+        ) : (
+          <>
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+            </svg>
+            Export {FORMAT_LABELS[format]}
+          </>
+        )}
+      </button>
+    </div>
   );
 }
@@ -0,0 +1,124 @@
+'use client';
+
+import PageSelector from '@/components/PageSelector';
+import { GROUP_COLORS, getGroupColor } from '@/lib/groups';
+import { storeLabel } from '@/lib/shop-domain';
+import { LinkedStore, UrlGroup } from '@/types';
+
+interface GroupEditorProps {
+  group: UrlGroup;
+  index: number;
+  groupCount: number;
+  isBaseline: boolean;
+  stores?: LinkedStore[]; // linked stores; a picker is shown when there are several
+  onChange: (group: UrlGroup) => void;
+  onRemove: () => void;
+  onMove: (direction: -1 | 1) => void;
+  onSetBaseline: () => void;
+}
+
+export default function GroupEditor({
+  group,
+  index,
+  groupCount,
+  isBaseline,
+  stores = [],
+  onChange,
+  onRemove,
+  onMove,
+  onSetBaseline,
+}: GroupEditorProps) {
+  const color = getGroupColor(group.color, index);
+
+  const iconButtonClass =
+    'rounded p-1 text-gray-400 hover:bg-white hover:text-gray-600 disabled:cursor-not-allowed disabled:text-gray-200 disabled:hover:bg-transparent transition-colors';
+
+  return (
+    <div className={`rounded-lg border p-4 ${color.card}`}>
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div className="flex min-w-0 items-center gap-2">
+          <input
+            type="text"
+            value={group.name}
+            onChange={(e) => onChange({ ...group, name: e.target.value })}
+            className={`text-sm font-semibold bg-transparent border-none focus:outline-none focus:ring-0 p-0 w-32 ${color.title}`}
+          />
+          <span className={`text-xs ${color.muted}`}>{group.urls.length} page{group.urls.length !== 1 ? 's' : ''}</span>
+        </div>
+
+        <div className="flex items-center gap-1">
+          {/* Colour swatches */}
+          <div className="mr-2 flex items-center gap-1">
+            {GROUP_COLORS.map((c) => (
+              <button
+                key={c.id}
+                onClick={() => onChange({ ...group, color: c.id })}
+                title={c.id}
+                className={`h-3.5 w-3.5 rounded-full ${c.swatch} ${
+                  c.id === color.id ? 'ring-2 ring-offset-1 ring-gray-400' : 'opacity-40 hover:opacity-100'
+                }`}
+              />
+            ))}
+          </div>
+
+          {isBaseline ? (
+            <span className="rounded-full bg-gray-900 px-2 py-0.5 text-[10px] font-medium uppercase tracking-wider text-white">
+              Baseline
+            </span>
+          ) : (
+            <button
+              onClick={onSetBaseline}
+              className="rounded-full border border-gray-300 px-2 py-0.5 text-[10px] font-medium uppercase tracking-wider text-gray-500 hover:border-gray-400 hover:text-gray-700 transition-colors"
+            >
+              Set baseline
+            </button>
+          )}
+
+          <button onClick={() => onMove(-1)} disabled={index === 0} title="Move up" className={iconButtonClass}>
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+            </svg>
+          </button>
+          <button onClick={() => onMove(1)} disabled={index === groupCount - 1} title="Move down" className={iconButtonClass}>
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+          <button onClick={onRemove} disabled={groupCount <= 2} title="Remove group" className={iconButtonClass}>
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+      {stores.length > 1 && (
+        <div className="mb-3 flex items-center gap-2">
+          <label className={`text-xs ${color.muted}`}>Store</label>
+          <select
+            value={group.shop || ''}
+            onChange={(e) => onChange({ ...group, shop: e.target.value || undefined })}
+            className="rounded border border-gray-200 bg-white px-2 py-1 text-xs text-gray-700 focus:border-indigo-500 focus:outline-none"
+          >
+            <option value="">Current store</option>
+            {stores.map((store) => (
+              <option key={store.shop} value={store.shop}>
+                {storeLabel(store.shop)} ({store.currency})
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      <PageSelector
+        urls={group.urls}
+        onChange={(urls) => onChange({
+          ...group,
+          urls,
+          exactUrls: group.exactUrls?.filter(url => urls.includes(url)),
+        })}
+        maxPages={10}
+        exactUrls={group.exactUrls}
+        onExactUrlsChange={(exactUrls) => onChange({ ...group, exactUrls })}
+      />
+    </div>
+  );
+}
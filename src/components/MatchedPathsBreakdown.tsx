@@ -0,0 +1,67 @@
+'use client';
+
+import { storeLabel } from '@/lib/shop-domain';
+import { PageMetrics } from '@/types';
+
+interface MatchedPathsBreakdownProps {
+  pages: PageMetrics[];
+}
+
+// Shows which raw landing paths Shopify reported were folded into each page,
+// so a surprising session count can be traced back to its variants
+export default function MatchedPathsBreakdown({ pages }: MatchedPathsBreakdownProps) {
+  if (pages.length === 0) return null;
+
+  const variantCount = pages.reduce((sum, p) => sum + (p.matchedPaths?.length || 0), 0);
+  const multiStore = new Set(pages.map(p => p.shop)).size > 1;
+
+  return (
+    <details className="mt-6 rounded-lg border border-gray-200">
+      <summary className="cursor-pointer select-none px-4 py-3 text-sm font-medium text-gray-700 hover:bg-gray-50">
+        Matched paths
+        <span className="ml-2 text-xs font-normal text-gray-400">
+          {variantCount} landing path{variantCount !== 1 ? 's' : ''} across {pages.length} page{pages.length !== 1 ? 's' : ''}
+        </span>
+      </summary>
+      <div className="divide-y divide-gray-100 border-t border-gray-200">
+        {pages.map((page) => (
+          <div key={`${page.shop}:${page.url}`} className="px-4 py-3">
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="truncate text-sm font-medium text-gray-800">{page.productTitle}</p>
+                <p className="truncate text-xs text-gray-400">
+                  {multiStore && page.shop && `${storeLabel(page.shop)} · `}{page.url}
+                </p>
+              </div>
+              <span className="shrink-0 rounded-full bg-gray-100 px-2 py-0.5 text-[10px] font-medium uppercase tracking-wider text-gray-500">
+                {page.matchMode === 'exact' ? 'Exact' : 'Variants'}
+              </span>
+            </div>
+            {page.matchedPaths && page.matchedPaths.length > 0 ? (
+              <table className="mt-2 w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-400">
+                    <th className="py-1 font-medium">Landing path</th>
+                    <th className="py-1 text-right font-medium">Sessions</th>
+                    <th className="py-1 text-right font-medium">Orders</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {page.matchedPaths.map((match) => (
+                    <tr key={match.path} className="text-gray-600">
+                      <td className="max-w-0 truncate py-1 pr-3 font-mono" title={match.path}>{match.path}</td>
+                      <td className="py-1 text-right">{match.sessions.toLocaleString()}</td>
+                      <td className="py-1 text-right">{match.orders.toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="mt-2 text-xs text-gray-400">No landing page sessions matched this page.</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
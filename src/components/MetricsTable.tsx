@@ -1,29 +1,105 @@
 'use client';
 
-import { GroupMetrics } from '@/types';
+import { Fragment, useState } from 'react';
+import {
+  AttributedMetrics,
+  CustomerTypeMetrics,
+  GroupMetrics,
+  MoneySettings,
+  PageBreakdown,
+  PageMetrics,
+  RevenueBasis,
+  SegmentFilters,
+} from '@/types';
+import { CUSTOMER_TYPES, groupPageBreakdown, REVENUE_BASIS_LABELS } from '@/lib/calculations';
+import { getGroupColor } from '@/lib/groups';
+import { formatMoney } from '@/lib/money';
+import { describeSegment, describeSessionOnlyFilters } from '@/lib/segments';
+import { storeLabel } from '@/lib/shop-domain';
+import {
+  compareToBaseline,
+  formatPValue,
+  formatConfidenceInterval,
+  ORDER_VALUE_ASSUMPTION,
+  SignificanceResult,
+  TestedMetric,
+} from '@/lib/statistics';
 
 interface MetricsTableProps {
   groups: GroupMetrics[];
+  pages?: PageMetrics[]; // per-page rows the groups were aggregated from, for the drill-down
+  baselineIndex?: number;
+  onBaselineChange?: (index: number) => void;
+  revenueBasis?: RevenueBasis; // what the revenue rows count; full cart when unset
+  segment?: SegmentFilters | null; // traffic the figures cover; all when unset
   loading: boolean;
 }
 
 interface MetricConfig {
   key: keyof GroupMetrics;
   label: string;
-  format: (value: number) => string;
+  format: (value: number, money?: MoneySettings) => string;
+  formatDifference?: (value: number, money?: MoneySettings) => string; // unsigned; set for significance-tested metrics
   higherIsBetter: boolean;
+  money?: boolean; // in the store's currency; not compared across currencies
 }
 
 const METRICS: MetricConfig[] = [
   { key: 'sessions', label: 'Sessions', format: (v) => v.toLocaleString(), higherIsBetter: true },
-  { key: 'totalRevenue', label: 'Total Revenue', format: (v) => `$${v.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`, higherIsBetter: true },
-  { key: 'revenuePerVisitor', label: 'Revenue / Visitor', format: (v) => `$${v.toFixed(2)}`, higherIsBetter: true },
-  { key: 'conversionRate', label: 'Conversion Rate', format: (v) => `${v.toFixed(2)}%`, higherIsBetter: true },
-  { key: 'aov', label: 'AOV', format: (v) => `$${v.toFixed(2)}`, higherIsBetter: true },
+  { key: 'totalRevenue', label: 'Total Revenue', format: formatMoney, higherIsBetter: true, money: true },
+  { key: 'revenuePerVisitor', label: 'Revenue / Visitor', format: formatMoney, formatDifference: formatMoney, higherIsBetter: true, money: true },
+  { key: 'conversionRate', label: 'Conversion Rate', format: (v) => `${v.toFixed(2)}%`, formatDifference: (v) => `${v.toFixed(2)}pp`, higherIsBetter: true },
+  { key: 'aov', label: 'AOV', format: formatMoney, formatDifference: formatMoney, higherIsBetter: true, money: true },
   { key: 'orderCount', label: 'Orders', format: (v) => v.toLocaleString(), higherIsBetter: true },
 ];
 
-export default function MetricsTable({ groups, loading }: MetricsTableProps) {
+// Shown under the estimates in attributed revenue mode
+const ATTRIBUTED_METRICS: { key: keyof AttributedMetrics; label: string; format: (value: number, money?: MoneySettings) => string }[] = [
+  { key: 'totalRevenue', label: 'Total Revenue', format: formatMoney },
+  { key: 'revenuePerVisitor', label: 'Revenue / Visitor', format: formatMoney },
+  { key: 'orderCount', label: 'Orders', format: (v) => v.toLocaleString() },
+];
+
+// Shown per customer type when the new vs. returning split is on
+const CUSTOMER_METRICS: { key: keyof CustomerTypeMetrics; label: string; format: (value: number, money?: MoneySettings) => string }[] = [
+  { key: 'sessions', label: 'Sessions', format: (v) => v.toLocaleString() },
+  { key: 'conversionRate', label: 'Conversion Rate', format: (v) => `${v.toFixed(2)}%` },
+  { key: 'aov', label: 'AOV', format: formatMoney },
+  { key: 'revenuePerVisitor', label: 'Revenue / Visitor', format: formatMoney },
+];
+
+type PageSortKey = 'productTitle' | 'sessions' | 'sessionShare' | 'totalRevenue' | 'revenueShare' | 'revenuePerVisitor' | 'conversionRate' | 'aov' | 'orderCount';
+
+interface PageColumn {
+  key: PageSortKey;
+  label: string;
+  format?: (row: PageBreakdown, money?: MoneySettings) => string;
+}
+
+const PAGE_COLUMNS: PageColumn[] = [
+  { key: 'productTitle', label: 'Page' },
+  { key: 'sessions', label: 'Sessions', format: (row) => row.sessions.toLocaleString() },
+  { key: 'sessionShare', label: '% Sessions', format: (row) => `${row.sessionShare.toFixed(1)}%` },
+  { key: 'totalRevenue', label: 'Revenue', format: (row, money) => formatMoney(row.totalRevenue, money) },
+  { key: 'revenueShare', label: '% Revenue', format: (row) => `${row.revenueShare.toFixed(1)}%` },
+  { key: 'revenuePerVisitor', label: 'Rev / Visitor', format: (row, money) => formatMoney(row.revenuePerVisitor, money) },
+  { key: 'conversionRate', label: 'CVR', format: (row) => `${row.conversionRate.toFixed(2)}%` },
+  { key: 'aov', label: 'AOV', format: (row, money) => formatMoney(row.aov, money) },
+  { key: 'orderCount', label: 'Orders', format: (row) => row.orderCount.toLocaleString() },
+];
+
+export default function MetricsTable({
+  groups,
+  pages = [],
+  baselineIndex = 0,
+  onBaselineChange,
+  revenueBasis = 'cart',
+  segment = null,
+  loading,
+}: MetricsTableProps) {
+  const [expanded, setExpanded] = useState<number[]>([]);
+  const [pageSort, setPageSort] = useState<{ key: PageSortKey; descending: boolean }>({ key: 'sessions', descending: true });
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-20">
@@ -48,6 +124,26 @@ export default function MetricsTable({ groups, loading }: MetricsTableProps) {
   }
 
   const bestWorst = findBestWorst(groups);
+  const baseline = groups[baselineIndex] ? baselineIndex : 0;
+  const multiStore = new Set(groups.map(g => g.shop)).size > 1;
+  const significance = groups.map((group, i) =>
+    i === baseline ? null : compareToBaseline(groups[baseline], group)
+  );
+  const anyUnderpowered = significance.some(s =>
+    s && Object.values(s).some(result => result?.underpowered)
+  );
+  const shownGroups = expanded.filter(i => groups[i]);
+  // Attributed orders can't be narrowed by the segment's device, source or country
+  const attributedCoverage = describeSessionOnlyFilters(segment);
+
+  const toggleGroup = (index: number) => {
+    setExpanded(prev => (prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].sort((a, b) => a - b)));
+  };
+
+  const sortPagesBy = (key: PageSortKey) => {
+    // Text sorts A-Z first, numbers largest first
+    setPageSort(prev => (prev.key === key ? { key, descending: !prev.descending } : { key, descending: key !== 'productTitle' }));
+  };
 
   return (
     <div className="overflow-x-auto">
@@ -56,22 +152,55 @@ export default function MetricsTable({ groups, loading }: MetricsTableProps) {
           <tr className="border-b border-gray-200">
             <th className="pb-3 pr-4 text-left text-xs font-semibold uppercase tracking-wider text-gray-400">
               Metric
+              <div className="mt-0.5 font-normal normal-case tracking-normal text-gray-400">
+                Revenue: {REVENUE_BASIS_LABELS[revenueBasis]}
+              </div>
+              {segment && (
+                <div className="font-normal normal-case tracking-normal text-indigo-500">
+                  Segment: {describeSegment(segment, { orders: revenueBasis !== 'cart' })}
+                </div>
+              )}
             </th>
             {groups.map((group, i) => (
               <th key={i} className="pb-3 px-4 text-right text-xs font-semibold uppercase tracking-wider text-gray-400">
-                <div className="max-w-[200px] truncate ml-auto" title={group.urls.join(', ')}>
-                  {group.name}
-                </div>
-                <div className="text-[10px] text-gray-300 font-normal">
-                  {group.urls.length} page{group.urls.length !== 1 ? 's' : ''}
+                <div className="flex items-center justify-end gap-1.5">
+                  <span className={`h-2 w-2 shrink-0 rounded-full ${getGroupColor(group.color, i).swatch}`} />
+                  <div className="max-w-[200px] truncate" title={group.urls.join(', ')}>
+                    {group.name}
+                  </div>
                 </div>
+                {pages.length > 0 ? (
+                  <button
+                    onClick={() => toggleGroup(i)}
+                    className="text-[10px] font-normal normal-case tracking-normal text-gray-400 hover:text-indigo-600 transition-colors"
+                    aria-expanded={shownGroups.includes(i)}
+                  >
+                    {group.urls.length} page{group.urls.length !== 1 ? 's' : ''} {shownGroups.includes(i) ? '▾' : '▸'}
+                  </button>
+                ) : (
+                  <div className="text-[10px] text-gray-300 font-normal">
+                    {group.urls.length} page{group.urls.length !== 1 ? 's' : ''}
+                  </div>
+                )}
+                {multiStore && group.shop && (
+                  <div className="text-[10px] font-normal normal-case tracking-normal text-gray-400">
+                    {storeLabel(group.shop)}{group.money && ` · ${group.money.currency}`}
+                  </div>
+                )}
+                {groups.length > 1 && (
+                  i === baseline ? (
+                    <div className="mt-1 text-[10px] font-semibold text-gray-500">Baseline</div>
+                  ) : onBaselineChange ? (
+                    <button
+                      onClick={() => onBaselineChange(i)}
+                      className="mt-1 text-[10px] font-normal normal-case tracking-normal text-gray-300 hover:text-indigo-600 transition-colors"
+                    >
+                      Use as baseline
+                    </button>
+                  ) : null
+                )}
               </th>
             ))}
-            {groups.length > 1 && (
-              <th className="pb-3 pl-4 text-right text-xs font-semibold uppercase tracking-wider text-gray-400">
-                Diff
-              </th>
-            )}
           </tr>
         </thead>
         <tbody>
@@ -97,7 +226,7 @@ export default function MetricsTable({ groups, loading }: MetricsTableProps) {
                             : 'text-gray-900'
                         }`}
                       >
-                        {metric.format(value)}
+                        {metric.format(value, group.money)}
                       </span>
                       {isBest && groups.length > 1 && (
                         <span className="inline-flex items-center rounded-full bg-green-50 px-1.5 py-0.5 text-xs font-medium text-green-700">
@@ -110,18 +239,198 @@ export default function MetricsTable({ groups, loading }: MetricsTableProps) {
                         </span>
                       )}
                     </div>
+                    {groups.length > 1 && i !== baseline && (
+                      <div className="mt-0.5">
+                        {comparable(groups[baseline], group, metric)
+                          ? renderDiff(groups[baseline], group, metric)
+                          : <span className="text-xs text-gray-300">Other currency</span>}
+                      </div>
+                    )}
+                    {group.previous && renderPeriodChange(group, group.previous, metric)}
+                    {metric.formatDifference && comparable(groups[baseline], group, metric) && significance[i]?.[metric.key as TestedMetric] && (
+                      renderSignificance(significance[i]![metric.key as TestedMetric]!, metric, group.money)
+                    )}
                   </td>
                 );
               })}
-              {groups.length > 1 && (
-                <td className="py-4 pl-4 text-right">
-                  {renderDiff(groups, metric)}
-                </td>
-              )}
             </tr>
           ))}
+          {groups.some(g => g.attributed) && (
+            <>
+              <tr className="border-b border-gray-100">
+                <td colSpan={groups.length + 1} className="pt-6 pb-2 text-xs font-semibold uppercase tracking-wider text-gray-400">
+                  Attributed orders
+                  <span className="ml-2 font-normal normal-case tracking-normal text-gray-300">
+                    Orders whose visit landed on the group&apos;s pages and include its product, counting{' '}
+                    {REVENUE_BASIS_LABELS[revenueBasis].toLowerCase()}
+                  </span>
+                  {attributedCoverage && (
+                    <span className="ml-2 font-normal normal-case tracking-normal text-amber-600">
+                      From {attributedCoverage}; orders don&apos;t record them
+                    </span>
+                  )}
+                </td>
+              </tr>
+              {ATTRIBUTED_METRICS.map((metric) => (
+                <tr key={`attributed-${metric.key}`} className="border-b border-gray-100 last:border-0">
+                  <td className="py-4 pr-4 text-sm font-medium text-gray-600">
+                    {metric.label}
+                  </td>
+                  {groups.map((group, i) => (
+                    <td key={i} className="py-4 px-4 text-right">
+                      {group.attributed ? (
+                        <>
+                          <div className="text-lg font-semibold tabular-nums text-gray-900">
+                            {metric.format(group.attributed[metric.key], group.money)}
+                          </div>
+                          {renderEstimateGap(group[metric.key], group.attributed[metric.key])}
+                        </>
+                      ) : (
+                        <span className="text-xs text-gray-300">--</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </>
+          )}
+          {groups.some(g => g.customers) && CUSTOMER_TYPES.map((type) => (
+            <Fragment key={type.id}>
+              <tr className="border-b border-gray-100">
+                <td colSpan={groups.length + 1} className="pt-6 pb-2 text-xs font-semibold uppercase tracking-wider text-gray-400">
+                  {type.label}
+                  {type.id === 'new' && (
+                    <span className="ml-2 font-normal normal-case tracking-normal text-gray-300">
+                      First-time buyers; judge acquisition pages here
+                    </span>
+                  )}
+                </td>
+              </tr>
+              {CUSTOMER_METRICS.map((metric) => (
+                <tr key={`${type.id}-${metric.key}`} className="border-b border-gray-100 last:border-0">
+                  <td className="py-4 pr-4 text-sm font-medium text-gray-600">
+                    {metric.label}
+                  </td>
+                  {groups.map((group, i) => (
+                    <td key={i} className="py-4 px-4 text-right">
+                      {group.customers ? (
+                        <div className="text-lg font-semibold tabular-nums text-gray-900">
+                          {metric.format(group.customers[type.id][metric.key], group.money)}
+                        </div>
+                      ) : (
+                        <span className="text-xs text-gray-300">--</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </Fragment>
+          ))}
         </tbody>
       </table>
+      {shownGroups.map(i => (
+        <GroupPages
+          key={i}
+          group={groups[i]}
+          index={i}
+          rows={groupPageBreakdown(groups[i], pages)}
+          sort={pageSort}
+          onSort={sortPagesBy}
+        />
+      ))}
+      {groups.length > 1 && (
+        <p className="mt-4 text-xs text-gray-400">
+          Conversion rate uses a two-proportion z-test on observed orders. Revenue / visitor and AOV results
+          are marked &quot;Approx.&quot;: Shopify reports no per-order values, so their Welch&apos;s t-tests assume
+          order values vary by about as much as the AOV itself.
+          {anyUnderpowered && ' "Low sample" marks comparisons that could not reliably detect even a 50% lift.'}
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface GroupPagesProps {
+  group: GroupMetrics;
+  index: number;
+  rows: PageBreakdown[];
+  sort: { key: PageSortKey; descending: boolean };
+  onSort: (key: PageSortKey) => void;
+}
+
+// A group's member pages, sortable by any column, with the page that costs
+// the group the most revenue against its own revenue / visitor marked
+function GroupPages({ group, index, rows, sort, onSort }: GroupPagesProps) {
+  const sorted = [...rows].sort((a, b) => {
+    const order = sort.key === 'productTitle'
+      ? a.productTitle.localeCompare(b.productTitle)
+      : (a[sort.key] as number) - (b[sort.key] as number);
+    return sort.descending ? -order : order;
+  });
+  const weakest = rows.find(row => row.weakest);
+
+  return (
+    <div className="mt-6">
+      <div className="mb-2 flex items-center gap-1.5">
+        <span className={`h-2 w-2 shrink-0 rounded-full ${getGroupColor(group.color, index).swatch}`} />
+        <h3 className="text-sm font-semibold text-gray-700">{group.name}</h3>
+        <span className="text-xs text-gray-400">
+          {rows.length} page{rows.length !== 1 ? 's' : ''} with data
+        </span>
+      </div>
+      {rows.length === 0 ? (
+        <p className="text-xs text-gray-400">No data for this group&apos;s pages in the selected range.</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-gray-200">
+              {PAGE_COLUMNS.map((column) => (
+                <th
+                  key={column.key}
+                  className={`pb-2 font-semibold uppercase tracking-wider text-gray-400 ${
+                    column.key === 'productTitle' ? 'pr-3 text-left' : 'px-2 text-right'
+                  }`}
+                  aria-sort={sort.key === column.key ? (sort.descending ? 'descending' : 'ascending') : undefined}
+                >
+                  <button onClick={() => onSort(column.key)} className="uppercase hover:text-gray-600">
+                    {column.label}
+                    {sort.key === column.key && (sort.descending ? ' ↓' : ' ↑')}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map((row) => (
+              <tr key={`${row.shop}:${row.url}`} className={`border-b border-gray-100 last:border-0 ${row.weakest ? 'bg-red-50/50' : ''}`}>
+                <td className="max-w-[260px] py-2 pr-3">
+                  <div className="flex items-center gap-1.5">
+                    <span className="truncate font-medium text-gray-800" title={row.url}>{row.productTitle}</span>
+                    {row.weakest && (
+                      <span className="shrink-0 rounded-full bg-red-50 px-1.5 py-0.5 font-medium text-red-600">
+                        Weakest
+                      </span>
+                    )}
+                  </div>
+                  <div className="truncate text-gray-400">{row.url}</div>
+                </td>
+                {PAGE_COLUMNS.slice(1).map((column) => (
+                  <td key={column.key} className="px-2 py-2 text-right tabular-nums text-gray-700">
+                    {column.format!(row, group.money)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {weakest && (
+        <p className="mt-2 text-xs text-gray-400">
+          {weakest.productTitle} earned {formatMoney(weakest.revenueShortfall, group.money)} less than its{' '}
+          {weakest.sessions.toLocaleString()} sessions would have at the group&apos;s{' '}
+          {formatMoney(group.revenuePerVisitor, group.money)} revenue / visitor.
+        </p>
+      )}
     </div>
   );
 }
@@ -135,7 +444,11 @@ function findBestWorst(groups: GroupMetrics[]): {
 
   if (groups.length < 2) return { best, worst };
 
-  METRICS.forEach(({ key }) => {
+  const mixedCurrencies = new Set(groups.map(g => g.money?.currency)).size > 1;
+
+  METRICS.forEach(({ key, money }) => {
+    if (money && mixedCurrencies) return;
+
     let bestIdx = 0;
     let worstIdx = 0;
 
@@ -153,11 +466,15 @@ function findBestWorst(groups: GroupMetrics[]): {
   return { best, worst };
 }
 
-function renderDiff(groups: GroupMetrics[], metric: MetricConfig) {
-  if (groups.length !== 2) return <span className="text-xs text-gray-400">--</span>;
+// Money metrics are only compared between groups in the same currency
+function comparable(baseline: GroupMetrics, group: GroupMetrics, metric: MetricConfig): boolean {
+  return !metric.money || baseline.money?.currency === group.money?.currency;
+}
 
-  const a = groups[0][metric.key] as number;
-  const b = groups[1][metric.key] as number;
+// Relative change of `group` against the baseline group for one metric
+function renderDiff(baseline: GroupMetrics, group: GroupMetrics, metric: MetricConfig) {
+  const a = baseline[metric.key] as number;
+  const b = group[metric.key] as number;
 
   if (a === 0 && b === 0) return <span className="text-xs text-gray-400">--</span>;
 
@@ -168,7 +485,7 @@ function renderDiff(groups: GroupMetrics[], metric: MetricConfig) {
 
   return (
     <span
-      className={`text-sm font-medium tabular-nums ${
+      className={`text-xs font-medium tabular-nums ${
         isNeutral
           ? 'text-gray-400'
           : isPositive
@@ -176,7 +493,73 @@ function renderDiff(groups: GroupMetrics[], metric: MetricConfig) {
           : 'text-red-500'
       }`}
     >
-      {isPositive ? '+' : ''}{diff.toFixed(1)}%
+      {isPositive ? '+' : ''}{diff.toFixed(1)}% vs. baseline
     </span>
   );
 }
+
+// How far the attributed figure is from the sessions × CVR × AOV estimate
+function renderEstimateGap(estimated: number, attributed: number) {
+  if (estimated === 0) {
+    return <div className="mt-0.5 text-[11px] text-gray-400">No estimate</div>;
+  }
+
+  const gap = ((attributed - estimated) / estimated) * 100;
+  return (
+    <div className="mt-0.5 text-[11px] tabular-nums text-gray-400">
+      {gap > 0 ? '+' : ''}{gap.toFixed(1)}% vs. estimate
+    </div>
+  );
+}
+
+// Absolute and relative change of a group against its own comparison period
+function renderPeriodChange(group: GroupMetrics, previous: GroupMetrics, metric: MetricConfig) {
+  const current = group[metric.key] as number;
+  const before = previous[metric.key] as number;
+  const change = current - before;
+  const formatAbs = metric.formatDifference || metric.format;
+  const format = (value: number) => formatAbs(value, group.money);
+  const sign = change > 0 ? '+' : change < 0 ? '-' : '';
+  const percent = before !== 0 ? `${change > 0 ? '+' : ''}${((change / before) * 100).toFixed(1)}%` : null;
+
+  return (
+    <div
+      className={`mt-0.5 text-[11px] tabular-nums ${
+        change > 0 ? 'text-green-600' : change < 0 ? 'text-red-500' : 'text-gray-400'
+      }`}
+      title={`Previous period: ${metric.format(before, group.money)}`}
+    >
+      {sign}{format(Math.abs(change))}{percent && ` (${percent})`} vs. prev.
+    </div>
+  );
+}
+
+function renderSignificance(result: SignificanceResult, metric: MetricConfig, money?: MoneySettings) {
+  const formatDifference = (value: number) => metric.formatDifference!(value, money);
+
+  return (
+    <div className="mt-0.5 text-[11px] tabular-nums">
+      <div className="flex items-center justify-end gap-1.5">
+        {result.underpowered && (
+          <span
+            className="rounded-full bg-amber-50 px-1.5 py-0.5 font-medium text-amber-700"
+            title={`Needs a difference of about ${formatDifference(result.minimumDetectableEffect)} to be detected reliably`}
+          >
+            Low sample
+          </span>
+        )}
+        {result.approximate && (
+          <span className="rounded-full bg-gray-100 px-1.5 py-0.5 font-medium text-gray-500" title={ORDER_VALUE_ASSUMPTION}>
+            Approx.
+          </span>
+        )}
+        <span className={result.significant ? 'font-medium text-gray-700' : 'text-gray-400'}>
+          {formatPValue(result.pValue)}{result.significant ? '' : ' (n.s.)'}
+        </span>
+      </div>
+      <div className="text-gray-400">
+        {formatConfidenceInterval(result, formatDifference)}
+      </div>
+    </div>
+  );
+}
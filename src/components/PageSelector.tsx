@@ -12,9 +12,17 @@ interface PageSelectorProps {
   urls: string[];
   onChange: (urls: string[]) => void;
   maxPages?: number;
+  exactUrls?: string[];
+  onExactUrlsChange?: (exactUrls: string[]) => void; // enables the per-page match toggle
 }
 
-export default function PageSelector({ urls, onChange, maxPages = 6 }: PageSelectorProps) {
+export default function PageSelector({
+  urls,
+  onChange,
+  maxPages = 6,
+  exactUrls = [],
+  onExactUrlsChange,
+}: PageSelectorProps) {
   const [inputValue, setInputValue] = useState('');
   const [products, setProducts] = useState<ProductSuggestion[]>([]);
   const [filteredProducts, setFilteredProducts] = useState<ProductSuggestion[]>([]);
@@ -110,6 +118,13 @@ export default function PageSelector({ urls, onChange, maxPages = 6 }: PageSelec
     onChange(urls.filter((_, i) => i !== index));
   };
 
+  const toggleExact = (url: string) => {
+    if (!onExactUrlsChange) return;
+    onExactUrlsChange(
+      exactUrls.includes(url) ? exactUrls.filter(u => u !== url) : [...exactUrls, url]
+    );
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (showDropdown && filteredProducts.length > 0) {
       if (e.key === 'ArrowDown') {
@@ -201,6 +216,7 @@ export default function PageSelector({ urls, onChange, maxPages = 6 }: PageSelec
         <div className="mt-3 flex flex-wrap gap-2">
           {urls.map((url, index) => {
             const title = getProductTitle(url);
+            const exact = exactUrls.includes(url);
             return (
               <div
                 key={index}
@@ -212,6 +228,19 @@ export default function PageSelector({ urls, onChange, maxPages = 6 }: PageSelec
                 {title && (
                   <span className="text-xs text-indigo-400 truncate max-w-[150px]">{url}</span>
                 )}
+                {onExactUrlsChange && (
+                  <button
+                    onClick={() => toggleExact(url)}
+                    title={exact
+                      ? 'Matching this exact path only — click to include variants'
+                      : 'Including locale, collection and query-string variants — click to match exactly'}
+                    className={`rounded-full px-1.5 py-0.5 text-[10px] font-medium uppercase tracking-wider transition-colors ${
+                      exact ? 'bg-indigo-600 text-white' : 'bg-white text-indigo-400 hover:text-indigo-600'
+                    }`}
+                  >
+                    {exact ? 'Exact' : 'Variants'}
+                  </button>
+                )}
                 <button
                   onClick={() => removeUrl(index)}
                   className="ml-1 rounded-full p-0.5 hover:bg-indigo-200 transition-colors"
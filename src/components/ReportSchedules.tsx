@@ -0,0 +1,414 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { DATE_PRESETS, COMPARE_MODES } from '@/lib/date-presets';
+import { WEEKDAYS, describeSchedule } from '@/lib/report-schedules';
+import { ReportDelivery, ReportFrequency, ReportSchedule, SavedComparison } from '@/types';
+
+interface ReportSchedulesProps {
+  activeComparisonId: string | null; // preselected when creating a schedule
+}
+
+interface ScheduleForm {
+  id: string | null; // null = new schedule
+  comparisonId: string;
+  frequency: ReportFrequency;
+  dayOfWeek: number;
+  dayOfMonth: number;
+  hour: number;
+  datePreset: string;
+  compareMode: string;
+  recipients: string;
+}
+
+const SCHEDULE_COMPARE_MODES = COMPARE_MODES.filter(m => m.id !== 'custom');
+
+function presetLabel(id: string): string {
+  return DATE_PRESETS.find(p => p.id === id)?.label || id;
+}
+
+function formatTimestamp(iso: string): string {
+  return format(parseISO(iso), 'MMM d, yyyy h:mm a');
+}
+
+export default function ReportSchedules({ activeComparisonId }: ReportSchedulesProps) {
+  const [schedules, setSchedules] = useState<ReportSchedule[]>([]);
+  const [timezone, setTimezone] = useState<string | null>(null);
+  const [comparisons, setComparisons] = useState<SavedComparison[]>([]);
+  const [form, setForm] = useState<ScheduleForm | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch('/api/schedules')
+      .then(res => res.json())
+      .then(data => {
+        if (!cancelled && data.schedules) {
+          setSchedules(data.schedules);
+          setTimezone(data.timezone);
+        }
+      })
+      .catch(err => console.error('Failed to load report schedules:', err));
+
+    return () => { cancelled = true; };
+  }, []);
+
+  // Comparisons can be saved from the picker at any time, so reload when the form opens
+  const openForm = async (next: ScheduleForm) => {
+    setForm(next);
+    try {
+      const data = await fetch('/api/comparisons').then(res => res.json());
+      if (data.comparisons) {
+        setComparisons(data.comparisons);
+        if (!next.comparisonId && data.comparisons.length > 0) {
+          setForm(prev => prev && { ...prev, comparisonId: data.comparisons[0].id });
+        }
+      }
+    } catch (err) {
+      console.error('Failed to load saved comparisons:', err);
+    }
+  };
+
+  const openNew = () =>
+    openForm({
+      id: null,
+      comparisonId: activeComparisonId || '',
+      frequency: 'weekly',
+      dayOfWeek: 1,
+      dayOfMonth: 1,
+      hour: 8,
+      datePreset: 'last_7_days',
+      compareMode: 'none',
+      recipients: '',
+    });
+
+  const openEdit = (schedule: ReportSchedule) =>
+    openForm({
+      id: schedule.id,
+      comparisonId: schedule.comparisonId,
+      frequency: schedule.frequency,
+      dayOfWeek: schedule.dayOfWeek ?? 1,
+      dayOfMonth: schedule.dayOfMonth ?? 1,
+      hour: schedule.hour,
+      datePreset: schedule.datePreset,
+      compareMode: schedule.compareMode,
+      recipients: schedule.recipients.join(', '),
+    });
+
+  // Run a request against the schedules API and merge the result into the list
+  const request = async (url: string, method: string, body?: Record<string, unknown>): Promise<boolean> => {
+    setBusy(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        throw new Error(data?.error || `Request failed (${response.status})`);
+      }
+
+      const saved: ReportSchedule | undefined = data?.schedule;
+      if (saved) {
+        setSchedules(prev =>
+          prev.some(s => s.id === saved.id) ? prev.map(s => (s.id === saved.id ? saved : s)) : [...prev, saved]
+        );
+      }
+      return true;
+    } catch (error) {
+      console.error('Report schedule error:', error);
+      alert(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!form) return;
+    const { id, ...fields } = form;
+    const ok = id
+      ? await request(`/api/schedules/${id}`, 'PATCH', fields)
+      : await request('/api/schedules', 'POST', fields);
+    if (ok) setForm(null);
+  };
+
+  const handleToggle = (schedule: ReportSchedule) =>
+    request(`/api/schedules/${schedule.id}`, 'PATCH', { enabled: !schedule.enabled });
+
+  const handleDelete = async (schedule: ReportSchedule) => {
+    if (!window.confirm(`Stop emailing "${schedule.comparisonName}" and delete its delivery log?`)) return;
+
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/schedules/${schedule.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Delete failed');
+      setSchedules(prev => prev.filter(s => s.id !== schedule.id));
+    } catch (error) {
+      console.error('Report schedule error:', error);
+      alert('Failed to delete schedule. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSendNow = async (schedule: ReportSchedule) => {
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/schedules/${schedule.id}/send`, { method: 'POST' });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || 'Send failed');
+
+      const delivery: ReportDelivery = data.delivery;
+      setSchedules(prev =>
+        prev.map(s => (s.id === schedule.id ? { ...s, deliveries: [delivery, ...s.deliveries].slice(0, 10) } : s))
+      );
+      setExpandedId(schedule.id);
+      if (delivery.status === 'failed') alert(`Report failed to send: ${delivery.error}`);
+    } catch (error) {
+      console.error('Report schedule error:', error);
+      alert(error instanceof Error ? error.message : 'Failed to send report. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass =
+    'rounded-md border border-gray-300 px-2 py-1.5 text-sm text-gray-700 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500';
+  const buttonClass =
+    'rounded-md border border-gray-200 px-3 py-1.5 text-xs font-medium text-gray-600 hover:border-indigo-300 hover:bg-indigo-50 hover:text-indigo-700 disabled:cursor-not-allowed disabled:text-gray-300 disabled:hover:border-gray-200 disabled:hover:bg-transparent transition-colors';
+
+  return (
+    <div className="mt-6 rounded-xl border border-gray-200 bg-white p-6 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900">Scheduled Reports</h2>
+          <p className="text-xs text-gray-400">
+            Email a saved comparison as a PDF on a schedule{timezone ? ` (times in ${timezone})` : ''}
+          </p>
+        </div>
+        {!form && (
+          <button onClick={openNew} disabled={busy} className={buttonClass}>
+            New schedule
+          </button>
+        )}
+      </div>
+
+      {form && (
+        <div className="mt-4 rounded-lg border border-gray-100 bg-gray-50 p-4">
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+            <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+              Comparison
+              <select
+                value={form.comparisonId}
+                onChange={(e) => setForm({ ...form, comparisonId: e.target.value })}
+                disabled={!!form.id}
+                className={inputClass}
+              >
+                {comparisons.length === 0 && <option value="">Save a comparison first</option>}
+                {comparisons.map((c) => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+              Frequency
+              <div className="flex gap-2">
+                <select
+                  value={form.frequency}
+                  onChange={(e) => setForm({ ...form, frequency: e.target.value as ReportFrequency })}
+                  className={inputClass}
+                >
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                  <option value="monthly">Monthly</option>
+                </select>
+                {form.frequency === 'weekly' && (
+                  <select
+                    value={form.dayOfWeek}
+                    onChange={(e) => setForm({ ...form, dayOfWeek: Number(e.target.value) })}
+                    className={inputClass}
+                  >
+                    {WEEKDAYS.map((day, i) => (
+                      <option key={day} value={i}>{day}</option>
+                    ))}
+                  </select>
+                )}
+                {form.frequency === 'monthly' && (
+                  <select
+                    value={form.dayOfMonth}
+                    onChange={(e) => setForm({ ...form, dayOfMonth: Number(e.target.value) })}
+                    className={inputClass}
+                  >
+                    {Array.from({ length: 28 }, (_, i) => (
+                      <option key={i + 1} value={i + 1}>Day {i + 1}</option>
+                    ))}
+                  </select>
+                )}
+                <select
+                  value={form.hour}
+                  onChange={(e) => setForm({ ...form, hour: Number(e.target.value) })}
+                  className={inputClass}
+                >
+                  {Array.from({ length: 24 }, (_, h) => (
+                    <option key={h} value={h}>{`${String(h).padStart(2, '0')}:00`}</option>
+                  ))}
+                </select>
+              </div>
+            </label>
+
+            <label className="flex flex-col gap-1 text-xs font-medium text-gray-500">
+              Report covers
+              <div className="flex gap-2">
+                <select
+                  value={form.datePreset}
+                  onChange={(e) => setForm({ ...form, datePreset: e.target.value })}
+                  className={inputClass}
+                >
+                  {DATE_PRESETS.map((p) => (
+                    <option key={p.id} value={p.id}>{p.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={form.compareMode}
+                  onChange={(e) => setForm({ ...form, compareMode: e.target.value })}
+                  className={inputClass}
+                >
+                  {SCHEDULE_COMPARE_MODES.map((m) => (
+                    <option key={m.id} value={m.id}>{m.label}</option>
+                  ))}
+                </select>
+              </div>
+            </label>
+
+            <label className="flex flex-col gap-1 text-xs font-medium text-gray-500 md:col-span-3">
+              Recipients (comma separated)
+              <input
+                type="text"
+                value={form.recipients}
+                onChange={(e) => setForm({ ...form, recipients: e.target.value })}
+                placeholder="marketing@example.com, founder@example.com"
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <div className="mt-3 flex justify-end gap-2">
+            <button onClick={() => setForm(null)} disabled={busy} className={buttonClass}>
+              Cancel
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={busy || !form.comparisonId || !form.recipients.trim()}
+              className="rounded-md bg-indigo-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-indigo-700 disabled:cursor-not-allowed disabled:bg-gray-300 transition-colors"
+            >
+              {form.id ? 'Save schedule' : 'Create schedule'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {schedules.length === 0 && !form ? (
+        <p className="mt-4 text-sm text-gray-400">No reports scheduled yet.</p>
+      ) : (
+        <ul className="mt-4 divide-y divide-gray-100">
+          {schedules.map((schedule) => (
+            <li key={schedule.id} className="py-3">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {schedule.comparisonName}
+                    {!schedule.enabled && (
+                      <span className="ml-2 rounded bg-gray-100 px-1.5 py-0.5 text-[10px] font-semibold uppercase text-gray-500">
+                        Paused
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {describeSchedule(schedule)} · {presetLabel(schedule.datePreset)}
+                    {schedule.compareMode !== 'none' &&
+                      ` vs. ${COMPARE_MODES.find(m => m.id === schedule.compareMode)?.label.toLowerCase()}`}
+                    {' · '}{schedule.recipients.join(', ')}
+                  </p>
+                  {schedule.enabled && (
+                    <p className="text-xs text-gray-400">Next send {formatTimestamp(schedule.nextRunAt)}</p>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button onClick={() => handleSendNow(schedule)} disabled={busy} className={buttonClass}>
+                    Send now
+                  </button>
+                  <button onClick={() => openEdit(schedule)} disabled={busy} className={buttonClass}>
+                    Edit
+                  </button>
+                  <button onClick={() => handleToggle(schedule)} disabled={busy} className={buttonClass}>
+                    {schedule.enabled ? 'Pause' : 'Resume'}
+                  </button>
+                  <button
+                    onClick={() => setExpandedId(expandedId === schedule.id ? null : schedule.id)}
+                    className={buttonClass}
+                  >
+                    Log ({schedule.deliveries.length})
+                  </button>
+                  <button
+                    onClick={() => handleDelete(schedule)}
+                    disabled={busy}
+                    className="rounded-md border border-red-200 px-3 py-1.5 text-xs font-medium text-red-600 hover:bg-red-50 disabled:cursor-not-allowed disabled:text-gray-300 transition-colors"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {expandedId === schedule.id && (
+                <div className="mt-3 overflow-x-auto">
+                  {schedule.deliveries.length === 0 ? (
+                    <p className="text-xs text-gray-400">Nothing sent yet.</p>
+                  ) : (
+                    <table className="w-full text-left text-xs">
+                      <thead className="text-gray-400">
+                        <tr>
+                          <th className="py-1 pr-4 font-medium">Sent</th>
+                          <th className="py-1 pr-4 font-medium">Period</th>
+                          <th className="py-1 pr-4 font-medium">Status</th>
+                          <th className="py-1 font-medium">Details</th>
+                        </tr>
+                      </thead>
+                      <tbody className="text-gray-600">
+                        {schedule.deliveries.map((delivery) => (
+                          <tr key={delivery.id} className="border-t border-gray-50">
+                            <td className="py-1 pr-4 whitespace-nowrap">
+                              {formatTimestamp(delivery.createdAt)}
+                              {delivery.manual && <span className="ml-1 text-gray-400">(manual)</span>}
+                            </td>
+                            <td className="py-1 pr-4 whitespace-nowrap">
+                              {delivery.dateRange.start} – {delivery.dateRange.end}
+                            </td>
+                            <td className="py-1 pr-4">
+                              <span className={delivery.status === 'sent' ? 'text-emerald-600' : 'text-red-600'}>
+                                {delivery.status === 'sent' ? 'Sent' : 'Failed'}
+                              </span>
+                            </td>
+                            <td className="py-1">
+                              {delivery.error || `${delivery.recipients.length} recipient(s)`}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { SavedComparison, UrlGroup } from '@/types';
+
+interface SavedComparisonPickerProps {
+  groups: UrlGroup[];
+  baselineIndex: number;
+  datePreset: string | null;
+  activeId: string | null;
+  onActiveChange: (id: string | null) => void;
+  onLoad: (comparison: SavedComparison) => void;
+}
+
+export default function SavedComparisonPicker({
+  groups,
+  baselineIndex,
+  datePreset,
+  activeId,
+  onActiveChange,
+  onLoad,
+}: SavedComparisonPickerProps) {
+  const [comparisons, setComparisons] = useState<SavedComparison[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  // Fetch saved comparisons on mount
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch('/api/comparisons')
+      .then(res => res.json())
+      .then(data => {
+        if (!cancelled && data.comparisons) {
+          setComparisons(data.comparisons);
+        }
+      })
+      .catch(err => console.error('Failed to load saved comparisons:', err));
+
+    return () => { cancelled = true; };
+  }, []);
+
+  const active = comparisons.find(c => c.id === activeId) || null;
+  const hasUrls = groups.some(g => g.urls.length > 0);
+
+  // Run a request against the comparisons API and merge the result into the list
+  const request = async (
+    url: string,
+    method: string,
+    body?: Record<string, unknown>
+  ): Promise<SavedComparison | null> => {
+    setBusy(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        throw new Error(data?.error || `Request failed (${response.status})`);
+      }
+
+      const saved: SavedComparison | undefined = data?.comparison;
+      if (saved) {
+        setComparisons(prev =>
+          [...prev.filter(c => c.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+        );
+      }
+      return saved || null;
+    } catch (error) {
+      console.error('Saved comparison error:', error);
+      alert(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSelect = (id: string) => {
+    const comparison = comparisons.find(c => c.id === id);
+    if (!comparison) {
+      onActiveChange(null);
+      return;
+    }
+    onActiveChange(comparison.id);
+    onLoad(comparison);
+  };
+
+  const handleSaveAs = async () => {
+    const name = window.prompt('Name this comparison', active ? `${active.name} (copy)` : '');
+    if (!name?.trim()) return;
+
+    const saved = await request('/api/comparisons', 'POST', { name, groups, baselineIndex, datePreset });
+    if (saved) onActiveChange(saved.id);
+  };
+
+  const handleSave = async () => {
+    if (!active) {
+      await handleSaveAs();
+      return;
+    }
+    await request(`/api/comparisons/${active.id}`, 'PATCH', { groups, baselineIndex, datePreset });
+  };
+
+  const handleRename = async () => {
+    if (!active) return;
+    const name = window.prompt('Rename comparison', active.name);
+    if (!name?.trim() || name.trim() === active.name) return;
+
+    await request(`/api/comparisons/${active.id}`, 'PATCH', { name });
+  };
+
+  const handleDuplicate = async () => {
+    if (!active) return;
+    const copy = await request(`/api/comparisons/${active.id}/duplicate`, 'POST');
+    if (copy) onActiveChange(copy.id);
+  };
+
+  const handleDelete = async () => {
+    if (!active) return;
+    if (!window.confirm(`Delete "${active.name}"? This cannot be undone.`)) return;
+
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/comparisons/${active.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Delete failed');
+
+      setComparisons(prev => prev.filter(c => c.id !== active.id));
+      onActiveChange(null);
+    } catch (error) {
+      console.error('Saved comparison error:', error);
+      alert('Failed to delete comparison. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const buttonClass =
+    'rounded-md border border-gray-200 px-3 py-1.5 text-xs font-medium text-gray-600 hover:border-indigo-300 hover:bg-indigo-50 hover:text-indigo-700 disabled:cursor-not-allowed disabled:text-gray-300 disabled:hover:border-gray-200 disabled:hover:bg-transparent transition-colors';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={activeId || ''}
+        onChange={(e) => handleSelect(e.target.value)}
+        disabled={busy}
+        className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-700 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+      >
+        <option value="">
+          {comparisons.length > 0 ? 'Saved comparisons...' : 'No saved comparisons'}
+        </option>
+        {comparisons.map((comparison) => (
+          <option key={comparison.id} value={comparison.id}>
+            {comparison.name}
+          </option>
+        ))}
+      </select>
+
+      <button onClick={handleSave} disabled={busy || !hasUrls} className={buttonClass}>
+        {active ? 'Save' : 'Save as...'}
+      </button>
+      {active && (
+        <>
+          <button onClick={handleSaveAs} disabled={busy || !hasUrls} className={buttonClass}>
+            Save as...
+          </button>
+          <button onClick={handleRename} disabled={busy} className={buttonClass}>
+            Rename
+          </button>
+          <button onClick={handleDuplicate} disabled={busy} className={buttonClass}>
+            Duplicate
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={busy}
+            className="rounded-md border border-red-200 px-3 py-1.5 text-xs font-medium text-red-600 hover:bg-red-50 disabled:cursor-not-allowed disabled:text-gray-300 transition-colors"
+          >
+            Delete
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
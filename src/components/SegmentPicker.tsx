@@ -0,0 +1,152 @@
+'use client';
+
+import { useState } from 'react';
+import { DeviceType, ReferrerSource, SegmentFilters } from '@/types';
+import { DEVICE_TYPES, REFERRER_SOURCES, SEGMENT_PRESETS, describeSegment, isEmptySegment } from '@/lib/segments';
+
+interface SegmentPickerProps {
+  segment: SegmentFilters | null;
+  onChange: (segment: SegmentFilters | null) => void;
+  disabled?: boolean;
+}
+
+const UTM_INPUTS = [
+  { key: 'utmSource', label: 'UTM source', placeholder: 'facebook' },
+  { key: 'utmMedium', label: 'UTM medium', placeholder: 'paid_social' },
+  { key: 'utmCampaign', label: 'UTM campaign', placeholder: 'spring_sale' },
+] as const;
+
+const inputClass =
+  'w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500';
+
+// Narrows the comparison to part of the traffic (device, source, country,
+// UTM), so a page that wins on desktop and loses on mobile shows both
+export default function SegmentPicker({ segment, onChange, disabled }: SegmentPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<SegmentFilters>({});
+
+  const apply = (next: SegmentFilters | null) => {
+    onChange(isEmptySegment(next) ? null : next);
+    setIsOpen(false);
+  };
+
+  const setField = <K extends keyof SegmentFilters>(key: K, value: SegmentFilters[K] | '') => {
+    setDraft(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  const active = !isEmptySegment(segment);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => {
+          if (!isOpen) setDraft(segment ?? {});
+          setIsOpen(!isOpen);
+        }}
+        disabled={disabled}
+        className={`flex items-center gap-2 rounded-lg border px-4 py-2 text-sm font-medium shadow-sm transition-colors disabled:opacity-50 ${
+          active
+            ? 'border-indigo-300 bg-indigo-50 text-indigo-700 hover:bg-indigo-100'
+            : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+        }`}
+      >
+        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" />
+        </svg>
+        <span>{describeSegment(segment)}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full z-50 mt-2 w-[440px] rounded-xl border border-gray-200 bg-white p-4 shadow-xl">
+          <div className="mb-4">
+            <p className="mb-2 text-xs font-semibold uppercase tracking-wider text-gray-400">Quick Select</p>
+            <div className="flex flex-wrap gap-2">
+              {SEGMENT_PRESETS.map((preset) => (
+                <button
+                  key={preset.id}
+                  onClick={() => apply(preset.segment)}
+                  className="rounded-md border border-gray-200 px-3 py-1.5 text-xs font-medium text-gray-600 hover:border-indigo-300 hover:bg-indigo-50 hover:text-indigo-700 transition-colors"
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="border-t border-gray-100 pt-4">
+            <p className="mb-2 text-xs font-semibold uppercase tracking-wider text-gray-400">Custom Segment</p>
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="mb-1 block text-xs text-gray-500">Device</label>
+                <select
+                  value={draft.deviceType ?? ''}
+                  onChange={(e) => setField('deviceType', e.target.value as DeviceType | '')}
+                  className={inputClass}
+                >
+                  <option value="">Any</option>
+                  {DEVICE_TYPES.map((d) => <option key={d.id} value={d.id}>{d.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="mb-1 block text-xs text-gray-500">Source</label>
+                <select
+                  value={draft.referrerSource ?? ''}
+                  onChange={(e) => setField('referrerSource', e.target.value as ReferrerSource | '')}
+                  className={inputClass}
+                >
+                  <option value="">Any</option>
+                  {REFERRER_SOURCES.map((s) => <option key={s.id} value={s.id}>{s.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="mb-1 block text-xs text-gray-500">Country</label>
+                <input
+                  value={draft.country ?? ''}
+                  onChange={(e) => setField('country', e.target.value.toUpperCase())}
+                  placeholder="CA"
+                  maxLength={2}
+                  className={inputClass}
+                />
+              </div>
+              {UTM_INPUTS.map(({ key, label, placeholder }) => (
+                <div key={key}>
+                  <label className="mb-1 block text-xs text-gray-500">{label}</label>
+                  <input
+                    value={draft[key] ?? ''}
+                    onChange={(e) => setField(key, e.target.value)}
+                    placeholder={placeholder}
+                    className={inputClass}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-gray-400">
+              Attributed and product revenue come from orders, which record UTM parameters but not device, source or
+              country, so those filters don&apos;t narrow them.
+            </p>
+            <div className="mt-3 flex justify-end gap-2">
+              <button
+                onClick={() => apply(null)}
+                className="mr-auto rounded-md px-4 py-2 text-sm text-gray-500 hover:text-gray-700"
+              >
+                All traffic
+              </button>
+              <button
+                onClick={() => setIsOpen(false)}
+                className="rounded-md px-4 py-2 text-sm text-gray-500 hover:text-gray-700"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => apply(draft)}
+                className="rounded-md bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700 transition-colors"
+              >
+                Apply
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { useState } from 'react';
+import { storeLabel } from '@/lib/shop-domain';
+import { LinkedStore } from '@/types';
+
+const CONNECT_OPTION = '__connect__';
+
+interface StoreSwitcherProps {
+  stores: LinkedStore[];
+  canConnect: boolean;
+}
+
+// Header dropdown for the stores on the signed-in account. Switching reloads
+// the dashboard so saved comparisons and schedules follow the new store.
+export default function StoreSwitcher({ stores, canConnect }: StoreSwitcherProps) {
+  const [switching, setSwitching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const current = stores.find(s => s.current);
+  if (!current || (stores.length < 2 && !canConnect)) return null;
+
+  const handleChange = async (value: string) => {
+    // Connecting from a signed-in browser links the new store to this account
+    if (value === CONNECT_OPTION) {
+      window.location.href = '/';
+      return;
+    }
+
+    setSwitching(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/stores/current', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ shop: value }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        setError(data?.error || 'Failed to switch store');
+        setSwitching(false);
+        return;
+      }
+      window.location.href = data.redirect || '/dashboard';
+    } catch {
+      setError('Failed to switch store');
+      setSwitching(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {error && <span className="text-xs text-red-600">{error}</span>}
+      <select
+        value={current.shop}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={switching}
+        title="Switch store"
+        className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-700 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:text-gray-400"
+      >
+        {stores.map((store) => (
+          <option key={store.shop} value={store.shop}>
+            {storeLabel(store.shop)} ({store.currency})
+          </option>
+        ))}
+        {canConnect && <option value={CONNECT_OPTION}>Connect another store…</option>}
+      </select>
+    </div>
+  );
+}
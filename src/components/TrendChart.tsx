@@ -0,0 +1,82 @@
+'use client';
+
+import { format, parseISO } from 'date-fns';
+
+interface TrendSeries {
+  name: string;
+  rgb: [number, number, number];
+  values: number[];
+}
+
+interface TrendChartProps {
+  title: string;
+  dates: string[];
+  series: TrendSeries[];
+  formatValue: (value: number) => string;
+}
+
+const WIDTH = 560;
+const HEIGHT = 200;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 56 };
+const Y_TICKS = 4;
+
+export default function TrendChart({ title, dates, series, formatValue }: TrendChartProps) {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const max = Math.max(0, ...series.flatMap(s => s.values));
+  const yMax = max > 0 ? max * 1.1 : 1;
+
+  const xFor = (i: number) =>
+    PADDING.left + (dates.length > 1 ? (i / (dates.length - 1)) * plotWidth : plotWidth / 2);
+  const yFor = (value: number) => PADDING.top + plotHeight - (value / yMax) * plotHeight;
+
+  // Label the first, last and a few evenly spaced dates in between
+  const labelEvery = Math.max(1, Math.ceil(dates.length / 6));
+
+  return (
+    <div className="rounded-lg border border-gray-100 p-4">
+      <p className="mb-2 text-xs font-semibold uppercase tracking-wider text-gray-400">{title}</p>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+        {/* Grid + y-axis labels */}
+        {Array.from({ length: Y_TICKS + 1 }, (_, i) => {
+          const value = (yMax / Y_TICKS) * i;
+          const y = yFor(value);
+          return (
+            <g key={i}>
+              <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y} y2={y} stroke="#f3f4f6" />
+              <text x={PADDING.left - 6} y={y + 3} textAnchor="end" fontSize={9} fill="#9ca3af">
+                {formatValue(value)}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* X-axis labels */}
+        {dates.map((date, i) =>
+          i % labelEvery === 0 || i === dates.length - 1 ? (
+            <text key={date} x={xFor(i)} y={HEIGHT - 6} textAnchor="middle" fontSize={9} fill="#9ca3af">
+              {format(parseISO(date), 'MMM d')}
+            </text>
+          ) : null
+        )}
+
+        {/* Lines */}
+        {series.map((s) => {
+          const color = `rgb(${s.rgb.join(',')})`;
+          const points = s.values.map((v, i) => `${xFor(i)},${yFor(v)}`).join(' ');
+          return (
+            <g key={s.name}>
+              <polyline points={points} fill="none" stroke={color} strokeWidth={2} strokeLinejoin="round" />
+              {s.values.map((v, i) => (
+                <circle key={i} cx={xFor(i)} cy={yFor(v)} r={dates.length > 45 ? 0 : 2.5} fill={color}>
+                  <title>{`${s.name} · ${dates[i]}: ${formatValue(v)}`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
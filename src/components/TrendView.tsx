@@ -0,0 +1,184 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import ErrorNotice from '@/components/ErrorNotice';
+import TrendChart from '@/components/TrendChart';
+import TruncationNotice from '@/components/TruncationNotice';
+import { REVENUE_BASIS_LABELS, aggregateGroupTrend } from '@/lib/calculations';
+import { collectExactUrls, getGroupColor } from '@/lib/groups';
+import { formatMoney } from '@/lib/money';
+import {
+  ApiErrorBody,
+  DateRange,
+  GroupTrend,
+  MoneySettings,
+  RevenueBasis,
+  SegmentFilters,
+  TrendGranularity,
+  TrendResponse,
+  UrlGroup,
+} from '@/types';
+
+interface TrendViewProps {
+  groups: UrlGroup[];
+  dateRange: DateRange;
+  revenueBasis?: RevenueBasis; // what revenue counts, as in the table; full cart when unset
+  segment?: SegmentFilters | null;
+  refreshToken: number; // bump to bypass the server cache
+}
+
+interface TrendResult {
+  key: string;
+  trends: GroupTrend[];
+  truncated: boolean;
+  money?: MoneySettings;
+  error: ApiErrorBody | null;
+}
+
+export default function TrendView({ groups, dateRange, revenueBasis = 'cart', segment = null, refreshToken }: TrendViewProps) {
+  const [granularity, setGranularity] = useState<TrendGranularity>('day');
+  const [result, setResult] = useState<TrendResult | null>(null);
+  // Refresh token of the last fetch that completed, so only the fetch a
+  // refresh click starts skips the server cache
+  const fetchedRefreshToken = useRef(refreshToken);
+
+  const requestKey = JSON.stringify({ groups, dateRange, revenueBasis, segment, granularity, refreshToken });
+  const loading = result?.key !== requestKey;
+
+  useEffect(() => {
+    let cancelled = false;
+    // Read the inputs back from the key so the effect only reruns when one changes
+    const request: {
+      groups: UrlGroup[];
+      dateRange: DateRange;
+      revenueBasis: RevenueBasis;
+      segment: SegmentFilters | null;
+      granularity: TrendGranularity;
+      refreshToken: number;
+    } = JSON.parse(requestKey);
+    const urls = [...new Set(request.groups.flatMap(g => g.urls))];
+
+    fetch('/api/shopify/trends', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        urls,
+        exactUrls: collectExactUrls(request.groups),
+        dateRange: request.dateRange,
+        granularity: request.granularity,
+        ...(request.revenueBasis !== 'cart' && { revenueBasis: request.revenueBasis }),
+        ...(request.segment && { segment: request.segment }),
+        refresh: request.refreshToken !== fetchedRefreshToken.current,
+      }),
+    })
+      .then(async res => {
+        const body = await res.json().catch(() => null);
+        if (cancelled) return;
+        fetchedRefreshToken.current = request.refreshToken;
+        if (!res.ok) {
+          // Shopify failures come back as a structured ApiErrorBody
+          setResult({
+            key: requestKey,
+            trends: [],
+            truncated: false,
+            error: body?.error ? body : { error: `Request failed (${res.status})` },
+          });
+          return;
+        }
+
+        const data: TrendResponse = body;
+        setResult({
+          key: requestKey,
+          trends: request.groups.map(g => aggregateGroupTrend(g.name, g.urls, data.pages, g.color)),
+          truncated: !!data.truncated,
+          money: data.money,
+          error: null,
+        });
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Trend error:', err);
+        setResult({
+          key: requestKey,
+          trends: [],
+          truncated: false,
+          error: { error: err instanceof Error ? err.message : 'Failed to fetch trend data' },
+        });
+      });
+
+    return () => { cancelled = true; };
+  }, [requestKey]);
+
+  const trends = result?.trends || [];
+  const dates = trends[0]?.points.map(p => p.date) || [];
+  const seriesFor = (field: 'sessions' | 'conversionRate' | 'totalRevenue') =>
+    trends.map((trend, i) => ({
+      name: trend.name,
+      rgb: getGroupColor(trend.color, i).rgb,
+      values: trend.points.map(p => p[field]),
+    }));
+
+  return (
+    <div>
+      <div className="mb-4 flex items-center justify-between">
+        <div className="flex flex-wrap items-center gap-3">
+          {trends.map((trend, i) => (
+            <span key={i} className="flex items-center gap-1.5 text-xs text-gray-500">
+              <span className={`h-2 w-2 rounded-full ${getGroupColor(trend.color, i).swatch}`} />
+              {trend.name}
+            </span>
+          ))}
+        </div>
+        <div className="flex rounded-lg border border-gray-200 p-0.5">
+          {(['day', 'week'] as TrendGranularity[]).map((g) => (
+            <button
+              key={g}
+              onClick={() => setGranularity(g)}
+              className={`rounded-md px-3 py-1 text-xs font-medium transition-colors ${
+                granularity === g ? 'bg-gray-900 text-white' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {g === 'day' ? 'Daily' : 'Weekly'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-20">
+          <div className="h-8 w-8 animate-spin rounded-full border-2 border-indigo-200 border-t-indigo-600" />
+        </div>
+      ) : result?.error ? (
+        <ErrorNotice error={result.error} />
+      ) : (
+        <>
+          {result?.truncated && (
+            <div className="mb-4">
+              <TruncationNotice />
+            </div>
+          )}
+          <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+            <TrendChart
+              title="Sessions"
+              dates={dates}
+              series={seriesFor('sessions')}
+              formatValue={(v) => Math.round(v).toLocaleString()}
+            />
+            <TrendChart
+              title="Conversion Rate"
+              dates={dates}
+              series={seriesFor('conversionRate')}
+              formatValue={(v) => `${v.toFixed(1)}%`}
+            />
+            <TrendChart
+              title={revenueBasis === 'cart' ? 'Revenue' : `Revenue (${REVENUE_BASIS_LABELS[revenueBasis]})`}
+              dates={dates}
+              series={seriesFor('totalRevenue')}
+              formatValue={(v) => formatMoney(v, result?.money)}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+'use client';
+
+// Amber banner for results built from a partial ShopifyQL result set
+export default function TruncationNotice() {
+  return (
+    <div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-700">
+      Shopify returned more rows than we could read, so some numbers may be lower than in Shopify Analytics.
+      Try a shorter date range or fewer pages.
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { prisma } from './prisma';
+
+// Accounts group the stores one person has connected from the same browser.
+// Completing OAuth for a store is the only way to link it, so every linked
+// store is one the account holder has been able to authorise.
+
+// Link a shop to the account (creating the account when there isn't one yet)
+// and return the account id
+export async function linkShopToAccount(accountId: string | null, shopId: string): Promise<string> {
+  const id = accountId ?? (await prisma.account.create({ data: {} })).id;
+
+  await prisma.accountShop.upsert({
+    where: { accountId_shopId: { accountId: id, shopId } },
+    update: {},
+    create: { accountId: id, shopId },
+  });
+
+  return id;
+}
+
+// Stores linked to an account, for the store switcher
+export async function listAccountShops(accountId: string) {
+  return prisma.shop.findMany({
+    where: { accounts: { some: { accountId } } },
+    orderBy: { domain: 'asc' },
+  });
+}
+
+// The linked store with this domain, or null if the account can't use it
+export async function findAccountShop(accountId: string, domain: string) {
+  return prisma.shop.findFirst({
+    where: { domain, accounts: { some: { accountId } } },
+  });
+}
+
+// Domains among `domains` the account has not linked
+export async function unlinkedShops(accountId: string | null, domains: string[]): Promise<string[]> {
+  if (domains.length === 0) return [];
+  if (!accountId) return domains;
+
+  const linked = await prisma.shop.findMany({
+    where: { domain: { in: domains }, accounts: { some: { accountId } } },
+    select: { domain: true },
+  });
+  const found = new Set(linked.map(s => s.domain));
+  return domains.filter(domain => !found.has(domain));
+}
+
+// Stores sharing an account with `shopId`, for work that runs without a
+// signed-in browser (scheduled reports). Saved comparisons are checked
+// against the saving account, so only stores linked alongside this one
+// can appear in them.
+export async function findLinkedShops(shopId: string, domains: string[]) {
+  if (domains.length === 0) return [];
+  return prisma.shop.findMany({
+    where: {
+      domain: { in: domains },
+      accounts: { some: { account: { shops: { some: { shopId } } } } },
+    },
+  });
+}
@@ -0,0 +1,310 @@
+import {
+  resolveProductsFromUrls,
+  extractVariantId,
+  fetchAttributedOrders,
+  fetchComplementaryProducts,
+  fetchLandingPageData,
+  fetchProductAOV,
+  fetchRangeOrders,
+  normalizeUrlPath,
+  ProductVariantRef,
+  QueryFilters,
+  ShopifyProduct,
+} from './shopify';
+import {
+  CUSTOMER_TYPES,
+  calculateAttributedMetrics,
+  calculateCustomerTypeMetrics,
+  calculatePageMetrics,
+} from './calculations';
+import { DEFAULT_MONEY, formatMoney } from './money';
+import { sessionOnlyFilters } from './segments';
+import {
+  ComparisonResponse,
+  CustomerSplit,
+  DateRange,
+  MoneySettings,
+  PageMetrics,
+  PathMatchMode,
+  RevenueBasis,
+  RevenueMode,
+  SegmentFilters,
+  SessionOnlyFilter,
+} from '@/types';
+
+// Landing paths of the requested urls that use exact matching
+export function exactUrlPaths(urls: string[], exactUrls: string[] = []): string[] {
+  return urls.filter(url => exactUrls.includes(url)).map(url => normalizeUrlPath(url));
+}
+
+// Segment filters the request's order-based figures (attributed revenue, the
+// product revenue bases) can't apply; empty when it has none
+export function unsegmentedOrderFilters(
+  segment: SegmentFilters | null,
+  revenueMode: RevenueMode,
+  revenueBasis: RevenueBasis
+): SessionOnlyFilter[] {
+  return revenueMode === 'attributed' || revenueBasis !== 'cart' ? sessionOnlyFilters(segment) : [];
+}
+
+export interface PageMetricsOptions {
+  exactPaths?: string[];
+  money?: MoneySettings;
+  revenueMode?: RevenueMode;
+  revenueBasis?: RevenueBasis;
+  segment?: SegmentFilters | null;
+  customerSplit?: boolean;
+}
+
+// What a revenue basis prices each url by besides its product: the variant the
+// url links to (?variant=), whose line items alone count under the product
+// bases, and the products' complementary products for product_with_accessories
+export async function fetchBasisProducts(
+  shop: string,
+  accessToken: string,
+  urls: string[],
+  productMap: Map<string, ShopifyProduct>,
+  productIds: number[],
+  revenueBasis: RevenueBasis
+): Promise<{ variantIds: (number | null)[]; variants: ProductVariantRef[]; accessories: Map<number, number[]> }> {
+  const variantIds = urls.map(url => (revenueBasis === 'cart' ? null : extractVariantId(url)));
+  const variants: ProductVariantRef[] = urls.flatMap((url, idx) => {
+    const product = productMap.get(url);
+    const variantId = variantIds[idx];
+    return product && variantId ? [{ productId: product.id, variantId }] : [];
+  });
+  const accessories = revenueBasis === 'product_with_accessories'
+    ? await fetchComplementaryProducts(shop, accessToken, productIds)
+    : new Map<number, number[]>();
+
+  return { variantIds, variants, accessories };
+}
+
+// Steps 2 + 3 for one date range: fetch ShopifyQL data and build page metrics.
+// In attributed mode each page also gets the figures from the orders that
+// landed on it. The new/returning split runs the sessions and sales queries
+// again once per customer type. Attribution and the product bases share one
+// fetch of the range's orders, alongside the ShopifyQL queries.
+// `truncated` is set when any query had more rows than we page through.
+export async function fetchPageMetrics(
+  shop: string,
+  accessToken: string,
+  urls: string[],
+  urlPaths: string[],
+  productMap: Map<string, ShopifyProduct>,
+  productIds: number[],
+  dateRange: DateRange,
+  {
+    exactPaths = [],
+    money = DEFAULT_MONEY,
+    revenueMode = 'estimated',
+    revenueBasis = 'cart',
+    segment = null,
+    customerSplit = false,
+  }: PageMetricsOptions = {}
+): Promise<{ pages: PageMetrics[]; truncated: boolean }> {
+  // Step 2: Fetch all ShopifyQL data in parallel (no GraphQL needed!)
+  // - Sessions + conversion_rate per landing page (sessions dataset)
+  // - Total sales + orders per product_id (sales dataset) → gives us AOV
+  console.log(`[Analytics] Fetching ShopifyQL data for ${dateRange.start} to ${dateRange.end} (sessions + ${revenueBasis} AOV by product_id)...`);
+
+  const { variantIds, variants, accessories } =
+    await fetchBasisProducts(shop, accessToken, urls, productMap, productIds, revenueBasis);
+
+  const needsOrders = (revenueMode === 'attributed' && urlPaths.length > 0) ||
+    (revenueBasis !== 'cart' && productIds.length > 0);
+  const rangeOrders = needsOrders ? fetchRangeOrders(shop, accessToken, dateRange, segment) : Promise.resolve(null);
+  // Only the product bases wait for the orders; the full cart comes from ShopifyQL
+  const productAOV = (filters: QueryFilters | null) => revenueBasis === 'cart'
+    ? fetchProductAOV(shop, accessToken, productIds, dateRange, money, { segment: filters })
+    : rangeOrders.then(orders =>
+      fetchProductAOV(shop, accessToken, productIds, dateRange, money, { basis: revenueBasis, variants, accessories, segment: filters, orders })
+    );
+
+  const [landingPages, productSales, attributedOrders, customerData] = await Promise.all([
+    fetchLandingPageData(shop, accessToken, urlPaths, dateRange, exactPaths, segment),
+    productAOV(segment),
+    revenueMode === 'attributed'
+      ? rangeOrders.then(orders => fetchAttributedOrders(shop, accessToken, urlPaths, dateRange, exactPaths, segment, orders))
+      : Promise.resolve(null),
+    customerSplit
+      ? Promise.all(CUSTOMER_TYPES.map(async ({ id }) => {
+        const filters = { ...segment, customerType: id };
+        const [landing, sales] = await Promise.all([
+          fetchLandingPageData(shop, accessToken, urlPaths, dateRange, exactPaths, filters),
+          productAOV(filters),
+        ]);
+        return { customerType: id, landing, sales };
+      }))
+      : Promise.resolve(null),
+  ]);
+  const noOrders = { totalRevenue: 0, revenuePerVisitor: 0, conversionRate: 0, aov: 0, orderCount: 0 };
+
+  // Each customer type's sessions × CVR × AOV for a page, zero without a product
+  const customersFor = (urlPath: string, productId: number | null, variantId: number | null): CustomerSplit | null =>
+    customerData && Object.fromEntries(customerData.map(({ customerType, landing, sales }) => {
+      const lpData = productId ? landing.pages.get(urlPath) : undefined;
+      const salesData = variantId ? sales.variants.get(variantId) : productId ? sales.products.get(productId) : undefined;
+      const orders = lpData?.orders ?? 0;
+      return [customerType, calculateCustomerTypeMetrics(lpData?.sessions ?? 0, orders * (salesData?.aov || 0), orders)];
+    })) as CustomerSplit;
+
+  // Step 3: Build page metrics
+  // Orders = sessions × conversion_rate (from sessions dataset — matches Shopify's report)
+  // Revenue = orders × AOV (AOV = total_sales ÷ total_orders from sales dataset, per product_id,
+  // or the product's line items ÷ orders containing it under the product bases)
+  // This keeps everything in ShopifyQL — no GraphQL order guessing needed.
+  const pages = urls.map((url, idx): PageMetrics => {
+    const product = productMap.get(url);
+    const urlPath = urlPaths[idx];
+    const lpData = landingPages.pages.get(urlPath);
+    const matchMode: PathMatchMode = exactPaths.includes(urlPath) ? 'exact' : 'canonical';
+
+    if (!product || !lpData) {
+      console.log(`[Analytics] No data for "${urlPath}" — product: ${product?.title || 'unknown'}`);
+      const customers = customersFor(urlPath, null, null);
+      return {
+        ...calculatePageMetrics(url, product?.title || 'Unknown Product', 0, 0, 0, revenueBasis),
+        matchMode,
+        matchedPaths: [],
+        ...(attributedOrders && { attributed: noOrders }),
+        ...(customers && { customers }),
+      };
+    }
+
+    const { sessions, conversionRate, orders } = lpData;
+    const variantId = variantIds[idx];
+    const salesData = variantId ? productSales.variants.get(variantId) : productSales.products.get(product.id);
+    const aov = salesData?.aov || 0;
+    const revenue = orders * aov;
+
+    console.log(
+      `[Analytics] ${urlPath} → "${product.title}" (ID: ${product.id}${variantId ? `, variant ${variantId}` : ''}): ` +
+      `${sessions} sessions, ${(conversionRate * 100).toFixed(2)}% CVR, ` +
+      `${orders} orders (sessions×CVR), ${formatMoney(aov, money)} ${revenueBasis} AOV, ` +
+      `${formatMoney(revenue, money)} revenue (orders×AOV)`
+    );
+
+    const attributed = attributedOrders &&
+      calculateAttributedMetrics(sessions, attributedOrders.orders.get(urlPath) || [], product.id, {
+        basis: revenueBasis,
+        variantId,
+        accessoryIds: accessories.get(product.id),
+      });
+    if (attributed) {
+      console.log(
+        `[Analytics] ${urlPath} → ${attributed.orderCount} attributed orders, ` +
+        `${formatMoney(attributed.totalRevenue, money)} attributed revenue`
+      );
+    }
+
+    const customers = customersFor(urlPath, product.id, variantId);
+    if (customers) {
+      console.log(
+        `[Analytics] ${urlPath} → new: ${customers.new.sessions} sessions, ${customers.new.orderCount} orders; ` +
+        `returning: ${customers.returning.sessions} sessions, ${customers.returning.orderCount} orders`
+      );
+    }
+
+    return {
+      ...calculatePageMetrics(url, product.title, sessions, revenue, orders, revenueBasis),
+      matchMode,
+      matchedPaths: lpData.matchedPaths,
+      ...(attributed && { attributed }),
+      ...(customers && { customers }),
+    };
+  });
+
+  return {
+    pages,
+    truncated: landingPages.truncated || productSales.truncated || !!attributedOrders?.truncated ||
+      !!customerData?.some(({ landing, sales }) => landing.truncated || sales.truncated),
+  };
+}
+
+export interface ComparisonOptions extends Omit<PageMetricsOptions, 'exactPaths'> {
+  compareTo?: DateRange | null;
+  exactUrls?: string[];
+}
+
+// The whole pipeline for callers outside a request (scheduled reports, linked
+// stores): resolve products, then fetch both ranges. No caching or timeouts here.
+export async function fetchComparison(
+  shop: string,
+  accessToken: string,
+  urls: string[],
+  dateRange: DateRange,
+  {
+    compareTo = null,
+    exactUrls = [],
+    revenueMode = 'estimated',
+    revenueBasis = 'cart',
+    segment = null,
+    customerSplit = false,
+    ...options
+  }: ComparisonOptions = {}
+): Promise<ComparisonResponse> {
+  const productMap = await resolveProductsFromUrls(shop, accessToken, urls);
+  const urlPaths = urls.map(url => normalizeUrlPath(url));
+  const pageOptions = { ...options, exactPaths: exactUrlPaths(urls, exactUrls), revenueMode, revenueBasis, segment, customerSplit };
+  const productIds = urls
+    .map(url => productMap.get(url)?.id)
+    .filter((id): id is number => !!id);
+
+  const [current, previous] = await Promise.all([
+    fetchPageMetrics(shop, accessToken, urls, urlPaths, productMap, productIds, dateRange, pageOptions),
+    compareTo
+      ? fetchPageMetrics(shop, accessToken, urls, urlPaths, productMap, productIds, compareTo, pageOptions)
+      : Promise.resolve(null),
+  ]);
+  const ordersUnsegmented = unsegmentedOrderFilters(segment, revenueMode, revenueBasis);
+
+  return {
+    pages: current.pages,
+    dateRange,
+    revenueMode,
+    revenueBasis,
+    segment,
+    customerSplit,
+    ...(ordersUnsegmented.length > 0 && { ordersUnsegmented }),
+    ...(compareTo && previous && {
+      previous: { pages: previous.pages, dateRange: compareTo },
+    }),
+    truncated: current.truncated || !!previous?.truncated,
+    lastUpdated: new Date().toISOString(),
+  };
+}
+
+export interface StoreComparison {
+  shop: string;
+  money: MoneySettings;
+  data: ComparisonResponse;
+}
+
+// Fold results fetched per store into one response, tagging every page with
+// its store. The first entry is the store signed in to; each store keeps its
+// own currency, nothing is converted.
+export function mergeStoreComparisons(results: StoreComparison[]): ComparisonResponse {
+  const [primary] = results;
+  const tag = (shop: string, pages: PageMetrics[]) => pages.map(page => ({ ...page, shop }));
+
+  return {
+    shop: primary.shop,
+    money: Object.fromEntries(results.map(r => [r.shop, r.money])),
+    pages: results.flatMap(r => tag(r.shop, r.data.pages)),
+    dateRange: primary.data.dateRange,
+    revenueMode: primary.data.revenueMode,
+    revenueBasis: primary.data.revenueBasis,
+    segment: primary.data.segment,
+    customerSplit: primary.data.customerSplit,
+    ...(primary.data.ordersUnsegmented && { ordersUnsegmented: primary.data.ordersUnsegmented }),
+    ...(primary.data.previous && {
+      previous: {
+        pages: results.flatMap(r => tag(r.shop, r.data.previous?.pages || [])),
+        dateRange: primary.data.previous.dateRange,
+      },
+    }),
+    truncated: results.some(r => r.data.truncated),
+    lastUpdated: primary.data.lastUpdated,
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('./prisma', () => ({ prisma: {} }));
+
+import { generateCacheKey } from './cache';
+
+describe('generateCacheKey', () => {
+  const params = {
+    urls: ['/products/a', '/products/b'],
+    dateRange: { start: '2026-01-01', end: '2026-01-31' },
+    compareTo: null,
+  };
+
+  it('is a stable md5 hex digest', () => {
+    expect(generateCacheKey(params)).toMatch(/^[0-9a-f]{32}$/);
+    expect(generateCacheKey(params)).toBe(generateCacheKey({ ...params }));
+  });
+
+  it('ignores key order at every level', () => {
+    const reordered = {
+      compareTo: null,
+      dateRange: { end: '2026-01-31', start: '2026-01-01' },
+      urls: ['/products/a', '/products/b'],
+    };
+
+    expect(generateCacheKey(reordered)).toBe(generateCacheKey(params));
+  });
+
+  it('changes when a nested date changes', () => {
+    const otherRange = { ...params, dateRange: { start: '2026-02-01', end: '2026-02-28' } };
+
+    expect(generateCacheKey(otherRange)).not.toBe(generateCacheKey(params));
+  });
+
+  it('changes when the comparison range changes', () => {
+    const withCompare = { ...params, compareTo: { start: '2025-12-01', end: '2025-12-31' } };
+
+    expect(generateCacheKey(withCompare)).not.toBe(generateCacheKey(params));
+  });
+
+  it('treats URL order as significant', () => {
+    const swapped = { ...params, urls: ['/products/b', '/products/a'] };
+
+    expect(generateCacheKey(swapped)).not.toBe(generateCacheKey(params));
+  });
+
+  it('separates request types with otherwise equal params', () => {
+    expect(generateCacheKey({ type: 'trend', ...params })).not.toBe(generateCacheKey(params));
+  });
+});
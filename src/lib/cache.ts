@@ -4,8 +4,23 @@ import crypto from 'crypto';
 const CACHE_TTL_MINUTES = 30;
 
 export function generateCacheKey(params: Record<string, unknown>): string {
-  const sorted = JSON.stringify(params, Object.keys(params).sort());
-  return crypto.createHash('md5').update(sorted).digest('hex');
+  return crypto.createHash('md5').update(stableStringify(params)).digest('hex');
+}
+
+// JSON with object keys sorted at every level, so key order never changes the
+// hash. (A replacer array would also drop nested keys such as dateRange.start.)
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(v => stableStringify(v ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
 }
 
 export async function getCachedData<T>(shopId: string, queryKey: string): Promise<T | null> {
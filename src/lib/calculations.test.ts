@@ -0,0 +1,313 @@
+import { describe, expect, it } from 'vitest';
+import {
+  aggregateGroupMetrics,
+  calculateAttributedMetrics,
+  calculateCustomerTypeMetrics,
+  calculatePageMetrics,
+  getProductOrderData,
+  groupPageBreakdown,
+} from './calculations';
+import { ShopifyOrder } from '@/types';
+import { expandGroupsAcrossStores, splitUrlsByStore } from './groups';
+
+describe('calculatePageMetrics', () => {
+  it('derives per-visitor, conversion and order value metrics', () => {
+    const metrics = calculatePageMetrics('/products/a', 'A', 1000, 2500, 50);
+
+    expect(metrics).toEqual({
+      url: '/products/a',
+      productTitle: 'A',
+      sessions: 1000,
+      totalRevenue: 2500,
+      revenuePerVisitor: 2.5,
+      conversionRate: 5, // percent, not a fraction
+      aov: 50,
+      orderCount: 50,
+    });
+  });
+
+  it('returns zero rates instead of NaN or Infinity with no sessions', () => {
+    const metrics = calculatePageMetrics('/products/a', 'A', 0, 0, 0);
+
+    expect(metrics.revenuePerVisitor).toBe(0);
+    expect(metrics.conversionRate).toBe(0);
+    expect(metrics.aov).toBe(0);
+  });
+
+  it('returns zero AOV when there are sessions but no orders', () => {
+    const metrics = calculatePageMetrics('/products/a', 'A', 500, 0, 0);
+
+    expect(metrics.aov).toBe(0);
+    expect(metrics.conversionRate).toBe(0);
+  });
+
+  it('rounds money and rates to two decimals', () => {
+    const metrics = calculatePageMetrics('/products/a', 'A', 3, 10, 1);
+
+    expect(metrics.revenuePerVisitor).toBe(3.33);
+    expect(metrics.conversionRate).toBe(33.33);
+    expect(metrics.totalRevenue).toBe(10);
+  });
+
+  it('keeps sessions and orders exact', () => {
+    const metrics = calculatePageMetrics('/products/a', 'A', 12345, 99.999, 7);
+
+    expect(metrics.sessions).toBe(12345);
+    expect(metrics.orderCount).toBe(7);
+    expect(metrics.totalRevenue).toBe(100);
+  });
+});
+
+describe('aggregateGroupMetrics', () => {
+  const pages = [
+    calculatePageMetrics('/products/a', 'A', 1000, 1000, 10), // 1% CVR
+    calculatePageMetrics('/products/b', 'B', 100, 500, 5), // 5% CVR
+    calculatePageMetrics('/products/c', 'C', 400, 800, 8),
+  ];
+
+  it('sums counts across the group pages only', () => {
+    const group = aggregateGroupMetrics('Group A', ['/products/a', '/products/b'], pages);
+
+    expect(group.name).toBe('Group A');
+    expect(group.urls).toEqual(['/products/a', '/products/b']);
+    expect(group.sessions).toBe(1100);
+    expect(group.orderCount).toBe(15);
+    expect(group.totalRevenue).toBe(1500);
+  });
+
+  it('recomputes rates from the sums rather than averaging page rates', () => {
+    const group = aggregateGroupMetrics('Group A', ['/products/a', '/products/b'], pages);
+
+    // (10 + 5) / 1100, not the 3% average of 1% and 5%
+    expect(group.conversionRate).toBe(1.36);
+    expect(group.revenuePerVisitor).toBe(1.36);
+    expect(group.aov).toBe(100);
+  });
+
+  it('returns zeros for a group with no matching pages', () => {
+    const group = aggregateGroupMetrics('Empty', ['/products/missing'], pages);
+
+    expect(group).toMatchObject({
+      sessions: 0,
+      totalRevenue: 0,
+      revenuePerVisitor: 0,
+      conversionRate: 0,
+      aov: 0,
+      orderCount: 0,
+    });
+  });
+
+  it('counts a page once even when it is listed twice in the group', () => {
+    const group = aggregateGroupMetrics('Dupes', ['/products/a', '/products/a'], pages);
+
+    expect(group.sessions).toBe(1000);
+  });
+});
+
+describe('attributed revenue', () => {
+  const order = (id: number, total: string, productIds: number[]): ShopifyOrder => ({
+    id,
+    total_price: total,
+    tags: '',
+    created_at: '2026-09-01T12:00:00Z',
+    cancelled_at: null,
+    financial_status: 'paid',
+    source_name: 'web',
+    line_items: productIds.map(product_id => ({ product_id, variant_id: null, title: '', variant_title: '', price: '0', quantity: 1 })),
+  });
+
+  it("counts landed orders containing the page's product at their full total", () => {
+    const landed = [order(1, '80.00', [7, 9]), order(2, '40.00', [7]), order(3, '25.00', [9])];
+
+    expect(calculateAttributedMetrics(200, landed, 7)).toEqual({
+      totalRevenue: 120,
+      revenuePerVisitor: 0.6,
+      conversionRate: 1,
+      aov: 60,
+      orderCount: 2,
+    });
+  });
+
+  it('sums attributed figures per group and recomputes the rates', () => {
+    const pages = [
+      { ...calculatePageMetrics('/products/a', 'A', 100, 300, 3), attributed: calculateAttributedMetrics(100, [order(1, '90.00', [1])], 1) },
+      { ...calculatePageMetrics('/products/b', 'B', 300, 300, 3), attributed: calculateAttributedMetrics(300, [order(2, '30.00', [2])], 2) },
+    ];
+
+    expect(aggregateGroupMetrics('Group', ['/products/a', '/products/b'], pages).attributed).toEqual({
+      totalRevenue: 120,
+      revenuePerVisitor: 0.3,
+      conversionRate: 0.5,
+      aov: 60,
+      orderCount: 2,
+    });
+  });
+
+  it('leaves attributed figures off estimated groups', () => {
+    const pages = [calculatePageMetrics('/products/a', 'A', 100, 300, 3)];
+
+    expect(aggregateGroupMetrics('Group', ['/products/a'], pages)).not.toHaveProperty('attributed');
+  });
+});
+
+describe('new vs. returning split', () => {
+  it('sums each customer type across the group and recomputes the rates', () => {
+    const pages = [
+      {
+        ...calculatePageMetrics('/products/a', 'A', 100, 300, 3),
+        customers: { new: calculateCustomerTypeMetrics(80, 100, 1), returning: calculateCustomerTypeMetrics(20, 200, 2) },
+      },
+      {
+        ...calculatePageMetrics('/products/b', 'B', 300, 300, 3),
+        customers: { new: calculateCustomerTypeMetrics(220, 60, 1), returning: calculateCustomerTypeMetrics(80, 240, 2) },
+      },
+    ];
+
+    expect(aggregateGroupMetrics('Group', ['/products/a', '/products/b'], pages).customers).toEqual({
+      new: { sessions: 300, totalRevenue: 160, revenuePerVisitor: 0.53, conversionRate: 0.67, aov: 80, orderCount: 2 },
+      returning: { sessions: 100, totalRevenue: 440, revenuePerVisitor: 4.4, conversionRate: 4, aov: 110, orderCount: 4 },
+    });
+  });
+
+  it('leaves the split off groups whose pages were not split', () => {
+    const pages = [calculatePageMetrics('/products/a', 'A', 100, 300, 3)];
+
+    expect(aggregateGroupMetrics('Group', ['/products/a'], pages)).not.toHaveProperty('customers');
+  });
+});
+
+describe('groupPageBreakdown', () => {
+  const pages = [
+    calculatePageMetrics('/products/a', 'A', 1000, 1000, 10), // $1.00 / visitor
+    calculatePageMetrics('/products/b', 'B', 100, 500, 5), // $5.00 / visitor
+    calculatePageMetrics('/products/c', 'C', 50, 0, 0), // sold nothing, but little traffic
+    calculatePageMetrics('/products/d', 'D', 400, 800, 8),
+  ];
+
+  it("gives each page's share of the group's sessions and revenue", () => {
+    const group = aggregateGroupMetrics('Group A', ['/products/a', '/products/b'], pages);
+    const rows = groupPageBreakdown(group, pages);
+
+    expect(rows.map(r => [r.url, r.sessionShare, r.revenueShare])).toEqual([
+      ['/products/a', 90.91, 66.67],
+      ['/products/b', 9.09, 33.33],
+    ]);
+  });
+
+  it('flags the page that costs the group the most revenue', () => {
+    const group = aggregateGroupMetrics('Group A', ['/products/a', '/products/b', '/products/c'], pages);
+    const rows = groupPageBreakdown(group, pages);
+
+    // Group rate is 1500 / 1150 = $1.30; A falls $304 short, C only $65
+    expect(rows.filter(r => r.weakest).map(r => r.url)).toEqual(['/products/a']);
+    expect(rows.find(r => r.url === '/products/c')!.revenueShortfall).toBe(65.22);
+    expect(rows.find(r => r.url === '/products/b')!.revenueShortfall).toBe(0);
+  });
+
+  it('flags nothing in a single-page group', () => {
+    const group = aggregateGroupMetrics('Solo', ['/products/a'], pages);
+
+    expect(groupPageBreakdown(group, pages).some(r => r.weakest)).toBe(false);
+  });
+
+  it("only includes the group's own store's pages", () => {
+    const us = 'puplabsco.myshopify.com';
+    const storePages = [
+      { ...pages[0], shop: us },
+      { ...pages[0], shop: 'puplabs-ca.myshopify.com' },
+    ];
+    const group = aggregateGroupMetrics('US', ['/products/a'], storePages, us);
+
+    expect(groupPageBreakdown(group, storePages).map(r => [r.shop, r.sessionShare])).toEqual([[us, 100]]);
+  });
+});
+
+describe('comparisons across linked stores', () => {
+  const us = 'puplabsco.myshopify.com';
+  const ca = 'puplabs-ca.myshopify.com';
+  const pages = [
+    { ...calculatePageMetrics('/products/a', 'A', 1000, 1000, 10), shop: us },
+    { ...calculatePageMetrics('/products/a', 'A', 300, 900, 6), shop: ca },
+  ];
+
+  it('keeps the same handle on two stores apart', () => {
+    expect(aggregateGroupMetrics('US', ['/products/a'], pages, us)).toMatchObject({ shop: us, sessions: 1000 });
+    expect(aggregateGroupMetrics('CA', ['/products/a'], pages, ca)).toMatchObject({ shop: ca, sessions: 300 });
+  });
+
+  it('turns each group into one per store with the same pages', () => {
+    const groups = expandGroupsAcrossStores([{ name: 'Chews', urls: ['/products/a'], color: 'indigo' }], [us, ca]);
+
+    expect(groups.map(g => [g.name, g.shop, g.urls])).toEqual([
+      ['Chews (puplabsco)', us, ['/products/a']],
+      ['Chews (puplabs-ca)', ca, ['/products/a']],
+    ]);
+    expect(groups[0].color).not.toBe(groups[1].color);
+  });
+
+  it('requests pages on the current store at the top level and the rest per store', () => {
+    const split = splitUrlsByStore([
+      { name: 'Current', urls: ['/products/a'] },
+      { name: 'US', urls: ['/products/b'], shop: us },
+      { name: 'CA', urls: ['/products/a'], exactUrls: ['/products/a'], shop: ca },
+    ], us);
+
+    expect(split).toEqual({
+      urls: ['/products/a', '/products/b'],
+      exactUrls: [],
+      stores: [{ shop: ca, urls: ['/products/a'], exactUrls: ['/products/a'] }],
+    });
+  });
+});
+
+describe('getProductOrderData', () => {
+  const line = (product_id: number, variant_id: number | null, price: string, quantity = 1) => ({
+    product_id,
+    variant_id,
+    title: '',
+    variant_title: '',
+    price,
+    quantity,
+  });
+  const order = (id: number, total: string, line_items: ShopifyOrder['line_items']): ShopifyOrder => ({
+    id,
+    total_price: total,
+    tags: '',
+    created_at: '2026-09-01T12:00:00Z',
+    cancelled_at: null,
+    financial_status: 'paid',
+    source_name: 'web',
+    line_items,
+  });
+  // Product 7 in two variants, accessory 8, unrelated product 9
+  const orders = [
+    order(1, '100.00', [line(7, 71, '30.00', 2), line(8, 81, '15.00'), line(9, 91, '25.00')]),
+    order(2, '50.00', [line(7, 72, '40.00'), line(9, 91, '10.00')]),
+    order(3, '20.00', [line(9, 91, '20.00')]),
+  ];
+
+  it('counts the full cart by default', () => {
+    const { matchingOrders, totalRevenue } = getProductOrderData(orders, 7);
+
+    expect(matchingOrders.map(o => o.id)).toEqual([1, 2]);
+    expect(totalRevenue).toBe(150);
+  });
+
+  it("counts only the product's own line items", () => {
+    expect(getProductOrderData(orders, 7, { basis: 'product' }).totalRevenue).toBe(100);
+  });
+
+  it('narrows the product basis to a variant but keeps the cart whole', () => {
+    const variant = getProductOrderData(orders, 7, { basis: 'product', variantId: 72 });
+    expect(variant.matchingOrders.map(o => o.id)).toEqual([2]);
+    expect(variant.totalRevenue).toBe(40);
+
+    expect(getProductOrderData(orders, 7, { variantId: 72 }).totalRevenue).toBe(150);
+  });
+
+  it('adds accessory lines from orders containing the product', () => {
+    const result = getProductOrderData(orders, 7, { basis: 'product_with_accessories', accessoryIds: [8, 9] });
+
+    expect(result.totalRevenue).toBe(100 + 15 + 25 + 10);
+  });
+});
@@ -1,40 +1,112 @@
-import { ShopifyOrder, PageMetrics, GroupMetrics, ShopifyLineItem } from '@/types';
+import {
+  AttributedMetrics,
+  CustomerSplit,
+  CustomerType,
+  CustomerTypeMetrics,
+  ShopifyOrder,
+  PageMetrics,
+  GroupMetrics,
+  ShopifyLineItem,
+  PageBreakdown,
+  PageTrend,
+  RevenueBasis,
+  GroupTrend,
+  GroupTrendPoint,
+} from '@/types';
 
-// Find all orders that contain a specific product and calculate total order revenue
-// Revenue uses the FULL order total (not just the product line item) so AOV
-// reflects the real average cart value for customers who bought this product.
+export const REVENUE_BASES: RevenueBasis[] = ['cart', 'product', 'product_with_accessories'];
+
+export const REVENUE_BASIS_LABELS: Record<RevenueBasis, string> = {
+  cart: 'Full cart',
+  product: 'Product line items',
+  product_with_accessories: 'Product + accessories',
+};
+
+export const CUSTOMER_TYPES: { id: CustomerType; label: string }[] = [
+  { id: 'new', label: 'New customers' },
+  { id: 'returning', label: 'Returning customers' },
+];
+
+export interface OrderRevenueOptions {
+  basis?: RevenueBasis;
+  variantId?: number | null; // product bases only: count just this variant's line items
+  accessoryIds?: number[]; // the product's complementary products, for product_with_accessories
+}
+
+const lineRevenue = (item: ShopifyLineItem) => parseFloat(item.price || '0') * item.quantity;
+
+// Find all orders that contain a specific product and calculate their revenue.
+// By default revenue uses the FULL order total (not just the product line item)
+// so AOV reflects the real average cart value for customers who bought this
+// product. The product bases count only the product's own line items (and
+// its accessories'), for merchandising decisions about the product itself.
 export function getProductOrderData(
   orders: ShopifyOrder[],
-  productId: number
+  productId: number,
+  { basis = 'cart', variantId = null, accessoryIds = [] }: OrderRevenueOptions = {}
 ): { matchingOrders: ShopifyOrder[]; totalRevenue: number } {
   let totalRevenue = 0;
   const matchingOrders: ShopifyOrder[] = [];
+  // A variant only narrows the product bases; a cart is a cart
+  const isProductLine = (item: ShopifyLineItem) =>
+    item.product_id === productId && (basis === 'cart' || !variantId || item.variant_id === variantId);
 
   for (const order of orders) {
     if (!order.line_items) continue;
 
     // Check if any line item matches this product
-    const hasProduct = order.line_items.some(
-      (item: ShopifyLineItem) => item.product_id === productId
-    );
+    const hasProduct = order.line_items.some(isProductLine);
+    if (!hasProduct) continue;
 
-    if (hasProduct) {
-      matchingOrders.push(order);
+    matchingOrders.push(order);
+    if (basis === 'cart') {
       // Use the FULL order total — this is what matters for AOV
       totalRevenue += parseFloat(order.total_price || '0');
+    } else {
+      totalRevenue += order.line_items
+        .filter(item => isProductLine(item) ||
+          (basis === 'product_with_accessories' && accessoryIds.includes(item.product_id)))
+        .reduce((sum, item) => sum + lineRevenue(item), 0);
     }
   }
 
   return { matchingOrders, totalRevenue };
 }
 
-// Aggregate metrics across multiple pages into a single group
+// Attributed figures for a page from the orders whose journey landed on it.
+// Orders count when they contain the page's product, at the chosen basis.
+export function calculateAttributedMetrics(
+  sessions: number,
+  landedOrders: ShopifyOrder[],
+  productId: number,
+  options: OrderRevenueOptions = {}
+): AttributedMetrics {
+  const { matchingOrders, totalRevenue } = getProductOrderData(landedOrders, productId, options);
+  return attributedMetrics(sessions, totalRevenue, matchingOrders.length);
+}
+
+// One customer type's figures for a page, on the same sessions × CVR × AOV model as the page
+export function calculateCustomerTypeMetrics(sessions: number, totalRevenue: number, orderCount: number): CustomerTypeMetrics {
+  const { revenuePerVisitor, conversionRate, aov, totalRevenue: rounded } =
+    calculatePageMetrics('', '', sessions, totalRevenue, orderCount);
+  return { sessions, totalRevenue: rounded, revenuePerVisitor, conversionRate, aov, orderCount };
+}
+
+function attributedMetrics(sessions: number, totalRevenue: number, orderCount: number): AttributedMetrics {
+  const { revenuePerVisitor, conversionRate, aov, totalRevenue: rounded } =
+    calculatePageMetrics('', '', sessions, totalRevenue, orderCount);
+  return { totalRevenue: rounded, revenuePerVisitor, conversionRate, aov, orderCount };
+}
+
+// Aggregate metrics across multiple pages into a single group. With `shop`,
+// only that store's pages count, so the same handle on two stores stays apart.
 export function aggregateGroupMetrics(
   name: string,
   urls: string[],
-  pageMetrics: PageMetrics[]
+  pageMetrics: PageMetrics[],
+  shop?: string
 ): GroupMetrics {
-  const matching = pageMetrics.filter(p => urls.includes(p.url));
+  const matching = pageMetrics.filter(p => urls.includes(p.url) && (!shop || p.shop === shop));
 
   const sessions = matching.reduce((sum, p) => sum + p.sessions, 0);
   const totalRevenue = matching.reduce((sum, p) => sum + p.totalRevenue, 0);
@@ -44,6 +116,25 @@ export function aggregateGroupMetrics(
   const conversionRate = sessions > 0 ? (orderCount / sessions) * 100 : 0;
   const aov = orderCount > 0 ? totalRevenue / orderCount : 0;
 
+  // Attributed figures are summed the same way, over the pages that have them
+  const attributedPages = matching.filter(p => p.attributed);
+  const attributed = attributedPages.length > 0 && attributedMetrics(
+    sessions,
+    attributedPages.reduce((sum, p) => sum + p.attributed!.totalRevenue, 0),
+    attributedPages.reduce((sum, p) => sum + p.attributed!.orderCount, 0)
+  );
+
+  // So are the new/returning figures, per customer type
+  const splitPages = matching.filter(p => p.customers);
+  const customers = splitPages.length > 0 && Object.fromEntries(CUSTOMER_TYPES.map(({ id }) => [
+    id,
+    calculateCustomerTypeMetrics(
+      splitPages.reduce((sum, p) => sum + p.customers![id].sessions, 0),
+      splitPages.reduce((sum, p) => sum + p.customers![id].totalRevenue, 0),
+      splitPages.reduce((sum, p) => sum + p.customers![id].orderCount, 0)
+    ),
+  ])) as CustomerSplit;
+
   return {
     name,
     urls,
@@ -53,18 +144,85 @@ export function aggregateGroupMetrics(
     conversionRate: Math.round(conversionRate * 100) / 100,
     aov: Math.round(aov * 100) / 100,
     orderCount,
+    ...(shop && { shop }),
+    ...(attributed && { attributed }),
+    ...(customers && { customers }),
   };
 }
 
+// A group's member pages with their share of the group's sessions and revenue.
+// The weakest page is the one whose visitors fell furthest short of the group's
+// revenue / visitor in total, so a busy underperformer outranks a quiet page
+// that happened to sell nothing.
+export function groupPageBreakdown(group: GroupMetrics, pageMetrics: PageMetrics[]): PageBreakdown[] {
+  const matching = pageMetrics.filter(p => group.urls.includes(p.url) && (!group.shop || p.shop === group.shop));
+  const sessions = matching.reduce((sum, p) => sum + p.sessions, 0);
+  const revenue = matching.reduce((sum, p) => sum + p.totalRevenue, 0);
+  const rate = sessions > 0 ? revenue / sessions : 0;
+
+  const rows = matching.map(page => ({
+    ...page,
+    sessionShare: sessions > 0 ? Math.round((page.sessions / sessions) * 10000) / 100 : 0,
+    revenueShare: revenue > 0 ? Math.round((page.totalRevenue / revenue) * 10000) / 100 : 0,
+    revenueShortfall: Math.round(Math.max(0, page.sessions * rate - page.totalRevenue) * 100) / 100,
+    weakest: false,
+  }));
+
+  if (rows.length > 1) {
+    const weakest = rows.reduce((worst, row) => (row.revenueShortfall > worst.revenueShortfall ? row : worst));
+    if (weakest.revenueShortfall > 0) weakest.weakest = true;
+  }
+
+  return rows;
+}
+
+// Sum page trends into one series per group; rates are recomputed from the
+// summed counts (not averaged) so busy pages weigh more, as in aggregateGroupMetrics
+export function aggregateGroupTrend(
+  name: string,
+  urls: string[],
+  pageTrends: PageTrend[],
+  color?: string
+): GroupTrend {
+  const buckets = new Map<string, { sessions: number; orderCount: number; totalRevenue: number }>();
+
+  for (const page of pageTrends) {
+    if (!urls.includes(page.url)) continue;
+
+    for (const point of page.points) {
+      const bucket = buckets.get(point.date) || { sessions: 0, orderCount: 0, totalRevenue: 0 };
+      bucket.sessions += point.sessions;
+      bucket.orderCount += point.orderCount;
+      bucket.totalRevenue += point.totalRevenue;
+      buckets.set(point.date, bucket);
+    }
+  }
+
+  const points: GroupTrendPoint[] = [...buckets.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, { sessions, orderCount, totalRevenue }]) => ({
+      date,
+      sessions,
+      orderCount,
+      totalRevenue: Math.round(totalRevenue * 100) / 100,
+      conversionRate: sessions > 0 ? Math.round((orderCount / sessions) * 10000) / 100 : 0,
+      revenuePerVisitor: sessions > 0 ? Math.round((totalRevenue / sessions) * 100) / 100 : 0,
+    }));
+
+  return { name, color, points };
+}
+
 // Calculate metrics for a single product page
-// totalRevenue = sum of full order totals (not just line item revenue)
+// totalRevenue = sum of full order totals (not just line item revenue), or of
+// the product's line items when `revenueBasis` says so
 // AOV = totalRevenue / orderCount = average cart value for these orders
 export function calculatePageMetrics(
   url: string,
   productTitle: string,
   sessions: number,
   totalRevenue: number,
-  orderCount: number
+  orderCount: number,
+  revenueBasis?: RevenueBasis
 ): PageMetrics {
   const revenuePerVisitor = sessions > 0 ? totalRevenue / sessions : 0;
   const conversionRate = sessions > 0 ? (orderCount / sessions) * 100 : 0;
@@ -79,5 +237,6 @@ export function calculatePageMetrics(
     conversionRate: Math.round(conversionRate * 100) / 100,
     aov: Math.round(aov * 100) / 100,
     orderCount,
+    ...(revenueBasis && { revenueBasis }),
   };
 }
@@ -0,0 +1,66 @@
+import { format, subDays, subYears, startOfMonth, endOfMonth, subMonths, parseISO, differenceInCalendarDays } from 'date-fns';
+import { CompareMode, DateRange } from '@/types';
+
+export interface DatePreset {
+  id: string;
+  label: string;
+  getValue: (today?: Date) => DateRange;
+}
+
+// `today` defaults to the local date; scheduled reports pass the shop's date instead
+export const DATE_PRESETS: DatePreset[] = [
+  { id: 'last_7_days', label: 'Last 7 days', getValue: (today = new Date()) => ({ start: format(subDays(today, 7), 'yyyy-MM-dd'), end: format(today, 'yyyy-MM-dd') }) },
+  { id: 'last_30_days', label: 'Last 30 days', getValue: (today = new Date()) => ({ start: format(subDays(today, 30), 'yyyy-MM-dd'), end: format(today, 'yyyy-MM-dd') }) },
+  { id: 'last_90_days', label: 'Last 90 days', getValue: (today = new Date()) => ({ start: format(subDays(today, 90), 'yyyy-MM-dd'), end: format(today, 'yyyy-MM-dd') }) },
+  { id: 'this_month', label: 'This month', getValue: (today = new Date()) => ({ start: format(startOfMonth(today), 'yyyy-MM-dd'), end: format(today, 'yyyy-MM-dd') }) },
+  { id: 'last_month', label: 'Last month', getValue: (today = new Date()) => ({ start: format(startOfMonth(subMonths(today, 1)), 'yyyy-MM-dd'), end: format(endOfMonth(subMonths(today, 1)), 'yyyy-MM-dd') }) },
+];
+
+export const DEFAULT_DATE_PRESET = 'last_30_days';
+
+export function isDatePresetId(id: unknown): id is string {
+  return typeof id === 'string' && DATE_PRESETS.some(p => p.id === id);
+}
+
+// Resolve a preset id to a concrete range, evaluated relative to today
+export function getPresetRange(id: string, today?: Date): DateRange | null {
+  const preset = DATE_PRESETS.find(p => p.id === id);
+  return preset ? preset.getValue(today) : null;
+}
+
+export const COMPARE_MODES: { id: CompareMode; label: string }[] = [
+  { id: 'none', label: 'No comparison' },
+  { id: 'previous_period', label: 'Previous period' },
+  { id: 'previous_year', label: 'Previous year' },
+  { id: 'custom', label: 'Custom' },
+];
+
+// The range to compare `range` against. Previous period is the same number of
+// days ending the day before `range` starts.
+export function getComparisonRange(
+  range: DateRange,
+  mode: CompareMode,
+  custom: DateRange | null = null
+): DateRange | null {
+  const start = parseISO(range.start);
+  const end = parseISO(range.end);
+
+  switch (mode) {
+    case 'previous_period': {
+      const days = differenceInCalendarDays(end, start) + 1;
+      return {
+        start: format(subDays(start, days), 'yyyy-MM-dd'),
+        end: format(subDays(start, 1), 'yyyy-MM-dd'),
+      };
+    }
+    case 'previous_year':
+      return {
+        start: format(subYears(start, 1), 'yyyy-MM-dd'),
+        end: format(subYears(end, 1), 'yyyy-MM-dd'),
+      };
+    case 'custom':
+      return custom?.start && custom?.end ? custom : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,54 @@
+import nodemailer, { Transporter } from 'nodemailer';
+
+// SMTP settings come from the environment. For local development point
+// SMTP_HOST/SMTP_PORT at a catch-all server such as Mailpit (localhost:1025).
+let transporter: Transporter | null = null;
+
+export function isEmailConfigured(): boolean {
+  return !!process.env.SMTP_HOST;
+}
+
+function getTransporter(): Transporter {
+  if (!process.env.SMTP_HOST) {
+    throw new Error('Email is not configured (SMTP_HOST is not set)');
+  }
+
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT || 587),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+  }
+
+  return transporter;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export async function sendEmail({
+  to,
+  subject,
+  text,
+  attachments = [],
+}: {
+  to: string[];
+  subject: string;
+  text: string;
+  attachments?: EmailAttachment[];
+}): Promise<void> {
+  await getTransporter().sendMail({
+    from: process.env.REPORT_EMAIL_FROM || 'PupLabs Analytics <reports@localhost>',
+    to,
+    subject,
+    text,
+    attachments,
+  });
+}
@@ -0,0 +1,21 @@
+import { normalizeShopDomain } from './shop-domain';
+
+// Set by src/proxy.ts on page requests loaded inside Shopify Admin, so the
+// layout knows to load App Bridge
+export const EMBEDDED_HEADER = 'x-puplabs-embedded';
+
+export const APP_BRIDGE_URL = 'https://cdn.shopify.com/shopifycloud/app-bridge.js';
+
+// Shopify Admin opens the app with ?embedded=1&host=...&shop=...
+export function isEmbeddedRequest(searchParams: URLSearchParams): boolean {
+  return searchParams.get('embedded') === '1' || searchParams.has('host');
+}
+
+// Only the shop's own admin may frame a page that knows which shop it is for;
+// anything else may be framed by Shopify Admin but no other site
+export function frameAncestors(shopParam: string | null): string {
+  const shop = normalizeShopDomain(shopParam);
+  return shop
+    ? `frame-ancestors https://${shop} https://admin.shopify.com;`
+    : 'frame-ancestors https://*.myshopify.com https://admin.shopify.com;';
+}
@@ -0,0 +1,71 @@
+import crypto from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { decryptToken, encryptToken, isEncrypted, needsReencryption } from './encryption';
+
+const oldKey = `old:${crypto.randomBytes(32).toString('base64')}`;
+const newKey = `new:${crypto.randomBytes(32).toString('base64')}`;
+let originalKeys: string | undefined;
+
+beforeEach(() => {
+  originalKeys = process.env.TOKEN_ENCRYPTION_KEYS;
+  process.env.TOKEN_ENCRYPTION_KEYS = oldKey;
+});
+
+afterEach(() => {
+  if (originalKeys === undefined) delete process.env.TOKEN_ENCRYPTION_KEYS;
+  else process.env.TOKEN_ENCRYPTION_KEYS = originalKeys;
+  vi.restoreAllMocks();
+});
+
+describe('encryptToken', () => {
+  it('round-trips without storing the token in the clear', () => {
+    const stored = encryptToken('shpat_abc123');
+
+    expect(stored).toMatch(/^enc:v1:old:/);
+    expect(stored).not.toContain('shpat_abc123');
+    expect(decryptToken(stored)).toBe('shpat_abc123');
+  });
+
+  it('uses a fresh IV every time', () => {
+    expect(encryptToken('shpat_abc123')).not.toBe(encryptToken('shpat_abc123'));
+  });
+
+  it('rejects a tampered ciphertext', () => {
+    const stored = encryptToken('shpat_abc123');
+    const tampered = stored.slice(0, -2) + (stored.endsWith('AA') ? 'BB' : 'AA');
+
+    expect(() => decryptToken(tampered)).toThrow();
+  });
+
+  it('refuses to run without keys', () => {
+    delete process.env.TOKEN_ENCRYPTION_KEYS;
+
+    expect(() => encryptToken('shpat_abc123')).toThrow('TOKEN_ENCRYPTION_KEYS is not set');
+  });
+});
+
+describe('key rotation', () => {
+  it('still decrypts tokens under an older key and flags them for re-encryption', () => {
+    const stored = encryptToken('shpat_abc123');
+    process.env.TOKEN_ENCRYPTION_KEYS = `${newKey},${oldKey}`;
+
+    expect(decryptToken(stored)).toBe('shpat_abc123');
+    expect(needsReencryption(stored)).toBe(true);
+    expect(needsReencryption(encryptToken('shpat_abc123'))).toBe(false);
+  });
+
+  it('fails loudly once the old key has been removed', () => {
+    const stored = encryptToken('shpat_abc123');
+    process.env.TOKEN_ENCRYPTION_KEYS = newKey;
+
+    expect(() => decryptToken(stored)).toThrow('No TOKEN_ENCRYPTION_KEYS entry for key "old"');
+  });
+
+  it('passes legacy plaintext rows through until they are migrated', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(isEncrypted('shpat_abc123')).toBe(false);
+    expect(decryptToken('shpat_abc123')).toBe('shpat_abc123');
+    expect(needsReencryption('shpat_abc123')).toBe(true);
+  });
+});
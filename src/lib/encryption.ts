@@ -0,0 +1,78 @@
+import crypto from 'crypto';
+
+// Shopify access tokens are stored as
+//   enc:v1:<key id>:<iv>:<auth tag>:<ciphertext>   (base64url parts)
+// encrypted with AES-256-GCM under a key from TOKEN_ENCRYPTION_KEYS:
+//   TOKEN_ENCRYPTION_KEYS=2025b:<base64 32 bytes>,2025a:<base64 32 bytes>
+// The first key encrypts; every key decrypts. To rotate, put a new key first,
+// run `npm run db:reencrypt-tokens`, then drop the old key.
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+
+interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+function loadKeys(): EncryptionKey[] {
+  const raw = process.env.TOKEN_ENCRYPTION_KEYS;
+  if (!raw) throw new Error('TOKEN_ENCRYPTION_KEYS is not set');
+
+  return raw.split(',').map(entry => {
+    const [id, encoded] = entry.trim().split(':');
+    const key = Buffer.from(encoded || '', 'base64');
+    if (!id || key.length !== 32) {
+      throw new Error(`TOKEN_ENCRYPTION_KEYS entry "${id}" must be <id>:<base64 of 32 bytes>`);
+    }
+    return { id, key };
+  });
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+export function encryptToken(plaintext: string): string {
+  const [current] = loadKeys();
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, current.key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return PREFIX + [current.id, iv, cipher.getAuthTag(), ciphertext]
+    .map(part => (typeof part === 'string' ? part : part.toString('base64url')))
+    .join(':');
+}
+
+// Rows written before tokens were encrypted are returned as they are until
+// the re-encryption script has run over them
+export function decryptToken(stored: string): string {
+  if (!isEncrypted(stored)) {
+    console.warn('[Encryption] Read a plaintext access token; run `npm run db:reencrypt-tokens`');
+    return stored;
+  }
+
+  const [keyId, iv, tag, ciphertext] = stored.slice(PREFIX.length).split(':');
+  const entry = loadKeys().find(k => k.id === keyId);
+  if (!entry) throw new Error(`No TOKEN_ENCRYPTION_KEYS entry for key "${keyId}"`);
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, entry.key, Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+}
+
+// Constant-time string comparison for signatures and nonces. Unlike
+// crypto.timingSafeEqual it returns false for different lengths instead of
+// throwing.
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+// True for plaintext rows and rows under a key other than the current one
+export function needsReencryption(stored: string): boolean {
+  if (!isEncrypted(stored)) return true;
+  return stored.slice(PREFIX.length).split(':')[0] !== loadKeys()[0].id;
+}
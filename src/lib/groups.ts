@@ -0,0 +1,102 @@
+import { storeLabel } from './shop-domain';
+import { StoreUrls, UrlGroup } from '@/types';
+
+export const MAX_GROUPS = 8;
+
+export interface GroupColor {
+  id: string;
+  // Tailwind classes are spelled out in full so the compiler can see them
+  card: string;
+  title: string;
+  muted: string;
+  swatch: string;
+  rgb: [number, number, number]; // for the PDF
+}
+
+export const GROUP_COLORS: GroupColor[] = [
+  { id: 'indigo', card: 'border-indigo-200 bg-indigo-50/30', title: 'text-indigo-700', muted: 'text-indigo-400', swatch: 'bg-indigo-500', rgb: [99, 102, 241] },
+  { id: 'amber', card: 'border-amber-200 bg-amber-50/30', title: 'text-amber-700', muted: 'text-amber-400', swatch: 'bg-amber-500', rgb: [245, 158, 11] },
+  { id: 'emerald', card: 'border-emerald-200 bg-emerald-50/30', title: 'text-emerald-700', muted: 'text-emerald-400', swatch: 'bg-emerald-500', rgb: [16, 185, 129] },
+  { id: 'rose', card: 'border-rose-200 bg-rose-50/30', title: 'text-rose-700', muted: 'text-rose-400', swatch: 'bg-rose-500', rgb: [244, 63, 94] },
+  { id: 'sky', card: 'border-sky-200 bg-sky-50/30', title: 'text-sky-700', muted: 'text-sky-400', swatch: 'bg-sky-500', rgb: [14, 165, 233] },
+  { id: 'violet', card: 'border-violet-200 bg-violet-50/30', title: 'text-violet-700', muted: 'text-violet-400', swatch: 'bg-violet-500', rgb: [139, 92, 246] },
+  { id: 'orange', card: 'border-orange-200 bg-orange-50/30', title: 'text-orange-700', muted: 'text-orange-400', swatch: 'bg-orange-500', rgb: [249, 115, 22] },
+  { id: 'teal', card: 'border-teal-200 bg-teal-50/30', title: 'text-teal-700', muted: 'text-teal-400', swatch: 'bg-teal-500', rgb: [20, 184, 166] },
+];
+
+export function getGroupColor(id: string | undefined, fallbackIndex = 0): GroupColor {
+  return (
+    GROUP_COLORS.find(c => c.id === id) ||
+    GROUP_COLORS[fallbackIndex % GROUP_COLORS.length]
+  );
+}
+
+// New groups are labelled A, B, C... and take the first colour not already in use
+export function createGroup(existing: UrlGroup[]): UrlGroup {
+  const used = new Set(existing.map(g => g.color));
+  const color = GROUP_COLORS.find(c => !used.has(c.id)) || GROUP_COLORS[existing.length % GROUP_COLORS.length];
+
+  return {
+    name: `Group ${String.fromCharCode(65 + existing.length)}`,
+    urls: [],
+    color: color.id,
+  };
+}
+
+export function createDefaultGroups(): UrlGroup[] {
+  const first = createGroup([]);
+  return [first, createGroup([first])];
+}
+
+// A page is matched exactly if any group asks for it, since groups share page data
+export function collectExactUrls(groups: UrlGroup[]): string[] {
+  return [...new Set(groups.flatMap(g => (g.exactUrls || []).filter(url => g.urls.includes(url))))];
+}
+
+// The store a group's pages are on; groups without one use the current store
+export function groupStore(group: UrlGroup, currentShop: string | null | undefined): string | undefined {
+  return group.shop || currentShop || undefined;
+}
+
+// Request urls for a comparison that may span linked stores: pages on the
+// current store at the top level, the rest per store
+export function splitUrlsByStore(
+  groups: UrlGroup[],
+  currentShop: string | null | undefined
+): { urls: string[]; exactUrls: string[]; stores: StoreUrls[] } {
+  const current = groups.filter(g => !g.shop || g.shop === currentShop);
+  const others = new Map<string, UrlGroup[]>();
+  for (const group of groups) {
+    if (current.includes(group)) continue;
+    others.set(group.shop!, [...(others.get(group.shop!) || []), group]);
+  }
+
+  return {
+    urls: [...new Set(current.flatMap(g => g.urls))],
+    exactUrls: collectExactUrls(current),
+    stores: [...others].map(([shop, storeGroups]) => ({
+      shop,
+      urls: [...new Set(storeGroups.flatMap(g => g.urls))],
+      exactUrls: collectExactUrls(storeGroups),
+    })),
+  };
+}
+
+// One copy of each group per store, with the same pages: a product handle on
+// the US and CA stores becomes two groups, so each keeps its own currency.
+// Stops at MAX_GROUPS.
+export function expandGroupsAcrossStores(groups: UrlGroup[], shops: string[]): UrlGroup[] {
+  const expanded: UrlGroup[] = [];
+  for (const group of groups) {
+    for (const shop of shops) {
+      if (expanded.length >= MAX_GROUPS) return expanded;
+      expanded.push({
+        ...group,
+        name: `${group.name} (${storeLabel(shop)})`,
+        shop,
+        color: createGroup(expanded).color,
+      });
+    }
+  }
+  return expanded;
+}
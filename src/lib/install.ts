@@ -0,0 +1,35 @@
+import { prisma } from './prisma';
+import { encryptToken } from './encryption';
+import { fetchShopSettings, registerWebhooks, ShopifyAccessToken } from './shopify';
+
+// Store a shop's offline token (encrypted) with its timezone and money settings
+// and subscribe to webhooks. Shared by the OAuth callback and embedded token exchange.
+export async function installShop(shop: string, token: ShopifyAccessToken) {
+  const settings = await fetchShopSettings(shop, token.access_token);
+  const accessToken = encryptToken(token.access_token);
+
+  const shopRecord = await prisma.shop.upsert({
+    where: { domain: shop },
+    update: {
+      accessToken,
+      scope: token.scope,
+      ...settings,
+    },
+    create: {
+      domain: shop,
+      accessToken,
+      scope: token.scope,
+      ...settings,
+    },
+  });
+
+  // Product changes keep the stored handle map in sync and app/uninstalled
+  // clears the shop out; signing in still works without them
+  try {
+    await registerWebhooks(shop, token.access_token);
+  } catch (error) {
+    console.error(`[Auth] Failed to register webhooks for ${shop}:`, error);
+  }
+
+  return shopRecord;
+}
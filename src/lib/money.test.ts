@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { formatMoney, moneyDigits, spreadsheetMoneyFormat } from './money';
+
+const usd = { currency: 'USD', moneyFormat: '${{amount}}', locale: 'en' };
+const gbp = { currency: 'GBP', moneyFormat: '£{{amount}}', locale: 'en-GB' };
+const eur = { currency: 'EUR', moneyFormat: '{{amount_with_comma_separator}} €', locale: 'de' };
+const jpy = { currency: 'JPY', moneyFormat: '¥{{amount_no_decimals}}', locale: 'ja' };
+
+describe('formatMoney', () => {
+  it("uses the store's own money format", () => {
+    expect(formatMoney(1234.5, usd)).toBe('$1,234.50');
+    expect(formatMoney(1234.5, gbp)).toBe('£1,234.50');
+    expect(formatMoney(1234.5, eur)).toBe('1.234,50 €');
+  });
+
+  it('shows no minor units for currencies formatted without decimals', () => {
+    expect(formatMoney(123456.7, jpy)).toBe('¥123,457');
+    expect(moneyDigits(jpy)).toBe(0);
+  });
+
+  it('strips HTML that merchants wrap their format in', () => {
+    expect(formatMoney(5, { currency: 'CAD', moneyFormat: '<span class=money>${{ amount }} CAD</span>' })).toBe('$5.00 CAD');
+  });
+
+  it('falls back to Intl for the currency when there is no usable format', () => {
+    expect(formatMoney(1234.5, { currency: 'GBP', locale: 'en-GB' })).toBe('£1,234.50');
+    expect(formatMoney(1234.5, { currency: 'JPY', moneyFormat: '{{unknown}}', locale: 'en' })).toBe('¥1,235');
+  });
+
+  it('puts the minus sign in front of the symbol', () => {
+    expect(formatMoney(-12, gbp)).toBe('-£12.00');
+  });
+
+  it('formats as USD when no settings are given', () => {
+    expect(formatMoney(3)).toBe('$3.00');
+  });
+});
+
+describe('spreadsheetMoneyFormat', () => {
+  it('quotes the symbol and matches the decimal places', () => {
+    expect(spreadsheetMoneyFormat(gbp)).toBe('"£"#,##0.00');
+    expect(spreadsheetMoneyFormat(eur)).toBe('#,##0.00" €"');
+    expect(spreadsheetMoneyFormat(jpy)).toBe('"¥"#,##0');
+  });
+});
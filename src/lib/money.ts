@@ -0,0 +1,116 @@
+// Money formatting shared by the dashboard, the PDF, spreadsheets and logs.
+// Stores are formatted with their own Shopify money format (`${{amount}}`,
+// `£{{amount}}`, `{{amount_with_comma_separator}} €`, `¥{{amount_no_decimals}}`),
+// falling back to Intl for the currency when a store has none.
+
+import { MoneySettings } from '@/types';
+
+export const DEFAULT_MONEY: MoneySettings = { currency: 'USD', moneyFormat: '${{amount}}', locale: 'en' };
+
+// The money settings stored on a Shop row
+export function shopMoney(shop: { currency: string; moneyFormat: string; locale: string }): MoneySettings {
+  return { currency: shop.currency, moneyFormat: shop.moneyFormat, locale: shop.locale };
+}
+
+// ============================================================
+// SHOPIFY MONEY FORMAT
+// ============================================================
+
+interface AmountStyle {
+  digits: number;
+  thousands: string;
+  decimal: string;
+}
+
+// https://help.shopify.com/en/manual/international/pricing/currency-formatting
+const AMOUNT_STYLES: Record<string, AmountStyle> = {
+  amount: { digits: 2, thousands: ',', decimal: '.' },
+  amount_no_decimals: { digits: 0, thousands: ',', decimal: '.' },
+  amount_with_comma_separator: { digits: 2, thousands: '.', decimal: ',' },
+  amount_no_decimals_with_comma_separator: { digits: 0, thousands: '.', decimal: ',' },
+  amount_with_apostrophe_separator: { digits: 2, thousands: "'", decimal: '.' },
+  amount_no_decimals_with_space_separator: { digits: 0, thousands: ' ', decimal: '.' },
+  amount_with_space_separator: { digits: 2, thousands: ' ', decimal: ',' },
+  amount_with_period_and_space_separator: { digits: 2, thousands: ' ', decimal: '.' },
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/;
+
+// Literal text around the amount placeholder, with any HTML the merchant
+// wrapped it in removed, or null when the format isn't one we understand
+function parseMoneyFormat(moneyFormat: string | null | undefined): {
+  prefix: string;
+  suffix: string;
+  style: AmountStyle;
+} | null {
+  if (!moneyFormat) return null;
+
+  const text = moneyFormat.replace(/<[^>]*>/g, '');
+  const match = text.match(PLACEHOLDER);
+  const style = match && AMOUNT_STYLES[match[1]];
+  if (!match || !style) return null;
+
+  return {
+    prefix: text.slice(0, match.index),
+    suffix: text.slice(match.index! + match[0].length),
+    style,
+  };
+}
+
+function formatAmount(amount: number, { digits, thousands, decimal }: AmountStyle): string {
+  const [whole, fraction] = amount.toFixed(digits).split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, thousands);
+  return fraction ? `${grouped}${decimal}${fraction}` : grouped;
+}
+
+function intlFormat(money: MoneySettings): Intl.NumberFormat {
+  try {
+    return new Intl.NumberFormat(money.locale || undefined, { style: 'currency', currency: money.currency });
+  } catch {
+    // Unknown locale tag or currency code
+    return new Intl.NumberFormat('en', { style: 'currency', currency: 'USD' });
+  }
+}
+
+// ============================================================
+// FORMATTING
+// ============================================================
+
+// An amount in the store's currency. Negative amounts get a leading minus
+// whatever the format, so signed changes read the same across stores.
+export function formatMoney(amount: number, money: MoneySettings = DEFAULT_MONEY): string {
+  const sign = amount < 0 ? '-' : '';
+  const abs = Math.abs(amount);
+
+  const parsed = parseMoneyFormat(money.moneyFormat);
+  if (parsed) return `${sign}${parsed.prefix}${formatAmount(abs, parsed.style)}${parsed.suffix}`;
+
+  return `${sign}${intlFormat(money).format(abs)}`;
+}
+
+// Decimal places the store shows (0 for formats like `¥{{amount_no_decimals}}`)
+export function moneyDigits(money: MoneySettings = DEFAULT_MONEY): number {
+  const parsed = parseMoneyFormat(money.moneyFormat);
+  return parsed ? parsed.style.digits : intlFormat(money).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+// Excel number format showing the store's symbol and decimal places. The
+// separators follow the spreadsheet's own locale.
+export function spreadsheetMoneyFormat(money: MoneySettings = DEFAULT_MONEY): string {
+  const parsed = parseMoneyFormat(money.moneyFormat);
+  let prefix = parsed?.prefix ?? '';
+  let suffix = parsed?.suffix ?? '';
+
+  if (!parsed) {
+    const parts = intlFormat(money).formatToParts(1);
+    const integerAt = parts.findIndex(p => p.type === 'integer');
+    const lastNumberAt = parts.findLastIndex(p => p.type === 'integer' || p.type === 'fraction');
+    prefix = parts.slice(0, integerAt).map(p => p.value).join('');
+    suffix = parts.slice(lastNumberAt + 1).map(p => p.value).join('');
+  }
+
+  const digits = moneyDigits(money);
+  const number = digits > 0 ? `#,##0.${'0'.repeat(digits)}` : '#,##0';
+  const quote = (text: string) => (text ? `"${text.replace(/"/g, '')}"` : '');
+  return `${quote(prefix)}${number}${quote(suffix)}`;
+}
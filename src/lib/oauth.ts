@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { safeEqual } from './encryption';
+
+const STATE_COOKIE = 'puplabs_oauth_state';
+const STATE_TTL_SECONDS = 10 * 60; // long enough to read Shopify's consent screen
+
+// Why an install or sign-in failed; each has a message on /auth/error
+export type AuthErrorReason =
+  | 'invalid_shop'
+  | 'missing_params'
+  | 'invalid_hmac'
+  | 'invalid_state'
+  | 'not_installed'
+  | 'token_exchange_failed'
+  | 'server_error';
+
+// A fresh nonce for the `state` param, remembered in a short-lived cookie
+// scoped to the OAuth routes
+export async function createOAuthState(): Promise<string> {
+  const state = crypto.randomBytes(16).toString('hex');
+  const cookieStore = await cookies();
+  cookieStore.set(STATE_COOKIE, state, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: STATE_TTL_SECONDS,
+    path: '/api/auth',
+  });
+  return state;
+}
+
+// Check the `state` Shopify sent back against the cookie. The nonce is used up
+// either way, so a callback URL can't be replayed.
+export async function consumeOAuthState(state: string | null): Promise<boolean> {
+  const cookieStore = await cookies();
+  const expected = cookieStore.get(STATE_COOKIE)?.value;
+  cookieStore.delete({ name: STATE_COOKIE, path: '/api/auth' });
+
+  return !!state && !!expected && safeEqual(expected, state);
+}
+
+export function appUrl(path: string): string {
+  return `${process.env.APP_URL || 'http://localhost:3000'}${path}`;
+}
+
+export function authErrorRedirect(reason: AuthErrorReason, shop?: string | null): NextResponse {
+  const params = new URLSearchParams({ reason });
+  if (shop) params.set('shop', shop);
+  return NextResponse.redirect(appUrl(`/auth/error?${params}`));
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { findBestWorst, generatePdfReport } from './pdf-generator';
+import { calculatePageMetrics } from './calculations';
+import { GroupMetrics } from '@/types';
+
+function group(name: string, overrides: Partial<GroupMetrics> = {}): GroupMetrics {
+  return {
+    name,
+    urls: [`/products/${name.toLowerCase()}`],
+    sessions: 1000,
+    totalRevenue: 2000,
+    revenuePerVisitor: 2,
+    conversionRate: 4,
+    aov: 50,
+    orderCount: 40,
+    ...overrides,
+  };
+}
+
+describe('findBestWorst', () => {
+  it('returns nothing for fewer than two groups', () => {
+    expect(findBestWorst([])).toEqual({ best: {}, worst: {} });
+    expect(findBestWorst([group('A')])).toEqual({ best: {}, worst: {} });
+  });
+
+  it('marks the highest and lowest group for each metric', () => {
+    const groups = [
+      group('A', { sessions: 500, aov: 80 }),
+      group('B', { sessions: 1500, aov: 30 }),
+      group('C', { sessions: 1000, aov: 50 }),
+    ];
+    const { best, worst } = findBestWorst(groups);
+
+    expect(best.Sessions).toBe(1);
+    expect(worst.Sessions).toBe(0);
+    expect(best.AOV).toBe(0);
+    expect(worst.AOV).toBe(1);
+  });
+
+  it('leaves out metrics where every group is equal', () => {
+    const { best, worst } = findBestWorst([group('A'), group('B')]);
+
+    expect(best).toEqual({});
+    expect(worst).toEqual({});
+  });
+
+  it('keeps the first group on a tie for best or worst', () => {
+    const groups = [
+      group('A', { conversionRate: 5 }),
+      group('B', { conversionRate: 5 }),
+      group('C', { conversionRate: 2 }),
+    ];
+    const { best, worst } = findBestWorst(groups);
+
+    expect(best['Conv. Rate']).toBe(0);
+    expect(worst['Conv. Rate']).toBe(2);
+  });
+
+  it('covers every metric row in the report', () => {
+    const groups = [
+      group('A', { sessions: 1, totalRevenue: 1, revenuePerVisitor: 1, conversionRate: 1, aov: 1, orderCount: 1 }),
+      group('B'),
+    ];
+
+    expect(Object.keys(findBestWorst(groups).best).sort()).toEqual(
+      ['AOV', 'Conv. Rate', 'Orders', 'Rev/Visitor', 'Revenue', 'Sessions']
+    );
+  });
+});
+
+describe('generatePdfReport', () => {
+  it('produces a PDF document', () => {
+    const pdf = generatePdfReport(
+      [group('A'), group('B', { conversionRate: 5, orderCount: 50 })],
+      { start: '2026-09-01', end: '2026-09-30' }
+    );
+
+    expect(Buffer.from(pdf).subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('adds a page breakdown section when pages are given', () => {
+    const dateRange = { start: '2026-09-01', end: '2026-09-30' };
+    const groups = [group('A', { urls: ['/products/a', '/products/b'] })];
+    const pages = [
+      calculatePageMetrics('/products/a', 'Chew Toy', 900, 1800, 36),
+      calculatePageMetrics('/products/b', 'Chew Toy XL', 100, 200, 4),
+    ];
+    const pageCount = (pdf: ArrayBuffer) =>
+      Buffer.from(pdf).toString('latin1').match(/\/Type \/Page\b(?!s)/g)?.length;
+
+    expect(pageCount(generatePdfReport(groups, dateRange))).toBe(1);
+    expect(pageCount(generatePdfReport(groups, dateRange, { pages }))).toBe(2);
+  });
+});
@@ -1,9 +1,56 @@
 import jsPDF from 'jspdf';
-import { GroupMetrics, DateRange } from '@/types';
+import { GroupMetrics, DateRange, MoneySettings, PageMetrics, RevenueBasis, SegmentFilters } from '@/types';
+import { CUSTOMER_TYPES, groupPageBreakdown, REVENUE_BASIS_LABELS } from './calculations';
+import { describeSegment } from './segments';
+import { getGroupColor } from './groups';
+import { formatMoney } from './money';
+import { storeLabel } from './shop-domain';
+import {
+  compareToBaseline,
+  formatPValue,
+  formatConfidenceInterval,
+  TESTED_METRICS,
+  TestedMetric,
+} from './statistics';
+
+// Column order matches `metrics` in the table header (after the Group column)
+const METRIC_FIELDS: (keyof GroupMetrics)[] = [
+  'sessions',
+  'totalRevenue',
+  'revenuePerVisitor',
+  'conversionRate',
+  'aov',
+  'orderCount',
+];
+
+// In the store's currency; only compared between groups in the same currency
+const MONEY_FIELDS: (keyof GroupMetrics)[] = ['totalRevenue', 'revenuePerVisitor', 'aov'];
+
+function comparable(baseline: GroupMetrics, group: GroupMetrics, field: keyof GroupMetrics): boolean {
+  return !MONEY_FIELDS.includes(field) || baseline.money?.currency === group.money?.currency;
+}
+
+const TESTED_METRIC_LABELS: Record<TestedMetric, {
+  label: string;
+  formatDifference: (v: number, money?: MoneySettings) => string;
+}> = {
+  conversionRate: { label: 'Conv. Rate', formatDifference: (v) => `${v.toFixed(2)}pp` },
+  revenuePerVisitor: { label: 'Rev/Visitor', formatDifference: formatMoney },
+  aov: { label: 'AOV', formatDifference: formatMoney },
+};
+
+export interface PdfReportOptions {
+  baselineIndex?: number;
+  compareDateRange?: DateRange | null; // period-over-period range, when groups carry `previous`
+  pages?: PageMetrics[]; // per-page rows for the page breakdown section
+  revenueBasis?: RevenueBasis; // what the revenue figures count; full cart when unset
+  segment?: SegmentFilters | null; // traffic the figures cover; all when unset
+}
 
 export function generatePdfReport(
   groups: GroupMetrics[],
-  dateRange: DateRange
+  dateRange: DateRange,
+  { baselineIndex = 0, compareDateRange = null, pages = [], revenueBasis = 'cart', segment = null }: PdfReportOptions = {}
 ): ArrayBuffer {
   const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
   const pageWidth = doc.internal.pageSize.getWidth();
@@ -16,8 +63,23 @@ export function generatePdfReport(
   doc.setFontSize(10);
   doc.setFont('helvetica', 'normal');
   doc.setTextColor(100, 100, 100);
-  doc.text(`Date Range: ${dateRange.start} to ${dateRange.end}`, 14, 28);
-  doc.text(`Generated: ${new Date().toLocaleString()}`, 14, 34);
+  doc.text(
+    `Date Range: ${dateRange.start} to ${dateRange.end}` +
+    (compareDateRange ? `  (compared to ${compareDateRange.start} to ${compareDateRange.end})` : ''),
+    14,
+    28
+  );
+  doc.text(
+    `Generated: ${new Date().toLocaleString()}    Revenue basis: ${REVENUE_BASIS_LABELS[revenueBasis]}` +
+    (segment ? `    Segment: ${describeSegment(segment, { orders: revenueBasis !== 'cart' })}` : ''),
+    14,
+    34
+  );
+
+  if (compareDateRange) {
+    doc.setFontSize(7);
+    doc.text('Grey figures under each value: change vs. the comparison period (% and absolute).', pageWidth - 14, 34, { align: 'right' });
+  }
 
   // Divider line
   const startY = 38;
@@ -44,28 +106,39 @@ export function generatePdfReport(
 
   // Find best/worst for highlighting
   const bestWorst = findBestWorst(groups);
+  const baseline = groups[baselineIndex] ? baselineIndex : 0;
+  const multiStore = new Set(groups.map(g => g.shop)).size > 1;
 
   // Table rows
   doc.setFont('helvetica', 'normal');
   doc.setFontSize(8);
   let y = tableStartY + 14;
+  // Rows grow a line when there is a period-over-period change to show
+  const hasPrevious = groups.some(g => g.previous);
+  const rowHeight = hasPrevious ? 17 : 14;
 
   groups.forEach((group, rowIndex) => {
     if (rowIndex % 2 === 0) {
       doc.setFillColor(250, 250, 250);
-      doc.rect(14, y - 4, pageWidth - 28, 10, 'F');
+      doc.rect(14, y - 4, pageWidth - 28, rowHeight - 4, 'F');
     }
 
     x = 14;
-    const displayName = truncateText(group.name, 40);
+    const isBaseline = groups.length > 1 && rowIndex === baseline;
+    const displayName = truncateText(group.name, isBaseline ? 29 : 40) + (isBaseline ? ' (baseline)' : '');
+
+    // Group colour swatch
+    const [r, g, b] = getGroupColor(group.color, rowIndex).rgb;
+    doc.setFillColor(r, g, b);
+    doc.circle(14.5, y + 1.2, 1, 'F');
 
     const values = [
       displayName,
       group.sessions.toLocaleString(),
-      `$${group.totalRevenue.toLocaleString(undefined, { minimumFractionDigits: 2 })}`,
-      `$${group.revenuePerVisitor.toFixed(2)}`,
+      formatMoney(group.totalRevenue, group.money),
+      formatMoney(group.revenuePerVisitor, group.money),
       `${group.conversionRate.toFixed(2)}%`,
-      `$${group.aov.toFixed(2)}`,
+      formatMoney(group.aov, group.money),
       group.orderCount.toLocaleString(),
     ];
 
@@ -80,30 +153,324 @@ export function generatePdfReport(
       }
 
       doc.text(value, x + 2, y + 2);
+
+      // Change vs. baseline below each metric
+      if (i > 0 && groups.length > 1 && rowIndex !== baseline && comparable(groups[baseline], group, METRIC_FIELDS[i - 1])) {
+        const diff = percentDiff(
+          groups[baseline][METRIC_FIELDS[i - 1]] as number,
+          group[METRIC_FIELDS[i - 1]] as number
+        );
+        if (diff !== null) {
+          doc.setFontSize(6);
+          if (diff > 0) doc.setTextColor(22, 163, 74);
+          else if (diff < 0) doc.setTextColor(220, 38, 38);
+          else doc.setTextColor(150, 150, 150);
+          doc.text(`${diff > 0 ? '+' : ''}${diff.toFixed(1)}% vs. base`, x + 2, y + 6);
+          doc.setFontSize(8);
+        }
+      }
+
+      // Change vs. the comparison period
+      if (i > 0 && group.previous) {
+        const field = METRIC_FIELDS[i - 1];
+        const current = group[field] as number;
+        const previous = group.previous[field] as number;
+        const diff = percentDiff(previous, current);
+
+        doc.setFontSize(6);
+        doc.setTextColor(120, 120, 120);
+        doc.text(
+          `${diff === null ? '--' : `${diff > 0 ? '+' : ''}${diff.toFixed(1)}%`} (${formatAbsoluteChange(field, current - previous, group.money)})`,
+          x + 2,
+          y + 9
+        );
+        doc.setFontSize(8);
+      }
       x += colWidths[i];
     });
 
     // Add URLs below group name
     doc.setFontSize(6);
     doc.setTextColor(150, 150, 150);
-    const urlList = group.urls.map(u => truncateText(u, 60)).join(', ');
-    doc.text(truncateText(urlList, 120), 16, y + 6);
+    const store = multiStore && group.shop ? `${storeLabel(group.shop)} (${group.money?.currency}): ` : '';
+    const urlList = store + group.urls.map(u => truncateText(u, 60)).join(', ');
+    doc.text(truncateText(urlList, 60), 16, y + 6);
     doc.setFontSize(8);
 
-    y += 14;
+    y += rowHeight;
+  });
+
+  // Significance vs. baseline
+  if (groups.length > 1) {
+    const pageHeight = doc.internal.pageSize.getHeight();
+    y += 4;
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(60, 60, 60);
+    doc.text(`Statistical significance vs. ${truncateText(groups[baseline].name, 40)}`, 14, y);
+    doc.setFont('helvetica', 'normal');
+    y += 6;
+
+    groups.forEach((group, rowIndex) => {
+      if (rowIndex === baseline) return;
+      const results = compareToBaseline(groups[baseline], group);
+
+      TESTED_METRICS.forEach((key) => {
+        const result = results[key];
+        if (!result || !comparable(groups[baseline], group, key)) return;
+
+        if (y > pageHeight - 20) {
+          doc.addPage();
+          y = 20;
+        }
+
+        const { label } = TESTED_METRIC_LABELS[key];
+        const formatDifference = (v: number) => TESTED_METRIC_LABELS[key].formatDifference(v, group.money);
+        const line =
+          `${truncateText(group.name, 40)} - ${label}: ` +
+          `${formatPValue(result.pValue)}, ${formatConfidenceInterval(result, formatDifference)}` +
+          (result.significant ? ' (significant)' : ' (not significant)') +
+          (result.approximate ? ' - approx.' : '');
+
+        doc.setFontSize(8);
+        doc.setTextColor(result.significant ? 60 : 120, result.significant ? 60 : 120, result.significant ? 60 : 120);
+        doc.text(line, 16, y);
+
+        if (result.underpowered) {
+          doc.setTextColor(180, 83, 9); // amber
+          doc.text('LOW SAMPLE', 16 + doc.getTextWidth(line) + 3, y);
+        }
+        y += 5;
+      });
+    });
+
+    doc.setFontSize(7);
+    doc.setTextColor(150, 150, 150);
+    doc.text(
+      "Two-proportion z-test for conversion rate. Rev/Visitor and AOV (approx.): Welch's t-test assuming order values vary by about the AOV, " +
+      'as Shopify reports no per-order values. ' +
+      'LOW SAMPLE: could not reliably detect even a 50% lift.',
+      16,
+      Math.min(y + 2, pageHeight - 16)
+    );
+  }
+
+  if (groups.some(g => g.customers)) {
+    addCustomerSplit(doc, groups);
+  }
+
+  if (pages.length > 0) {
+    addPageBreakdown(doc, groups, pages);
+  }
+
+  // Footer on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(150, 150, 150);
+    doc.text('PupLabs Analytics', 14, doc.internal.pageSize.getHeight() - 10);
+    doc.text(
+      `Page ${page} of ${pageCount}`,
+      pageWidth - 35,
+      doc.internal.pageSize.getHeight() - 10
+    );
+  }
+
+  return doc.output('arraybuffer');
+}
+
+// Each group's figures for first-time and returning buyers, when the
+// comparison was split by customer type
+function addCustomerSplit(doc: jsPDF, groups: GroupMetrics[]) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const columns = ['Group', 'Customers', 'Sessions', 'Conv. Rate', 'AOV', 'Rev/Visitor', 'Revenue', 'Orders'];
+  const colWidths = [80, 40, 26, 26, 30, 30, 34, 20];
+
+  doc.addPage();
+  doc.setFontSize(14);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(60, 60, 60);
+  doc.text('New vs. returning customers', 14, 20);
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(120, 120, 120);
+  doc.text('Acquisition pages are best judged on the new customer rows.', 14, 26);
+  let y = 36;
+
+  doc.setFillColor(245, 245, 245);
+  doc.rect(14, y - 4, pageWidth - 28, 7, 'F');
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(60, 60, 60);
+  let x = 14;
+  columns.forEach((column, i) => {
+    doc.text(column, x + 2, y);
+    x += colWidths[i];
+  });
+  doc.setFont('helvetica', 'normal');
+  y += 8;
+
+  groups.forEach((group, groupIndex) => {
+    if (!group.customers) return;
+
+    CUSTOMER_TYPES.forEach(({ id, label }, typeIndex) => {
+      if (y > pageHeight - 20) {
+        doc.addPage();
+        y = 20;
+      }
+
+      const metrics = group.customers![id];
+      const values = [
+        typeIndex === 0 ? truncateText(group.name, 45) : '',
+        label,
+        metrics.sessions.toLocaleString(),
+        `${metrics.conversionRate.toFixed(2)}%`,
+        formatMoney(metrics.aov, group.money),
+        formatMoney(metrics.revenuePerVisitor, group.money),
+        formatMoney(metrics.totalRevenue, group.money),
+        metrics.orderCount.toLocaleString(),
+      ];
+
+      if (typeIndex === 0) {
+        const [r, g, b] = getGroupColor(group.color, groupIndex).rgb;
+        doc.setFillColor(r, g, b);
+        doc.circle(14.5, y - 1.2, 1, 'F');
+      }
+
+      x = 14;
+      doc.setTextColor(60, 60, 60);
+      values.forEach((value, i) => {
+        doc.text(value, x + 2, y);
+        x += colWidths[i];
+      });
+      y += 6;
+    });
+
+    y += 3;
   });
+}
+
+// Closing section: each group's member pages, busiest first, with their share
+// of the group's sessions and revenue and the weakest page marked
+function addPageBreakdown(doc: jsPDF, groups: GroupMetrics[], pages: PageMetrics[]) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const columns = ['Page', 'Sessions', '% Sess.', 'Revenue', '% Rev.', 'Rev/Visitor', 'Conv. Rate', 'AOV', 'Orders'];
+  const colWidths = [85, 22, 20, 30, 20, 26, 24, 26, 18];
 
-  // Footer
+  doc.addPage();
+  doc.setFontSize(14);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(60, 60, 60);
+  doc.text('Page breakdown', 14, 20);
   doc.setFontSize(8);
-  doc.setTextColor(150, 150, 150);
-  doc.text('PupLabs Analytics', 14, doc.internal.pageSize.getHeight() - 10);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(120, 120, 120);
   doc.text(
-    `Page 1 of 1`,
-    pageWidth - 35,
-    doc.internal.pageSize.getHeight() - 10
+    "WEAKEST: the page whose sessions fell furthest short of its group's revenue / visitor.",
+    14,
+    26
   );
+  let y = 36;
 
-  return doc.output('arraybuffer');
+  groups.forEach((group, groupIndex) => {
+    const rows = groupPageBreakdown(group, pages).sort((a, b) => b.sessions - a.sessions);
+
+    // Keep a group's heading with at least its first row
+    if (y > pageHeight - 40) {
+      doc.addPage();
+      y = 20;
+    }
+
+    const [r, g, b] = getGroupColor(group.color, groupIndex).rgb;
+    doc.setFillColor(r, g, b);
+    doc.circle(15, y - 1.2, 1.2, 'F');
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(60, 60, 60);
+    doc.text(truncateText(group.name, 80), 18, y);
+    y += 6;
+
+    doc.setFontSize(8);
+    doc.setFillColor(245, 245, 245);
+    doc.rect(14, y - 4, pageWidth - 28, 7, 'F');
+    let x = 14;
+    columns.forEach((column, i) => {
+      doc.text(column, x + 2, y);
+      x += colWidths[i];
+    });
+    doc.setFont('helvetica', 'normal');
+    y += 7;
+
+    if (rows.length === 0) {
+      doc.setTextColor(150, 150, 150);
+      doc.text('No data for this group\'s pages in the selected range.', 16, y);
+      y += 10;
+      return;
+    }
+
+    rows.forEach((row) => {
+      if (y > pageHeight - 20) {
+        doc.addPage();
+        y = 20;
+      }
+
+      const values = [
+        truncateText(row.productTitle, row.weakest ? 38 : 50),
+        row.sessions.toLocaleString(),
+        `${row.sessionShare.toFixed(1)}%`,
+        formatMoney(row.totalRevenue, group.money),
+        `${row.revenueShare.toFixed(1)}%`,
+        formatMoney(row.revenuePerVisitor, group.money),
+        `${row.conversionRate.toFixed(2)}%`,
+        formatMoney(row.aov, group.money),
+        row.orderCount.toLocaleString(),
+      ];
+
+      x = 14;
+      values.forEach((value, i) => {
+        doc.setTextColor(60, 60, 60);
+        doc.text(value, x + 2, y);
+        if (i === 0 && row.weakest) {
+          doc.setTextColor(220, 38, 38);
+          doc.text('WEAKEST', x + 4 + doc.getTextWidth(value), y);
+        }
+        x += colWidths[i];
+      });
+
+      doc.setFontSize(6);
+      doc.setTextColor(150, 150, 150);
+      doc.text(truncateText(row.url, 70), 16, y + 3.5);
+      doc.setFontSize(8);
+      y += 9;
+    });
+
+    y += 4;
+  });
+}
+
+// Same formula as the dashboard's diff: relative change from the baseline value
+function percentDiff(base: number, value: number): number | null {
+  if (base === 0 && value === 0) return null;
+  return ((value - base) / (base || 1)) * 100;
+}
+
+function formatAbsoluteChange(field: keyof GroupMetrics, change: number, money?: MoneySettings): string {
+  const sign = change > 0 ? '+' : change < 0 ? '-' : '';
+  const abs = Math.abs(change);
+
+  switch (field) {
+    case 'conversionRate':
+      return `${sign}${abs.toFixed(2)}pp`;
+    case 'totalRevenue':
+    case 'revenuePerVisitor':
+    case 'aov':
+      return `${sign}${formatMoney(abs, money)}`;
+    default:
+      return `${sign}${Math.round(abs).toLocaleString()}`;
+  }
 }
 
 function truncateText(text: string, maxLength: number): string {
@@ -111,7 +478,7 @@ function truncateText(text: string, maxLength: number): string {
   return text.substring(0, maxLength - 3) + '...';
 }
 
-function findBestWorst(groups: GroupMetrics[]): {
+export function findBestWorst(groups: GroupMetrics[]): {
   best: Record<string, number>;
   worst: Record<string, number>;
 } {
@@ -129,7 +496,11 @@ function findBestWorst(groups: GroupMetrics[]): {
     { key: 'Orders', field: 'orderCount' as keyof GroupMetrics },
   ];
 
+  const mixedCurrencies = new Set(groups.map(g => g.money?.currency)).size > 1;
+
   metricKeys.forEach(({ key, field }) => {
+    if (mixedCurrencies && MONEY_FIELDS.includes(field)) return;
+
     let bestIdx = 0;
     let worstIdx = 0;
 
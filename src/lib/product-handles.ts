@@ -0,0 +1,75 @@
+import { prisma } from './prisma';
+import type { ShopifyProduct } from './shopify';
+
+const PRODUCT_HANDLE_TTL_HOURS = 24; // backstop for missed webhooks
+
+// Stored products for the given handles. Stale rows and lookup failures count
+// as misses, so the caller falls back to the Admin API.
+export async function getStoredProducts(
+  shop: string,
+  handles: string[]
+): Promise<Map<string, ShopifyProduct>> {
+  const products = new Map<string, ShopifyProduct>();
+  if (handles.length === 0) return products;
+
+  try {
+    const rows = await prisma.productHandle.findMany({
+      where: {
+        shop: { domain: shop },
+        handle: { in: handles },
+        resolvedAt: { gt: new Date(Date.now() - PRODUCT_HANDLE_TTL_HOURS * 60 * 60 * 1000) },
+      },
+    });
+
+    for (const row of rows) {
+      products.set(row.handle, { id: Number(row.productId), title: row.title, handle: row.handle });
+    }
+  } catch (error) {
+    console.error('[ProductHandles] Lookup failed:', error);
+  }
+
+  return products;
+}
+
+export async function storeProducts(shop: string, products: ShopifyProduct[]): Promise<void> {
+  if (products.length === 0) return;
+
+  try {
+    const shopRow = await prisma.shop.findUnique({ where: { domain: shop }, select: { id: true } });
+    if (!shopRow) return;
+
+    const resolvedAt = new Date();
+    await prisma.$transaction(products.map(product =>
+      prisma.productHandle.upsert({
+        where: { shopId_handle: { shopId: shopRow.id, handle: product.handle } },
+        update: { productId: BigInt(product.id), title: product.title, resolvedAt },
+        create: {
+          shopId: shopRow.id,
+          handle: product.handle,
+          productId: BigInt(product.id),
+          title: product.title,
+          resolvedAt,
+        },
+      })
+    ));
+  } catch (error) {
+    console.error('[ProductHandles] Write failed:', error);
+  }
+}
+
+// Forget one product (after it changed or was deleted) or, without an id,
+// everything stored for the shop
+export async function invalidateProductHandles(shop: string, productId?: number): Promise<number> {
+  try {
+    const { count } = await prisma.productHandle.deleteMany({
+      where: {
+        shop: { domain: shop },
+        ...(productId !== undefined && { productId: BigInt(productId) }),
+      },
+    });
+    return count;
+  } catch (error) {
+    console.error('[ProductHandles] Invalidation failed:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { computeNextRun, safeTimeZone, shopToday } from './report-schedules';
+
+// New York is on EDT (UTC-4) until 1 Nov 2026 and on EST (UTC-5) until 8 Mar 2026
+const newYork = 'America/New_York';
+const daily = (hour: number) => ({ frequency: 'daily' as const, dayOfWeek: null, dayOfMonth: null, hour });
+const at = (iso: string) => new Date(iso);
+
+describe('computeNextRun', () => {
+  describe('daily', () => {
+    it("runs later today when the shop's hour is still ahead", () => {
+      // 08:00 EDT
+      expect(computeNextRun(daily(9), newYork, at('2026-07-15T12:00:00Z'))).toEqual(at('2026-07-15T13:00:00Z'));
+    });
+
+    it("moves to tomorrow once today's run time has passed", () => {
+      // 10:00 EDT
+      expect(computeNextRun(daily(9), newYork, at('2026-07-15T14:00:00Z'))).toEqual(at('2026-07-16T13:00:00Z'));
+    });
+
+    it('is strictly after the current run', () => {
+      expect(computeNextRun(daily(9), newYork, at('2026-07-15T13:00:00Z'))).toEqual(at('2026-07-16T13:00:00Z'));
+    });
+
+    it('keeps the wall-clock hour when the clocks go forward', () => {
+      // 10:00 EST on 7 Mar; the next 09:00 is EDT
+      expect(computeNextRun(daily(9), newYork, at('2026-03-07T15:00:00Z'))).toEqual(at('2026-03-08T13:00:00Z'));
+    });
+
+    it('keeps the wall-clock hour when the clocks go back', () => {
+      // 10:00 EDT on 31 Oct; the next 09:00 is EST
+      expect(computeNextRun(daily(9), newYork, at('2026-10-31T14:00:00Z'))).toEqual(at('2026-11-01T14:00:00Z'));
+    });
+
+    it("uses the shop's date, not the UTC date", () => {
+      // 23:30 UTC on 15 Jul is 08:30 on 16 Jul in Tokyo
+      expect(computeNextRun(daily(9), 'Asia/Tokyo', at('2026-07-15T23:30:00Z'))).toEqual(at('2026-07-16T00:00:00Z'));
+    });
+  });
+
+  describe('weekly', () => {
+    it('runs on the chosen weekday, across a DST change', () => {
+      // Wednesday 28 Oct (EDT) to Monday 2 Nov 08:00 EST
+      const mondays = { frequency: 'weekly' as const, dayOfWeek: 1, dayOfMonth: null, hour: 8 };
+
+      expect(computeNextRun(mondays, newYork, at('2026-10-28T12:00:00Z'))).toEqual(at('2026-11-02T13:00:00Z'));
+    });
+
+    it("waits a full week when this week's run has passed", () => {
+      // Monday 13 Jul 09:00 EDT, an hour after the run
+      const mondays = { frequency: 'weekly' as const, dayOfWeek: 1, dayOfMonth: null, hour: 8 };
+
+      expect(computeNextRun(mondays, newYork, at('2026-07-13T13:00:00Z'))).toEqual(at('2026-07-20T12:00:00Z'));
+    });
+  });
+
+  describe('monthly', () => {
+    const fifteenth = { frequency: 'monthly' as const, dayOfWeek: null, dayOfMonth: 15, hour: 6 };
+
+    it('runs on the chosen day of the month, across a DST change', () => {
+      // 20 Feb (EST) to 15 Mar 06:00 EDT
+      expect(computeNextRun(fifteenth, newYork, at('2026-02-20T00:00:00Z'))).toEqual(at('2026-03-15T10:00:00Z'));
+    });
+
+    it("moves to next month once this month's run has passed", () => {
+      // 07:00 EDT on 15 Jul
+      expect(computeNextRun(fifteenth, newYork, at('2026-07-15T11:00:00Z'))).toEqual(at('2026-08-15T10:00:00Z'));
+    });
+
+    it('crosses into the next year', () => {
+      expect(computeNextRun(fifteenth, newYork, at('2026-12-20T12:00:00Z'))).toEqual(at('2027-01-15T11:00:00Z'));
+    });
+  });
+
+  it('falls back to UTC for a zone the runtime does not know', () => {
+    expect(computeNextRun(daily(9), 'Mars/Olympus_Mons', at('2026-07-15T08:00:00Z'))).toEqual(at('2026-07-15T09:00:00Z'));
+  });
+});
+
+describe('safeTimeZone', () => {
+  it('keeps known zones and replaces unknown ones with UTC', () => {
+    expect(safeTimeZone(newYork)).toBe(newYork);
+    expect(safeTimeZone('Mars/Olympus_Mons')).toBe('UTC');
+  });
+});
+
+describe('shopToday', () => {
+  it("is the shop's calendar date", () => {
+    const today = shopToday('Asia/Tokyo', at('2026-07-15T23:30:00Z'));
+
+    expect([today.getFullYear(), today.getMonth(), today.getDate()]).toEqual([2026, 6, 16]);
+  });
+});
@@ -0,0 +1,256 @@
+import type {
+  ReportSchedule as ReportScheduleRow,
+  ReportDelivery as ReportDeliveryRow,
+} from '@prisma/client';
+import { CompareMode, ReportDelivery, ReportFrequency, ReportSchedule } from '@/types';
+import { isDatePresetId } from './date-presets';
+
+const MAX_RECIPIENTS = 20;
+const EMAIL_PATTERN = /^[^\s@,;]+@[^\s@,;]+\.[^\s@,;]+$/;
+const FREQUENCIES: ReportFrequency[] = ['daily', 'weekly', 'monthly'];
+// Custom ranges are fixed dates, so they make no sense on a recurring report
+const SCHEDULE_COMPARE_MODES: CompareMode[] = ['none', 'previous_period', 'previous_year'];
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface ReportScheduleInput {
+  comparisonId: string;
+  frequency: ReportFrequency;
+  dayOfWeek: number | null;
+  dayOfMonth: number | null;
+  hour: number;
+  datePreset: string;
+  compareMode: CompareMode;
+  recipients: string[];
+  enabled: boolean;
+}
+
+// What toReportSchedule needs: the comparison name and the latest deliveries
+export const SCHEDULE_INCLUDE = {
+  comparison: { select: { name: true } },
+  deliveries: { orderBy: { createdAt: 'desc' as const }, take: 10 },
+};
+
+type ReportScheduleWithRelations = ReportScheduleRow & {
+  comparison: { name: string };
+  deliveries: ReportDeliveryRow[];
+};
+
+export function toReportDelivery(row: ReportDeliveryRow): ReportDelivery {
+  return {
+    id: row.id,
+    status: row.status as ReportDelivery['status'],
+    recipients: row.recipients,
+    dateRange: { start: row.startDate, end: row.endDate },
+    error: row.error,
+    manual: row.manual,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export function toReportSchedule(row: ReportScheduleWithRelations): ReportSchedule {
+  return {
+    id: row.id,
+    comparisonId: row.comparisonId,
+    comparisonName: row.comparison.name,
+    frequency: row.frequency as ReportFrequency,
+    dayOfWeek: row.dayOfWeek,
+    dayOfMonth: row.dayOfMonth,
+    hour: row.hour,
+    datePreset: row.datePreset,
+    compareMode: row.compareMode as CompareMode,
+    recipients: row.recipients,
+    enabled: row.enabled,
+    lastRunAt: row.lastRunAt?.toISOString() ?? null,
+    nextRunAt: row.nextRunAt.toISOString(),
+    deliveries: row.deliveries.map(toReportDelivery),
+  };
+}
+
+// Validate a complete schedule. PATCH merges the body over the stored record
+// first, since frequency and day fields depend on each other.
+export function parseReportScheduleInput(body: unknown): { input: ReportScheduleInput } | { error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Invalid request body' };
+  }
+
+  const {
+    comparisonId, frequency, dayOfWeek, dayOfMonth, hour,
+    datePreset, compareMode = 'none', recipients, enabled = true,
+  } = body as Record<string, unknown>;
+
+  if (typeof comparisonId !== 'string' || !comparisonId) {
+    return { error: 'Choose a saved comparison to send' };
+  }
+  if (!FREQUENCIES.includes(frequency as ReportFrequency)) {
+    return { error: 'Frequency must be daily, weekly or monthly' };
+  }
+  if (frequency === 'weekly' && !isIntegerBetween(dayOfWeek, 0, 6)) {
+    return { error: 'Weekly reports need a day of the week' };
+  }
+  if (frequency === 'monthly' && !isIntegerBetween(dayOfMonth, 1, 28)) {
+    return { error: 'Monthly reports need a day of the month between 1 and 28' };
+  }
+  if (!isIntegerBetween(hour, 0, 23)) {
+    return { error: 'Hour must be between 0 and 23' };
+  }
+  if (!isDatePresetId(datePreset)) {
+    return { error: 'Unknown date range preset' };
+  }
+  if (!SCHEDULE_COMPARE_MODES.includes(compareMode as CompareMode)) {
+    return { error: 'Scheduled reports can compare to the previous period or previous year only' };
+  }
+  if (typeof enabled !== 'boolean') {
+    return { error: 'Enabled must be true or false' };
+  }
+
+  const parsedRecipients = parseRecipients(recipients);
+  if ('error' in parsedRecipients) return parsedRecipients;
+
+  return {
+    input: {
+      comparisonId,
+      frequency: frequency as ReportFrequency,
+      dayOfWeek: frequency === 'weekly' ? (dayOfWeek as number) : null,
+      dayOfMonth: frequency === 'monthly' ? (dayOfMonth as number) : null,
+      hour: hour as number,
+      datePreset,
+      compareMode: compareMode as CompareMode,
+      recipients: parsedRecipients.recipients,
+      enabled,
+    },
+  };
+}
+
+// Accepts an array or a comma/newline separated string, as typed in the form
+function parseRecipients(value: unknown): { recipients: string[] } | { error: string } {
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,;\n]/) : null;
+  if (!list || !list.every(v => typeof v === 'string')) {
+    return { error: 'Recipients must be a list of email addresses' };
+  }
+
+  const recipients = [...new Set(list.map(v => v.trim().toLowerCase()).filter(Boolean))];
+  if (recipients.length === 0) {
+    return { error: 'Add at least one recipient' };
+  }
+  if (recipients.length > MAX_RECIPIENTS) {
+    return { error: `A report can go to at most ${MAX_RECIPIENTS} recipients` };
+  }
+
+  const invalid = recipients.find(r => !EMAIL_PATTERN.test(r));
+  if (invalid) {
+    return { error: `"${invalid}" is not a valid email address` };
+  }
+
+  return { recipients };
+}
+
+function isIntegerBetween(value: unknown, min: number, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+export function describeSchedule(schedule: Pick<ReportSchedule, 'frequency' | 'dayOfWeek' | 'dayOfMonth' | 'hour'>): string {
+  const time = `${String(schedule.hour).padStart(2, '0')}:00`;
+  switch (schedule.frequency) {
+    case 'weekly':
+      return `Every ${WEEKDAYS[schedule.dayOfWeek ?? 1]} at ${time}`;
+    case 'monthly':
+      return `Monthly on day ${schedule.dayOfMonth ?? 1} at ${time}`;
+    default:
+      return `Daily at ${time}`;
+  }
+}
+
+// ============================================================
+// SHOP TIMEZONE
+// ============================================================
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Wall-clock fields of `date` as seen in `timeZone` (an IANA name from Shopify)
+function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+function offsetMs(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The UTC instant at which the shop's clock reads year-month-day hour:00.
+// Re-checks the offset once so times either side of a DST change land correctly.
+function zonedTimeToUtc(year: number, month: number, day: number, hour: number, timeZone: string): Date {
+  const guess = Date.UTC(year, month - 1, day, hour);
+  const offset = offsetMs(new Date(guess), timeZone);
+  const adjusted = offsetMs(new Date(guess - offset), timeZone);
+  return new Date(guess - adjusted);
+}
+
+// Fall back to UTC if Shopify ever hands us a zone this runtime doesn't know
+export function safeTimeZone(timeZone: string): string {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch {
+    return 'UTC';
+  }
+}
+
+// Today's date in the shop, as a local Date for date-fns preset maths
+export function shopToday(timeZone: string, now = new Date()): Date {
+  const p = zonedParts(now, safeTimeZone(timeZone));
+  return new Date(p.year, p.month - 1, p.day);
+}
+
+// The first run strictly after `after`, walking forward day by day in the shop's calendar
+export function computeNextRun(
+  schedule: Pick<ReportScheduleInput, 'frequency' | 'dayOfWeek' | 'dayOfMonth' | 'hour'>,
+  timeZone: string,
+  after = new Date()
+): Date {
+  const zone = safeTimeZone(timeZone);
+  const today = zonedParts(after, zone);
+
+  // Monthly on day 28 is at most 31 days away; the extra margin covers DST edges
+  for (let offset = 0; offset <= 32; offset++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    const matches =
+      schedule.frequency === 'daily' ||
+      (schedule.frequency === 'weekly' && date.getUTCDay() === schedule.dayOfWeek) ||
+      (schedule.frequency === 'monthly' && date.getUTCDate() === schedule.dayOfMonth);
+    if (!matches) continue;
+
+    const runAt = zonedTimeToUtc(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), schedule.hour, zone);
+    if (runAt > after) return runAt;
+  }
+
+  throw new Error(`No upcoming run found for ${schedule.frequency} schedule`);
+}
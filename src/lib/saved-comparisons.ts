@@ -0,0 +1,142 @@
+import { SavedComparison as SavedComparisonRow } from '@prisma/client';
+import { SavedComparison, UrlGroup } from '@/types';
+import { unlinkedShops } from './accounts';
+import { isDatePresetId } from './date-presets';
+import { MAX_GROUPS, GROUP_COLORS } from './groups';
+import { normalizeShopDomain } from './shop-domain';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_URLS_PER_GROUP = 10;
+
+export interface SavedComparisonInput {
+  name?: string;
+  groups?: UrlGroup[];
+  baselineIndex?: number;
+  datePreset?: string | null;
+}
+
+export function toSavedComparison(row: SavedComparisonRow): SavedComparison {
+  return {
+    id: row.id,
+    name: row.name,
+    groups: row.groups as unknown as UrlGroup[],
+    baselineIndex: row.baselineIndex,
+    datePreset: row.datePreset,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+// Validate a create/update body. Without an `existing` comparison every field
+// is required; with one, absent fields are left undefined so PATCH can apply
+// partial updates, and the baseline is checked against the groups it will end
+// up with.
+export function parseSavedComparisonInput(
+  body: unknown,
+  existing: Pick<SavedComparison, 'groups' | 'baselineIndex'> | null
+): { input: SavedComparisonInput } | { error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Invalid request body' };
+  }
+
+  const { name, groups, baselineIndex, datePreset } = body as Record<string, unknown>;
+  const input: SavedComparisonInput = {};
+  const requireAll = !existing;
+
+  if (name !== undefined || requireAll) {
+    if (typeof name !== 'string' || !name.trim()) {
+      return { error: 'Name is required' };
+    }
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      return { error: `Name must be ${MAX_NAME_LENGTH} characters or fewer` };
+    }
+    input.name = name.trim();
+  }
+
+  if (groups !== undefined || requireAll) {
+    if (!Array.isArray(groups) || groups.length === 0 || groups.length > MAX_GROUPS) {
+      return { error: `Between 1 and ${MAX_GROUPS} groups are required` };
+    }
+
+    const parsedGroups: UrlGroup[] = [];
+    for (const group of groups) {
+      if (
+        !group ||
+        typeof group.name !== 'string' ||
+        !Array.isArray(group.urls) ||
+        group.urls.length > MAX_URLS_PER_GROUP ||
+        !group.urls.every((url: unknown) => typeof url === 'string')
+      ) {
+        return { error: 'Each group needs a name and a list of URLs' };
+      }
+      const color = GROUP_COLORS.some(c => c.id === group.color) ? group.color : undefined;
+      const exactUrls = Array.isArray(group.exactUrls)
+        ? group.urls.filter((url: string) => group.exactUrls.includes(url))
+        : [];
+      if (group.shop !== undefined && !normalizeShopDomain(group.shop)) {
+        return { error: `Unknown store: ${group.shop}` };
+      }
+      const shop = normalizeShopDomain(group.shop);
+      parsedGroups.push({
+        name: group.name,
+        urls: group.urls,
+        color,
+        ...(exactUrls.length > 0 && { exactUrls }),
+        ...(shop && { shop }),
+      });
+    }
+    input.groups = parsedGroups;
+  }
+
+  const groupCount = (input.groups ?? existing?.groups ?? []).length;
+  if (baselineIndex !== undefined) {
+    if (!Number.isInteger(baselineIndex) || (baselineIndex as number) < 0 || (baselineIndex as number) >= groupCount) {
+      return { error: 'Baseline must refer to one of the groups' };
+    }
+    input.baselineIndex = baselineIndex as number;
+  } else if (existing && existing.baselineIndex >= groupCount) {
+    return { error: 'Baseline must refer to one of the groups' };
+  }
+
+  if (datePreset !== undefined) {
+    if (datePreset !== null && !isDatePresetId(datePreset)) {
+      return { error: 'Unknown date range preset' };
+    }
+    input.datePreset = datePreset;
+  }
+
+  return { input };
+}
+
+// Name for a copy of `name` that isn't in `taken` ("Weekly (copy)", "Weekly
+// (copy 2)", ...), shortening the original so the copy still fits the limit.
+// Every candidate starts with the first COPY_NAME_PREFIX characters of `name`.
+export const COPY_NAME_PREFIX = MAX_NAME_LENGTH / 2;
+
+export function copyName(name: string, taken: Set<string>): string {
+  for (let n = 1; ; n++) {
+    const suffix = n === 1 ? ' (copy)' : ` (copy ${n})`;
+    const copy = `${name.slice(0, MAX_NAME_LENGTH - suffix.length)}${suffix}`;
+    if (!taken.has(copy)) return copy;
+  }
+}
+
+// Groups may only point at stores linked to the saving account; scheduled
+// reports rely on this when they fetch those stores without a session
+export async function checkGroupStores(
+  groups: UrlGroup[],
+  session: { shop: string; accountId: string | null }
+): Promise<string | null> {
+  const others = [...new Set(groups.map(g => g.shop).filter((shop): shop is string => !!shop && shop !== session.shop))];
+  const unlinked = await unlinkedShops(session.accountId, others);
+  return unlinked.length > 0 ? `Not linked to your account: ${unlinked.join(', ')}` : null;
+}
+
+// Prisma raises P2002 when the (shopId, name) unique constraint is violated
+export function isUniqueConstraintError(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as { code?: string }).code === 'P2002'
+  );
+}
@@ -0,0 +1,157 @@
+import { format, parseISO } from 'date-fns';
+import { prisma } from './prisma';
+import { findLinkedShops } from './accounts';
+import { fetchComparison, mergeStoreComparisons } from './analytics';
+import { aggregateGroupMetrics } from './calculations';
+import { getPresetRange, getComparisonRange } from './date-presets';
+import { groupStore, splitUrlsByStore } from './groups';
+import { sendEmail } from './email';
+import { decryptToken } from './encryption';
+import { shopMoney } from './money';
+import { generatePdfReport } from './pdf-generator';
+import { computeNextRun, describeSchedule, shopToday, toReportDelivery } from './report-schedules';
+import { withTimeout } from './timeout';
+import { CompareMode, DateRange, GroupMetrics, ReportDelivery, ReportFrequency, UrlGroup } from '@/types';
+
+const REPORT_TIMEOUT = 120000; // same budget the dashboard gives a comparison
+
+function formatRange(range: DateRange): string {
+  return `${format(parseISO(range.start), 'MMM d, yyyy')} – ${format(parseISO(range.end), 'MMM d, yyyy')}`;
+}
+
+// Build and email the PDF for one schedule, recording the outcome in the
+// delivery log. Never throws for report failures; the failed delivery is returned.
+export async function deliverScheduledReport(
+  scheduleId: string,
+  { manual = false, now = new Date() }: { manual?: boolean; now?: Date } = {}
+): Promise<ReportDelivery> {
+  const schedule = await prisma.reportSchedule.findUniqueOrThrow({
+    where: { id: scheduleId },
+    include: { comparison: true, shop: true },
+  });
+
+  const { comparison, shop } = schedule;
+  const dateRange = getPresetRange(schedule.datePreset, shopToday(shop.timezone, now))!;
+  const compareTo = getComparisonRange(dateRange, schedule.compareMode as CompareMode);
+
+  let error: string | null = null;
+  try {
+    const urlGroups = comparison.groups as unknown as UrlGroup[];
+    const { urls, exactUrls, stores } = splitUrlsByStore(urlGroups, shop.domain);
+
+    // Groups on other stores need those stores still linked alongside this one
+    const linkedShops = await findLinkedShops(shop.id, stores.map(s => s.shop));
+    const targets = [
+      { shop, urls, exactUrls },
+      ...stores.map(store => {
+        const linked = linkedShops.find(s => s.domain === store.shop);
+        if (!linked) throw new Error(`${store.shop} is no longer linked to ${shop.domain}`);
+        return { shop: linked, urls: store.urls, exactUrls: store.exactUrls || [] };
+      }),
+    ];
+
+    const data = mergeStoreComparisons(await withTimeout(
+      Promise.all(targets.map(async target => ({
+        shop: target.shop.domain,
+        money: shopMoney(target.shop),
+        data: await fetchComparison(
+          target.shop.domain,
+          decryptToken(target.shop.accessToken),
+          target.urls,
+          dateRange,
+          { compareTo, exactUrls: target.exactUrls, money: shopMoney(target.shop) }
+        ),
+      }))),
+      REPORT_TIMEOUT,
+      'Scheduled report'
+    ));
+
+    const groups: GroupMetrics[] = urlGroups.map(group => {
+      const store = groupStore(group, shop.domain)!;
+      return {
+        ...aggregateGroupMetrics(group.name, group.urls, data.pages, store),
+        color: group.color,
+        money: data.money?.[store],
+        ...(data.previous && {
+          previous: aggregateGroupMetrics(group.name, group.urls, data.previous.pages, store),
+        }),
+      };
+    });
+
+    const pdf = generatePdfReport(groups, dateRange, {
+      baselineIndex: comparison.baselineIndex,
+      compareDateRange: data.previous?.dateRange || null,
+      pages: data.pages,
+    });
+
+    await sendEmail({
+      to: schedule.recipients,
+      subject: `${comparison.name} — PupLabs Analytics report (${formatRange(dateRange)})`,
+      text: [
+        `Attached is the "${comparison.name}" comparison for ${formatRange(dateRange)}.`,
+        compareTo ? `Compared to ${formatRange(compareTo)}.` : null,
+        data.truncated ? 'Shopify returned more rows than we could read, so some numbers may be low.' : null,
+        '',
+        `Schedule: ${describeSchedule({
+          ...schedule,
+          frequency: schedule.frequency as ReportFrequency,
+        })} (${shop.timezone}) for ${shop.domain}.`,
+      ].filter(line => line !== null).join('\n'),
+      attachments: [{
+        filename: `puplabs-analytics-${dateRange.start}-to-${dateRange.end}.pdf`,
+        content: Buffer.from(pdf),
+        contentType: 'application/pdf',
+      }],
+    });
+
+    console.log(`[Reports] Sent "${comparison.name}" to ${schedule.recipients.length} recipient(s) for ${shop.domain}`);
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+    console.error(`[Reports] Failed to send "${comparison.name}" for ${shop.domain}:`, err);
+  }
+
+  const delivery = await prisma.reportDelivery.create({
+    data: {
+      scheduleId: schedule.id,
+      status: error ? 'failed' : 'sent',
+      recipients: schedule.recipients,
+      startDate: dateRange.start,
+      endDate: dateRange.end,
+      error,
+      manual,
+    },
+  });
+
+  return toReportDelivery(delivery);
+}
+
+// Send every enabled schedule whose nextRunAt has passed. Each schedule is
+// claimed by moving nextRunAt forward with a conditional update, so two workers
+// (or a worker and a cron run) never send the same report twice.
+export async function runDueReports(now = new Date()): Promise<number> {
+  const due = await prisma.reportSchedule.findMany({
+    where: { enabled: true, nextRunAt: { lte: now } },
+    include: { shop: { select: { timezone: true } } },
+    orderBy: { nextRunAt: 'asc' },
+  });
+
+  let sent = 0;
+  for (const schedule of due) {
+    const nextRunAt = computeNextRun(
+      { ...schedule, frequency: schedule.frequency as ReportFrequency },
+      schedule.shop.timezone,
+      now
+    );
+
+    const { count } = await prisma.reportSchedule.updateMany({
+      where: { id: schedule.id, nextRunAt: schedule.nextRunAt },
+      data: { nextRunAt, lastRunAt: now },
+    });
+    if (count === 0) continue; // another worker got there first
+
+    const delivery = await deliverScheduledReport(schedule.id, { now });
+    if (delivery.status === 'sent') sent++;
+  }
+
+  return sent;
+}
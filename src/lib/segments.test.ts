@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { describeSegment, describeSessionOnlyFilters, parseSegment, sessionOnlyFilters } from './segments';
+
+describe('parseSegment', () => {
+  it('treats a missing or blank segment as all traffic', () => {
+    expect(parseSegment(undefined)).toEqual({ segment: null });
+    expect(parseSegment({ deviceType: '', utmCampaign: '  ' })).toEqual({ segment: null });
+  });
+
+  it('keeps the filters that are set, tidied up', () => {
+    expect(parseSegment({ deviceType: 'mobile', country: ' ca ', utmCampaign: ' spring_sale ', utmSource: '' })).toEqual({
+      segment: { deviceType: 'mobile', country: 'CA', utmCampaign: 'spring_sale' },
+    });
+  });
+
+  it('rejects values the dimensions cannot take', () => {
+    expect(parseSegment({ deviceType: 'watch' })).toEqual({ error: 'Device must be desktop, mobile or tablet' });
+    expect(parseSegment({ referrerSource: 'billboard' })).toEqual({ error: 'Unknown traffic source: billboard' });
+    expect(parseSegment({ country: 'Canada' })).toEqual({ error: 'Country must be a two-letter code, like CA' });
+    expect(parseSegment({ utmMedium: 42 })).toHaveProperty('error');
+    expect(parseSegment('mobile')).toEqual({ error: 'Segment must be an object' });
+  });
+});
+
+describe('describeSegment', () => {
+  it('labels each filter in a fixed order', () => {
+    expect(describeSegment({ utmCampaign: 'spring_sale', country: 'CA', deviceType: 'mobile', referrerSource: 'social' }))
+      .toBe('Mobile · Social · CA · campaign=spring_sale');
+  });
+
+  it("names Shopify's uncategorised traffic for what it is", () => {
+    expect(describeSegment({ referrerSource: 'unknown' })).toBe('Unknown / other');
+  });
+
+  it('calls an empty segment all traffic', () => {
+    expect(describeSegment(null)).toBe('All traffic');
+    expect(describeSegment({})).toBe('All traffic');
+  });
+
+  it('notes the filters order revenue cannot apply', () => {
+    expect(describeSegment({ deviceType: 'mobile', utmCampaign: 'spring_sale' }, { orders: true }))
+      .toBe('Mobile · campaign=spring_sale (order revenue: all devices)');
+    expect(describeSegment({ utmCampaign: 'spring_sale' }, { orders: true })).toBe('campaign=spring_sale');
+  });
+});
+
+describe('sessionOnlyFilters', () => {
+  it('picks out the device, source and country filters', () => {
+    const segment = { country: 'CA', referrerSource: 'social', deviceType: 'tablet', utmSource: 'facebook' } as const;
+
+    expect(sessionOnlyFilters(segment)).toEqual(['deviceType', 'referrerSource', 'country']);
+    expect(describeSessionOnlyFilters(segment)).toBe('all devices, traffic sources and countries');
+  });
+
+  it('finds none in UTM-only and empty segments', () => {
+    expect(sessionOnlyFilters({ utmMedium: 'email' })).toEqual([]);
+    expect(describeSessionOnlyFilters(null)).toBeNull();
+  });
+});
@@ -0,0 +1,124 @@
+import { DeviceType, ReferrerSource, SegmentFilters, SessionOnlyFilter } from '@/types';
+
+const MAX_UTM_LENGTH = 100;
+
+export const DEVICE_TYPES: { id: DeviceType; label: string }[] = [
+  { id: 'desktop', label: 'Desktop' },
+  { id: 'mobile', label: 'Mobile' },
+  { id: 'tablet', label: 'Tablet' },
+];
+
+export const REFERRER_SOURCES: { id: ReferrerSource; label: string }[] = [
+  { id: 'direct', label: 'Direct' },
+  { id: 'search', label: 'Search' },
+  { id: 'social', label: 'Social' },
+  { id: 'email', label: 'Email' },
+  { id: 'unknown', label: 'Unknown / other' },
+];
+
+const UTM_FIELDS = [
+  { key: 'utmSource', label: 'source' },
+  { key: 'utmMedium', label: 'medium' },
+  { key: 'utmCampaign', label: 'campaign' },
+] as const;
+
+// Filters orders can't be narrowed by: an order records the UTM parameters of
+// the visit that placed it, not the visitor's device, source or country
+const SESSION_ONLY_FILTERS: { key: SessionOnlyFilter; plural: string }[] = [
+  { key: 'deviceType', plural: 'devices' },
+  { key: 'referrerSource', plural: 'traffic sources' },
+  { key: 'country', plural: 'countries' },
+];
+
+// Quick picks in the segment picker
+export const SEGMENT_PRESETS: { id: string; label: string; segment: SegmentFilters }[] = [
+  { id: 'mobile', label: 'Mobile only', segment: { deviceType: 'mobile' } },
+  { id: 'desktop', label: 'Desktop only', segment: { deviceType: 'desktop' } },
+  { id: 'paid_social', label: 'Paid social', segment: { referrerSource: 'social', utmMedium: 'paid_social' } },
+  { id: 'search', label: 'Search', segment: { referrerSource: 'search' } },
+  { id: 'email', label: 'Email', segment: { referrerSource: 'email' } },
+];
+
+export function isEmptySegment(segment: SegmentFilters | null | undefined): boolean {
+  return !segment || Object.values(segment).every(value => !value);
+}
+
+// Validate a segment from a request body. Blank fields are dropped and an
+// empty segment is null, meaning all traffic.
+export function parseSegment(value: unknown): { segment: SegmentFilters | null } | { error: string } {
+  if (value === undefined || value === null) return { segment: null };
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'Segment must be an object' };
+  }
+
+  const { deviceType, referrerSource, country, ...utm } = value as Record<string, unknown>;
+  const segment: SegmentFilters = {};
+
+  if (deviceType) {
+    if (!DEVICE_TYPES.some(d => d.id === deviceType)) {
+      return { error: 'Device must be desktop, mobile or tablet' };
+    }
+    segment.deviceType = deviceType as DeviceType;
+  }
+
+  if (referrerSource) {
+    if (!REFERRER_SOURCES.some(s => s.id === referrerSource)) {
+      return { error: `Unknown traffic source: ${String(referrerSource)}` };
+    }
+    segment.referrerSource = referrerSource as ReferrerSource;
+  }
+
+  if (country) {
+    if (typeof country !== 'string' || !/^[a-z]{2}$/i.test(country.trim())) {
+      return { error: 'Country must be a two-letter code, like CA' };
+    }
+    segment.country = country.trim().toUpperCase();
+  }
+
+  for (const { key, label } of UTM_FIELDS) {
+    const raw = utm[key];
+    if (raw === undefined || raw === null || raw === '') continue;
+    if (typeof raw !== 'string' || raw.trim().length > MAX_UTM_LENGTH) {
+      return { error: `UTM ${label} must be text of ${MAX_UTM_LENGTH} characters or fewer` };
+    }
+    if (raw.trim()) segment[key] = raw.trim();
+  }
+
+  return { segment: isEmptySegment(segment) ? null : segment };
+}
+
+// Short label for headers and exports, e.g. "Mobile · Social · CA · campaign=spring_sale".
+// With `orders`, for figures built from orders, says which filters they miss:
+// "Mobile · campaign=spring_sale (order revenue: all devices)".
+export function describeSegment(
+  segment: SegmentFilters | null | undefined,
+  { orders = false }: { orders?: boolean } = {}
+): string {
+  if (isEmptySegment(segment)) return 'All traffic';
+
+  const label = [
+    DEVICE_TYPES.find(d => d.id === segment!.deviceType)?.label,
+    REFERRER_SOURCES.find(s => s.id === segment!.referrerSource)?.label,
+    segment!.country,
+    ...UTM_FIELDS.map(({ key, label }) => (segment![key] ? `${label}=${segment![key]}` : undefined)),
+  ].filter(Boolean).join(' · ');
+
+  const unfiltered = orders ? describeSessionOnlyFilters(segment) : null;
+  return unfiltered ? `${label} (order revenue: ${unfiltered})` : label;
+}
+
+// The filters in `segment` that order-based figures (attributed revenue, the
+// product revenue bases) can't apply
+export function sessionOnlyFilters(segment: SegmentFilters | null | undefined): SessionOnlyFilter[] {
+  return SESSION_ONLY_FILTERS.filter(({ key }) => segment?.[key]).map(({ key }) => key);
+}
+
+// What order-based figures cover instead, e.g. "all devices and countries";
+// null when they match the whole segment
+export function describeSessionOnlyFilters(segment: SegmentFilters | null | undefined): string | null {
+  const plurals = SESSION_ONLY_FILTERS.filter(({ key }) => segment?.[key]).map(({ plural }) => plural);
+  if (plurals.length === 0) return null;
+
+  const list = plurals.length > 1 ? `${plurals.slice(0, -1).join(', ')} and ${plurals[plurals.length - 1]}` : plurals[0];
+  return `all ${list}`;
+}
@@ -0,0 +1,66 @@
+import crypto from 'crypto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { verifySessionToken } from './session-token';
+
+const secret = 'test-secret';
+const apiKey = 'test-api-key';
+const now = Date.UTC(2026, 9, 19, 12, 0, 0);
+const seconds = Math.floor(now / 1000);
+
+beforeEach(() => {
+  process.env.SHOPIFY_API_SECRET = secret;
+  process.env.SHOPIFY_API_KEY = apiKey;
+});
+
+// Sign a token the way App Bridge's backend does
+function sessionToken(overrides: Record<string, unknown> = {}, { key = secret, alg = 'HS256' } = {}) {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const header = encode({ alg, typ: 'JWT' });
+  const body = encode({
+    iss: 'https://puplabsco.myshopify.com/admin',
+    dest: 'https://puplabsco.myshopify.com',
+    aud: apiKey,
+    sub: '42',
+    exp: seconds + 60,
+    nbf: seconds,
+    iat: seconds,
+    jti: 'f8912129-1af6-4cad-9ca3-76b0f7621087',
+    ...overrides,
+  });
+  const signature = crypto.createHmac('sha256', key).update(`${header}.${body}`).digest('base64url');
+  return `${header}.${body}.${signature}`;
+}
+
+describe('verifySessionToken', () => {
+  it('returns the shop for a valid token', () => {
+    expect(verifySessionToken(sessionToken(), now)).toMatchObject({
+      shop: 'puplabsco.myshopify.com',
+      payload: { sub: '42' },
+    });
+  });
+
+  it('rejects a token signed with another secret or algorithm', () => {
+    expect(verifySessionToken(sessionToken({}, { key: 'other-secret' }), now)).toBeNull();
+    expect(verifySessionToken(sessionToken({}, { alg: 'none' }), now)).toBeNull();
+  });
+
+  it('rejects an expired or not-yet-valid token, allowing a little clock skew', () => {
+    expect(verifySessionToken(sessionToken({ exp: seconds - 3 }), now)).not.toBeNull();
+    expect(verifySessionToken(sessionToken({ exp: seconds - 60 }), now)).toBeNull();
+    expect(verifySessionToken(sessionToken({ nbf: seconds + 60 }), now)).toBeNull();
+  });
+
+  it('rejects a token issued for another app', () => {
+    expect(verifySessionToken(sessionToken({ aud: 'someone-else' }), now)).toBeNull();
+  });
+
+  it('rejects a destination that is not a shop or does not match the issuer', () => {
+    expect(verifySessionToken(sessionToken({ dest: 'https://evil.example.com' }), now)).toBeNull();
+    expect(verifySessionToken(sessionToken({ iss: 'https://other.myshopify.com/admin' }), now)).toBeNull();
+  });
+
+  it('rejects malformed tokens without throwing', () => {
+    expect(verifySessionToken('not-a-jwt', now)).toBeNull();
+    expect(verifySessionToken('a.b.c', now)).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+import { safeEqual } from './encryption';
+import { normalizeShopDomain } from './shop-domain';
+
+// App Bridge session tokens: HS256 JWTs signed with the app secret, sent by the
+// embedded app as `Authorization: Bearer <token>` and valid for one minute.
+// https://shopify.dev/docs/apps/build/authentication-authorization/session-tokens
+
+const CLOCK_SKEW_SECONDS = 5;
+
+export interface SessionTokenPayload {
+  iss: string; // https://<shop>.myshopify.com/admin
+  dest: string; // https://<shop>.myshopify.com
+  aud: string; // the app's API key
+  sub?: string; // staff member id
+  exp: number;
+  nbf: number;
+  iat: number;
+  jti: string;
+  sid?: string;
+}
+
+function decodeSegment<T>(segment: string): T | null {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+// The verified payload and the shop it was issued for, or null if the token
+// is forged, expired, for another app or for a host that isn't a shop
+export function verifySessionToken(
+  token: string,
+  now = Date.now()
+): { shop: string; payload: SessionTokenPayload } | null {
+  const secret = process.env.SHOPIFY_API_SECRET;
+  const apiKey = process.env.SHOPIFY_API_KEY;
+  if (!secret || !apiKey) return null;
+
+  const [header, body, signature] = token.split('.');
+  if (!header || !body || !signature) return null;
+
+  if (decodeSegment<{ alg?: string }>(header)?.alg !== 'HS256') return null;
+  const expected = crypto.createHmac('sha256', secret).update(`${header}.${body}`).digest('base64url');
+  if (!safeEqual(expected, signature)) return null;
+
+  const payload = decodeSegment<SessionTokenPayload>(body);
+  if (!payload) return null;
+
+  const seconds = Math.floor(now / 1000);
+  if (payload.aud !== apiKey) return null;
+  if (payload.exp + CLOCK_SKEW_SECONDS < seconds || payload.nbf - CLOCK_SKEW_SECONDS > seconds) return null;
+
+  let shop: string | null = null;
+  try {
+    shop = normalizeShopDomain(new URL(payload.dest).hostname);
+    if (!shop || new URL(payload.iss).hostname !== shop) return null;
+  } catch {
+    return null;
+  }
+
+  return { shop, payload };
+}
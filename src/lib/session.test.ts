@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const cookieJar = new Map<string, string>();
+const requestHeaders = new Headers();
+vi.mock('next/headers', () => ({
+  headers: async () => requestHeaders,
+  cookies: async () => ({
+    get: (name: string) => (cookieJar.has(name) ? { name, value: cookieJar.get(name) } : undefined),
+    set: (name: string, value: string) => cookieJar.set(name, value),
+    delete: (name: string) => cookieJar.delete(name),
+  }),
+}));
+vi.mock('./prisma', () => ({
+  prisma: {
+    shop: { findUnique: vi.fn() },
+    shopSession: { findUnique: vi.fn(), create: vi.fn(), deleteMany: vi.fn() },
+  },
+}));
+vi.mock('./session-token', () => ({
+  verifySessionToken: (token: string) => (token === 'valid-token' ? { shop: 'puplabsco.myshopify.com' } : null),
+}));
+vi.mock('./shopify', () => ({ exchangeSessionToken: vi.fn() }));
+vi.mock('./install', () => ({ installShop: vi.fn() }));
+vi.mock('./accounts', () => ({ linkShopToAccount: vi.fn() }));
+vi.mock('./encryption', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./encryption')>()),
+  decryptToken: (stored: string) => stored.replace('enc:', ''),
+}));
+
+import { prisma } from './prisma';
+import { installShop } from './install';
+import { linkShopToAccount } from './accounts';
+import { exchangeSessionToken } from './shopify';
+import { getShopSession, setShopSession, signSessionCookie, verifySessionCookie } from './session';
+
+const shop = {
+  id: 'shop_1',
+  domain: 'puplabsco.myshopify.com',
+  accessToken: 'enc:shpat_abc123',
+  timezone: 'America/New_York',
+  currency: 'GBP',
+  moneyFormat: '£{{amount}}',
+  locale: 'en-GB',
+};
+const inAMonth = () => new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+const originalEnv = { ...process.env };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(linkShopToAccount).mockResolvedValue('account_1');
+  cookieJar.clear();
+  requestHeaders.delete('authorization');
+  process.env.SESSION_SECRET = 'current-secret';
+  delete process.env.SESSION_SECRET_PREVIOUS;
+});
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+});
+
+describe('verifySessionCookie', () => {
+  it('accepts a cookie it signed', () => {
+    expect(verifySessionCookie(signSessionCookie('abc', inAMonth()))).toBe('abc');
+  });
+
+  it('rejects a forged or altered cookie', () => {
+    const [, expires, signature] = signSessionCookie('abc', inAMonth()).split('.');
+
+    expect(verifySessionCookie(`xyz.${expires}.${signature}`)).toBeNull();
+    expect(verifySessionCookie('puplabsco.myshopify.com')).toBeNull();
+  });
+
+  it('rejects an expired cookie', () => {
+    const cookie = signSessionCookie('abc', new Date('2026-01-01T00:00:00Z'));
+
+    expect(verifySessionCookie(cookie, new Date('2026-01-02T00:00:00Z'))).toBeNull();
+  });
+
+  it('accepts cookies signed with the previous secret during a rotation', () => {
+    const cookie = signSessionCookie('abc', inAMonth());
+    process.env.SESSION_SECRET = 'next-secret';
+    process.env.SESSION_SECRET_PREVIOUS = 'current-secret';
+
+    expect(verifySessionCookie(cookie)).toBe('abc');
+  });
+});
+
+describe('getShopSession', () => {
+  it('ignores the old bare-domain cookie', async () => {
+    cookieJar.set('puplabs_shop', shop.domain);
+
+    expect(await getShopSession()).toBeNull();
+    expect(prisma.shopSession.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('returns the shop with its decrypted token for a live session row', async () => {
+    await setShopSession(shop.id);
+    const { id, expiresAt } = vi.mocked(prisma.shopSession.create).mock.calls[0][0].data;
+    vi.mocked(prisma.shopSession.findUnique).mockResolvedValue(
+      { id, shopId: shop.id, accountId: 'account_1', expiresAt, createdAt: new Date(), shop } as never
+    );
+
+    expect(await getShopSession()).toEqual({
+      shop: shop.domain,
+      accessToken: 'shpat_abc123',
+      shopId: shop.id,
+      timezone: shop.timezone,
+      money: { currency: 'GBP', moneyFormat: '£{{amount}}', locale: 'en-GB' },
+      sessionId: id,
+      accountId: 'account_1',
+    });
+  });
+
+  it('returns null once the session row has been revoked', async () => {
+    await setShopSession(shop.id);
+    vi.mocked(prisma.shopSession.findUnique).mockResolvedValue(null);
+
+    expect(await getShopSession()).toBeNull();
+  });
+});
+
+describe('setShopSession', () => {
+  it('creates an account for a browser that is not signed in', async () => {
+    await setShopSession(shop.id);
+
+    expect(linkShopToAccount).toHaveBeenCalledWith(null, shop.id);
+    expect(vi.mocked(prisma.shopSession.create).mock.calls[0][0].data.accountId).toBe('account_1');
+  });
+
+  it('links another store to the signed-in account and replaces the old session', async () => {
+    await setShopSession(shop.id);
+    const first = vi.mocked(prisma.shopSession.create).mock.calls[0][0].data;
+    vi.mocked(prisma.shopSession.findUnique).mockResolvedValue(
+      { ...first, createdAt: new Date(), shop } as never
+    );
+
+    await setShopSession('shop_ca');
+
+    expect(linkShopToAccount).toHaveBeenLastCalledWith('account_1', 'shop_ca');
+    const second = vi.mocked(prisma.shopSession.create).mock.calls[1][0].data;
+    expect(second).toMatchObject({ shopId: 'shop_ca', accountId: 'account_1' });
+    expect(second.id).not.toBe(first.id);
+    expect(vi.mocked(prisma.shopSession.deleteMany).mock.calls[1][0]!.where!.OR).toContainEqual({ id: first.id });
+  });
+});
+
+describe('getShopSession in embedded mode', () => {
+  it('uses the shop from a valid session token instead of the cookie', async () => {
+    requestHeaders.set('authorization', 'Bearer valid-token');
+    vi.mocked(prisma.shop.findUnique).mockResolvedValue(shop as never);
+
+    expect(await getShopSession()).toMatchObject({ shop: shop.domain, accessToken: 'shpat_abc123' });
+    expect(prisma.shopSession.findUnique).not.toHaveBeenCalled();
+    expect(exchangeSessionToken).not.toHaveBeenCalled();
+  });
+
+  it('installs a shop it has not seen by token exchange', async () => {
+    requestHeaders.set('authorization', 'Bearer valid-token');
+    const token = { access_token: 'shpat_new', scope: 'read_reports' };
+    vi.mocked(prisma.shop.findUnique).mockResolvedValue(null);
+    vi.mocked(exchangeSessionToken).mockResolvedValue(token);
+    vi.mocked(installShop).mockResolvedValue({ ...shop, accessToken: 'enc:shpat_new' } as never);
+
+    expect(await getShopSession()).toMatchObject({ shop: shop.domain, accessToken: 'shpat_new' });
+    expect(exchangeSessionToken).toHaveBeenCalledWith(shop.domain, 'valid-token');
+    expect(installShop).toHaveBeenCalledWith(shop.domain, token);
+  });
+
+  it('rejects an invalid session token without falling back to the cookie', async () => {
+    requestHeaders.set('authorization', 'Bearer forged-token');
+    await setShopSession(shop.id);
+
+    expect(await getShopSession()).toBeNull();
+    expect(prisma.shopSession.findUnique).not.toHaveBeenCalled();
+  });
+});
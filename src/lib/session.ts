@@ -1,35 +1,174 @@
-import { cookies } from 'next/headers';
+import crypto from 'crypto';
+import { cookies, headers } from 'next/headers';
 import { prisma } from './prisma';
+import { decryptToken, safeEqual } from './encryption';
+import { installShop } from './install';
+import { linkShopToAccount } from './accounts';
+import { shopMoney } from './money';
+import { exchangeSessionToken } from './shopify';
+import { verifySessionToken } from './session-token';
 
-const SESSION_COOKIE = 'puplabs_shop';
+const SESSION_COOKIE = 'puplabs_session';
+const LEGACY_COOKIE = 'puplabs_shop'; // bare shop domain, no longer trusted
+const SESSION_TTL_SECONDS = 60 * 60 * 24 * 30; // 30 days
 
-export async function getShopSession() {
+// SESSION_SECRET signs new cookies; SESSION_SECRET_PREVIOUS is still accepted
+// so rotating the secret doesn't sign everyone out
+function sessionSecrets(): string[] {
+  const secrets = [process.env.SESSION_SECRET, process.env.SESSION_SECRET_PREVIOUS].filter(
+    (s): s is string => !!s
+  );
+  if (secrets.length === 0) throw new Error('SESSION_SECRET is not set');
+  return secrets;
+}
+
+function sign(payload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+// Cookie value: <session id>.<expiry, unix seconds>.<HMAC of both>
+export function signSessionCookie(sessionId: string, expiresAt: Date): string {
+  const payload = `${sessionId}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  return `${payload}.${sign(payload, sessionSecrets()[0])}`;
+}
+
+// The session id from a cookie value, or null if it is forged or expired
+export function verifySessionCookie(value: string, now = new Date()): string | null {
+  const [sessionId, expires, signature] = value.split('.');
+  if (!sessionId || !expires || !signature) return null;
+
+  const payload = `${sessionId}.${expires}`;
+  const valid = sessionSecrets().some(secret => safeEqual(sign(payload, secret), signature));
+
+  if (!valid || parseInt(expires, 10) * 1000 <= now.getTime()) return null;
+  return sessionId;
+}
+
+// The signed-in session row behind the request's cookie, if it is still valid
+async function findCookieSession() {
   const cookieStore = await cookies();
-  const shopDomain = cookieStore.get(SESSION_COOKIE)?.value;
+  const value = cookieStore.get(SESSION_COOKIE)?.value;
+  if (!value) return null;
 
-  if (!shopDomain) return null;
+  const sessionId = verifySessionCookie(value);
+  if (!sessionId) return null;
 
-  const shop = await prisma.shop.findUnique({
-    where: { domain: shopDomain },
+  const session = await prisma.shopSession.findUnique({
+    where: { id: sessionId },
+    include: { shop: true },
   });
 
-  if (!shop) return null;
+  if (!session || session.expiresAt <= new Date()) return null;
+  return session;
+}
+
+// The shop an API request is for. Embedded requests carry an App Bridge session
+// token; standalone ones the signed session cookie.
+export async function getShopSession() {
+  const authorization = (await headers()).get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return getEmbeddedSession(authorization.slice('Bearer '.length));
+  }
+
+  const session = await findCookieSession();
+  if (!session) return null;
 
+  const { shop } = session;
   return {
     shop: shop.domain,
-    accessToken: shop.accessToken,
+    // The staff member's online token when there is one, else the store's
+    accessToken: decryptToken(session.accessToken ?? shop.accessToken),
     shopId: shop.id,
     timezone: shop.timezone,
+    money: shopMoney(shop),
+    sessionId: session.id,
+    accountId: session.accountId,
   };
 }
 
-export async function setShopSession(shopDomain: string) {
+export interface OnlineAccess {
+  accessToken: string; // already encrypted
+  expiresAt: Date;
+  userId: number;
+  userEmail: string;
+}
+
+// A valid session token proves the staff member is signed in to that shop's
+// admin. The first time a shop is seen (or after it uninstalled and came back)
+// its offline token is fetched by token exchange.
+async function getEmbeddedSession(sessionToken: string) {
+  const verified = verifySessionToken(sessionToken);
+  if (!verified) return null;
+
+  const { shop } = verified;
+  let shopRecord = await prisma.shop.findUnique({ where: { domain: shop } });
+  if (!shopRecord) {
+    console.log(`[Session] Installing ${shop} by token exchange`);
+    shopRecord = await installShop(shop, await exchangeSessionToken(shop, sessionToken));
+  }
+
+  return {
+    shop: shopRecord.domain,
+    accessToken: decryptToken(shopRecord.accessToken),
+    shopId: shopRecord.id,
+    timezone: shopRecord.timezone,
+    money: shopMoney(shopRecord),
+    // Embedded sessions live inside one store's admin; there is nothing to switch
+    sessionId: null,
+    accountId: null,
+  };
+}
+
+// Start a session for a shop that just completed OAuth. A session on an online
+// token ends when the token does. A browser that is already signed in keeps
+// its account, which gains the new shop; the old session row is replaced.
+export async function setShopSession(shopId: string, online?: OnlineAccess) {
+  const previous = await findCookieSession();
+  const accountId = await linkShopToAccount(previous?.accountId ?? null, shopId);
+
+  const sessionId = crypto.randomBytes(24).toString('base64url');
+  const maxExpiry = new Date(Date.now() + SESSION_TTL_SECONDS * 1000);
+  const expiresAt = online && online.expiresAt < maxExpiry ? online.expiresAt : maxExpiry;
+
+  await prisma.shopSession.create({
+    data: {
+      id: sessionId,
+      shopId,
+      accountId,
+      expiresAt,
+      ...(online && {
+        accessToken: online.accessToken,
+        userId: BigInt(online.userId),
+        userEmail: online.userEmail,
+      }),
+    },
+  });
+  // Expired sessions are only ever cleaned up here
+  await prisma.shopSession.deleteMany({
+    where: {
+      OR: [
+        { shopId, expiresAt: { lte: new Date() } },
+        ...(previous ? [{ id: previous.id }] : []),
+      ],
+    },
+  });
+
   const cookieStore = await cookies();
-  cookieStore.set(SESSION_COOKIE, shopDomain, {
+  cookieStore.set(SESSION_COOKIE, signSessionCookie(sessionId, expiresAt), {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
     sameSite: 'lax',
-    maxAge: 60 * 60 * 24 * 30, // 30 days
+    maxAge: Math.floor((expiresAt.getTime() - Date.now()) / 1000),
     path: '/',
   });
+  cookieStore.delete(LEGACY_COOKIE);
+}
+
+// Point a signed-in session at another store on its account. Online tokens
+// belong to the store they were issued for, so any on the session is dropped.
+export async function switchSessionShop(sessionId: string, shopId: string) {
+  await prisma.shopSession.update({
+    where: { id: sessionId },
+    data: { shopId, accessToken: null, userId: null, userEmail: null },
+  });
 }
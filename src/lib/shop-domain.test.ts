@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeShopDomain } from './shop-domain';
+
+describe('normalizeShopDomain', () => {
+  it('accepts a myshopify hostname in any case', () => {
+    expect(normalizeShopDomain('PupLabsCo.myshopify.com')).toBe('puplabsco.myshopify.com');
+  });
+
+  it('completes a bare store name and strips a pasted URL', () => {
+    expect(normalizeShopDomain('puplabsco')).toBe('puplabsco.myshopify.com');
+    expect(normalizeShopDomain('https://puplabsco.myshopify.com/admin/apps')).toBe('puplabsco.myshopify.com');
+  });
+
+  it('rejects hosts that only end in myshopify.com', () => {
+    expect(normalizeShopDomain('evil.com/.myshopify.com')).toBeNull();
+    expect(normalizeShopDomain('evil.com?.myshopify.com')).toBeNull();
+    expect(normalizeShopDomain('a.b.myshopify.com')).toBeNull();
+    expect(normalizeShopDomain('-store.myshopify.com')).toBeNull();
+  });
+
+  it('rejects custom domains and empty input', () => {
+    expect(normalizeShopDomain('shop.puplabs.com')).toBeNull();
+    expect(normalizeShopDomain('')).toBeNull();
+    expect(normalizeShopDomain(null)).toBeNull();
+  });
+});
@@ -0,0 +1,22 @@
+// Shop domain validation, shared by the connect form and the OAuth routes
+
+// What Shopify allows for a store's permanent *.myshopify.com hostname
+const SHOP_DOMAIN_PATTERN = /^[a-z0-9][a-z0-9-]*\.myshopify\.com$/;
+
+// Lower-cased myshopify hostname for what a merchant typed or Shopify sent
+// (`store`, `Store.myshopify.com`, `https://store.myshopify.com/admin`), or
+// null when it isn't one. Custom domains are rejected: OAuth only runs
+// against the myshopify hostname.
+export function normalizeShopDomain(input: string | null | undefined): string | null {
+  if (!input) return null;
+
+  let host = input.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '');
+  if (host && !host.includes('.')) host = `${host}.myshopify.com`;
+
+  return SHOP_DOMAIN_PATTERN.test(host) ? host : null;
+}
+
+// Short name for a store in the UI: `puplabs-ca.myshopify.com` → `puplabs-ca`
+export function storeLabel(shop: string): string {
+  return shop.replace(/\.myshopify\.com$/, '');
+}
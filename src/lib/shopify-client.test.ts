@@ -0,0 +1,231 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  ShopifyApiError,
+  backoffDelay,
+  describeShopifyFailure,
+  shopifyFetch,
+  shopifyGraphQLRequest,
+} from './shopify-client';
+import { TimeoutError } from './timeout';
+
+// Each test talks to its own shop so queue state never leaks between tests
+let shopCounter = 0;
+function nextShop() {
+  return `client-test-${++shopCounter}.myshopify.com`;
+}
+
+function reply(status: number, body: unknown = {}, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+let fetchSpy: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  fetchSpy = vi.fn();
+  vi.stubGlobal('fetch', fetchSpy);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('shopifyFetch', () => {
+  it('waits for Retry-After before retrying a 429', async () => {
+    fetchSpy
+      .mockResolvedValueOnce(reply(429, { errors: 'Throttled' }, { 'Retry-After': '2.0' }))
+      .mockResolvedValueOnce(reply(200, { ok: true }));
+
+    const request = shopifyFetch(nextShop(), 'https://shop/admin/api/x.json');
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await (await request).json()).toEqual({ ok: true });
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries server errors and gives up after five attempts', async () => {
+    fetchSpy.mockImplementation(async () => reply(503, { errors: 'Unavailable' }));
+
+    const request = shopifyFetch(nextShop(), 'https://shop/admin/api/x.json');
+    const assertion = expect(request).rejects.toMatchObject({ status: 503, retryable: true });
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(fetchSpy).toHaveBeenCalledTimes(5);
+  });
+
+  it('retries network errors', async () => {
+    fetchSpy
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(reply(200));
+
+    const request = shopifyFetch(nextShop(), 'https://shop/admin/api/x.json');
+    await vi.runAllTimersAsync();
+
+    expect((await request).status).toBe(200);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry client errors', async () => {
+    fetchSpy.mockResolvedValue(reply(404, { errors: 'Not Found' }));
+
+    const error = await shopifyFetch(nextShop(), 'https://shop/admin/api/x.json').catch(err => err);
+
+    expect(error).toBeInstanceOf(ShopifyApiError);
+    expect(error).toMatchObject({ code: 'upstream', status: 404 });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('classifies a revoked token and a missing scope', async () => {
+    fetchSpy
+      .mockResolvedValueOnce(reply(401, { errors: '[API] Invalid API key or access token' }))
+      .mockResolvedValueOnce(reply(403, { errors: '[API] This action requires merchant approval for read_reports scope.' }));
+
+    const unauthorized = await shopifyFetch(nextShop(), 'https://shop/admin/api/x.json').catch(err => err);
+    const missingScope = await shopifyFetch(nextShop(), 'https://shop/admin/api/x.json').catch(err => err);
+
+    expect(unauthorized).toMatchObject({ code: 'unauthorized', status: 401 });
+    expect(missingScope).toMatchObject({ code: 'missing_scope', requiredScope: 'read_reports' });
+  });
+
+  it('runs at most four requests per shop at once', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    fetchSpy.mockImplementation(async () => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      inFlight--;
+      return reply(200);
+    });
+
+    const shop = nextShop();
+    const requests = Array.from({ length: 10 }, () => shopifyFetch(shop, 'https://shop/admin/api/x.json'));
+    await vi.runAllTimersAsync();
+    await Promise.all(requests);
+
+    expect(fetchSpy).toHaveBeenCalledTimes(10);
+    expect(maxInFlight).toBe(4);
+  });
+
+  it('slows down when the REST call limit bucket is nearly full', async () => {
+    fetchSpy.mockResolvedValueOnce(reply(200, {}, { 'X-Shopify-Shop-Api-Call-Limit': '38/40' }));
+    fetchSpy.mockResolvedValueOnce(reply(200));
+
+    const shop = nextShop();
+    await shopifyFetch(shop, 'https://shop/admin/api/x.json');
+    const next = shopifyFetch(shop, 'https://shop/admin/api/x.json');
+
+    // 8 calls over the 30-call mark drain at 2/s
+    await vi.advanceTimersByTimeAsync(3999);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await next;
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('shopifyGraphQLRequest', () => {
+  const throttleStatus = (currentlyAvailable: number) => ({
+    cost: {
+      requestedQueryCost: 100,
+      throttleStatus: { maximumAvailable: 1000, currentlyAvailable, restoreRate: 50 },
+    },
+  });
+
+  it('waits for the cost bucket to refill after a THROTTLED error', async () => {
+    fetchSpy
+      .mockResolvedValueOnce(reply(200, {
+        errors: [{ message: 'Throttled', extensions: { code: 'THROTTLED' } }],
+        extensions: throttleStatus(0),
+      }))
+      .mockResolvedValueOnce(reply(200, { data: { shop: { name: 'PupLabs' } }, extensions: throttleStatus(900) }));
+
+    const request = shopifyGraphQLRequest(nextShop(), 'token', '{ shop { name } }', {}, { apiVersion: '2025-01' });
+
+    // 100 points short at 50 points/s
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(await request).toEqual({ shop: { name: 'PupLabs' } });
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws other GraphQL errors without retrying', async () => {
+    fetchSpy.mockResolvedValue(reply(200, { errors: [{ message: 'Field does not exist' }] }));
+
+    const request = shopifyGraphQLRequest(nextShop(), 'token', '{ nope }', {}, { apiVersion: '2025-01' });
+
+    await expect(request).rejects.toMatchObject({ code: 'upstream', details: ['Field does not exist'] });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports ACCESS_DENIED as a missing scope', async () => {
+    fetchSpy.mockResolvedValue(reply(200, {
+      errors: [{
+        message: 'Access denied for shopifyqlQuery field. Required access: `read_reports` access scope.',
+        extensions: { code: 'ACCESS_DENIED' },
+      }],
+    }));
+
+    const request = shopifyGraphQLRequest(nextShop(), 'token', '{ shopifyqlQuery }', {}, { apiVersion: '2026-01' });
+
+    await expect(request).rejects.toMatchObject({ code: 'missing_scope', requiredScope: 'read_reports' });
+  });
+});
+
+describe('backoffDelay', () => {
+  it('doubles the window each attempt, with jitter in its upper half', () => {
+    expect(backoffDelay(0, () => 0)).toBe(250);
+    expect(backoffDelay(0, () => 1)).toBe(500);
+    expect(backoffDelay(2, () => 0)).toBe(1000);
+    expect(backoffDelay(2, () => 1)).toBe(2000);
+  });
+
+  it('is capped at ten seconds', () => {
+    expect(backoffDelay(20, () => 1)).toBe(10000);
+  });
+});
+
+describe('describeShopifyFailure', () => {
+  const shop = 'puplabsco.myshopify.com';
+
+  it('asks for re-authorisation with the missing scope', () => {
+    const error = new ShopifyApiError('missing_scope', 'denied', 200, { requiredScope: 'read_reports' });
+
+    expect(describeShopifyFailure(error, shop)).toEqual({
+      status: 502,
+      body: expect.objectContaining({
+        code: 'missing_scope',
+        requiredScope: 'read_reports',
+        action: expect.stringContaining('read_reports'),
+        reconnectUrl: '/api/auth?shop=puplabsco.myshopify.com',
+      }),
+    });
+  });
+
+  it('passes ShopifyQL parse errors through as details', () => {
+    const error = new ShopifyApiError('parse_error', 'parse error', 200, { details: ['Unknown column "foo"'] });
+
+    expect(describeShopifyFailure(error, shop)?.body).toMatchObject({
+      code: 'parse_error',
+      details: ['Unknown column "foo"'],
+    });
+  });
+
+  it('treats a route timeout as a Shopify timeout', () => {
+    expect(describeShopifyFailure(new TimeoutError('ShopifyQL queries', 60000), shop)).toMatchObject({
+      status: 504,
+      body: { code: 'timeout' },
+    });
+  });
+
+  it('ignores errors that did not come from Shopify', () => {
+    expect(describeShopifyFailure(new Error('boom'), shop)).toBeNull();
+  });
+});
@@ -0,0 +1,366 @@
+// Every Admin API request goes through here. Requests are queued per shop with
+// bounded concurrency, paced by the rate-limit state Shopify reports (the REST
+// X-Shopify-Shop-Api-Call-Limit header and GraphQL extensions.cost), and
+// retried with jittered exponential backoff on 429s, 5xx and network errors.
+import { shopifyBaseUrl } from './shopify-transport';
+import { TimeoutError } from './timeout';
+import { ApiErrorBody, ShopifyErrorCode } from '@/types';
+
+const FETCH_TIMEOUT = 30000; // 30 seconds per individual API call
+const MAX_CONCURRENT_PER_SHOP = 4;
+const MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 10000;
+const REST_LEAK_RATE = 2; // calls per second drained from the REST bucket
+const REST_HEADROOM = 0.75; // pause once the REST bucket is this full
+const GRAPHQL_HEADROOM = 0.1; // keep this share of GraphQL cost points in reserve
+
+export class ShopifyApiError extends Error {
+  readonly retryable: boolean;
+  readonly details: string[];
+  readonly requiredScope: string | null;
+
+  constructor(
+    public readonly code: ShopifyErrorCode,
+    message: string,
+    public readonly status: number, // 0 for network errors and timeouts
+    { retryable = false, details = [], requiredScope = null }: {
+      retryable?: boolean;
+      details?: string[];
+      requiredScope?: string | null;
+    } = {}
+  ) {
+    super(message);
+    this.name = 'ShopifyApiError';
+    this.retryable = retryable;
+    this.details = details;
+    this.requiredScope = requiredScope;
+  }
+}
+
+interface GraphQLThrottleStatus {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+}
+
+interface GraphQLResponse<T> {
+  data?: T;
+  errors?: { message: string; extensions?: { code?: string } }[];
+  extensions?: {
+    cost?: {
+      requestedQueryCost: number;
+      throttleStatus: GraphQLThrottleStatus;
+    };
+  };
+}
+
+// ============================================================
+// PER-SHOP QUEUE
+// ============================================================
+
+interface ShopState {
+  active: number;
+  waiting: (() => void)[];
+  pausedUntil: number; // epoch ms; no request starts before this
+}
+
+const shops = new Map<string, ShopState>();
+
+function shopState(shop: string): ShopState {
+  let state = shops.get(shop);
+  if (!state) {
+    state = { active: 0, waiting: [], pausedUntil: 0 };
+    shops.set(shop, state);
+  }
+  return state;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function pauseShop(state: ShopState, ms: number) {
+  state.pausedUntil = Math.max(state.pausedUntil, Date.now() + ms);
+}
+
+async function acquire(state: ShopState): Promise<void> {
+  if (state.active < MAX_CONCURRENT_PER_SHOP) {
+    state.active++;
+  } else {
+    // release() hands its slot straight to us, so active stays the same
+    await new Promise<void>(resolve => state.waiting.push(resolve));
+  }
+
+  // Re-check after each sleep: another response may have extended the pause
+  while (state.pausedUntil > Date.now()) {
+    await sleep(state.pausedUntil - Date.now());
+  }
+}
+
+function release(state: ShopState) {
+  const next = state.waiting.shift();
+  if (next) {
+    next();
+  } else {
+    state.active--;
+  }
+}
+
+// ============================================================
+// RATE-LIMIT SIGNALS
+// ============================================================
+
+// "32/40" → pause long enough for the bucket to drain back under the headroom mark
+function applyCallLimit(state: ShopState, header: string | null) {
+  const match = header?.match(/^(\d+)\/(\d+)$/);
+  if (!match) return;
+
+  const used = Number(match[1]);
+  const limit = Number(match[2]);
+  const excess = used - limit * REST_HEADROOM;
+  if (excess > 0) pauseShop(state, (excess / REST_LEAK_RATE) * 1000);
+}
+
+// Pause until enough cost points are restored for a request like this one
+function applyThrottleStatus(state: ShopState, requestedCost: number, status: GraphQLThrottleStatus) {
+  const needed = Math.max(requestedCost, status.maximumAvailable * GRAPHQL_HEADROOM);
+  const shortfall = needed - status.currentlyAvailable;
+  if (shortfall > 0 && status.restoreRate > 0) {
+    pauseShop(state, (shortfall / status.restoreRate) * 1000);
+  }
+}
+
+// Retry-After is seconds, possibly fractional ("2.0")
+function parseRetryAfter(header: string | null): number | null {
+  const seconds = header ? parseFloat(header) : NaN;
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : null;
+}
+
+// Exponential with "equal jitter": half the window fixed, half random
+export function backoffDelay(attempt: number, random = Math.random): number {
+  const window = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return window / 2 + random() * (window / 2);
+}
+
+// Shopify names the missing scope in its error text: "...requires merchant
+// approval for read_reports scope" or "Required access: `read_reports` access scope"
+function findScope(text: string): string | null {
+  return text.match(/\b((?:read|write)_[a-z_]+)\b/)?.[1] ?? null;
+}
+
+function httpError(status: number, body: string): ShopifyApiError {
+  const message = `Shopify API error ${status}: ${body}`;
+  if (status === 429) return new ShopifyApiError('throttled', message, status, { retryable: true });
+  if (status === 401) return new ShopifyApiError('unauthorized', message, status);
+  if (status === 403) {
+    const scope = findScope(body);
+    return scope
+      ? new ShopifyApiError('missing_scope', message, status, { requiredScope: scope })
+      : new ShopifyApiError('unauthorized', message, status);
+  }
+  return new ShopifyApiError('upstream', message, status, { retryable: status >= 500 });
+}
+
+function graphQLError(status: number, errors: NonNullable<GraphQLResponse<unknown>['errors']>): ShopifyApiError {
+  const message = `Shopify GraphQL error: ${JSON.stringify(errors)}`;
+  const details = errors.map(e => e.message);
+  const denied = errors.find(e => e.extensions?.code === 'ACCESS_DENIED');
+  if (denied) {
+    return new ShopifyApiError('missing_scope', message, status, { details, requiredScope: findScope(denied.message) });
+  }
+  return new ShopifyApiError('upstream', message, status, { details });
+}
+
+// ============================================================
+// REQUESTS
+// ============================================================
+
+async function attemptFetch(url: string, init: RequestInit, timeout: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      // Timeouts are not retried: the caller's own budget would run out first
+      throw new ShopifyApiError('timeout', `Shopify API request timed out after ${timeout}ms`, 0);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ShopifyApiError('upstream', `Shopify API request failed: ${message}`, 0, { retryable: true });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Fetch a Shopify URL for `shop`, retrying throttled and failed attempts.
+// Resolves with the first OK response; throws ShopifyApiError otherwise.
+export async function shopifyFetch(
+  shop: string,
+  url: string,
+  init: RequestInit = {},
+  { timeout = FETCH_TIMEOUT }: { timeout?: number } = {}
+): Promise<Response> {
+  const state = shopState(shop);
+
+  for (let attempt = 0; ; attempt++) {
+    let retryAfter: number | null = null;
+    let error: ShopifyApiError;
+
+    await acquire(state);
+    try {
+      const response = await attemptFetch(url, init, timeout);
+      applyCallLimit(state, response.headers.get('X-Shopify-Shop-Api-Call-Limit'));
+
+      if (response.ok) return response;
+
+      retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      if (response.status === 429) {
+        pauseShop(state, retryAfter ?? backoffDelay(attempt));
+      }
+      error = httpError(response.status, await response.text());
+    } catch (err) {
+      if (!(err instanceof ShopifyApiError)) throw err;
+      error = err;
+    } finally {
+      release(state);
+    }
+
+    if (!error.retryable || attempt + 1 >= MAX_ATTEMPTS) throw error;
+
+    const delay = Math.max(retryAfter ?? 0, backoffDelay(attempt));
+    console.warn(`[ShopifyClient] ${shop}: ${error.message.slice(0, 120)} — retry ${attempt + 1}/${MAX_ATTEMPTS - 1} in ${Math.round(delay)}ms`);
+    await sleep(delay);
+  }
+}
+
+// POST a GraphQL query and return `data`. THROTTLED errors are retried once the
+// cost bucket has refilled; any other GraphQL error is thrown.
+export async function shopifyGraphQLRequest<T>(
+  shop: string,
+  accessToken: string,
+  query: string,
+  variables: Record<string, unknown>,
+  { apiVersion, timeout }: { apiVersion: string; timeout?: number }
+): Promise<T> {
+  const state = shopState(shop);
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await shopifyFetch(shop, `${shopifyBaseUrl(shop)}/admin/api/${apiVersion}/graphql.json`, {
+      method: 'POST',
+      headers: {
+        'X-Shopify-Access-Token': accessToken,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ query, variables }),
+    }, { timeout });
+
+    const result: GraphQLResponse<T> = await response.json();
+    const cost = result.extensions?.cost;
+    if (cost) applyThrottleStatus(state, cost.requestedQueryCost, cost.throttleStatus);
+
+    if (!result.errors?.length) return result.data as T;
+
+    const throttled = result.errors.some(e => e.extensions?.code === 'THROTTLED');
+    if (!throttled) throw graphQLError(response.status, result.errors);
+    if (attempt + 1 >= MAX_ATTEMPTS) {
+      throw new ShopifyApiError('throttled', 'Shopify GraphQL request throttled', 429, { retryable: true });
+    }
+
+    // On top of any pause applyThrottleStatus set from the restore rate
+    pauseShop(state, backoffDelay(attempt));
+    console.warn(`[ShopifyClient] ${shop}: GraphQL throttled — retry ${attempt + 1}/${MAX_ATTEMPTS - 1}`);
+  }
+}
+
+// ============================================================
+// ERROR RESPONSES
+// ============================================================
+
+// What to tell the merchant when a Shopify call has failed for good, as an
+// HTTP status and ApiErrorBody. Null for errors that did not come from Shopify.
+export function describeShopifyFailure(
+  error: unknown,
+  shop: string
+): { status: number; body: ApiErrorBody } | null {
+  if (error instanceof TimeoutError) {
+    return {
+      status: 504,
+      body: {
+        error: 'Shopify took too long to respond.',
+        code: 'timeout',
+        action: 'Try a shorter date range or fewer URLs.',
+      },
+    };
+  }
+  if (!(error instanceof ShopifyApiError)) return null;
+
+  const reconnectUrl = `/api/auth?shop=${encodeURIComponent(shop)}`;
+  const details = error.details.length > 0 ? error.details : undefined;
+
+  switch (error.code) {
+    case 'unauthorized':
+      return {
+        status: 502,
+        body: {
+          error: 'Shopify rejected the app\'s access token.',
+          code: error.code,
+          action: 'Reconnect your store to authorise the app again.',
+          reconnectUrl,
+        },
+      };
+    case 'missing_scope': {
+      const scope = error.requiredScope || 'the required';
+      return {
+        status: 502,
+        body: {
+          error: `The app does not have the ${scope} permission for this store.`,
+          code: error.code,
+          action: `Re-authorise the app with ${scope} by reconnecting your store.`,
+          details,
+          ...(error.requiredScope && { requiredScope: error.requiredScope }),
+          reconnectUrl,
+        },
+      };
+    }
+    case 'throttled':
+      return {
+        status: 502,
+        body: {
+          error: 'Shopify is rate limiting requests for this store.',
+          code: error.code,
+          action: 'Wait a minute and try again, or compare fewer pages at once.',
+        },
+      };
+    case 'parse_error':
+      return {
+        status: 502,
+        body: {
+          error: 'Shopify could not run the analytics query.',
+          code: error.code,
+          action: 'This usually follows a Shopify API change. Please report it with the details below.',
+          details,
+        },
+      };
+    case 'timeout':
+      return {
+        status: 504,
+        body: {
+          error: 'Shopify took too long to respond.',
+          code: error.code,
+          action: 'Try a shorter date range or fewer URLs.',
+        },
+      };
+    case 'upstream':
+      return {
+        status: 502,
+        body: {
+          error: error.status ? `Shopify returned an error (${error.status}).` : 'Could not reach Shopify.',
+          code: error.code,
+          action: 'Shopify may be having problems. Try again in a few minutes.',
+          details,
+        },
+      };
+  }
+}
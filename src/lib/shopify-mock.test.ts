@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_QUERY_COST, queryCost } from './shopify-mock';
+
+describe('queryCost', () => {
+  it('charges 1 per object and nothing for scalars', () => {
+    expect(queryCost('query { shop { id name ianaTimezone } }')).toBe(1);
+  });
+
+  it('charges a connection 2 plus each item it asks for', () => {
+    expect(queryCost('{ products(first: 10) { nodes { id title } } }')).toBe(12);
+    expect(queryCost('{ products(first: 10) { edges { node { id } } pageInfo { hasNextPage } } }')).toBe(12);
+  });
+
+  it('multiplies nested connections', () => {
+    const query = `query Orders($first: Int!) {
+      orders(first: $first) {
+        nodes {
+          id
+          totalPriceSet { shopMoney { amount } }
+          lineItems(first: 5) { nodes { title product { id } } }
+        }
+      }
+    }`;
+
+    // 2 + 20 × (order 1 + money 2 + line items (2 + 5 × 2))
+    expect(queryCost(query, { first: 20 })).toBe(2 + 20 * (1 + 2 + 12));
+  });
+
+  it('sizes nodes(ids:) by the ids passed', () => {
+    const query = `query ($ids: [ID!]!) { nodes(ids: $ids) { ... on Product { id metafield(key: "x") { value } } } }`;
+
+    expect(queryCost(query, { ids: ['a', 'b', 'c'] })).toBe(3 * 2);
+  });
+
+  it('ignores parentheses and braces inside string arguments', () => {
+    expect(queryCost('{ shopifyqlQuery(query: """FROM sales SHOW total_sales WHERE x IN (\'{\')""") { tableData { columns { name } } } }'))
+      .toBe(3);
+  });
+
+  it('adds 10 for a mutation', () => {
+    expect(queryCost('mutation { webhookSubscriptionCreate(topic: PRODUCTS_UPDATE) { userErrors { message } } }')).toBe(12);
+  });
+
+  it('puts a large orders page over the limit', () => {
+    const query = '{ orders(first: 250) { nodes { id lineItems(first: 50) { nodes { title } } } } }';
+
+    expect(queryCost(query)).toBeGreaterThan(MAX_QUERY_COST);
+  });
+});
@@ -0,0 +1,962 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import path from 'path';
+import { addDays, format, parseISO, startOfWeek, isValid } from 'date-fns';
+
+// Local stand-in for the parts of the Shopify Admin API this app uses:
+// OAuth authorize + token exchange, shop.json, products.json and the GraphQL
+// shopifyqlQuery, products-by-handle, orders, complementary products (nodes) and webhookSubscriptionCreate fields. Data comes from JSON fixtures; daily traffic is
+// generated from a seed so the same query always returns the same numbers.
+// GraphQL queries are costed the way Shopify does and refused over its limit.
+// Started by `npm run mock:shopify`; the app is pointed at it by SHOPIFY_MOCK_URL.
+
+export const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'shopify');
+const MOCK_TOKEN_PREFIX = 'shpat_mock_';
+const PRODUCTS_PAGE_SIZE_MAX = 250;
+const ORDERS_PAGE_SIZE_MAX = 250;
+
+interface FixtureProduct {
+  id: number;
+  title: string;
+  handle: string;
+  variants?: number[];
+  accessories?: number[]; // complementary products in Search & Discovery
+}
+
+// A slice of every page's traffic: `share` of its sessions, converting at
+// `conversionLift` × the page's rate. customerType, deviceType and
+// referrerSource are as ShopifyQL spells them.
+interface FixtureSegment {
+  id: string;
+  customerType: 'First-time' | 'Returning';
+  deviceType: string;
+  referrerSource: string;
+  country: string;
+  utmSource?: string;
+  utmMedium?: string;
+  utmCampaign?: string;
+  share: number;
+  conversionLift: number;
+}
+
+interface FixtureLandingPage {
+  path: string;
+  productId: number | null;
+  sessions: number; // average per day
+  conversionRate: number;
+  aov: number;
+}
+
+export interface ShopifyFixtures {
+  shop: Record<string, unknown>;
+  scopes: string[];
+  products: FixtureProduct[];
+  analytics: {
+    seed: string;
+    weekendLift: number;
+    segments?: FixtureSegment[];
+    landingPages: FixtureLandingPage[];
+  };
+}
+
+export function loadFixtures(dir = DEFAULT_FIXTURES_DIR): ShopifyFixtures {
+  const read = (file: string) => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+  const shop = read('shop.json');
+  return {
+    shop: shop.shop,
+    scopes: shop.scopes,
+    products: read('products.json').products,
+    analytics: read('analytics.json'),
+  };
+}
+
+// ============================================================
+// SEEDED DAILY DATA
+// ============================================================
+
+// FNV-1a → [0, 1); stable across runs and platforms
+function seededRandom(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+interface DailyFact {
+  day: string;
+  landingPagePath: string;
+  productId: number | null;
+  segment: FixtureSegment;
+  sessions: number;
+  orders: number;
+  totalSales: number;
+}
+
+const ALL_TRAFFIC: FixtureSegment = {
+  id: 'all',
+  customerType: 'First-time',
+  deviceType: 'Desktop',
+  referrerSource: 'Direct',
+  country: 'US',
+  share: 1,
+  conversionLift: 1,
+};
+
+// Split `total` in proportion to `weights`, handing the rounding remainder
+// to the largest fractions so the parts add up to `total`
+function splitTotal(total: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((a, b) => a + b, 0);
+  const exact = weights.map(w => (weightSum > 0 ? (total * w) / weightSum : 0));
+  const parts = exact.map(Math.floor);
+  const byFraction = exact.map((_, i) => i).sort((a, b) => (exact[b] - parts[b]) - (exact[a] - parts[a]));
+  let remainder = total - parts.reduce((a, b) => a + b, 0);
+  for (const i of byFraction) {
+    if (remainder-- <= 0) break;
+    parts[i]++;
+  }
+  return parts;
+}
+
+// A page's day split across the traffic segments. Sessions go by share; each
+// order picks a segment by its sessions × conversion lift, so the page's
+// totals are the same however many segments the fixtures define.
+function segmentFacts(fixtures: ShopifyFixtures, fact: Omit<DailyFact, 'segment'>): DailyFact[] {
+  const segments = fixtures.analytics.segments ?? [ALL_TRAFFIC];
+  const sessions = splitTotal(fact.sessions, segments.map(s => s.share));
+  const weights = segments.map((s, i) => sessions[i] * s.conversionLift);
+  const weightSum = weights.reduce((a, b) => a + b, 0);
+  const orders = segments.map(() => 0);
+
+  for (let i = 0; i < fact.orders && weightSum > 0; i++) {
+    let roll = seededRandom(`${fixtures.analytics.seed}|${fact.landingPagePath}|${fact.day}|order${i}|segment`) * weightSum;
+    const index = weights.findIndex(w => (roll -= w) < 0);
+    orders[index === -1 ? weights.length - 1 : index]++;
+  }
+
+  return segments.map((segment, i) => ({
+    ...fact,
+    segment,
+    sessions: sessions[i],
+    orders: orders[i],
+    totalSales: fact.orders > 0 ? Math.round((fact.totalSales * orders[i] / fact.orders) * 100) / 100 : 0,
+  }));
+}
+
+// Facts for the last few ranges asked about; paged queries ask for the same
+// range once per page
+const FACTS_CACHE_SIZE = 8;
+const factsCache = new WeakMap<ShopifyFixtures, Map<string, DailyFact[]>>();
+
+function dailyFacts(fixtures: ShopifyFixtures, since: string, until: string): DailyFact[] {
+  const cache = factsCache.get(fixtures) ?? new Map<string, DailyFact[]>();
+  factsCache.set(fixtures, cache);
+
+  const key = `${since}|${until}`;
+  let facts = cache.get(key);
+  if (!facts) {
+    facts = generateDailyFacts(fixtures, since, until);
+    if (cache.size >= FACTS_CACHE_SIZE) cache.delete(cache.keys().next().value!);
+    cache.set(key, facts);
+  }
+  return facts;
+}
+
+function generateDailyFacts(fixtures: ShopifyFixtures, since: string, until: string): DailyFact[] {
+  const { seed, weekendLift, landingPages } = fixtures.analytics;
+  const facts: DailyFact[] = [];
+
+  for (let date = parseISO(since); format(date, 'yyyy-MM-dd') <= until; date = addDays(date, 1)) {
+    const day = format(date, 'yyyy-MM-dd');
+    const weekday = date.getDay();
+    const lift = weekday === 0 || weekday === 6 ? weekendLift : 1;
+
+    for (const page of landingPages) {
+      const noise = (salt: string) => 0.75 + 0.5 * seededRandom(`${seed}|${page.path}|${day}|${salt}`);
+      const sessions = Math.round(page.sessions * lift * noise('sessions'));
+      const orders = Math.round(sessions * page.conversionRate * noise('orders'));
+      const totalSales = Math.round(orders * page.aov * noise('sales') * 100) / 100;
+      facts.push(...segmentFacts(fixtures, { day, landingPagePath: page.path, productId: page.productId, sessions, orders, totalSales }));
+    }
+  }
+
+  return facts;
+}
+
+// ============================================================
+// ORDERS
+// ============================================================
+
+// One order per order in the daily facts, each for the fact's product and
+// landing page, splitting the day's sales between them. The product line is
+// part of the cart; half the carts of products with accessories hold one, and
+// the rest of the total is an item of no particular product. A few orders are
+// cancelled, some journeys only have a first visit and some have no journey.
+// Visits carry the UTM parameters of the order's traffic segment, and orders
+// from returning segments are some way into the customer's order history.
+const PRODUCT_LINE_SHARE = 0.6;
+const ACCESSORY_LINE_SHARE = 0.25;
+
+function mockOrders(fixtures: ShopifyFixtures, shop: string, since: string, until: string) {
+  const { seed } = fixtures.analytics;
+  const orders = [];
+  const money = (amount: number) => ({ shopMoney: { amount: amount.toFixed(2) } });
+
+  for (const fact of dailyFacts(fixtures, since, until)) {
+    if (!fact.productId || fact.orders === 0) continue;
+    const product = fixtures.products.find(p => p.id === fact.productId);
+
+    for (let i = 0; i < fact.orders; i++) {
+      const key = `${seed}|${fact.landingPagePath}|${fact.day}|${fact.segment.id}|order${i}`;
+      const roll = seededRandom(key);
+      const basket = seededRandom(`${key}|basket`);
+      const landingPage = `https://${shop}${fact.landingPagePath}`;
+      const { utmSource, utmMedium, utmCampaign } = fact.segment;
+      const utmParameters = utmSource || utmMedium || utmCampaign
+        ? { source: utmSource ?? null, medium: utmMedium ?? null, campaign: utmCampaign ?? null }
+        : null;
+      const total = Math.round((fact.totalSales / fact.orders) * 100) / 100;
+      const createdAt = `${fact.day}T12:00:00Z`;
+
+      const variants = product?.variants ?? [];
+      const accessory = basket < 0.5 ? product?.accessories?.[0] : undefined;
+      const productLine = Math.round(total * PRODUCT_LINE_SHARE * 100) / 100;
+      const accessoryLine = accessory ? Math.round(total * ACCESSORY_LINE_SHARE * 100) / 100 : 0;
+      const line = (productId: number | null, variantId: number | null, title: string, amount: number) => ({
+        title,
+        variantTitle: null,
+        quantity: 1,
+        originalUnitPriceSet: money(amount),
+        product: productId ? { id: `gid://shopify/Product/${productId}` } : null,
+        variant: variantId ? { id: `gid://shopify/ProductVariant/${variantId}` } : null,
+      });
+
+      orders.push({
+        id: `gid://shopify/Order/${5000000000000 + orders.length}`,
+        createdAt,
+        cancelledAt: roll < 0.03 ? createdAt : null,
+        displayFinancialStatus: 'PAID',
+        sourceName: 'web',
+        tags: [],
+        totalPriceSet: money(total),
+        customerJourneySummary: roll < 0.08 ? null : {
+          customerOrderIndex: fact.segment.customerType === 'Returning'
+            ? 1 + Math.floor(seededRandom(`${key}|history`) * 5)
+            : 0,
+          firstVisit: { landingPage, utmParameters },
+          lastVisit: roll < 0.4 ? null : { landingPage, utmParameters },
+        },
+        lineItems: {
+          nodes: [
+            line(fact.productId, variants[Math.floor(basket * variants.length)] ?? null, product?.title ?? 'Unknown product', productLine),
+            ...(accessory ? [line(accessory, null, 'Accessory', accessoryLine)] : []),
+            line(null, null, 'Other item', Math.round((total - productLine - accessoryLine) * 100) / 100),
+          ],
+        },
+      });
+    }
+  }
+
+  return orders.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// ============================================================
+// SHOPIFYQL
+// ============================================================
+
+interface Dataset {
+  dimensions: Record<string, (fact: DailyFact, products: Map<number, FixtureProduct>) => string | number | null>;
+  metrics: Record<string, (facts: DailyFact[]) => number>;
+  include: (fact: DailyFact) => boolean;
+}
+
+const sum = (facts: DailyFact[], field: 'sessions' | 'orders' | 'totalSales') =>
+  facts.reduce((total, f) => total + f[field], 0);
+
+const TIME_DIMENSIONS: Dataset['dimensions'] = {
+  day: f => f.day,
+  week: f => format(startOfWeek(parseISO(f.day), { weekStartsOn: 1 }), 'yyyy-MM-dd'),
+  month: f => `${f.day.substring(0, 7)}-01`,
+};
+
+const SEGMENT_DIMENSIONS: Dataset['dimensions'] = {
+  customer_type: f => f.segment.customerType,
+  session_device_type: f => f.segment.deviceType,
+  referrer_source: f => f.segment.referrerSource,
+  session_country_code: f => f.segment.country,
+  utm_campaign_source: f => f.segment.utmSource ?? null,
+  utm_campaign_medium: f => f.segment.utmMedium ?? null,
+  utm_campaign_name: f => f.segment.utmCampaign ?? null,
+};
+
+const DATASETS: Record<string, Dataset> = {
+  sessions: {
+    dimensions: { ...TIME_DIMENSIONS, ...SEGMENT_DIMENSIONS, landing_page_path: f => f.landingPagePath },
+    metrics: {
+      sessions: facts => sum(facts, 'sessions'),
+      conversion_rate: facts => {
+        const sessions = sum(facts, 'sessions');
+        return sessions > 0 ? Math.round((sum(facts, 'orders') / sessions) * 10000) / 10000 : 0;
+      },
+    },
+    include: () => true,
+  },
+  sales: {
+    dimensions: {
+      ...TIME_DIMENSIONS,
+      ...SEGMENT_DIMENSIONS,
+      product_id: f => f.productId,
+      product_title: (f, products) => (f.productId ? products.get(f.productId)?.title ?? null : null),
+    },
+    metrics: {
+      orders: facts => sum(facts, 'orders'),
+      total_sales: facts => Math.round(sum(facts, 'totalSales') * 100) / 100,
+    },
+    include: f => f.productId !== null && f.orders > 0,
+  },
+};
+
+interface WhereCondition {
+  field: string;
+  operator: 'in' | 'contains';
+  values: string[];
+}
+
+interface ParsedQuery {
+  dataset: string;
+  show: string[];
+  where: WhereCondition[][] | null; // rows matching any condition of every group
+  groupBy: string[];
+  since: string;
+  until: string;
+  orderBy: { field: string; descending: boolean }[];
+  limit: number | null;
+  offset: number;
+}
+
+const QUERY_PATTERN =
+  /^FROM\s+(\w+)\s+SHOW\s+(.+?)(?:\s+WHERE\s+(.+?))?(?:\s+GROUP BY\s+(.+?))?\s+SINCE\s+(\S+)\s+UNTIL\s+(\S+)(?:\s+ORDER BY\s+(.+?))?(?:\s+LIMIT\s+(\d+)(?:\s+OFFSET\s+(\d+))?)?$/i;
+
+// One `field IN (...)`, `field = value` or `field CONTAINS value`, then OR or the end
+const CONDITION_PATTERN =
+  /(\w+)\s+(?:IN\s*\(((?:'(?:[^'\\]|\\.)*'|[^')])*)\)|(=|CONTAINS)\s*('(?:[^'\\]|\\.)*'|[^\s']+))(?:\s+OR\s+|$)/iy;
+
+function parseList(value: string): string[] {
+  return value.split(',').map(s => s.trim()).filter(Boolean);
+}
+
+function parseValues(raw: string): string[] {
+  return (raw.match(/'(?:[^'\\]|\\.)*'|[^,\s]+/g) || []).map(v =>
+    v.startsWith("'") ? v.slice(1, -1).replace(/\\(.)/g, '$1') : v
+  );
+}
+
+// Split on the ANDs outside quotes and parentheses, unwrapping groups
+// written as `(a OR b)`
+function splitAnd(clause: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+
+  for (let i = 0; i < clause.length; i++) {
+    const c = clause[i];
+    if (quoted) {
+      if (c === '\\') i++;
+      else if (c === "'") quoted = false;
+    } else if (c === "'") {
+      quoted = true;
+    } else if (c === '(') {
+      depth++;
+    } else if (c === ')') {
+      depth--;
+    } else if (depth === 0 && /^ AND /i.test(clause.slice(i, i + 5))) {
+      parts.push(clause.slice(start, i));
+      start = i + 5;
+      i += 4;
+    }
+  }
+  parts.push(clause.slice(start));
+
+  return parts.map(part => {
+    const trimmed = part.trim();
+    return trimmed.startsWith('(') && closingParen(trimmed) === trimmed.length - 1 ? trimmed.slice(1, -1).trim() : trimmed;
+  });
+}
+
+// Index of the parenthesis closing the one `text` starts with
+function closingParen(text: string): number {
+  let depth = 0;
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '\\') i++;
+      else if (c === "'") quoted = false;
+    } else if (c === "'") {
+      quoted = true;
+    } else if (c === '(') {
+      depth++;
+    } else if (c === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Supports groups of conditions joined by OR, themselves joined by AND,
+// which is all the app sends
+function parseWhere(clause: string): WhereCondition[][] | string {
+  const groups: WhereCondition[][] = [];
+  for (const part of splitAnd(clause)) {
+    const conditions = parseConditions(part);
+    if (typeof conditions === 'string') return conditions;
+    groups.push(conditions);
+  }
+  return groups;
+}
+
+function parseConditions(clause: string): WhereCondition[] | string {
+  const conditions: WhereCondition[] = [];
+  CONDITION_PATTERN.lastIndex = 0;
+
+  while (CONDITION_PATTERN.lastIndex < clause.length) {
+    const match = CONDITION_PATTERN.exec(clause);
+    if (!match) return `Unsupported WHERE clause: ${clause}`;
+
+    const [, field, list, operator, value] = match;
+    conditions.push(list !== undefined
+      ? { field, operator: 'in', values: parseValues(list) }
+      : { field, operator: operator.toUpperCase() === 'CONTAINS' ? 'contains' : 'in', values: parseValues(value) });
+  }
+
+  return conditions;
+}
+
+function parseOrderBy(clause: string): ParsedQuery['orderBy'] {
+  return parseList(clause).map(term => {
+    const [field, direction] = term.split(/\s+/);
+    return { field, descending: direction?.toUpperCase() === 'DESC' };
+  });
+}
+
+export function parseShopifyQL(query: string): ParsedQuery | { error: string } {
+  const match = query.trim().replace(/\s+/g, ' ').match(QUERY_PATTERN);
+  if (!match) {
+    return { error: 'Mock ShopifyQL could not parse the query' };
+  }
+
+  const [, dataset, show, where, groupBy, since, until, orderBy, limit, offset] = match;
+  const parsedWhere = where ? parseWhere(where) : null;
+  if (typeof parsedWhere === 'string') return { error: parsedWhere };
+
+  return {
+    dataset: dataset.toLowerCase(),
+    show: parseList(show),
+    where: parsedWhere,
+    groupBy: groupBy ? parseList(groupBy) : [],
+    since,
+    until,
+    orderBy: orderBy ? parseOrderBy(orderBy) : [],
+    limit: limit ? parseInt(limit, 10) : null,
+    offset: offset ? parseInt(offset, 10) : 0,
+  };
+}
+
+export function runMockShopifyQL(
+  fixtures: ShopifyFixtures,
+  query: string
+): { columns: { name: string; dataType: string }[]; rows: Record<string, string | number | null>[] } | { parseErrors: string[] } {
+  const parsed = parseShopifyQL(query);
+  if ('error' in parsed) return { parseErrors: [parsed.error] };
+
+  const dataset = DATASETS[parsed.dataset];
+  if (!dataset) return { parseErrors: [`Unknown dataset: ${parsed.dataset}`] };
+
+  const unknown = [
+    ...parsed.show.filter(f => !dataset.metrics[f]),
+    ...parsed.groupBy.filter(f => !dataset.dimensions[f]),
+    ...(parsed.where || []).flat().map(c => c.field).filter(f => !dataset.dimensions[f]),
+    ...parsed.orderBy.map(o => o.field).filter(f => !dataset.dimensions[f] && !dataset.metrics[f]),
+  ];
+  if (unknown.length > 0) return { parseErrors: unknown.map(f => `Unknown field: ${f}`) };
+
+  if (!isValid(parseISO(parsed.since)) || !isValid(parseISO(parsed.until))) {
+    return { parseErrors: ['SINCE and UNTIL must be dates (YYYY-MM-DD) in the mock'] };
+  }
+
+  const products = new Map(fixtures.products.map(p => [p.id, p]));
+  const where = parsed.where;
+  const matches = (fact: DailyFact) => !where || where.every(group => group.some(condition => {
+    const value = String(dataset.dimensions[condition.field](fact, products));
+    return condition.operator === 'contains'
+      ? condition.values.some(v => value.includes(v))
+      : condition.values.includes(value);
+  }));
+  const facts = dailyFacts(fixtures, parsed.since, parsed.until)
+    .filter(dataset.include)
+    .filter(matches);
+
+  const grouped = new Map<string, DailyFact[]>();
+  for (const fact of facts) {
+    const key = JSON.stringify(parsed.groupBy.map(d => dataset.dimensions[d](fact, products)));
+    const group = grouped.get(key);
+    if (group) group.push(fact);
+    else grouped.set(key, [fact]);
+  }
+
+  let rows = [...grouped.entries()].map(([key, group]) => {
+    const dimensionValues: (string | number | null)[] = JSON.parse(key);
+    const row: Record<string, string | number | null> = {};
+    parsed.groupBy.forEach((d, i) => { row[d] = dimensionValues[i]; });
+    for (const metric of parsed.show) row[metric] = dataset.metrics[metric](group);
+    return row;
+  });
+
+  if (parsed.orderBy.length > 0) {
+    rows.sort((a, b) => {
+      for (const { field, descending } of parsed.orderBy) {
+        const cmp = String(a[field] ?? '').localeCompare(String(b[field] ?? ''), undefined, { numeric: true });
+        if (cmp !== 0) return descending ? -cmp : cmp;
+      }
+      return 0;
+    });
+  }
+  rows = rows.slice(parsed.offset, parsed.limit !== null ? parsed.offset + parsed.limit : undefined);
+
+  const columns = [
+    ...parsed.groupBy.map(name => ({ name, dataType: TIME_DIMENSIONS[name] ? 'DAY_TIMESTAMP' : 'STRING' })),
+    ...parsed.show.map(name => ({ name, dataType: name === 'conversion_rate' ? 'PERCENT' : 'NUMBER' })),
+  ];
+  return { columns, rows };
+}
+
+// ============================================================
+// QUERY COST
+// ============================================================
+
+// Shopify refuses any GraphQL query whose requested cost is over this
+export const MAX_QUERY_COST = 1000;
+
+interface Selection {
+  name: string;
+  args: string;
+  children: Selection[];
+}
+
+function skipString(src: string, i: number): number {
+  if (src.startsWith('"""', i)) return src.indexOf('"""', i + 3) + 3;
+  let j = i + 1;
+  while (j < src.length && src[j] !== '"') j += src[j] === '\\' ? 2 : 1;
+  return j + 1;
+}
+
+// Index just past the ")" matching the "(" at `i`, skipping string literals
+function skipArgs(src: string, i: number): number {
+  let depth = 0;
+  while (i < src.length) {
+    if (src[i] === '"') {
+      i = skipString(src, i);
+      continue;
+    }
+    if (src[i] === '(') depth++;
+    if (src[i] === ')' && --depth === 0) return i + 1;
+    i++;
+  }
+  return i;
+}
+
+const NAME = /[_A-Za-z][_0-9A-Za-z]*/y;
+
+function readName(src: string, i: number): string | null {
+  NAME.lastIndex = i;
+  return NAME.exec(src)?.[0] ?? null;
+}
+
+function skipSpace(src: string, i: number): number {
+  while (i < src.length && /[\s,]/.test(src[i])) i++;
+  return i;
+}
+
+// The fields under the "{" at `i`. Inline fragments (... on Product) are
+// flattened into the enclosing selection.
+function parseSelectionSet(src: string, i: number): { selections: Selection[]; end: number } {
+  const selections: Selection[] = [];
+  i++;
+
+  while (i < src.length) {
+    i = skipSpace(src, i);
+    if (src[i] === '}') return { selections, end: i + 1 };
+
+    if (src.startsWith('...', i)) {
+      i = skipSpace(src, i + 3);
+      if (readName(src, i) === 'on') {
+        i = skipSpace(src, i + 2);
+        i += readName(src, i)?.length ?? 0;
+      }
+      const fragment = parseSelectionSet(src, skipSpace(src, i));
+      selections.push(...fragment.selections);
+      i = fragment.end;
+      continue;
+    }
+
+    let name = readName(src, i);
+    if (!name) return { selections, end: src.length };
+    i = skipSpace(src, i + name.length);
+    if (src[i] === ':') {
+      // An alias; the field name follows
+      i = skipSpace(src, i + 1);
+      name = readName(src, i) ?? name;
+      i = skipSpace(src, i + name.length);
+    }
+
+    let args = '';
+    if (src[i] === '(') {
+      const end = skipArgs(src, i);
+      args = src.slice(i + 1, end - 1);
+      i = skipSpace(src, end);
+    }
+
+    let children: Selection[] = [];
+    if (src[i] === '{') {
+      const set = parseSelectionSet(src, i);
+      children = set.selections;
+      i = set.end;
+    }
+
+    selections.push({ name, args, children });
+  }
+
+  return { selections, end: i };
+}
+
+// How many items a list field asks for: its first/last argument, or the
+// number of ids given to nodes(ids:)
+function listSize(field: Selection, variables: Record<string, unknown>): number | null {
+  const resolve = (value: string) => (value.startsWith('$') ? variables[value.slice(1)] : value);
+
+  const sized = field.args.match(/\b(?:first|last)\s*:\s*(\$?\w+)/);
+  if (sized) return Number(resolve(sized[1])) || 0;
+
+  const ids = field.args.match(/\bids\s*:\s*(\$\w+)/);
+  if (ids) {
+    const value = resolve(ids[1]);
+    return Array.isArray(value) ? value.length : 0;
+  }
+  return null;
+}
+
+// Scalars are free and objects cost 1; a connection costs 2 plus the items it
+// asks for times the cost of one item. `nodes` and `edges { node }` wrappers
+// and pageInfo add nothing.
+// https://shopify.dev/docs/api/usage/limits#cost-calculation
+function selectionCost(selections: Selection[], variables: Record<string, unknown>): number {
+  let cost = 0;
+
+  for (const field of selections) {
+    if (field.children.length === 0 || field.name === 'pageInfo') continue;
+
+    const itemCost = 1 + selectionCost(field.children, variables);
+    const size = listSize(field, variables);
+    if (field.name === 'nodes' && field.args) cost += (size ?? 0) * itemCost;
+    else if (size !== null) cost += 2 + size * itemCost;
+    else if (field.name === 'nodes' || field.name === 'edges' || field.name === 'node') cost += itemCost - 1;
+    else cost += itemCost;
+  }
+
+  return cost;
+}
+
+// The requested cost Shopify would charge for `query`. Mutations cost 10.
+export function queryCost(query: string, variables: Record<string, unknown> = {}): number {
+  let i = 0;
+  while (i < query.length && query[i] !== '{') {
+    if (query[i] === '(') i = skipArgs(query, i);
+    else if (query[i] === '"') i = skipString(query, i);
+    else i++;
+  }
+  if (i >= query.length) return 0;
+
+  const cost = selectionCost(parseSelectionSet(query, i).selections, variables);
+  return /^\s*mutation\b/.test(query) ? cost + 10 : cost;
+}
+
+// ============================================================
+// HTTP HANDLER
+// ============================================================
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// Same scheme Shopify uses to sign the OAuth redirect, so the callback's
+// verifyHmac accepts it when both sides share SHOPIFY_API_SECRET
+function signQuery(params: URLSearchParams, secret: string): string {
+  const message = [...params.entries()]
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+  return crypto.createHmac('sha256', secret).update(message).digest('hex');
+}
+
+function pickFields<T extends object>(item: T, fields: string | null): Partial<T> {
+  if (!fields) return item;
+  const wanted = parseList(fields);
+  return Object.fromEntries(Object.entries(item).filter(([key]) => wanted.includes(key))) as Partial<T>;
+}
+
+// Admin API responses carry the same rate-limit signals as Shopify's, reporting
+// an almost empty bucket so the client never needs to slow down on its own
+const REST_CALL_LIMIT = { 'X-Shopify-Shop-Api-Call-Limit': '1/40' };
+const GRAPHQL_THROTTLE_STATUS = { maximumAvailable: 2000, currentlyAvailable: 1990, restoreRate: 100 };
+
+function sendGraphQL(res: ServerResponse, body: object, cost: number) {
+  sendJson(res, 200, {
+    ...body,
+    extensions: { cost: { requestedQueryCost: cost, actualQueryCost: cost, throttleStatus: GRAPHQL_THROTTLE_STATUS } },
+  });
+}
+
+// The staff member every per-user (online) token is issued to
+const MOCK_STAFF_USER = {
+  id: 902541635,
+  first_name: 'Mock',
+  last_name: 'Owner',
+  email: 'owner@example.com',
+  account_owner: true,
+};
+
+export interface MockShopifyOptions {
+  throttleEvery?: number; // answer every Nth Admin API request with a 429, to exercise retries
+}
+
+export function createMockShopifyHandler(fixtures: ShopifyFixtures, { throttleEvery = 0 }: MockShopifyOptions = {}) {
+  let apiRequests = 0;
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    // First segment is the shop domain (see shopifyBaseUrl)
+    const [, shop, ...rest] = url.pathname.split('/');
+    const route = `/${rest.join('/')}`;
+    console.log(`[MockShopify] ${req.method} ${shop}${route}`);
+
+    try {
+      // OAuth: approve immediately and bounce back to the app with a signed code
+      if (req.method === 'GET' && route === '/admin/oauth/authorize') {
+        const redirectUri = url.searchParams.get('redirect_uri');
+        if (!redirectUri) return sendJson(res, 400, { errors: 'redirect_uri is required' });
+
+        // The code remembers whether a per-user (online) token was asked for
+        const online = url.searchParams.getAll('grant_options[]').includes('per-user');
+        const params = new URLSearchParams({
+          code: `mock_${online ? 'online_' : ''}${crypto.randomBytes(8).toString('hex')}`,
+          shop,
+          timestamp: String(Math.floor(Date.now() / 1000)),
+        });
+        const state = url.searchParams.get('state');
+        if (state) params.set('state', state);
+        params.set('hmac', signQuery(params, process.env.SHOPIFY_API_SECRET || ''));
+
+        res.writeHead(302, { Location: `${redirectUri}?${params}` });
+        return res.end();
+      }
+
+      if (req.method === 'POST' && route === '/admin/oauth/access_token') {
+        const body = JSON.parse((await readBody(req)) || '{}');
+        const secret = process.env.SHOPIFY_API_SECRET;
+        // Token exchange (embedded apps) trades an App Bridge session token instead of a code
+        const grant = body.grant_type === 'urn:ietf:params:oauth:grant-type:token-exchange' ? body.subject_token : body.code;
+        if (!grant || (secret && body.client_secret !== secret)) {
+          return sendJson(res, 400, { error: 'invalid_request', error_description: 'Invalid code or client credentials' });
+        }
+        const token = {
+          access_token: `${MOCK_TOKEN_PREFIX}${crypto.createHash('sha256').update(shop).digest('hex').slice(0, 24)}`,
+          scope: fixtures.scopes.join(','),
+        };
+        if (!String(grant).startsWith('mock_online_')) return sendJson(res, 200, token);
+
+        return sendJson(res, 200, {
+          ...token,
+          access_token: `${MOCK_TOKEN_PREFIX}online_${crypto.randomBytes(12).toString('hex')}`,
+          expires_in: 86399,
+          associated_user_scope: token.scope,
+          associated_user: MOCK_STAFF_USER,
+        });
+      }
+
+      // Everything below needs a token the mock issued
+      if (!String(req.headers['x-shopify-access-token'] || '').startsWith(MOCK_TOKEN_PREFIX)) {
+        return sendJson(res, 401, { errors: '[API] Invalid API key or access token (unrecognized login or wrong password)' });
+      }
+
+      apiRequests++;
+      if (throttleEvery > 0 && apiRequests % throttleEvery === 0) {
+        return sendJson(res, 429, { errors: 'Exceeded 2 calls per second for api client. Reduce request rates to resume uninterrupted service.' }, { 'Retry-After': '1.0' });
+      }
+
+      if (req.method === 'GET' && route === '/admin/oauth/access_scopes.json') {
+        return sendJson(res, 200, { access_scopes: fixtures.scopes.map(handle => ({ handle })) });
+      }
+
+      const apiRoute = route.replace(/^\/admin\/api\/[^/]+/, '');
+
+      if (req.method === 'GET' && apiRoute === '/shop.json') {
+        return sendJson(res, 200, { shop: { ...pickFields(fixtures.shop, url.searchParams.get('fields')), myshopify_domain: shop } }, REST_CALL_LIMIT);
+      }
+
+      if (req.method === 'GET' && apiRoute === '/products.json') {
+        const handle = url.searchParams.get('handle');
+        const limit = Math.min(Number(url.searchParams.get('limit')) || 50, PRODUCTS_PAGE_SIZE_MAX);
+        const offset = Number(Buffer.from(url.searchParams.get('page_info') || '', 'base64url').toString()) || 0;
+
+        const matching = fixtures.products.filter(p => !handle || p.handle === handle);
+        const page = matching.slice(offset, offset + limit);
+        const headers: Record<string, string> = { ...REST_CALL_LIMIT };
+        if (offset + limit < matching.length) {
+          const next = new URLSearchParams({ limit: String(limit), page_info: Buffer.from(String(offset + limit)).toString('base64url') });
+          headers.Link = `<${url.origin}${url.pathname}?${next}>; rel="next"`;
+        }
+
+        const fields = url.searchParams.get('fields');
+        return sendJson(res, 200, { products: page.map(p => pickFields(p, fields)) }, headers);
+      }
+
+      if (req.method === 'POST' && apiRoute === '/graphql.json') {
+        const body = JSON.parse((await readBody(req)) || '{}');
+        const query = String(body.query || '');
+        const cost = queryCost(query, body.variables ?? {});
+        const reply = (payload: object) => sendGraphQL(res, payload, cost);
+
+        if (cost > MAX_QUERY_COST) {
+          return sendJson(res, 200, {
+            errors: [{
+              message: `Query cost is ${cost}, which exceeds the single query max cost limit (${MAX_QUERY_COST}).`,
+              extensions: { code: 'MAX_COST_EXCEEDED', cost, maxCost: MAX_QUERY_COST },
+            }],
+          });
+        }
+
+        // products(query: "handle:a OR handle:b") — only handle: terms are understood
+        if (/\bproducts\s*\(/.test(query)) {
+          const handles = [...String(body.variables?.query || '').matchAll(/handle:"?([^"\s)]+)"?/g)].map(m => m[1]);
+          const nodes = fixtures.products
+            .filter(p => handles.includes(p.handle))
+            .slice(0, Number(body.variables?.first) || 50)
+            .map(p => ({ id: `gid://shopify/Product/${p.id}`, title: p.title, handle: p.handle }));
+          return reply({ data: { products: { nodes } } });
+        }
+
+        // orders(query: "created_at:>=YYYY-MM-DD created_at:<YYYY-MM-DD") — only the date range is understood
+        if (/\borders\s*\(/.test(query)) {
+          const search = String(body.variables?.query || '');
+          const since = search.match(/created_at:>=(\d{4}-\d{2}-\d{2})/)?.[1];
+          const before = search.match(/created_at:<(\d{4}-\d{2}-\d{2})/)?.[1];
+          if (!since || !before) {
+            return reply({ errors: [{ message: 'The mock orders query needs created_at:>= and created_at:< dates' }] });
+          }
+
+          const all = mockOrders(fixtures, shop, since, format(addDays(parseISO(before), -1), 'yyyy-MM-dd'));
+          const first = Math.min(Number(body.variables?.first) || 50, ORDERS_PAGE_SIZE_MAX);
+          const offset = Number(Buffer.from(String(body.variables?.after || ''), 'base64url').toString()) || 0;
+          const end = Math.min(offset + first, all.length);
+          const lineItems = Number(query.match(/\blineItems\s*\(\s*first\s*:\s*(\d+)/)?.[1]) || 50;
+          return reply({
+            data: {
+              orders: {
+                nodes: all.slice(offset, end).map(order => ({
+                  ...order,
+                  lineItems: {
+                    nodes: order.lineItems.nodes.slice(0, lineItems),
+                    pageInfo: { hasNextPage: order.lineItems.nodes.length > lineItems },
+                  },
+                })),
+                pageInfo: { hasNextPage: end < all.length, endCursor: Buffer.from(String(end)).toString('base64url') },
+              },
+            },
+          });
+        }
+
+        // nodes(ids: [...]) — only products and their complementary products metafield
+        if (/\bnodes\s*\(\s*ids\s*:/.test(query)) {
+          const ids: string[] = Array.isArray(body.variables?.ids) ? body.variables.ids : [];
+          const nodes = ids.map(gid => {
+            const product = fixtures.products.find(p => `gid://shopify/Product/${p.id}` === gid);
+            if (!product) return null;
+            return {
+              id: gid,
+              complementary: product.accessories?.length
+                ? { references: { nodes: product.accessories.map(id => ({ id: `gid://shopify/Product/${id}` })) } }
+                : null,
+            };
+          });
+          return reply({ data: { nodes } });
+        }
+
+        if (/\bwebhookSubscriptionCreate\s*\(/.test(query)) {
+          return reply({
+            data: {
+              webhookSubscriptionCreate: {
+                webhookSubscription: { id: `gid://shopify/WebhookSubscription/${crypto.randomInt(1e9)}` },
+                userErrors: [],
+              },
+            },
+          });
+        }
+
+        // Same denial Shopify gives when the token was granted without read_reports
+        if (/\bshopifyqlQuery\s*\(/.test(query) && !fixtures.scopes.includes('read_reports')) {
+          return reply({
+            data: { shopifyqlQuery: null },
+            errors: [{
+              message: 'Access denied for shopifyqlQuery field. Required access: `read_reports` access scope.',
+              extensions: { code: 'ACCESS_DENIED' },
+            }],
+          });
+        }
+
+        // shopifyqlQuery(query: $variable) or an inline """block string"""
+        const match = query.match(/shopifyqlQuery\s*\(\s*query:\s*(?:\$(\w+)|"""([\s\S]*?)""")/);
+        const shopifyql = match?.[1] ? body.variables?.[match[1]] : match?.[2];
+        if (typeof shopifyql !== 'string') {
+          return sendJson(res, 200, { errors: [{ message: 'The mock Admin API only implements shopifyqlQuery, products, orders, nodes and webhookSubscriptionCreate' }] });
+        }
+
+        const result = runMockShopifyQL(fixtures, shopifyql);
+        return reply({
+          data: {
+            shopifyqlQuery: 'parseErrors' in result
+              ? { tableData: null, parseErrors: result.parseErrors }
+              : { tableData: result, parseErrors: [] },
+          },
+        });
+      }
+
+      return sendJson(res, 404, { errors: 'Not Found' });
+    } catch (error) {
+      console.error('[MockShopify] Request failed:', error);
+      return sendJson(res, 500, { errors: 'Internal mock error' });
+    }
+  };
+}
+
+// Resolves once listening; port 0 picks a free port (handy in tests)
+export function startMockShopifyServer(
+  port: number,
+  fixtures = loadFixtures(),
+  options: MockShopifyOptions = {}
+): Promise<http.Server> {
+  const server = http.createServer(createMockShopifyHandler(fixtures, options));
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, () => resolve(server));
+  });
+}
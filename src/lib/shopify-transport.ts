@@ -0,0 +1,12 @@
+// Where Admin API and OAuth requests for a shop are sent. Normally that's the
+// store itself; with SHOPIFY_MOCK_URL set (see `npm run mock:shopify`) every
+// request goes to the local fixture server instead, with the shop domain as
+// the first path segment so the mock knows which store is being asked.
+export function shopifyBaseUrl(shop: string): string {
+  const mockUrl = process.env.SHOPIFY_MOCK_URL;
+  return mockUrl ? `${mockUrl.replace(/\/+$/, '')}/${shop}` : `https://${shop}`;
+}
+
+export function isShopifyMocked(): boolean {
+  return !!process.env.SHOPIFY_MOCK_URL;
+}
@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { canonicalizeLandingPath, extractProductHandle, landingPathKey, normalizeUrlPath, verifyHmac } from './shopify';
+
+describe('extractProductHandle', () => {
+  it('reads the handle from a product path', () => {
+    expect(extractProductHandle('/products/freedom-joint-drops')).toBe('freedom-joint-drops');
+  });
+
+  it('accepts a path without the leading slash', () => {
+    expect(extractProductHandle('products/calming-chews')).toBe('calming-chews');
+  });
+
+  it('stops at a trailing slash, query string or fragment', () => {
+    expect(extractProductHandle('/products/calming-chews/')).toBe('calming-chews');
+    expect(extractProductHandle('/products/calming-chews?variant=123')).toBe('calming-chews');
+    expect(extractProductHandle('/products/calming-chews#reviews')).toBe('calming-chews');
+  });
+
+  it('returns null for paths that are not product pages', () => {
+    expect(extractProductHandle('/')).toBeNull();
+    expect(extractProductHandle('/collections/all')).toBeNull();
+    expect(extractProductHandle('/products/')).toBeNull();
+    expect(extractProductHandle('/pages/products/calming-chews')).toBeNull();
+  });
+});
+
+describe('normalizeUrlPath', () => {
+  it('reduces a full URL to its path', () => {
+    expect(normalizeUrlPath('https://puplabs.co/products/calming-chews')).toBe('/products/calming-chews');
+  });
+
+  it('drops the query string and fragment from full URLs', () => {
+    expect(normalizeUrlPath('https://puplabs.co/products/calming-chews?utm_source=x#top')).toBe('/products/calming-chews');
+  });
+
+  it('adds a leading slash to bare paths', () => {
+    expect(normalizeUrlPath('products/calming-chews')).toBe('/products/calming-chews');
+    expect(normalizeUrlPath('/products/calming-chews')).toBe('/products/calming-chews');
+  });
+});
+
+describe('canonicalizeLandingPath', () => {
+  const canonical = '/products/freedom-joint-drops';
+
+  it('leaves a canonical product path alone', () => {
+    expect(canonicalizeLandingPath(canonical)).toBe(canonical);
+  });
+
+  it('folds trailing slashes, query strings, fragments and case', () => {
+    expect(canonicalizeLandingPath('/products/freedom-joint-drops/')).toBe(canonical);
+    expect(canonicalizeLandingPath('/products/freedom-joint-drops?utm_source=facebook')).toBe(canonical);
+    expect(canonicalizeLandingPath('/products/freedom-joint-drops#reviews')).toBe(canonical);
+    expect(canonicalizeLandingPath('/Products/Freedom-Joint-Drops')).toBe(canonical);
+  });
+
+  it('accepts full URLs', () => {
+    expect(canonicalizeLandingPath('https://puplabs.co/products/freedom-joint-drops/?variant=1')).toBe(canonical);
+  });
+
+  it('drops locale prefixes in front of storefront routes', () => {
+    expect(canonicalizeLandingPath('/en-ca/products/freedom-joint-drops')).toBe(canonical);
+    expect(canonicalizeLandingPath('/fr/products/freedom-joint-drops')).toBe(canonical);
+    expect(canonicalizeLandingPath('/en-ca')).toBe('/');
+  });
+
+  it('keeps segments that only look like locales', () => {
+    expect(canonicalizeLandingPath('/pages/en')).toBe('/pages/en');
+    expect(canonicalizeLandingPath('/us/our-story')).toBe('/us/our-story');
+  });
+
+  it('maps collection-scoped product URLs to the product', () => {
+    expect(canonicalizeLandingPath('/collections/joint-health/products/freedom-joint-drops')).toBe(canonical);
+    expect(canonicalizeLandingPath('/en-ca/collections/all/products/freedom-joint-drops/')).toBe(canonical);
+    expect(canonicalizeLandingPath('/collections/joint-health')).toBe('/collections/joint-health');
+  });
+
+  it('decodes percent-encoded handles', () => {
+    expect(canonicalizeLandingPath('/products/caf%C3%A9-chews')).toBe('/products/café-chews');
+  });
+});
+
+describe('landingPathKey', () => {
+  it('only ignores case in exact mode', () => {
+    expect(landingPathKey('/Products/Calming-Chews', 'exact')).toBe('/products/calming-chews');
+    expect(landingPathKey('/products/calming-chews/', 'exact')).toBe('/products/calming-chews/');
+    expect(landingPathKey('/collections/all/products/calming-chews', 'exact')).toBe('/collections/all/products/calming-chews');
+    expect(landingPathKey('/collections/all/products/calming-chews', 'canonical')).toBe('/products/calming-chews');
+  });
+});
+
+describe('verifyHmac', () => {
+  const secret = 'test-secret';
+  let originalSecret: string | undefined;
+
+  beforeEach(() => {
+    originalSecret = process.env.SHOPIFY_API_SECRET;
+    process.env.SHOPIFY_API_SECRET = secret;
+  });
+
+  afterEach(() => {
+    process.env.SHOPIFY_API_SECRET = originalSecret;
+  });
+
+  // Sign the way Shopify does: sorted key=value pairs joined with &
+  function signed(params: Record<string, string>, key = secret): URLSearchParams {
+    const message = Object.keys(params).sort().map(k => `${k}=${params[k]}`).join('&');
+    const hmac = crypto.createHmac('sha256', key).update(message).digest('hex');
+    return new URLSearchParams({ ...params, hmac });
+  }
+
+  const callback = { code: 'abc123', shop: 'puplabsco.myshopify.com', timestamp: '1760000000' };
+
+  it('accepts a correctly signed callback', () => {
+    expect(verifyHmac(signed(callback))).toBe(true);
+  });
+
+  it('does not depend on the order params arrive in', () => {
+    const params = signed(callback);
+    const reordered = new URLSearchParams([...params.entries()].reverse());
+
+    expect(verifyHmac(reordered)).toBe(true);
+  });
+
+  it('rejects a tampered parameter', () => {
+    const params = signed(callback);
+    params.set('shop', 'attacker.myshopify.com');
+
+    expect(verifyHmac(params)).toBe(false);
+  });
+
+  it('rejects a signature made with another secret', () => {
+    expect(verifyHmac(signed(callback, 'other-secret'))).toBe(false);
+  });
+
+  it('rejects a malformed hmac without throwing', () => {
+    const params = signed(callback);
+    params.set('hmac', 'deadbeef');
+
+    expect(() => verifyHmac(params)).not.toThrow();
+    expect(verifyHmac(params)).toBe(false);
+  });
+
+  it('rejects requests with no hmac', () => {
+    expect(verifyHmac(new URLSearchParams(callback))).toBe(false);
+  });
+
+  it('rejects everything when the app secret is not configured', () => {
+    const params = signed(callback);
+    delete process.env.SHOPIFY_API_SECRET;
+
+    expect(verifyHmac(params)).toBe(false);
+  });
+});
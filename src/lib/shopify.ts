@@ -1,8 +1,39 @@
-import { DateRange } from '@/types';
+import crypto from 'crypto';
+import { addDays, eachDayOfInterval, eachWeekOfInterval, format, parseISO, startOfWeek } from 'date-fns';
+import {
+  CustomerType,
+  DateRange,
+  DeviceType,
+  MatchedPath,
+  MoneySettings,
+  PathMatchMode,
+  ReferrerSource,
+  RevenueBasis,
+  SegmentFilters,
+  ShopifyOrder,
+  TrendGranularity,
+} from '@/types';
+import { getProductOrderData } from './calculations';
+import { safeEqual } from './encryption';
+import { DEFAULT_MONEY, formatMoney } from './money';
+import { getStoredProducts, storeProducts } from './product-handles';
+import { ShopifyApiError, shopifyFetch, shopifyGraphQLRequest } from './shopify-client';
+import { shopifyBaseUrl } from './shopify-transport';
 
 const API_VERSION = '2025-01';
 const SHOPIFYQL_API_VERSION = '2026-01'; // ShopifyQL requires 2025-04+ to be on QueryRoot
-const FETCH_TIMEOUT = 30000; // 30 seconds per individual API call
+const HANDLE_BATCH_SIZE = 50; // handles per products() search query
+// Products per complementary products nodes() query; each costs about 29
+// points, keeping a query under Shopify's 1000-point limit
+const COMPLEMENTARY_BATCH_SIZE = 25;
+// An order with its journey and ORDER_LINE_ITEMS line items costs 60 points,
+// so a page of ORDERS_PAGE_SIZE stays under Shopify's 1000-point limit
+const ORDERS_PAGE_SIZE = 15;
+const ORDER_LINE_ITEMS = 10;
+const ORDERS_MAX_PAGES = 200; // 3,000 orders
+// Pages can wait seconds each for Shopify's rate limit to refill, so stop
+// early enough to answer inside the route's 60 s timeout
+const ORDERS_TIME_BUDGET_MS = 25000;
 
 interface ShopifyRequestOptions {
   shop: string;
@@ -11,41 +42,33 @@ interface ShopifyRequestOptions {
   params?: Record<string, string>;
 }
 
-async function fetchWithTimeout(url: string, options: RequestInit, timeout = FETCH_TIMEOUT): Promise<Response> {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), timeout);
-
-  try {
-    const response = await fetch(url, { ...options, signal: controller.signal });
-    return response;
-  } finally {
-    clearTimeout(timer);
-  }
-}
-
 async function shopifyRequest<T>({ shop, accessToken, endpoint, params }: ShopifyRequestOptions): Promise<T> {
-  const url = new URL(`https://${shop}/admin/api/${API_VERSION}${endpoint}`);
+  const url = new URL(`${shopifyBaseUrl(shop)}/admin/api/${API_VERSION}${endpoint}`);
   if (params) {
     Object.entries(params).forEach(([key, value]) => {
       url.searchParams.set(key, value);
     });
   }
 
-  const response = await fetchWithTimeout(url.toString(), {
+  const response = await shopifyFetch(shop, url.toString(), {
     headers: {
       'X-Shopify-Access-Token': accessToken,
       'Content-Type': 'application/json',
     },
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Shopify API error ${response.status}: ${errorText}`);
-  }
-
   return response.json() as Promise<T>;
 }
 
+function shopifyGraphQL<T>(
+  shop: string,
+  accessToken: string,
+  query: string,
+  variables: Record<string, unknown> = {}
+): Promise<T> {
+  return shopifyGraphQLRequest<T>(shop, accessToken, query, variables, { apiVersion: API_VERSION });
+}
+
 // ============================================================
 // PRODUCT LOOKUP
 // ============================================================
@@ -63,57 +86,93 @@ export function extractProductHandle(urlPath: string): string | null {
   return match ? match[1] : null;
 }
 
-// Look up a product by its handle
-export async function fetchProductByHandle(
+// The variant a product URL deep-links to (?variant=123), if any
+export function extractVariantId(url: string): number | null {
+  const match = url.match(/[?&]variant=(\d+)/);
+  return match ? Number(match[1]) : null;
+}
+
+const PRODUCTS_BY_HANDLE_QUERY = `
+  query ProductsByHandle($query: String!, $first: Int!) {
+    products(first: $first, query: $query) {
+      nodes { id title handle }
+    }
+  }
+`;
+
+// Look up many products by handle, HANDLE_BATCH_SIZE per GraphQL query.
+// Handles with no product are simply absent from the result.
+export async function fetchProductsByHandles(
   shop: string,
   accessToken: string,
-  handle: string
-): Promise<ShopifyProduct | null> {
-  try {
-    const data = await shopifyRequest<{ products: ShopifyProduct[] }>({
+  handles: string[]
+): Promise<Map<string, ShopifyProduct>> {
+  const products = new Map<string, ShopifyProduct>();
+
+  for (let i = 0; i < handles.length; i += HANDLE_BATCH_SIZE) {
+    const batch = handles.slice(i, i + HANDLE_BATCH_SIZE);
+    const data = await shopifyGraphQL<{ products: { nodes: { id: string; title: string; handle: string }[] } }>(
       shop,
       accessToken,
-      endpoint: '/products.json',
-      params: {
-        handle,
-        fields: 'id,title,handle',
-        limit: '1',
-      },
-    });
+      PRODUCTS_BY_HANDLE_QUERY,
+      {
+        query: batch.map(handle => `handle:${JSON.stringify(handle)}`).join(' OR '),
+        first: batch.length,
+      }
+    );
 
-    return data.products?.[0] || null;
-  } catch (error) {
-    console.error(`[Shopify] Failed to fetch product by handle "${handle}":`, error);
-    return null;
+    for (const node of data.products.nodes) {
+      // Search can be fuzzy; only keep exact handle matches
+      if (!batch.includes(node.handle)) continue;
+      products.set(node.handle, {
+        id: Number(node.id.split('/').pop()),
+        title: node.title,
+        handle: node.handle,
+      });
+    }
   }
+
+  return products;
 }
 
-// Resolve multiple URL paths to product info
+// Resolve multiple URL paths to product info. Handles seen recently come from
+// the database; the rest are fetched in batches and stored for next time.
 export async function resolveProductsFromUrls(
   shop: string,
   accessToken: string,
   urls: string[]
 ): Promise<Map<string, ShopifyProduct>> {
-  const productMap = new Map<string, ShopifyProduct>();
-
+  const handleByUrl = new Map<string, string>();
   for (const url of urls) {
-    const handle = extractProductHandle(url);
-    if (!handle) {
+    const handle = extractProductHandle(canonicalizeLandingPath(url));
+    if (handle) {
+      handleByUrl.set(url, handle);
+    } else {
       console.warn(`[Shopify] Could not extract product handle from URL: ${url}`);
-      continue;
     }
+  }
 
-    const product = await fetchProductByHandle(shop, accessToken, handle);
+  const handles = [...new Set(handleByUrl.values())];
+  const products = await getStoredProducts(shop, handles);
+  const missing = handles.filter(handle => !products.has(handle));
+
+  if (missing.length > 0) {
+    // A failed lookup throws: unresolved pages would otherwise report zeros
+    const fetched = await fetchProductsByHandles(shop, accessToken, missing);
+    fetched.forEach((product, handle) => products.set(handle, product));
+    await storeProducts(shop, [...fetched.values()]);
+  }
+  console.log(`[Shopify] Resolved ${products.size}/${handles.length} handle(s), ${handles.length - missing.length} from the database`);
+
+  const productMap = new Map<string, ShopifyProduct>();
+  handleByUrl.forEach((handle, url) => {
+    const product = products.get(handle);
     if (product) {
       productMap.set(url, product);
-      console.log(`[Shopify] Resolved "${url}" → Product #${product.id} "${product.title}"`);
     } else {
       console.warn(`[Shopify] No product found for handle: ${handle}`);
     }
-
-    // Rate limiting
-    await new Promise(resolve => setTimeout(resolve, 200));
-  }
+  });
 
   return productMap;
 }
@@ -128,111 +187,329 @@ export interface LandingPageData {
   orders: number; // derived: Math.round(sessions * conversionRate)
 }
 
+export interface LandingPageMatch extends LandingPageData {
+  matchedPaths: MatchedPath[];
+}
+
+// Rows per ShopifyQL page, and how many pages we read before giving up
+const SHOPIFYQL_PAGE_SIZE = 1000;
+const SHOPIFYQL_MAX_PAGES = 10;
+
+export interface ShopifyQLRows {
+  rows: Record<string, string>[];
+  truncated: boolean; // Shopify had rows past the last page we read
+}
+
+// Sent as a variable, so values quoted inside the ShopifyQL (UTM parameters,
+// landing paths) can never end the GraphQL string and change the document
+const SHOPIFYQL_QUERY = `
+  query ShopifyQL($query: String!) {
+    shopifyqlQuery(query: $query) {
+      tableData {
+        rows
+        columns { name dataType }
+      }
+      parseErrors
+    }
+  }
+`;
+
 // Helper: run a ShopifyQL query and return parsed rows
 async function runShopifyQL(
   shop: string,
   accessToken: string,
   shopifyqlQuery: string
 ): Promise<Record<string, string>[]> {
-  const query = `
-    {
-      shopifyqlQuery(query: """${shopifyqlQuery}""") {
-        tableData {
-          rows
-          columns { name dataType }
-        }
-        parseErrors
-      }
-    }
-  `;
-
-  const response = await fetchWithTimeout(
-    `https://${shop}/admin/api/${SHOPIFYQL_API_VERSION}/graphql.json`,
-    {
-      method: 'POST',
-      headers: {
-        'X-Shopify-Access-Token': accessToken,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ query }),
-    },
-    30000
-  );
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`[Shopify] ShopifyQL HTTP error ${response.status}: ${errorText}`);
-    return [];
+  // Every failure throws a ShopifyApiError rather than returning no rows,
+  // which would read as a page with zero sessions
+  const data = await shopifyGraphQLRequest<{
+    shopifyqlQuery: {
+      tableData: { rows: Record<string, string>[] } | null;
+      parseErrors: (string | { message: string })[];
+    } | null;
+  }>(shop, accessToken, SHOPIFYQL_QUERY, { query: shopifyqlQuery }, { apiVersion: SHOPIFYQL_API_VERSION });
+
+  const qlResult = data.shopifyqlQuery;
+
+  if (qlResult?.parseErrors?.length) {
+    // Plain strings since 2025-10; { code, message } objects before that
+    const details = qlResult.parseErrors.map(e => (typeof e === 'string' ? e : e.message));
+    console.error('[Shopify] ShopifyQL parse errors:', JSON.stringify(details));
+    throw new ShopifyApiError('parse_error', `ShopifyQL parse error: ${details.join('; ')}`, 200, { details });
   }
 
-  const data = await response.json();
+  return qlResult?.tableData?.rows || [];
+}
 
-  if (data.errors) {
-    console.error('[Shopify] GraphQL errors:', JSON.stringify(data.errors));
-    return [];
+// Run a query one LIMIT/OFFSET page at a time until a short page comes back.
+// The query must ORDER BY its dimensions so pages never overlap. The last page
+// we allow asks for one extra row, which tells us whether anything was cut off.
+async function runShopifyQLPaged(
+  shop: string,
+  accessToken: string,
+  shopifyqlQuery: string
+): Promise<ShopifyQLRows> {
+  const rows: Record<string, string>[] = [];
+
+  for (let page = 0; page < SHOPIFYQL_MAX_PAGES; page++) {
+    const limit = page === SHOPIFYQL_MAX_PAGES - 1 ? SHOPIFYQL_PAGE_SIZE + 1 : SHOPIFYQL_PAGE_SIZE;
+    const pageRows = await runShopifyQL(
+      shop,
+      accessToken,
+      `${shopifyqlQuery} LIMIT ${limit} OFFSET ${page * SHOPIFYQL_PAGE_SIZE}`
+    );
+
+    if (pageRows.length > SHOPIFYQL_PAGE_SIZE) {
+      rows.push(...pageRows.slice(0, SHOPIFYQL_PAGE_SIZE));
+      console.warn(`[Shopify] ShopifyQL result truncated at ${rows.length} rows`);
+      return { rows, truncated: true };
+    }
+
+    rows.push(...pageRows);
+    if (pageRows.length < SHOPIFYQL_PAGE_SIZE) break;
   }
 
-  const qlResult = data.data?.shopifyqlQuery;
+  return { rows, truncated: false };
+}
 
-  if (qlResult?.parseErrors?.length > 0) {
-    console.error('[Shopify] ShopifyQL parse errors:', JSON.stringify(qlResult.parseErrors));
-    return [];
+// Quote a value as a ShopifyQL string literal
+function shopifyQLString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+// WHERE condition limiting the sessions dataset to rows that can match a
+// target. Exact paths are listed as they are; canonical paths match anything
+// containing their canonical form, and the matcher drops the near misses.
+function landingPathCondition(urlPaths: string[], exactPaths: string[]): string {
+  const exact = new Set<string>();
+  const canonical = new Set<string>();
+
+  for (const path of urlPaths) {
+    if (exactPaths.includes(path)) {
+      exact.add(path).add(landingPathKey(path, 'exact'));
+    } else {
+      const key = canonicalizeLandingPath(path);
+      canonical.add(key).add(encodeURI(key));
+    }
   }
 
-  return qlResult?.tableData?.rows || [];
+  return [
+    ...(exact.size > 0 ? [`landing_page_path IN (${[...exact].map(shopifyQLString).join(', ')})`] : []),
+    ...[...canonical].map(key => `landing_page_path CONTAINS ${shopifyQLString(key)}`),
+  ].join(' OR ');
+}
+
+// A request's segment, plus the customer type when splitting new from returning
+export interface QueryFilters extends SegmentFilters {
+  customerType?: CustomerType;
 }
 
-// Fetch sessions + conversion_rate per landing page path.
-// Returns a map of path → { sessions, conversionRate, orders }
+// Dimensions the filters narrow; the sessions and sales datasets share them
+const SEGMENT_DIMENSIONS: Record<keyof QueryFilters, string> = {
+  deviceType: 'session_device_type',
+  referrerSource: 'referrer_source',
+  country: 'session_country_code',
+  utmSource: 'utm_campaign_source',
+  utmMedium: 'utm_campaign_medium',
+  utmCampaign: 'utm_campaign_name',
+  customerType: 'customer_type',
+};
+
+// How ShopifyQL spells each customer type
+const CUSTOMER_TYPE_VALUES: Record<CustomerType, string> = {
+  new: 'First-time',
+  returning: 'Returning',
+};
+
+// How ShopifyQL spells each device type
+const DEVICE_TYPE_VALUES: Record<DeviceType, string> = {
+  desktop: 'Desktop',
+  mobile: 'Mobile',
+  tablet: 'Tablet',
+};
+
+// How ShopifyQL spells each traffic source. Unknown is Shopify's bucket for
+// everything it can't categorise, referring sites included.
+const REFERRER_SOURCE_VALUES: Record<ReferrerSource, string> = {
+  direct: 'Direct',
+  search: 'Search',
+  social: 'Social',
+  email: 'Email',
+  unknown: 'Unknown',
+};
+
+// Filters whose ids differ from the values ShopifyQL stores
+const SEGMENT_VALUES: Partial<Record<keyof QueryFilters, Record<string, string>>> = {
+  customerType: CUSTOMER_TYPE_VALUES,
+  deviceType: DEVICE_TYPE_VALUES,
+  referrerSource: REFERRER_SOURCE_VALUES,
+};
+
+// WHERE condition for `condition` within a segment. Queries for all traffic
+// are left exactly as they were.
+function withSegment(condition: string, segment: QueryFilters | null): string {
+  const filters = Object.entries(segment || {})
+    .filter(([, value]) => value)
+    .map(([key, value]) => {
+      const dimension = SEGMENT_DIMENSIONS[key as keyof QueryFilters];
+      const shopifyValue = SEGMENT_VALUES[key as keyof QueryFilters]?.[value] ?? value;
+      return `${dimension} = ${shopifyQLString(shopifyValue)}`;
+    });
+
+  return filters.length > 0 ? [`(${condition})`, ...filters].join(' AND ') : condition;
+}
+
+// Fetch sessions + conversion_rate per landing page path, within `segment`
+// when one is given.
+// Returns a map of path → { sessions, conversionRate, orders, matchedPaths }.
+// Paths in `exactPaths` count only their own row; every other path also
+// collects its variants (see canonicalizeLandingPath).
 export async function fetchLandingPageData(
   shop: string,
   accessToken: string,
   urlPaths: string[],
-  dateRange: DateRange
-): Promise<Map<string, LandingPageData>> {
-  const resultMap = new Map<string, LandingPageData>();
+  dateRange: DateRange,
+  exactPaths: string[] = [],
+  segment: QueryFilters | null = null
+): Promise<{ pages: Map<string, LandingPageMatch>; truncated: boolean }> {
+  const matcher = createLandingPathMatcher(urlPaths, exactPaths);
+  // Σ sessions × conversion_rate per target, so combined variants weigh by traffic
+  const accumulated = new Map(urlPaths.map(path => [path, { sessions: 0, expectedOrders: 0, matchedPaths: [] as MatchedPath[] }]));
 
-  for (const path of urlPaths) {
-    resultMap.set(path, { sessions: 0, conversionRate: 0, orders: 0 });
-  }
+  const shopifyqlQuery = `FROM sessions SHOW sessions, conversion_rate WHERE ${withSegment(landingPathCondition(urlPaths, exactPaths), segment)} GROUP BY landing_page_path SINCE ${dateRange.start} UNTIL ${dateRange.end} ORDER BY landing_page_path ASC`;
 
-  const shopifyqlQuery = `FROM sessions SHOW sessions, conversion_rate GROUP BY landing_page_path SINCE ${dateRange.start} UNTIL ${dateRange.end} LIMIT 1000`;
+  console.log(`[Shopify] ShopifyQL sessions+conversion query for ${urlPaths.length} paths`);
+  const { rows, truncated } = urlPaths.length > 0
+    ? await runShopifyQLPaged(shop, accessToken, shopifyqlQuery)
+    : { rows: [], truncated: false };
+  console.log(`[Shopify] ShopifyQL returned ${rows.length} landing page rows`);
+  console.log(`[Shopify] Looking for paths: ${JSON.stringify(urlPaths)}`);
 
-  try {
-    console.log(`[Shopify] ShopifyQL sessions+conversion query for ${urlPaths.length} paths`);
-    const rows = await runShopifyQL(shop, accessToken, shopifyqlQuery);
-    console.log(`[Shopify] ShopifyQL returned ${rows.length} landing page rows`);
-    console.log(`[Shopify] Looking for paths: ${JSON.stringify(urlPaths)}`);
-
-    // Debug: find any rows that contain our target product handles
-    for (const targetPath of urlPaths) {
-      const handle = targetPath.toLowerCase().split('/').pop() || '';
-      const partialMatches = rows.filter(r =>
-        String(r.landing_page_path || '').toLowerCase().includes(handle)
+  for (const row of rows) {
+    const landingPath = String(row.landing_page_path || '');
+    const sessions = parseInt(String(row.sessions || '0'), 10);
+    const conversionRate = parseFloat(String(row.conversion_rate || '0'));
+
+    for (const targetPath of matcher(landingPath)) {
+      const entry = accumulated.get(targetPath)!;
+      entry.sessions += sessions;
+      entry.expectedOrders += sessions * conversionRate;
+      entry.matchedPaths.push({ path: landingPath, sessions, orders: Math.round(sessions * conversionRate) });
+    }
+  }
+
+  const resultMap = new Map<string, LandingPageMatch>();
+  for (const [path, { sessions, expectedOrders, matchedPaths }] of accumulated) {
+    const orders = Math.round(expectedOrders);
+    resultMap.set(path, {
+      sessions,
+      conversionRate: sessions > 0 ? expectedOrders / sessions : 0,
+      orders,
+      matchedPaths: matchedPaths.sort((a, b) => b.sessions - a.sessions),
+    });
+    if (matchedPaths.length > 0) {
+      console.log(
+        `[Shopify] Matched "${path}" → ${sessions} sessions, ${orders} orders from ` +
+        `${matchedPaths.length} path(s): ${matchedPaths.map(m => m.path).join(', ')}`
       );
-      console.log(`[Shopify] DEBUG: Rows containing "${handle}": ${JSON.stringify(partialMatches.map(r => ({ path: r.landing_page_path, sessions: r.sessions })))}`);
     }
+  }
 
-    for (const row of rows) {
-      const landingPath = String(row.landing_page_path || '').toLowerCase();
-      const sessions = parseInt(String(row.sessions || '0'), 10);
-      const conversionRate = parseFloat(String(row.conversion_rate || '0'));
-
-      for (const targetPath of urlPaths) {
-        const normalizedTarget = targetPath.toLowerCase();
-        if (landingPath === normalizedTarget) {
-          const orders = Math.round(sessions * conversionRate);
-          resultMap.set(targetPath, { sessions, conversionRate, orders });
-          console.log(`[Shopify] Matched "${targetPath}" → ${sessions} sessions, ${(conversionRate * 100).toFixed(2)}% CVR, ${orders} orders`);
-        }
-      }
+  return { pages: resultMap, truncated };
+}
+
+// ============================================================
+// LANDING PAGE TRENDS (ShopifyQL — sessions + conversion_rate per day/week)
+// ============================================================
+
+// Orders are left unrounded, as fetchLandingPageData sums them before rounding,
+// so a page's points add up to its whole-range figures
+export interface LandingPageTrendPoint {
+  date: string; // bucket start, YYYY-MM-DD
+  sessions: number;
+  conversionRate: number;
+  expectedOrders: number; // sum of sessions × conversion_rate over the bucket's rows
+}
+
+// Bucket start for a date; weeks start on Monday
+export function trendBucket(date: string, granularity: TrendGranularity): string {
+  const day = parseISO(date.substring(0, 10));
+  const start = granularity === 'week' ? startOfWeek(day, { weekStartsOn: 1 }) : day;
+  return format(start, 'yyyy-MM-dd');
+}
+
+// Every bucket in the range, so pages with no traffic on a day still plot as 0
+export function trendBuckets(dateRange: DateRange, granularity: TrendGranularity): string[] {
+  const interval = { start: parseISO(dateRange.start), end: parseISO(dateRange.end) };
+  const dates = granularity === 'week'
+    ? eachWeekOfInterval(interval, { weekStartsOn: 1 })
+    : eachDayOfInterval(interval);
+  return dates.map(d => format(d, 'yyyy-MM-dd'));
+}
+
+// Fetch sessions + conversion_rate per landing page path per day or week,
+// matching paths and segments the same way as fetchLandingPageData.
+// Returns a map of path → points ordered by date, one per bucket in the range
+export async function fetchLandingPageTrend(
+  shop: string,
+  accessToken: string,
+  urlPaths: string[],
+  dateRange: DateRange,
+  granularity: TrendGranularity,
+  exactPaths: string[] = [],
+  segment: QueryFilters | null = null
+): Promise<{ pages: Map<string, LandingPageTrendPoint[]>; truncated: boolean }> {
+  const matcher = createLandingPathMatcher(urlPaths, exactPaths);
+  const buckets = trendBuckets(dateRange, granularity);
+  const bucketData = new Map<string, Map<string, { sessions: number; expectedOrders: number }>>();
+
+  for (const path of urlPaths) {
+    bucketData.set(path, new Map(buckets.map(b => [b, { sessions: 0, expectedOrders: 0 }])));
+  }
+
+  const shopifyqlQuery = `FROM sessions SHOW sessions, conversion_rate WHERE ${withSegment(landingPathCondition(urlPaths, exactPaths), segment)} GROUP BY landing_page_path, ${granularity} SINCE ${dateRange.start} UNTIL ${dateRange.end} ORDER BY ${granularity} ASC, landing_page_path ASC`;
+
+  console.log(`[Shopify] ShopifyQL ${granularity} trend query for ${urlPaths.length} paths`);
+  const { rows, truncated } = urlPaths.length > 0
+    ? await runShopifyQLPaged(shop, accessToken, shopifyqlQuery)
+    : { rows: [], truncated: false };
+  console.log(`[Shopify] ShopifyQL trend returned ${rows.length} rows`);
+
+  for (const row of rows) {
+    const landingPath = String(row.landing_page_path || '');
+    const rawDate = String(row[granularity] || '');
+    if (!rawDate) continue;
+
+    const sessions = parseInt(String(row.sessions || '0'), 10);
+    const conversionRate = parseFloat(String(row.conversion_rate || '0'));
+    const bucket = trendBucket(rawDate, granularity);
+
+    for (const targetPath of matcher(landingPath)) {
+      const points = bucketData.get(targetPath)!;
+      const existing = points.get(bucket) || { sessions: 0, expectedOrders: 0 };
+      points.set(bucket, {
+        sessions: existing.sessions + sessions,
+        expectedOrders: existing.expectedOrders + sessions * conversionRate,
+      });
     }
-  } catch (error) {
-    console.error('[Shopify] Failed to fetch landing page data:', error);
   }
 
-  console.log(`[Shopify] Final landing page data: ${JSON.stringify(Object.fromEntries(resultMap))}`);
-  return resultMap;
+  const resultMap = new Map<string, LandingPageTrendPoint[]>();
+  for (const [path, points] of bucketData) {
+    resultMap.set(
+      path,
+      [...points.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, { sessions, expectedOrders }]) => ({
+          date,
+          sessions,
+          conversionRate: sessions > 0 ? expectedOrders / sessions : 0,
+          expectedOrders,
+        }))
+    );
+  }
+  return { pages: resultMap, truncated };
 }
 
 // ============================================================
@@ -245,51 +522,449 @@ export interface ProductSalesData {
   aov: number; // totalSales / orders
 }
 
+export interface ProductVariantRef {
+  productId: number;
+  variantId: number;
+}
+
+export interface ProductAOVOptions {
+  basis?: RevenueBasis;
+  variants?: ProductVariantRef[]; // pages that link to one variant, for the product bases
+  accessories?: Map<number, number[]>; // product_id → complementary product_ids
+  segment?: QueryFilters | null;
+  orders?: RangeOrders | null; // the range's orders when already fetched, see fetchRangeOrders
+}
+
 // Fetch total_sales + orders per product_id from the sales dataset.
 // Uses product_id (not title) because multiple products can share the same title
 // but have different IDs and very different AOVs.
-// Returns a map of product_id (number) → { totalSales, orders, aov }
+// The product bases need each order's line items, which the sales dataset
+// doesn't break down by cart, so they come from the range's orders instead.
+// Returns a map of product_id (number) → { totalSales, orders, aov }, and the
+// same per variant_id for `variants` under the product bases
 export async function fetchProductAOV(
   shop: string,
   accessToken: string,
   productIds: number[],
-  dateRange: DateRange
-): Promise<Map<number, ProductSalesData>> {
+  dateRange: DateRange,
+  money: MoneySettings = DEFAULT_MONEY, // for logging
+  { basis = 'cart', variants = [], accessories = new Map(), segment = null, orders = null }: ProductAOVOptions = {}
+): Promise<{ products: Map<number, ProductSalesData>; variants: Map<number, ProductSalesData>; truncated: boolean }> {
+  if (basis !== 'cart') {
+    return fetchProductLineAOV(shop, accessToken, productIds, dateRange, money, { basis, variants, accessories, segment, orders });
+  }
+
   const resultMap = new Map<number, ProductSalesData>();
 
   for (const id of productIds) {
     resultMap.set(id, { totalSales: 0, orders: 0, aov: 0 });
   }
 
-  const shopifyqlQuery = `FROM sales SHOW total_sales, orders GROUP BY product_id SINCE ${dateRange.start} UNTIL ${dateRange.end} LIMIT 1000`;
+  const shopifyqlQuery = `FROM sales SHOW total_sales, orders WHERE ${withSegment(`product_id IN (${productIds.join(', ')})`, segment)} GROUP BY product_id SINCE ${dateRange.start} UNTIL ${dateRange.end} ORDER BY product_id ASC`;
+
+  console.log(`[Shopify] ShopifyQL sales+orders by product_id for ${productIds.length} products`);
+  const { rows, truncated } = productIds.length > 0
+    ? await runShopifyQLPaged(shop, accessToken, shopifyqlQuery)
+    : { rows: [], truncated: false };
+  console.log(`[Shopify] ShopifyQL sales returned ${rows.length} product rows`);
+
+  for (const row of rows) {
+    const rowProductId = parseInt(String(row.product_id || '0'), 10);
+    const totalSales = parseFloat(String(row.total_sales || '0'));
+    const orders = parseInt(String(row.orders || '0'), 10);
+    const aov = orders > 0 ? totalSales / orders : 0;
+
+    if (productIds.includes(rowProductId)) {
+      resultMap.set(rowProductId, {
+        totalSales: Math.round(totalSales * 100) / 100,
+        orders,
+        aov: Math.round(aov * 100) / 100,
+      });
+      console.log(`[Shopify] Matched product_id ${rowProductId} → ${formatMoney(totalSales, money)} / ${orders} orders = ${formatMoney(aov, money)} AOV`);
+    }
+  }
+
+  return { products: resultMap, variants: new Map(), truncated };
+}
+
+// Line-item revenue ÷ orders containing the product (or variant), from the orders themselves
+async function fetchProductLineAOV(
+  shop: string,
+  accessToken: string,
+  productIds: number[],
+  dateRange: DateRange,
+  money: MoneySettings,
+  { basis, variants, accessories, segment, orders: rangeOrders }: Required<ProductAOVOptions>
+): Promise<{ products: Map<number, ProductSalesData>; variants: Map<number, ProductSalesData>; truncated: boolean }> {
+  const products = new Map<number, ProductSalesData>();
+  const variantMap = new Map<number, ProductSalesData>();
+  if (productIds.length === 0) return { products, variants: variantMap, truncated: false };
+
+  const { nodes, truncated } = await ordersInSegment(shop, accessToken, dateRange, segment, rangeOrders);
+  const orders = nodes.map(toShopifyOrder);
+
+  const salesData = (productId: number, variantId: number | null): ProductSalesData => {
+    const { matchingOrders, totalRevenue } = getProductOrderData(orders, productId, {
+      basis,
+      variantId,
+      accessoryIds: accessories.get(productId),
+    });
+    const count = matchingOrders.length;
+    return {
+      totalSales: Math.round(totalRevenue * 100) / 100,
+      orders: count,
+      aov: count > 0 ? Math.round((totalRevenue / count) * 100) / 100 : 0,
+    };
+  };
+
+  for (const id of productIds) {
+    const data = salesData(id, null);
+    products.set(id, data);
+    console.log(`[Shopify] product_id ${id} (${basis}) → ${formatMoney(data.totalSales, money)} / ${data.orders} orders = ${formatMoney(data.aov, money)} AOV`);
+  }
+  for (const { productId, variantId } of variants) {
+    variantMap.set(variantId, salesData(productId, variantId));
+  }
+
+  return { products, variants: variantMap, truncated };
+}
+
+// ============================================================
+// ORDERS (GraphQL — attribution and line-item revenue)
+// ============================================================
+
+const ORDERS_QUERY = `
+  query OrdersInRange($query: String!, $first: Int!, $after: String) {
+    orders(first: $first, after: $after, query: $query, sortKey: CREATED_AT) {
+      nodes {
+        id
+        createdAt
+        cancelledAt
+        displayFinancialStatus
+        sourceName
+        tags
+        totalPriceSet { shopMoney { amount } }
+        customerJourneySummary {
+          customerOrderIndex
+          firstVisit { landingPage utmParameters { source medium campaign } }
+          lastVisit { landingPage utmParameters { source medium campaign } }
+        }
+        lineItems(first: ${ORDER_LINE_ITEMS}) {
+          nodes {
+            title
+            variantTitle
+            quantity
+            originalUnitPriceSet { shopMoney { amount } }
+            product { id }
+            variant { id }
+          }
+          pageInfo { hasNextPage }
+        }
+      }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+interface OrderVisit {
+  landingPage: string | null;
+  utmParameters: { source: string | null; medium: string | null; campaign: string | null } | null;
+}
+
+interface OrderNode {
+  id: string;
+  createdAt: string;
+  cancelledAt: string | null;
+  displayFinancialStatus: string | null;
+  sourceName: string | null;
+  tags: string[];
+  totalPriceSet: { shopMoney: { amount: string } };
+  customerJourneySummary: {
+    customerOrderIndex: number | null;
+    firstVisit: OrderVisit | null;
+    lastVisit: OrderVisit | null;
+  } | null;
+  lineItems: {
+    nodes: {
+      title: string;
+      variantTitle: string | null;
+      quantity: number;
+      originalUnitPriceSet: { shopMoney: { amount: string } };
+      product: { id: string } | null;
+      variant: { id: string } | null;
+    }[];
+    pageInfo: { hasNextPage: boolean };
+  };
+}
+
+const gidNumber = (gid: string) => Number(gid.split('/').pop());
+
+// In the shape getProductOrderData reads
+function toShopifyOrder(node: OrderNode): ShopifyOrder {
+  return {
+    id: gidNumber(node.id),
+    total_price: node.totalPriceSet.shopMoney.amount,
+    tags: node.tags.join(', '),
+    created_at: node.createdAt,
+    cancelled_at: node.cancelledAt,
+    financial_status: (node.displayFinancialStatus || '').toLowerCase(),
+    source_name: node.sourceName || '',
+    line_items: node.lineItems.nodes.map(item => ({
+      product_id: item.product ? gidNumber(item.product.id) : 0,
+      variant_id: item.variant ? gidNumber(item.variant.id) : null,
+      title: item.title,
+      variant_title: item.variantTitle || '',
+      price: item.originalUnitPriceSet.shopMoney.amount,
+      quantity: item.quantity,
+    })),
+  };
+}
+
+// Landing path (with its query string, as ShopifyQL reports it) of the
+// session that placed the order, which is the session the sessions dataset
+// credits with the conversion. One-visit journeys only have a first visit.
+function orderVisit(node: OrderNode): OrderVisit | null {
+  const journey = node.customerJourneySummary;
+  return journey?.lastVisit || journey?.firstVisit || null;
+}
+
+function orderLandingPath(node: OrderNode): string | null {
+  const landingPage = orderVisit(node)?.landingPage;
+  if (!landingPage) return null;
 
   try {
-    console.log(`[Shopify] ShopifyQL sales+orders by product_id for ${productIds.length} products`);
-    const rows = await runShopifyQL(shop, accessToken, shopifyqlQuery);
-    console.log(`[Shopify] ShopifyQL sales returned ${rows.length} product rows`);
-
-    for (const row of rows) {
-      const rowProductId = parseInt(String(row.product_id || '0'), 10);
-      const totalSales = parseFloat(String(row.total_sales || '0'));
-      const orders = parseInt(String(row.orders || '0'), 10);
-      const aov = orders > 0 ? totalSales / orders : 0;
-
-      if (productIds.includes(rowProductId)) {
-        resultMap.set(rowProductId, {
-          totalSales: Math.round(totalSales * 100) / 100,
-          orders,
-          aov: Math.round(aov * 100) / 100,
-        });
-        console.log(`[Shopify] Matched product_id ${rowProductId} → $${totalSales.toFixed(2)} / ${orders} orders = $${aov.toFixed(2)} AOV`);
+    const url = new URL(landingPage);
+    return `${url.pathname}${url.search}`;
+  } catch {
+    return landingPage;
+  }
+}
+
+// Orders know the UTM parameters of the visit that placed them, but not its
+// device, source or country, so only a segment's UTM filters narrow them.
+// customerOrderIndex counts the customer's earlier orders, so a first order is
+// 0; orders without a journey can't be told apart and belong to neither type.
+function orderInSegment(node: OrderNode, segment: QueryFilters | null): boolean {
+  if (segment?.customerType) {
+    const index = node.customerJourneySummary?.customerOrderIndex;
+    if (index === null || index === undefined) return false;
+    if ((index === 0) !== (segment.customerType === 'new')) return false;
+  }
+  if (!segment?.utmSource && !segment?.utmMedium && !segment?.utmCampaign) return true;
+
+  const utm = orderVisit(node)?.utmParameters;
+  return (!segment.utmSource || utm?.source === segment.utmSource) &&
+    (!segment.utmMedium || utm?.medium === segment.utmMedium) &&
+    (!segment.utmCampaign || utm?.campaign === segment.utmCampaign);
+}
+
+// The range's orders, cancelled ones and those outside `segment` left out,
+// ORDERS_PAGE_SIZE per page. Truncated when the pages or the time budget run
+// out, or an order has more line items than the query asks for.
+async function fetchOrders(
+  shop: string,
+  accessToken: string,
+  dateRange: DateRange,
+  segment: QueryFilters | null = null
+): Promise<{ nodes: OrderNode[]; truncated: boolean }> {
+  // UNTIL is inclusive, created_at:< is not
+  const until = format(addDays(parseISO(dateRange.end), 1), 'yyyy-MM-dd');
+  const query = `created_at:>=${dateRange.start} created_at:<${until}`;
+  const nodes: OrderNode[] = [];
+  let after: string | null = null;
+  let longOrders = 0;
+  const started = Date.now();
+
+  console.log(`[Shopify] GraphQL orders (${query})`);
+
+  for (let page = 0; page < ORDERS_MAX_PAGES; page++) {
+    if (page > 0 && Date.now() - started >= ORDERS_TIME_BUDGET_MS) {
+      console.warn(`[Shopify] Orders truncated at ${nodes.length} after ${Date.now() - started}ms`);
+      return { nodes, truncated: true };
+    }
+
+    const data: { orders: { nodes: OrderNode[]; pageInfo: { hasNextPage: boolean; endCursor: string | null } } } =
+      await shopifyGraphQL(shop, accessToken, ORDERS_QUERY, { query, first: ORDERS_PAGE_SIZE, after });
+
+    const kept = data.orders.nodes.filter(node => !node.cancelledAt && orderInSegment(node, segment));
+    nodes.push(...kept);
+    // Line-item revenue would miss lines past the first ORDER_LINE_ITEMS
+    longOrders += kept.filter(node => node.lineItems.pageInfo.hasNextPage).length;
+
+    if (!data.orders.pageInfo.hasNextPage) {
+      console.log(`[Shopify] GraphQL returned ${nodes.length} orders`);
+      if (longOrders > 0) console.warn(`[Shopify] ${longOrders} order(s) have more than ${ORDER_LINE_ITEMS} line items`);
+      return { nodes, truncated: longOrders > 0 };
+    }
+    after = data.orders.pageInfo.endCursor;
+  }
+
+  console.warn(`[Shopify] Orders truncated at ${nodes.length}`);
+  return { nodes, truncated: true };
+}
+
+export interface RangeOrders {
+  nodes: OrderNode[];
+  truncated: boolean;
+}
+
+// The range's orders for one request to fetch once and hand to every
+// consumer: fetched for both customer types, so each consumer can narrow
+// them to its own segment
+export function fetchRangeOrders(
+  shop: string,
+  accessToken: string,
+  dateRange: DateRange,
+  segment: QueryFilters | null = null
+): Promise<RangeOrders> {
+  return fetchOrders(shop, accessToken, dateRange, segment && { ...segment, customerType: undefined });
+}
+
+// `orders` narrowed to `segment`, or fetched when the caller has none
+async function ordersInSegment(
+  shop: string,
+  accessToken: string,
+  dateRange: DateRange,
+  segment: QueryFilters | null,
+  orders: RangeOrders | null
+): Promise<RangeOrders> {
+  if (!orders) return fetchOrders(shop, accessToken, dateRange, segment);
+  return { nodes: orders.nodes.filter(node => orderInSegment(node, segment)), truncated: orders.truncated };
+}
+
+// Fetch the range's orders and group them by the target path their landing
+// page matches, with the same matching as fetchLandingPageData. Orders
+// Shopify has no journey for are left out. Pass `orders` from fetchRangeOrders
+// to reuse them instead of fetching.
+// Returns a map of path → orders.
+export async function fetchAttributedOrders(
+  shop: string,
+  accessToken: string,
+  urlPaths: string[],
+  dateRange: DateRange,
+  exactPaths: string[] = [],
+  segment: QueryFilters | null = null,
+  orders: RangeOrders | null = null
+): Promise<{ orders: Map<string, ShopifyOrder[]>; truncated: boolean }> {
+  const matcher = createLandingPathMatcher(urlPaths, exactPaths);
+  const resultMap = new Map<string, ShopifyOrder[]>(urlPaths.map(path => [path, []]));
+  if (urlPaths.length === 0) return { orders: resultMap, truncated: false };
+
+  const { nodes, truncated } = await ordersInSegment(shop, accessToken, dateRange, segment, orders);
+  let attributed = 0;
+
+  for (const node of nodes) {
+    const landingPath = orderLandingPath(node);
+    const targets = landingPath ? matcher(landingPath) : [];
+    if (targets.length > 0) attributed++;
+    for (const targetPath of targets) resultMap.get(targetPath)!.push(toShopifyOrder(node));
+  }
+
+  console.log(`[Shopify] ${attributed} orders landed on a requested page`);
+  return { orders: resultMap, truncated };
+}
+
+// ============================================================
+// COMPLEMENTARY PRODUCTS (GraphQL — Search & Discovery metafield)
+// ============================================================
+
+const COMPLEMENTARY_PRODUCTS_QUERY = `
+  query ComplementaryProducts($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on Product {
+        id
+        complementary: metafield(namespace: "shopify--discovery--product_recommendation", key: "complementary_products") {
+          references(first: 25) {
+            nodes { ... on Product { id } }
+          }
+        }
       }
     }
-  } catch (error) {
-    console.error('[Shopify] Failed to fetch product AOV:', error);
+  }
+`;
+
+// The accessories merchants attach to each product in the Search & Discovery
+// app. Products without any map to an empty list.
+// Returns a map of product_id → complementary product_ids
+export async function fetchComplementaryProducts(
+  shop: string,
+  accessToken: string,
+  productIds: number[]
+): Promise<Map<number, number[]>> {
+  const resultMap = new Map<number, number[]>(productIds.map(id => [id, []]));
+
+  for (let i = 0; i < productIds.length; i += COMPLEMENTARY_BATCH_SIZE) {
+    const batch = productIds.slice(i, i + COMPLEMENTARY_BATCH_SIZE);
+    const data = await shopifyGraphQL<{
+      nodes: ({ id: string; complementary: { references: { nodes: { id?: string }[] } } | null } | null)[];
+    }>(shop, accessToken, COMPLEMENTARY_PRODUCTS_QUERY, { ids: batch.map(id => `gid://shopify/Product/${id}`) });
+
+    for (const node of data.nodes) {
+      if (!node?.complementary) continue;
+      resultMap.set(
+        gidNumber(node.id),
+        node.complementary.references.nodes.filter(ref => ref.id).map(ref => gidNumber(ref.id!))
+      );
+    }
   }
 
   return resultMap;
 }
 
+// ============================================================
+// LANDING PATH MATCHING
+// ============================================================
+
+// First path segments Shopify serves under a locale prefix (/en-ca/products/...)
+const STOREFRONT_ROUTES = new Set(['products', 'collections', 'pages', 'blogs', 'cart', 'search', 'account']);
+const LOCALE_SEGMENT = /^[a-z]{2}(-[a-z0-9]{2,4})?$/;
+
+// Fold the variants Shopify reports for one page into a single path:
+//   /Products/X/  /products/x?utm_source=ig  /en-ca/products/x
+//   /collections/dogs/products/x  https://store.com/products/x  →  /products/x
+export function canonicalizeLandingPath(input: string): string {
+  let path = normalizeUrlPath(input.trim()).replace(/[?#].*$/, '').toLowerCase();
+
+  try {
+    path = decodeURI(path);
+  } catch {
+    // Leave malformed escapes as they are
+  }
+
+  const segments = path.split('/').filter(Boolean);
+
+  if (segments.length > 0 && LOCALE_SEGMENT.test(segments[0]) &&
+      (segments.length === 1 || STOREFRONT_ROUTES.has(segments[1]))) {
+    segments.shift();
+  }
+
+  // /collections/<collection>/products/<handle> is the same product page
+  if (segments[0] === 'collections' && segments[2] === 'products' && segments.length >= 4) {
+    segments.splice(0, 2);
+  }
+
+  return `/${segments.join('/')}`;
+}
+
+// The key a landing path is compared on under each mode. Exact still ignores
+// case, as Shopify's own report does.
+export function landingPathKey(path: string, mode: PathMatchMode): string {
+  return mode === 'exact' ? normalizeUrlPath(path).toLowerCase() : canonicalizeLandingPath(path);
+}
+
+// Returns a function mapping a raw landing_page_path to the target paths it counts towards
+function createLandingPathMatcher(urlPaths: string[], exactPaths: string[]): (landingPath: string) => string[] {
+  const targets = urlPaths.map(path => {
+    const mode: PathMatchMode = exactPaths.includes(path) ? 'exact' : 'canonical';
+    return { path, mode, key: landingPathKey(path, mode) };
+  });
+
+  return (landingPath: string) => {
+    const keys = { exact: landingPathKey(landingPath, 'exact'), canonical: canonicalizeLandingPath(landingPath) };
+    return targets.filter(t => keys[t.mode] === t.key).map(t => t.path);
+  };
+}
+
 // ============================================================
 // HELPERS
 // ============================================================
@@ -306,41 +981,91 @@ export function normalizeUrlPath(url: string): string {
   }
 }
 
-export async function fetchShopTimezone(
+export interface ShopSettings {
+  timezone: string;
+  currency: string;
+  moneyFormat: string;
+  locale: string;
+}
+
+const DEFAULT_SHOP_SETTINGS: ShopSettings = {
+  timezone: 'America/New_York',
+  currency: 'USD',
+  moneyFormat: '${{amount}}',
+  locale: 'en',
+};
+
+// Falls back to the schema defaults if shop.json can't be read; signing in
+// shouldn't fail over them
+export async function fetchShopSettings(
   shop: string,
   accessToken: string
-): Promise<string> {
+): Promise<ShopSettings> {
   try {
-    const data = await shopifyRequest<{ shop: { iana_timezone: string } }>({
+    const data = await shopifyRequest<{
+      shop: { iana_timezone: string; currency: string; money_format: string; primary_locale: string };
+    }>({
       shop,
       accessToken,
       endpoint: '/shop.json',
-      params: { fields: 'iana_timezone' },
+      params: { fields: 'iana_timezone,currency,money_format,primary_locale' },
     });
-    return data.shop.iana_timezone || 'America/New_York';
+    return {
+      timezone: data.shop.iana_timezone || DEFAULT_SHOP_SETTINGS.timezone,
+      currency: data.shop.currency || DEFAULT_SHOP_SETTINGS.currency,
+      moneyFormat: data.shop.money_format || DEFAULT_SHOP_SETTINGS.moneyFormat,
+      locale: data.shop.primary_locale || DEFAULT_SHOP_SETTINGS.locale,
+    };
   } catch {
-    return 'America/New_York';
+    return DEFAULT_SHOP_SETTINGS;
   }
 }
 
-export function buildAuthUrl(shop: string): string {
+// Offline tokens belong to the store and never expire; online tokens belong to
+// the staff member who signed in and expire with their Shopify session.
+// SHOPIFY_ACCESS_MODE=online adds a per-user grant after the offline install.
+export type AccessMode = 'offline' | 'online';
+
+export function getAccessMode(): AccessMode {
+  return process.env.SHOPIFY_ACCESS_MODE === 'online' ? 'online' : 'offline';
+}
+
+// `state` is the nonce the callback checks against the OAuth cookie
+export function buildAuthUrl(shop: string, state: string, mode: AccessMode = 'offline'): string {
   const apiKey = process.env.SHOPIFY_API_KEY!;
   const scopes = process.env.SHOPIFY_SCOPES || 'read_analytics,read_orders,read_products,read_reports';
   const redirectUri = `${process.env.APP_URL}/api/auth/callback`;
 
-  const url = new URL(`https://${shop}/admin/oauth/authorize`);
+  const url = new URL(`${shopifyBaseUrl(shop)}/admin/oauth/authorize`);
   url.searchParams.set('client_id', apiKey);
   url.searchParams.set('scope', scopes);
   url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('state', state);
+  if (mode === 'online') url.searchParams.append('grant_options[]', 'per-user');
 
   return url.toString();
 }
 
+export interface ShopifyAccessToken {
+  access_token: string;
+  scope: string;
+  // Online tokens only
+  expires_in?: number; // seconds
+  associated_user_scope?: string;
+  associated_user?: {
+    id: number;
+    first_name: string;
+    last_name: string;
+    email: string;
+    account_owner: boolean;
+  };
+}
+
 export async function exchangeCodeForToken(
   shop: string,
   code: string
-): Promise<{ access_token: string; scope: string }> {
-  const response = await fetchWithTimeout(`https://${shop}/admin/oauth/access_token`, {
+): Promise<ShopifyAccessToken> {
+  const response = await shopifyFetch(shop, `${shopifyBaseUrl(shop)}/admin/oauth/access_token`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
@@ -350,10 +1075,99 @@ export async function exchangeCodeForToken(
     }),
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Token exchange failed: ${errorText}`);
-  }
+  return response.json();
+}
+
+// Embedded mode: swap an App Bridge session token for an offline access token,
+// with no OAuth redirect (which can't run inside the Admin iframe)
+export async function exchangeSessionToken(shop: string, sessionToken: string): Promise<ShopifyAccessToken> {
+  const response = await shopifyFetch(shop, `${shopifyBaseUrl(shop)}/admin/oauth/access_token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      client_id: process.env.SHOPIFY_API_KEY,
+      client_secret: process.env.SHOPIFY_API_SECRET,
+      grant_type: 'urn:ietf:params:oauth:grant-type:token-exchange',
+      subject_token: sessionToken,
+      subject_token_type: 'urn:ietf:params:oauth:token-type:id_token',
+      requested_token_type: 'urn:shopify:params:oauth:token-type:offline-access-token',
+    }),
+  });
 
   return response.json();
 }
+
+// Verify the hmac Shopify adds to OAuth redirects: hex SHA-256 HMAC, keyed with
+// the app secret, over every other query param sorted and joined as key=value&...
+export function verifyHmac(params: URLSearchParams): boolean {
+  const secret = process.env.SHOPIFY_API_SECRET;
+  if (!secret) return false;
+
+  const hmac = params.get('hmac');
+  if (!hmac) return false;
+
+  // Build the message from all params except hmac
+  const entries: [string, string][] = [];
+  params.forEach((value, key) => {
+    if (key !== 'hmac') {
+      entries.push([key, value]);
+    }
+  });
+
+  entries.sort((a, b) => a[0].localeCompare(b[0]));
+  const message = entries.map(([key, value]) => `${key}=${value}`).join('&');
+
+  const computed = crypto
+    .createHmac('sha256', secret)
+    .update(message)
+    .digest('hex');
+
+  return safeEqual(computed, hmac);
+}
+
+// Verify the X-Shopify-Hmac-Sha256 header on a webhook: base64 SHA-256 HMAC of
+// the raw request body, keyed with the app secret
+export function verifyWebhookHmac(rawBody: string, hmac: string | null): boolean {
+  const secret = process.env.SHOPIFY_API_SECRET;
+  if (!secret || !hmac) return false;
+
+  return safeEqual(crypto.createHmac('sha256', secret).update(rawBody, 'utf8').digest('base64'), hmac);
+}
+
+// ============================================================
+// WEBHOOKS
+// ============================================================
+
+// Topics the app subscribes to after OAuth, and the route that receives each.
+// The GDPR topics are configured on the app instead (see lib/webhooks.ts).
+const WEBHOOK_SUBSCRIPTIONS: { topic: string; path: string }[] = [
+  // Drop stored handle lookups when a product is renamed, re-handled or deleted
+  { topic: 'PRODUCTS_UPDATE', path: '/api/webhooks/products' },
+  { topic: 'PRODUCTS_DELETE', path: '/api/webhooks/products' },
+  // Delete the shop's data and dead token
+  { topic: 'APP_UNINSTALLED', path: '/api/webhooks' },
+];
+
+const WEBHOOK_SUBSCRIPTION_CREATE = `
+  mutation WebhookSubscriptionCreate($topic: WebhookSubscriptionTopic!, $callbackUrl: URL!) {
+    webhookSubscriptionCreate(topic: $topic, webhookSubscription: { callbackUrl: $callbackUrl, format: JSON }) {
+      webhookSubscription { id }
+      userErrors { field message }
+    }
+  }
+`;
+
+// Subscribe to every topic in WEBHOOK_SUBSCRIPTIONS. A reinstall gets a
+// userError for each existing subscription, which is harmless.
+export async function registerWebhooks(shop: string, accessToken: string): Promise<void> {
+  for (const { topic, path } of WEBHOOK_SUBSCRIPTIONS) {
+    const data = await shopifyGraphQL<{
+      webhookSubscriptionCreate: { userErrors: { field: string[] | null; message: string }[] };
+    }>(shop, accessToken, WEBHOOK_SUBSCRIPTION_CREATE, { topic, callbackUrl: `${process.env.APP_URL}${path}` });
+
+    const { userErrors } = data.webhookSubscriptionCreate;
+    if (userErrors.length > 0) {
+      console.warn(`[Shopify] Webhook ${topic} for ${shop}: ${userErrors.map(e => e.message).join('; ')}`);
+    }
+  }
+}
@@ -0,0 +1,351 @@
+import ExcelJS from 'exceljs';
+import { CustomerSplit, GroupMetrics, PageMetrics, DateRange, MoneySettings, RevenueBasis, SegmentFilters } from '@/types';
+import { CUSTOMER_TYPES, REVENUE_BASIS_LABELS } from './calculations';
+import { describeSegment } from './segments';
+import { DEFAULT_MONEY, spreadsheetMoneyFormat } from './money';
+import { compareToBaseline } from './statistics';
+
+export interface SpreadsheetReportOptions {
+  baselineIndex?: number;
+  compareDateRange?: DateRange | null;
+  revenueBasis?: RevenueBasis; // full cart when unset
+  segment?: SegmentFilters | null; // all traffic when unset
+}
+
+type CellValue = string | number | boolean | Date | null;
+
+// Column kinds drive both the CSV rendering and the XLSX number format
+type ColumnKind = 'text' | 'integer' | 'money' | 'percent' | 'decimal' | 'date' | 'boolean';
+
+interface Column {
+  header: string;
+  kind: ColumnKind;
+  width?: number;
+}
+
+interface Sheet {
+  name: string;
+  columns: Column[];
+  rows: CellValue[][];
+  rowMoney: (MoneySettings | undefined)[]; // currency of each row's money cells
+}
+
+const NUMBER_FORMATS: Partial<Record<ColumnKind, string>> = {
+  integer: '#,##0',
+  money: '#,##0.00',
+  percent: '0.00%',
+  decimal: '0.0000',
+  date: 'yyyy-mm-dd',
+};
+
+// ============================================================
+// SHEET BUILDERS
+// ============================================================
+
+// Comparisons across linked stores say which store each row is from
+function spansStores(groups: GroupMetrics[]): boolean {
+  return new Set(groups.map(g => g.shop)).size > 1;
+}
+
+function storeColumns(multiStore: boolean): Column[] {
+  return multiStore ? [{ header: 'Store', kind: 'text', width: 28 }] : [];
+}
+
+// Money cells are plain numbers; this column says what they are in
+const CURRENCY_COLUMN: Column = { header: 'Currency', kind: 'text', width: 10 };
+const REVENUE_BASIS_COLUMN: Column = { header: 'Revenue Basis', kind: 'text', width: 22 };
+const SEGMENT_COLUMN: Column = { header: 'Segment', kind: 'text', width: 36 };
+
+// New vs. returning figures, when the comparison was split by customer type
+function customerColumns(): Column[] {
+  return CUSTOMER_TYPES.flatMap(({ id }): Column[] => {
+    const prefix = id === 'new' ? 'New' : 'Returning';
+    return [
+      { header: `${prefix} Sessions`, kind: 'integer' },
+      { header: `${prefix} Orders`, kind: 'integer' },
+      { header: `${prefix} Revenue`, kind: 'money' },
+      { header: `${prefix} Revenue per Visitor`, kind: 'money' },
+      { header: `${prefix} Conversion Rate`, kind: 'percent' },
+      { header: `${prefix} AOV`, kind: 'money' },
+    ];
+  });
+}
+
+function customerCells(customers: CustomerSplit | undefined): CellValue[] {
+  return CUSTOMER_TYPES.flatMap(({ id }) => {
+    const metrics = customers?.[id];
+    return [
+      metrics?.sessions ?? null,
+      metrics?.orderCount ?? null,
+      metrics?.totalRevenue ?? null,
+      metrics?.revenuePerVisitor ?? null,
+      metrics ? metrics.conversionRate / 100 : null,
+      metrics?.aov ?? null,
+    ];
+  });
+}
+
+function currencyOf(group: GroupMetrics): string {
+  return (group.money ?? DEFAULT_MONEY).currency;
+}
+
+// One row per group. Conversion rate is written as a fraction (0.0312) so
+// spreadsheets treat it as a percentage rather than a number of percent.
+function buildSummarySheet(
+  groups: GroupMetrics[],
+  dateRange: DateRange,
+  { baselineIndex = 0, compareDateRange = null, revenueBasis = 'cart', segment = null }: SpreadsheetReportOptions
+): Sheet {
+  const baseline = groups[baselineIndex] ? baselineIndex : 0;
+  const hasPrevious = !!compareDateRange && groups.some(g => g.previous);
+  const hasCustomers = groups.some(g => g.customers);
+  const multiStore = spansStores(groups);
+
+  const columns: Column[] = [
+    { header: 'Group', kind: 'text', width: 28 },
+    ...storeColumns(multiStore),
+    { header: 'Baseline', kind: 'boolean' },
+    { header: 'Start Date', kind: 'date' },
+    { header: 'End Date', kind: 'date' },
+    { header: 'Sessions', kind: 'integer' },
+    { header: 'Orders', kind: 'integer' },
+    { header: 'Revenue', kind: 'money' },
+    { header: 'Revenue per Visitor', kind: 'money' },
+    { header: 'Conversion Rate', kind: 'percent' },
+    { header: 'AOV', kind: 'money' },
+    { header: 'Conversion Rate p-value', kind: 'decimal' },
+    // Approximate: the revenue tests assume the order-value spread
+    { header: 'Revenue per Visitor p-value (approx.)', kind: 'decimal' },
+    { header: 'AOV p-value (approx.)', kind: 'decimal' },
+  ];
+
+  if (hasPrevious) {
+    columns.push(
+      { header: 'Previous Start Date', kind: 'date' },
+      { header: 'Previous End Date', kind: 'date' },
+      { header: 'Previous Sessions', kind: 'integer' },
+      { header: 'Previous Orders', kind: 'integer' },
+      { header: 'Previous Revenue', kind: 'money' },
+      { header: 'Previous Revenue per Visitor', kind: 'money' },
+      { header: 'Previous Conversion Rate', kind: 'percent' },
+      { header: 'Previous AOV', kind: 'money' },
+    );
+  }
+
+  if (hasCustomers) columns.push(...customerColumns());
+
+  columns.push(
+    { header: 'Page Count', kind: 'integer' },
+    { header: 'URLs', kind: 'text', width: 60 },
+    CURRENCY_COLUMN,
+    REVENUE_BASIS_COLUMN,
+    SEGMENT_COLUMN,
+  );
+
+  const rows = groups.map((group, i) => {
+    const significance = groups.length > 1 && i !== baseline
+      ? compareToBaseline(groups[baseline], group)
+      : {};
+    // Revenue tests across currencies compare unlike amounts
+    const sameCurrency = currencyOf(groups[baseline]) === currencyOf(group);
+
+    const row: CellValue[] = [
+      group.name,
+      ...(multiStore ? [group.shop ?? null] : []),
+      groups.length > 1 && i === baseline,
+      toDate(dateRange.start),
+      toDate(dateRange.end),
+      group.sessions,
+      group.orderCount,
+      group.totalRevenue,
+      group.revenuePerVisitor,
+      group.conversionRate / 100,
+      group.aov,
+      significance.conversionRate?.pValue ?? null,
+      sameCurrency ? significance.revenuePerVisitor?.pValue ?? null : null,
+      sameCurrency ? significance.aov?.pValue ?? null : null,
+    ];
+
+    if (hasPrevious) {
+      const previous = group.previous;
+      row.push(
+        toDate(compareDateRange!.start),
+        toDate(compareDateRange!.end),
+        previous?.sessions ?? null,
+        previous?.orderCount ?? null,
+        previous?.totalRevenue ?? null,
+        previous?.revenuePerVisitor ?? null,
+        previous ? previous.conversionRate / 100 : null,
+        previous?.aov ?? null,
+      );
+    }
+
+    if (hasCustomers) row.push(...customerCells(group.customers));
+
+    row.push(
+      group.urls.length,
+      group.urls.join(' '),
+      currencyOf(group),
+      REVENUE_BASIS_LABELS[revenueBasis],
+      describeSegment(segment, { orders: revenueBasis !== 'cart' }),
+    );
+    return row;
+  });
+
+  return { name: 'Summary', columns, rows, rowMoney: groups.map(g => g.money) };
+}
+
+// One row per (group, page); a page in several groups is listed under each
+function buildPagesSheet(
+  groups: GroupMetrics[],
+  pages: PageMetrics[],
+  dateRange: DateRange,
+  { revenueBasis = 'cart', segment = null }: SpreadsheetReportOptions
+): Sheet {
+  const multiStore = spansStores(groups);
+  const hasCustomers = pages.some(p => p.customers);
+  const columns: Column[] = [
+    { header: 'Group', kind: 'text', width: 28 },
+    ...storeColumns(multiStore),
+    { header: 'URL', kind: 'text', width: 48 },
+    { header: 'Product', kind: 'text', width: 36 },
+    { header: 'Start Date', kind: 'date' },
+    { header: 'End Date', kind: 'date' },
+    { header: 'Sessions', kind: 'integer' },
+    { header: 'Orders', kind: 'integer' },
+    { header: 'Revenue', kind: 'money' },
+    { header: 'Revenue per Visitor', kind: 'money' },
+    { header: 'Conversion Rate', kind: 'percent' },
+    { header: 'AOV', kind: 'money' },
+    ...(hasCustomers ? customerColumns() : []),
+    { header: 'Match Mode', kind: 'text', width: 12 },
+    { header: 'Matched Paths', kind: 'text', width: 60 },
+    CURRENCY_COLUMN,
+    REVENUE_BASIS_COLUMN,
+    SEGMENT_COLUMN,
+  ];
+
+  const rows: CellValue[][] = [];
+  const rowMoney: (MoneySettings | undefined)[] = [];
+  for (const group of groups) {
+    for (const url of group.urls) {
+      const page = pages.find(p => p.url === url && (!group.shop || p.shop === group.shop));
+      if (!page) continue;
+
+      rows.push([
+        group.name,
+        ...(multiStore ? [group.shop ?? null] : []),
+        page.url,
+        page.productTitle,
+        toDate(dateRange.start),
+        toDate(dateRange.end),
+        page.sessions,
+        page.orderCount,
+        page.totalRevenue,
+        page.revenuePerVisitor,
+        page.conversionRate / 100,
+        page.aov,
+        ...(hasCustomers ? customerCells(page.customers) : []),
+        page.matchMode ?? null,
+        page.matchedPaths?.map(m => `${m.path} (${m.sessions})`).join(' ') ?? null,
+        currencyOf(group),
+        REVENUE_BASIS_LABELS[page.revenueBasis ?? revenueBasis],
+        describeSegment(segment, { orders: (page.revenueBasis ?? revenueBasis) !== 'cart' }),
+      ]);
+      rowMoney.push(group.money);
+    }
+  }
+
+  return { name: 'Pages', columns, rows, rowMoney };
+}
+
+// ============================================================
+// CSV
+// ============================================================
+
+// Group summary as CSV. Numbers are unformatted and dates are ISO (YYYY-MM-DD)
+// so they import as typed values.
+export function generateCsvReport(
+  groups: GroupMetrics[],
+  dateRange: DateRange,
+  options: SpreadsheetReportOptions = {}
+): string {
+  const sheet = buildSummarySheet(groups, dateRange, options);
+
+  const lines = [
+    sheet.columns.map(c => escapeCsv(c.header)).join(','),
+    ...sheet.rows.map(row => row.map(formatCsvCell).join(',')),
+  ];
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+function formatCsvCell(value: CellValue): string {
+  if (value === null) return '';
+  if (value instanceof Date) return value.toISOString().substring(0, 10);
+  if (typeof value === 'number') return String(Math.round(value * 1e6) / 1e6);
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return escapeCsv(value);
+}
+
+function escapeCsv(value: string): string {
+  // Guard against formula injection from user-entered group names
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// ============================================================
+// XLSX
+// ============================================================
+
+export async function generateXlsxReport(
+  groups: GroupMetrics[],
+  pages: PageMetrics[],
+  dateRange: DateRange,
+  options: SpreadsheetReportOptions = {}
+): Promise<ArrayBuffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'PupLabs Analytics';
+  workbook.created = new Date();
+
+  const sheets = [buildSummarySheet(groups, dateRange, options)];
+  if (pages.length > 0) {
+    sheets.push(buildPagesSheet(groups, pages, dateRange, options));
+  }
+
+  for (const sheet of sheets) {
+    const worksheet = workbook.addWorksheet(sheet.name, {
+      views: [{ state: 'frozen', ySplit: 1 }],
+    });
+
+    worksheet.columns = sheet.columns.map(column => ({
+      header: column.header,
+      width: column.width ?? Math.max(12, column.header.length + 2),
+      style: NUMBER_FORMATS[column.kind] ? { numFmt: NUMBER_FORMATS[column.kind] } : {},
+    }));
+    worksheet.getRow(1).font = { bold: true };
+
+    sheet.rows.forEach((row, i) => {
+      const added = worksheet.addRow(row);
+      // Symbol and decimal places of the row's store, e.g. "£"#,##0.00 or "¥"#,##0
+      const numFmt = spreadsheetMoneyFormat(sheet.rowMoney[i]);
+      sheet.columns.forEach((column, c) => {
+        if (column.kind === 'money') added.getCell(c + 1).numFmt = numFmt;
+      });
+    });
+
+    worksheet.autoFilter = {
+      from: { row: 1, column: 1 },
+      to: { row: 1, column: sheet.columns.length },
+    };
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return buffer as ArrayBuffer;
+}
+
+// Dates are calendar days in the shop's timezone; pin them to UTC midnight so
+// the cell shows the same day wherever the file is opened
+function toDate(isoDate: string): Date {
+  return new Date(`${isoDate}T00:00:00Z`);
+}
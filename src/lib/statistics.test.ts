@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compareToBaseline,
+  formatConfidenceInterval,
+  formatPValue,
+  normalCdf,
+  normalQuantile,
+  studentTCdf,
+  studentTQuantile,
+  twoProportionTest,
+  welchTest,
+} from './statistics';
+import { GroupMetrics } from '@/types';
+
+describe('normal distribution', () => {
+  it('matches standard normal table values', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 7);
+    expect(normalCdf(1)).toBeCloseTo(0.841345, 6);
+    expect(normalCdf(-1)).toBeCloseTo(0.158655, 6);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975002, 6);
+  });
+
+  it('inverts the CDF', () => {
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5);
+    expect(normalQuantile(0.8)).toBeCloseTo(0.841621, 5);
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 6);
+  });
+});
+
+describe("Student's t distribution", () => {
+  it('matches closed forms and t table values', () => {
+    expect(studentTCdf(0, 5)).toBeCloseTo(0.5, 10);
+    // One degree of freedom is the Cauchy distribution: F(1) = 3/4
+    expect(studentTCdf(1, 1)).toBeCloseTo(0.75, 8);
+    expect(studentTCdf(-2.228139, 10)).toBeCloseTo(0.025, 6);
+  });
+
+  it('gives the two-sided 95% critical values', () => {
+    expect(studentTQuantile(0.975, 1)).toBeCloseTo(12.7062, 3);
+    expect(studentTQuantile(0.975, 10)).toBeCloseTo(2.228139, 5);
+    expect(studentTQuantile(0.975, 30)).toBeCloseTo(2.042272, 5);
+  });
+
+  it('approaches the normal distribution with many degrees of freedom', () => {
+    expect(studentTQuantile(0.975, 100000)).toBeCloseTo(1.959964, 3);
+  });
+});
+
+describe('twoProportionTest', () => {
+  it('matches a pooled z-test without continuity correction', () => {
+    // 200/1000 vs 250/1000: z = 2.677, p = 0.0074
+    const result = twoProportionTest(200, 1000, 250, 1000)!;
+
+    expect(result.difference).toBeCloseTo(0.05, 10);
+    expect(result.pValue).toBeCloseTo(0.00742, 4);
+    expect(result.significant).toBe(true);
+    // Wald interval: 0.05 ± 1.96 × 0.018641
+    expect(result.ciLow).toBeCloseTo(0.013464, 5);
+    expect(result.ciHigh).toBeCloseTo(0.086536, 5);
+    expect(result.method).toBe('two-proportion');
+    expect(result.approximate).toBe(false);
+  });
+
+  it('is not significant when the rates are equal', () => {
+    const result = twoProportionTest(30, 1000, 60, 2000)!;
+
+    expect(result.difference).toBe(0);
+    expect(result.pValue).toBeCloseTo(1, 6);
+    expect(result.significant).toBe(false);
+  });
+
+  it('flags small samples as underpowered', () => {
+    expect(twoProportionTest(2, 100, 3, 100)!.underpowered).toBe(true);
+    expect(twoProportionTest(2000, 100000, 2300, 100000)!.underpowered).toBe(false);
+  });
+
+  it('returns p = 1 when neither group converted', () => {
+    const result = twoProportionTest(0, 500, 0, 500)!;
+
+    expect(result.pValue).toBe(1);
+    expect(result.underpowered).toBe(true);
+  });
+
+  it('needs trials on both sides', () => {
+    expect(twoProportionTest(0, 0, 5, 100)).toBeNull();
+  });
+});
+
+describe('welchTest', () => {
+  it("matches Welch's t-test with Welch–Satterthwaite degrees of freedom", () => {
+    // t = 2.084 on 19.98 df
+    const result = welchTest({ mean: 20, variance: 16, n: 10 }, { mean: 24, variance: 25, n: 12 })!;
+
+    expect(result.difference).toBe(4);
+    expect(result.pValue).toBeCloseTo(0.0502, 3);
+    expect(result.significant).toBe(false);
+    expect(result.ciLow).toBeCloseTo(4 - 2.086 * 1.9192, 2);
+    expect(result.ciHigh).toBeCloseTo(4 + 2.086 * 1.9192, 2);
+    expect(result.method).toBe('welch');
+  });
+
+  it('needs at least two observations on each side', () => {
+    expect(welchTest({ mean: 5, variance: 1, n: 1 }, { mean: 6, variance: 1, n: 50 })).toBeNull();
+  });
+
+  it('has nothing to test when neither sample has any spread (se = 0)', () => {
+    // A zero standard error would make any difference look certain
+    expect(welchTest({ mean: 40, variance: 0, n: 10 }, { mean: 40, variance: 0, n: 10 })).toBeNull();
+    expect(welchTest({ mean: 40, variance: 0, n: 10 }, { mean: 45, variance: 0, n: 10 })).toBeNull();
+  });
+});
+
+describe('compareToBaseline', () => {
+  const group = (overrides: Partial<GroupMetrics>): GroupMetrics => ({
+    name: 'Group',
+    urls: [],
+    sessions: 1000,
+    totalRevenue: 10000,
+    revenuePerVisitor: 10,
+    conversionRate: 20,
+    aov: 50,
+    orderCount: 200,
+    ...overrides,
+  });
+
+  it('reports conversion rate in percentage points', () => {
+    const results = compareToBaseline(group({}), group({ orderCount: 250, conversionRate: 25 }));
+
+    expect(results.conversionRate!.difference).toBeCloseTo(5, 10);
+    expect(results.conversionRate!.ciLow).toBeCloseTo(1.3464, 3);
+    expect(results.conversionRate!.pValue).toBeCloseTo(0.00742, 4);
+  });
+
+  it('marks the revenue tests as approximate, not the conversion rate', () => {
+    const results = compareToBaseline(group({}), group({ orderCount: 250, conversionRate: 25, revenuePerVisitor: 12.5 }));
+
+    expect(results.conversionRate!.approximate).toBe(false);
+    expect(results.revenuePerVisitor!.approximate).toBe(true);
+    expect(results.aov!.approximate).toBe(true);
+  });
+
+  it('skips tests a group has too little data for', () => {
+    const results = compareToBaseline(group({}), group({ sessions: 0, orderCount: 0, revenuePerVisitor: 0, aov: 0 }));
+
+    expect(results).toEqual({});
+  });
+});
+
+describe('formatting', () => {
+  it('shows tiny p-values as a bound', () => {
+    expect(formatPValue(0.0004)).toBe('p<0.001');
+    expect(formatPValue(0.0502)).toBe('p=0.050');
+  });
+
+  it('signs both ends of the interval', () => {
+    const result = twoProportionTest(200, 1000, 250, 1000)!;
+
+    expect(formatConfidenceInterval(result, (v) => `${(v * 100).toFixed(2)}pp`)).toBe('95% CI +1.35pp to +8.65pp');
+    expect(formatConfidenceInterval({ ...result, ciLow: -0.5, ciHigh: 0 }, (v) => v.toFixed(1))).toBe('95% CI -0.5 to 0.0');
+  });
+});
@@ -0,0 +1,296 @@
+import { GroupMetrics } from '@/types';
+
+// ============================================================
+// SIGNIFICANCE TESTS (group vs. baseline)
+// ============================================================
+// We only have aggregates per group (sessions, orders, revenue), not per-order
+// values, so the spread of order values is not observable. For the revenue
+// metrics we assume a coefficient of variation for order value (σ / mean) —
+// 1.0 is on the conservative side for typical carts, so intervals err wide.
+
+const ALPHA = 0.05;
+const TARGET_POWER = 0.8;
+const ORDER_VALUE_CV = 1.0;
+// A comparison is underpowered when it could not reliably (80% power) detect
+// a lift smaller than this fraction of the baseline value
+const MAX_RELATIVE_MDE = 0.5;
+
+export type TestedMetric = 'conversionRate' | 'revenuePerVisitor' | 'aov';
+
+export const TESTED_METRICS: TestedMetric[] = ['conversionRate', 'revenuePerVisitor', 'aov'];
+
+export interface SignificanceResult {
+  difference: number; // group − baseline, in the metric's units (CVR in % points)
+  ciLow: number; // 95% confidence interval of the difference
+  ciHigh: number;
+  pValue: number;
+  significant: boolean; // pValue < 0.05
+  minimumDetectableEffect: number; // smallest difference detectable with 80% power
+  underpowered: boolean; // MDE above 50% of the baseline value
+  method: 'two-proportion' | 'welch';
+  approximate: boolean; // spread assumed (ORDER_VALUE_CV) rather than observed
+}
+
+// Why the revenue tests are approximate, for labels beside their results
+export const ORDER_VALUE_ASSUMPTION =
+  `Approximate: assumes order values vary by ${ORDER_VALUE_CV * 100}% of AOV, as Shopify only reports totals`;
+
+export function compareToBaseline(
+  baseline: GroupMetrics,
+  group: GroupMetrics
+): Partial<Record<TestedMetric, SignificanceResult>> {
+  const results: Partial<Record<TestedMetric, SignificanceResult>> = {};
+
+  const cvr = twoProportionTest(baseline.orderCount, baseline.sessions, group.orderCount, group.sessions);
+  if (cvr) {
+    // Report conversion rate in percentage points to match GroupMetrics
+    results.conversionRate = {
+      ...cvr,
+      difference: cvr.difference * 100,
+      ciLow: cvr.ciLow * 100,
+      ciHigh: cvr.ciHigh * 100,
+      minimumDetectableEffect: cvr.minimumDetectableEffect * 100,
+    };
+  }
+
+  // Both revenue tests take their variance from ORDER_VALUE_CV
+  const rpv = welchTest(revenuePerVisitorSample(baseline), revenuePerVisitorSample(group));
+  if (rpv) results.revenuePerVisitor = { ...rpv, approximate: true };
+
+  const aov = welchTest(aovSample(baseline), aovSample(group));
+  if (aov) results.aov = { ...aov, approximate: true };
+
+  return results;
+}
+
+// Pooled two-proportion z-test for the p-value, unpooled (Wald) interval for the difference
+export function twoProportionTest(
+  successesA: number,
+  trialsA: number,
+  successesB: number,
+  trialsB: number
+): SignificanceResult | null {
+  if (trialsA <= 0 || trialsB <= 0) return null;
+
+  const pA = successesA / trialsA;
+  const pB = successesB / trialsB;
+  const pooled = (successesA + successesB) / (trialsA + trialsB);
+
+  const pooledSe = Math.sqrt(pooled * (1 - pooled) * (1 / trialsA + 1 / trialsB));
+  const se = Math.sqrt((pA * (1 - pA)) / trialsA + (pB * (1 - pB)) / trialsB);
+  const difference = pB - pA;
+
+  const z = pooledSe > 0 ? difference / pooledSe : 0;
+  const pValue = pooledSe > 0 ? 2 * (1 - normalCdf(Math.abs(z))) : 1;
+  const zCrit = normalQuantile(1 - ALPHA / 2);
+  const mde = minimumDetectableEffect(pooledSe, zCrit);
+
+  return {
+    difference,
+    ciLow: difference - zCrit * se,
+    ciHigh: difference + zCrit * se,
+    pValue,
+    significant: pValue < ALPHA,
+    minimumDetectableEffect: mde,
+    underpowered: mde > MAX_RELATIVE_MDE * pA || pooled === 0,
+    method: 'two-proportion',
+    approximate: false,
+  };
+}
+
+export interface SampleSummary {
+  mean: number;
+  variance: number; // per-observation variance
+  n: number;
+}
+
+// Welch's unequal-variance t-test with Welch–Satterthwaite degrees of freedom.
+// Null when there is nothing to test: too few observations, or no spread at
+// all (e.g. a zero AOV), where any difference would read as certain.
+export function welchTest(a: SampleSummary, b: SampleSummary): SignificanceResult | null {
+  if (a.n < 2 || b.n < 2) return null;
+
+  const varA = a.variance / a.n;
+  const varB = b.variance / b.n;
+  const se = Math.sqrt(varA + varB);
+  if (se === 0) return null;
+
+  const difference = b.mean - a.mean;
+
+  const df = (varA + varB) ** 2 / (varA ** 2 / (a.n - 1) + varB ** 2 / (b.n - 1));
+  const t = difference / se;
+  const pValue = 2 * (1 - studentTCdf(Math.abs(t), df));
+  const tCrit = studentTQuantile(1 - ALPHA / 2, df);
+  const mde = minimumDetectableEffect(se, tCrit);
+
+  return {
+    difference,
+    ciLow: difference - tCrit * se,
+    ciHigh: difference + tCrit * se,
+    pValue,
+    significant: pValue < ALPHA,
+    minimumDetectableEffect: mde,
+    underpowered: mde > MAX_RELATIVE_MDE * Math.abs(a.mean),
+    method: 'welch',
+    approximate: false,
+  };
+}
+
+// Revenue per session is 0 for non-converting sessions and ~order value otherwise:
+// Var = p·E[R²] − (p·μ)², with E[R²] = σ² + μ² and σ = CV·μ
+function revenuePerVisitorSample(group: GroupMetrics): SampleSummary {
+  const n = group.sessions;
+  const p = n > 0 ? group.orderCount / n : 0;
+  const mu = group.aov;
+  const secondMoment = (ORDER_VALUE_CV * mu) ** 2 + mu ** 2;
+
+  return {
+    mean: group.revenuePerVisitor,
+    variance: Math.max(0, p * secondMoment - (p * mu) ** 2),
+    n,
+  };
+}
+
+function aovSample(group: GroupMetrics): SampleSummary {
+  return {
+    mean: group.aov,
+    variance: (ORDER_VALUE_CV * group.aov) ** 2,
+    n: group.orderCount,
+  };
+}
+
+// Effect size a two-sided test at `crit` detects with TARGET_POWER probability
+function minimumDetectableEffect(se: number, crit: number): number {
+  return (crit + normalQuantile(TARGET_POWER)) * se;
+}
+
+// ============================================================
+// DISTRIBUTIONS
+// ============================================================
+
+export function normalCdf(x: number): number {
+  return 0.5 * (1 + erf(x / Math.SQRT2));
+}
+
+// Abramowitz & Stegun 7.1.26 (max error 1.5e-7)
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const ax = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * ax);
+  const y =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+      t *
+      Math.exp(-ax * ax);
+  return sign * y;
+}
+
+export function normalQuantile(p: number): number {
+  return bisect(x => normalCdf(x), p, -10, 10);
+}
+
+export function studentTCdf(t: number, df: number): number {
+  const x = df / (df + t * t);
+  const tail = 0.5 * regularizedIncompleteBeta(x, df / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+}
+
+export function studentTQuantile(p: number, df: number): number {
+  return bisect(x => studentTCdf(x, df), p, -1000, 1000);
+}
+
+function bisect(cdf: (x: number) => number, p: number, lo: number, hi: number): number {
+  for (let i = 0; i < 200 && hi - lo > 1e-9; i++) {
+    const mid = (lo + hi) / 2;
+    if (cdf(mid) < p) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+// I_x(a, b) via the continued fraction in Numerical Recipes §6.4
+function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(x, a, b)) / a;
+  }
+  return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const TINY = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+
+    if (Math.abs(delta - 1) < 3e-12) break;
+  }
+
+  return h;
+}
+
+// Lanczos approximation (g = 7, n = 9)
+function logGamma(z: number): number {
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61503916999185, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7,
+  ];
+
+  if (z < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * z)) - logGamma(1 - z);
+  }
+
+  const x = z - 1;
+  let sum = coefficients[0];
+  for (let i = 1; i < 9; i++) {
+    sum += coefficients[i] / (x + i);
+  }
+  const t = x + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+// ============================================================
+// FORMATTING
+// ============================================================
+
+export function formatPValue(pValue: number): string {
+  return pValue < 0.001 ? 'p<0.001' : `p=${pValue.toFixed(3)}`;
+}
+
+// "95% CI -0.16 to +3.16", with `formatAbs` rendering the unsigned magnitude
+export function formatConfidenceInterval(
+  result: SignificanceResult,
+  formatAbs: (value: number) => string
+): string {
+  const signed = (v: number) => `${v > 0 ? '+' : v < 0 ? '-' : ''}${formatAbs(Math.abs(v))}`;
+  return `95% CI ${signed(result.ciLow)} to ${signed(result.ciHigh)}`;
+}
@@ -0,0 +1,110 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+// app/uninstalled plus the three mandatory GDPR topics. The GDPR ones can't be
+// created through the API; they are set as the app's compliance webhook URL
+// (/api/webhooks) in the Partner Dashboard.
+export const COMPLIANCE_TOPICS = [
+  'app/uninstalled',
+  'customers/data_request',
+  'customers/redact',
+  'shop/redact',
+] as const;
+
+export type ComplianceTopic = (typeof COMPLIANCE_TOPICS)[number];
+
+export function isComplianceTopic(topic: string | null): topic is ComplianceTopic {
+  return COMPLIANCE_TOPICS.includes(topic as ComplianceTopic);
+}
+
+// ============================================================
+// HANDLERS
+// ============================================================
+
+// Everything stored for a shop hangs off its Shop row, so deleting the row
+// (cascading to sessions, cached queries, saved comparisons, report schedules
+// and product handles) removes the shop and its dead token in one go
+async function deleteShopData(shop: string): Promise<string> {
+  const { count } = await prisma.shop.deleteMany({ where: { domain: shop } });
+  return count > 0 ? 'Deleted shop and all of its stored data' : 'No stored data for this shop';
+}
+
+// The app keeps no customer records: analytics come from aggregated ShopifyQL
+// and the only emails stored are staff and report recipients
+async function noCustomerData(): Promise<string> {
+  return 'No customer data stored';
+}
+
+const HANDLERS: Record<ComplianceTopic, (shop: string) => Promise<string>> = {
+  'app/uninstalled': deleteShopData,
+  'shop/redact': deleteShopData,
+  'customers/data_request': noCustomerData,
+  'customers/redact': noCustomerData,
+};
+
+// ============================================================
+// DELIVERY LOG
+// ============================================================
+
+interface WebhookDeliveryInput {
+  webhookId: string;
+  topic: ComplianceTopic;
+  shop: string;
+  payload: Record<string, unknown>;
+}
+
+// Customer payloads carry names, emails and phone numbers; keep only the ids
+// needed to show which request was honoured
+function auditPayload(topic: ComplianceTopic, payload: Record<string, unknown>): Prisma.InputJsonObject {
+  const customer = payload.customer as { id?: number } | undefined;
+  const dataRequest = payload.data_request as { id?: number } | undefined;
+
+  switch (topic) {
+    case 'customers/data_request':
+      return {
+        customerId: customer?.id ?? null,
+        dataRequestId: dataRequest?.id ?? null,
+        ordersRequested: (payload.orders_requested as number[] | undefined) ?? [],
+      };
+    case 'customers/redact':
+      return {
+        customerId: customer?.id ?? null,
+        ordersToRedact: (payload.orders_to_redact as number[] | undefined) ?? [],
+      };
+    default:
+      return { shopId: (payload.shop_id ?? payload.id ?? null) as number | null };
+  }
+}
+
+// Record the delivery, run its handler once and store the outcome. Shopify
+// retries until it gets a 2xx, so a failure is rethrown for the route to turn
+// into a 500, and a retry of a processed delivery does nothing.
+export async function processComplianceWebhook({ webhookId, topic, shop, payload }: WebhookDeliveryInput): Promise<{
+  duplicate: boolean;
+  result?: string;
+}> {
+  const existing = await prisma.webhookDelivery.findUnique({ where: { webhookId } });
+  if (existing?.status === 'processed') return { duplicate: true };
+
+  if (!existing) {
+    await prisma.webhookDelivery.create({
+      data: { webhookId, topic, shopDomain: shop, payload: auditPayload(topic, payload) },
+    });
+  }
+
+  try {
+    const result = await HANDLERS[topic](shop);
+    await prisma.webhookDelivery.update({
+      where: { webhookId },
+      data: { status: 'processed', result, error: null, processedAt: new Date() },
+    });
+    console.log(`[Webhooks] ${topic} for ${shop}: ${result}`);
+    return { duplicate: false, result };
+  } catch (error) {
+    await prisma.webhookDelivery.update({
+      where: { webhookId },
+      data: { status: 'failed', error: error instanceof Error ? error.message : String(error) },
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EMBEDDED_HEADER, frameAncestors, isEmbeddedRequest } from '@/lib/embedded';
+
+// Page requests only: lets Shopify Admin frame the app, and tells the layout
+// when it is running embedded
+export function proxy(request: NextRequest) {
+  const { pathname, searchParams } = request.nextUrl;
+  const embedded = isEmbeddedRequest(searchParams);
+
+  // Admin opens the app URL; embedded, there is no connect step to show
+  if (embedded && pathname === '/') {
+    const dashboard = request.nextUrl.clone();
+    dashboard.pathname = '/dashboard';
+    return withFrameHeaders(NextResponse.redirect(dashboard), searchParams);
+  }
+
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.delete(EMBEDDED_HEADER);
+  if (embedded) requestHeaders.set(EMBEDDED_HEADER, '1');
+
+  return withFrameHeaders(NextResponse.next({ request: { headers: requestHeaders } }), searchParams);
+}
+
+function withFrameHeaders(response: NextResponse, searchParams: URLSearchParams): NextResponse {
+  response.headers.set('Content-Security-Policy', frameAncestors(searchParams.get('shop')));
+  return response;
+}
+
+export const config = {
+  matcher: ['/((?!api|_next/static|_next/image|favicon.ico).*)'],
+};
@@ -3,25 +3,122 @@ export interface ShopSession {
   accessToken: string;
 }
 
+// How a store shows amounts; see src/lib/money.ts
+export interface MoneySettings {
+  currency: string; // ISO 4217
+  moneyFormat?: string | null; // Shopify shop.money_format, e.g. `${{amount}}`
+  locale?: string | null; // Shopify shop.primary_locale
+}
+
 export interface DateRange {
   start: string; // ISO date string YYYY-MM-DD
   end: string;
 }
 
+export type CompareMode = 'none' | 'previous_period' | 'previous_year' | 'custom';
+
+// estimated: orders = sessions × CVR, revenue = orders × the product's store-wide AOV.
+// attributed: also sums the real orders whose customer journey landed on the page.
+export type RevenueMode = 'estimated' | 'attributed';
+
+// What counts as a page's revenue from an order that contains its product:
+// cart: the full order total (the default)
+// product: the product's own line items, price × quantity
+// product_with_accessories: the product's line items plus those of its
+//   complementary products (Shopify Search & Discovery) in the same order
+export type RevenueBasis = 'cart' | 'product' | 'product_with_accessories';
+
+export type DeviceType = 'desktop' | 'mobile' | 'tablet';
+export type ReferrerSource = 'direct' | 'search' | 'social' | 'email' | 'unknown';
+
+// Narrows sessions and sales to part of the traffic; every field set must match.
+// UTM values are compared as sent, country is an ISO 3166 alpha-2 code.
+export interface SegmentFilters {
+  deviceType?: DeviceType;
+  referrerSource?: ReferrerSource;
+  country?: string;
+  utmSource?: string;
+  utmMedium?: string;
+  utmCampaign?: string;
+}
+
+// Segment filters that only sessions and ShopifyQL sales can apply
+export type SessionOnlyFilter = 'deviceType' | 'referrerSource' | 'country';
+
+// Figures from orders attributed to a page's landing paths, beside the estimate
+export interface AttributedMetrics {
+  totalRevenue: number;
+  revenuePerVisitor: number;
+  conversionRate: number;
+  aov: number;
+  orderCount: number;
+}
+
+// new: first-time buyers (and visitors Shopify hasn't seen before); returning: repeat ones
+export type CustomerType = 'new' | 'returning';
+
+// A page's or group's figures for one customer type, over that type's own sessions and orders
+export interface CustomerTypeMetrics {
+  sessions: number;
+  totalRevenue: number;
+  revenuePerVisitor: number;
+  conversionRate: number;
+  aov: number;
+  orderCount: number;
+}
+
+export type CustomerSplit = Record<CustomerType, CustomerTypeMetrics>;
+
+// canonical folds trailing slashes, collection-scoped, locale-prefixed and
+// query-string variants of a landing path into one page; exact counts only the path itself
+export type PathMatchMode = 'canonical' | 'exact';
+
 export interface UrlGroup {
   name: string;
   urls: string[];
+  color?: string; // GROUP_COLORS id
+  exactUrls?: string[]; // subset of urls matched exactly; the rest are canonical
+  shop?: string; // linked store the pages are on; unset = the store signed in to
+}
+
+// A store on the signed-in account, for the store switcher and group editor
+export interface LinkedStore {
+  shop: string;
+  currency: string;
+  current: boolean;
+}
+
+export interface MatchedPath {
+  path: string; // raw landing_page_path as reported by Shopify
+  sessions: number;
+  orders: number;
+}
+
+export interface SavedComparison {
+  id: string;
+  name: string;
+  groups: UrlGroup[];
+  baselineIndex: number;
+  datePreset: string | null; // null = custom range, not restored on load
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface GroupMetrics {
   name: string;
   urls: string[];
+  color?: string;
   sessions: number;
   totalRevenue: number;
   revenuePerVisitor: number;
   conversionRate: number;
   aov: number;
   orderCount: number;
+  shop?: string;
+  money?: MoneySettings; // revenue is only comparable between groups in the same currency
+  previous?: GroupMetrics; // same group over the comparison period
+  attributed?: AttributedMetrics; // set in attributed revenue mode
+  customers?: CustomerSplit; // set when the new/returning split is asked for
 }
 
 export interface PageMetrics {
@@ -33,21 +130,158 @@ export interface PageMetrics {
   conversionRate: number;
   aov: number;
   orderCount: number;
+  matchMode?: PathMatchMode;
+  matchedPaths?: MatchedPath[]; // raw paths counted towards this page, most sessions first
+  shop?: string; // store the page was fetched from
+  attributed?: AttributedMetrics; // set in attributed revenue mode
+  customers?: CustomerSplit; // set when the new/returning split is asked for
+  revenueBasis?: RevenueBasis;
+}
+
+// A group's member page with its share of the group's totals
+export interface PageBreakdown extends PageMetrics {
+  sessionShare: number; // % of the group's sessions
+  revenueShare: number; // % of the group's revenue
+  revenueShortfall: number; // revenue below the group's revenue / visitor rate, 0 if at or above it
+  weakest: boolean; // the page with the largest shortfall, in groups of two or more pages
 }
 
 export interface ComparisonRequest {
   urls: string[];
   dateRange: DateRange;
+  compareTo?: DateRange; // period-over-period comparison range
+  exactUrls?: string[]; // urls to match exactly instead of canonically
+  stores?: StoreUrls[]; // pages on other linked stores
+  revenueMode?: RevenueMode; // defaults to estimated
+  revenueBasis?: RevenueBasis; // defaults to cart
+  segment?: SegmentFilters | null; // all traffic when unset
+  customerSplit?: boolean; // also split each page into new and returning customers
+}
+
+export interface StoreUrls {
+  shop: string;
+  urls: string[];
+  exactUrls?: string[];
 }
 
 export interface ComparisonResponse {
-  pages: PageMetrics[];
+  shop?: string; // store the top-level urls were fetched from
+  money?: Record<string, MoneySettings>; // money settings of every store in `pages`
+  pages: PageMetrics[]; // tagged with their store
+  dateRange: DateRange;
+  revenueMode?: RevenueMode;
+  revenueBasis?: RevenueBasis;
+  segment?: SegmentFilters | null;
+  customerSplit?: boolean;
+  // Segment filters the attributed or product-basis figures leave out, as
+  // orders don't record them; those figures cover all of that traffic
+  ordersUnsegmented?: SessionOnlyFilter[];
+  previous?: {
+    pages: PageMetrics[];
+    dateRange: DateRange;
+  };
+  truncated?: boolean; // Shopify returned more rows than we page through, so totals may be low
+  lastUpdated: string;
+}
+
+// Why a Shopify call failed, so the dashboard can say what to do about it
+export type ShopifyErrorCode =
+  | 'unauthorized'  // token revoked or app uninstalled
+  | 'missing_scope' // token lacks a scope the query needs
+  | 'throttled'     // still rate limited after retries
+  | 'parse_error'   // ShopifyQL rejected the query
+  | 'timeout'
+  | 'upstream';     // Shopify 5xx, unreachable, or another unexpected error
+
+// Error body returned by API routes; routes that query Shopify fill in the rest
+export interface ApiErrorBody {
+  error: string;
+  code?: ShopifyErrorCode;
+  action?: string; // what the merchant can do about it
+  details?: string[];
+  requiredScope?: string;
+  reconnectUrl?: string;
+}
+
+export type TrendGranularity = 'day' | 'week';
+
+export interface TrendPoint {
+  date: string; // bucket start, YYYY-MM-DD
+  sessions: number;
+  orderCount: number; // expected orders (sessions × CVR), not rounded
+  totalRevenue: number;
+}
+
+export interface PageTrend {
+  url: string;
+  productTitle: string;
+  points: TrendPoint[];
+}
+
+export interface TrendRequest {
+  urls: string[];
+  dateRange: DateRange;
+  granularity: TrendGranularity;
+  exactUrls?: string[];
+  revenueBasis?: RevenueBasis; // full cart when unset
+  segment?: SegmentFilters | null;
+}
+
+export interface TrendResponse {
+  pages: PageTrend[];
+  granularity: TrendGranularity;
   dateRange: DateRange;
+  revenueBasis?: RevenueBasis;
+  money?: MoneySettings;
+  truncated?: boolean;
   lastUpdated: string;
 }
 
+export interface GroupTrendPoint extends TrendPoint {
+  conversionRate: number;
+  revenuePerVisitor: number;
+}
+
+export interface GroupTrend {
+  name: string;
+  color?: string;
+  points: GroupTrendPoint[];
+}
+
+export type ExportFormat = 'pdf' | 'csv' | 'xlsx';
+
+export type ReportFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface ReportSchedule {
+  id: string;
+  comparisonId: string;
+  comparisonName: string;
+  frequency: ReportFrequency;
+  dayOfWeek: number | null; // 0 = Sunday
+  dayOfMonth: number | null;
+  hour: number; // shop timezone
+  datePreset: string;
+  compareMode: CompareMode;
+  recipients: string[];
+  enabled: boolean;
+  lastRunAt: string | null;
+  nextRunAt: string;
+  deliveries: ReportDelivery[];
+}
+
+export interface ReportDelivery {
+  id: string;
+  status: 'sent' | 'failed';
+  recipients: string[];
+  dateRange: DateRange;
+  error: string | null;
+  manual: boolean;
+  createdAt: string;
+}
+
 export interface ShopifyLineItem {
   product_id: number;
+  variant_id: number | null;
   title: string;
   variant_title: string;
   price: string;